@@ -0,0 +1,3 @@
+-- Trigram matching backs typo-tolerant search and lets GIN indexes serve
+-- leading-wildcard ILIKE queries
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
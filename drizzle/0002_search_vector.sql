@@ -0,0 +1,9 @@
+ALTER TABLE "advocates" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', first_name || ' ' || last_name), 'A') ||
+        setweight(jsonb_to_tsvector('english', specialties, '["string"]'), 'B') ||
+        setweight(to_tsvector('english', city), 'C') ||
+        setweight(to_tsvector('english', degree), 'D')) STORED;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_advocates_specialties_gin" ON "advocates" USING gin ("specialties");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_advocates_search_vector" ON "advocates" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_advocates_first_name_trgm" ON "advocates" USING gin ("first_name" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_advocates_last_name_trgm" ON "advocates" USING gin ("last_name" gin_trgm_ops);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_advocates_city_trgm" ON "advocates" USING gin ("city" gin_trgm_ops);
\ No newline at end of file
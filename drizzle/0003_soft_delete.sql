@@ -0,0 +1,2 @@
+ALTER TABLE "advocates" ADD COLUMN "updated_at" timestamp;--> statement-breakpoint
+ALTER TABLE "advocates" ADD COLUMN "deleted_at" timestamp;
\ No newline at end of file
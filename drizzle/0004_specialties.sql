@@ -0,0 +1,29 @@
+CREATE TABLE IF NOT EXISTS "advocate_specialties" (
+	"advocate_id" integer NOT NULL,
+	"specialty_id" integer NOT NULL,
+	CONSTRAINT "advocate_specialties_advocate_id_specialty_id_pk" PRIMARY KEY("advocate_id","specialty_id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "specialties" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"slug" text NOT NULL,
+	"name" text NOT NULL,
+	"category" text,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "advocate_specialties" ADD CONSTRAINT "advocate_specialties_advocate_id_advocates_id_fk" FOREIGN KEY ("advocate_id") REFERENCES "public"."advocates"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "advocate_specialties" ADD CONSTRAINT "advocate_specialties_specialty_id_specialties_id_fk" FOREIGN KEY ("specialty_id") REFERENCES "public"."specialties"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_advocate_specialties_specialty" ON "advocate_specialties" USING btree ("specialty_id");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_specialties_slug" ON "specialties" USING btree ("slug");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_specialties_name" ON "specialties" USING btree ("name");
\ No newline at end of file
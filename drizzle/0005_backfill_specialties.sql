@@ -0,0 +1,43 @@
+-- Canonical taxonomy (mirrors src/db/seed/taxonomy.ts at the time of this migration)
+INSERT INTO "specialties" ("slug", "name", "category") VALUES
+  ('bipolar', 'Bipolar', 'Mental health'),
+  ('lgbtq', 'LGBTQ', 'Identity & relationships'),
+  ('medication-prescribing', 'Medication/Prescribing', 'Clinical services'),
+  ('suicide-history-attempts', 'Suicide History/Attempts', 'Crisis & safety'),
+  ('general-mental-health-anxiety-depression-stress-grief-life-transitions', 'General Mental Health (anxiety, depression, stress, grief, life transitions)', 'Mental health'),
+  ('men-s-issues', 'Men''s issues', 'Identity & relationships'),
+  ('relationship-issues-family-friends-couple-etc', 'Relationship Issues (family, friends, couple, etc)', 'Identity & relationships'),
+  ('trauma-ptsd', 'Trauma & PTSD', 'Mental health'),
+  ('personality-disorders', 'Personality disorders', 'Mental health'),
+  ('personal-growth', 'Personal growth', 'Coaching & growth'),
+  ('substance-use-abuse', 'Substance use/abuse', 'Mental health'),
+  ('pediatrics', 'Pediatrics', 'Clinical services'),
+  ('women-s-issues-post-partum-infertility-family-planning', 'Women''s issues (post-partum, infertility, family planning)', 'Identity & relationships'),
+  ('chronic-pain', 'Chronic pain', 'Physical health & nutrition'),
+  ('weight-loss-nutrition', 'Weight loss & nutrition', 'Physical health & nutrition'),
+  ('eating-disorders', 'Eating disorders', 'Mental health'),
+  ('diabetic-diet-and-nutrition', 'Diabetic Diet and nutrition', 'Physical health & nutrition'),
+  ('coaching-leadership-career-academic-and-wellness', 'Coaching (leadership, career, academic and wellness)', 'Coaching & growth'),
+  ('life-coaching', 'Life coaching', 'Coaching & growth'),
+  ('obsessive-compulsive-disorders', 'Obsessive-compulsive disorders', 'Mental health'),
+  ('neuropsychological-evaluations-testing-adhd-testing', 'Neuropsychological evaluations & testing (ADHD testing)', 'Learning & attention'),
+  ('attention-and-hyperactivity-adhd', 'Attention and Hyperactivity (ADHD)', 'Learning & attention'),
+  ('sleep-issues', 'Sleep issues', 'Physical health & nutrition'),
+  ('schizophrenia-and-psychotic-disorders', 'Schizophrenia and psychotic disorders', 'Mental health'),
+  ('learning-disorders', 'Learning disorders', 'Learning & attention'),
+  ('domestic-abuse', 'Domestic abuse', 'Crisis & safety')
+ON CONFLICT DO NOTHING;
+--> statement-breakpoint
+-- Free-form values already stored on advocates become uncategorized entries,
+-- so no existing data is lost; they can be merged or renamed afterwards
+INSERT INTO "specialties" ("slug", "name")
+SELECT DISTINCT trim(both '-' from regexp_replace(lower(value), '[^a-z0-9]+', '-', 'g')), value
+FROM "advocates" CROSS JOIN LATERAL jsonb_array_elements_text("advocates"."specialties") AS value
+ON CONFLICT DO NOTHING;
+--> statement-breakpoint
+INSERT INTO "advocate_specialties" ("advocate_id", "specialty_id")
+SELECT "advocates"."id", "specialties"."id"
+FROM "advocates"
+CROSS JOIN LATERAL jsonb_array_elements_text("advocates"."specialties") AS value
+JOIN "specialties" ON "specialties"."name" = value
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,12 @@
+-- Repeated POST /api/seed calls inserted the same advocates many times.
+-- Keep the oldest row per natural key active and soft-delete the copies,
+-- so the unique index added next can be created without losing history.
+UPDATE "advocates"
+SET "deleted_at" = CURRENT_TIMESTAMP
+WHERE "deleted_at" IS NULL
+  AND "id" NOT IN (
+    SELECT min("id")
+    FROM "advocates"
+    WHERE "deleted_at" IS NULL
+    GROUP BY "first_name", "last_name", "phone_number"
+  );
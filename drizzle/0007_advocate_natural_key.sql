@@ -0,0 +1 @@
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_advocates_natural_key" ON "advocates" USING btree ("first_name","last_name","phone_number") WHERE deleted_at IS NULL;
\ No newline at end of file
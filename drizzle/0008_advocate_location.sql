@@ -0,0 +1,5 @@
+ALTER TABLE "advocates" ADD COLUMN "state" text;--> statement-breakpoint
+ALTER TABLE "advocates" ADD COLUMN "zip" text;--> statement-breakpoint
+ALTER TABLE "advocates" ADD COLUMN "latitude" double precision;--> statement-breakpoint
+ALTER TABLE "advocates" ADD COLUMN "longitude" double precision;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_advocates_location" ON "advocates" USING btree ("latitude","longitude");
\ No newline at end of file
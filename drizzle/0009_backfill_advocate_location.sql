@@ -0,0 +1,29 @@
+-- Place existing advocates at their city's centroid from the gazetteer
+-- (src/db/seed/gazetteer.ts at the time of this migration). ZIP stays null:
+-- it was never collected, and guessing one would present fabricated data.
+UPDATE "advocates"
+SET "state" = gazetteer.state, "latitude" = gazetteer.latitude, "longitude" = gazetteer.longitude
+FROM (VALUES
+  ('New York', 'NY', 40.7128, -74.006),
+  ('Los Angeles', 'CA', 34.0522, -118.2437),
+  ('Chicago', 'IL', 41.8781, -87.6298),
+  ('Houston', 'TX', 29.7604, -95.3698),
+  ('Phoenix', 'AZ', 33.4484, -112.074),
+  ('Philadelphia', 'PA', 39.9526, -75.1652),
+  ('San Antonio', 'TX', 29.4241, -98.4936),
+  ('San Diego', 'CA', 32.7157, -117.1611),
+  ('Dallas', 'TX', 32.7767, -96.797),
+  ('San Jose', 'CA', 37.3382, -121.8863),
+  ('Austin', 'TX', 30.2672, -97.7431),
+  ('Jacksonville', 'FL', 30.3322, -81.6557),
+  ('San Francisco', 'CA', 37.7749, -122.4194),
+  ('Columbus', 'OH', 39.9612, -82.9988),
+  ('Fort Worth', 'TX', 32.7555, -97.3308),
+  ('Seattle', 'WA', 47.6062, -122.3321),
+  ('Denver', 'CO', 39.7392, -104.9903),
+  ('Boston', 'MA', 42.3601, -71.0589),
+  ('Miami', 'FL', 25.7617, -80.1918),
+  ('Atlanta', 'GA', 33.749, -84.388)
+) AS gazetteer (city, state, latitude, longitude)
+WHERE lower("advocates"."city") = lower(gazetteer.city)
+  AND "advocates"."latitude" IS NULL;
@@ -0,0 +1,38 @@
+CREATE TABLE IF NOT EXISTS "availability_windows" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"advocate_id" integer NOT NULL,
+	"day_of_week" smallint NOT NULL,
+	"start_time" time NOT NULL,
+	"end_time" time NOT NULL,
+	"timezone" text NOT NULL,
+	"slot_minutes" integer DEFAULT 30 NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "bookings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"advocate_id" integer NOT NULL,
+	"starts_at" timestamp with time zone NOT NULL,
+	"ends_at" timestamp with time zone NOT NULL,
+	"status" text DEFAULT 'requested' NOT NULL,
+	"patient_name" text NOT NULL,
+	"patient_email" text NOT NULL,
+	"note" text,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"updated_at" timestamp
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "availability_windows" ADD CONSTRAINT "availability_windows_advocate_id_advocates_id_fk" FOREIGN KEY ("advocate_id") REFERENCES "public"."advocates"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "bookings" ADD CONSTRAINT "bookings_advocate_id_advocates_id_fk" FOREIGN KEY ("advocate_id") REFERENCES "public"."advocates"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_availability_windows_advocate" ON "availability_windows" USING btree ("advocate_id","day_of_week");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_bookings_active_slot" ON "bookings" USING btree ("advocate_id","starts_at") WHERE status <> 'cancelled';
\ No newline at end of file
@@ -0,0 +1,10 @@
+-- Convert stored phone numbers to E.164 text. Validation has only ever
+-- accepted 10-digit US numbers, so each gets the +1 country code; anything
+-- longer already carried a country code and just gains the "+".
+ALTER TABLE "advocates" ALTER COLUMN "phone_number" SET DATA TYPE text
+  USING CASE
+    WHEN "phone_number" < 10000000000 THEN '+1' || "phone_number"::text
+    ELSE '+' || "phone_number"::text
+  END;--> statement-breakpoint
+ALTER TABLE "advocates" ADD COLUMN "phone_extension" text;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_advocates_phone_number_trgm" ON "advocates" USING gin ("phone_number" gin_trgm_ops);
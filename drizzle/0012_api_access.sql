@@ -0,0 +1,48 @@
+CREATE TABLE IF NOT EXISTS "api_keys" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"prefix" text NOT NULL,
+	"key_hash" text NOT NULL,
+	"scopes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"last_used_at" timestamp,
+	"revoked_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "audit_log" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"occurred_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"actor" text NOT NULL,
+	"api_key_id" integer,
+	"action" text NOT NULL,
+	"method" text NOT NULL,
+	"path" text NOT NULL,
+	"status" integer NOT NULL,
+	"advocate_ids" jsonb DEFAULT '[]'::jsonb NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "audit_log" ADD CONSTRAINT "audit_log_api_key_id_api_keys_id_fk" FOREIGN KEY ("api_key_id") REFERENCES "public"."api_keys"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_api_keys_key_hash" ON "api_keys" USING btree ("key_hash");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_audit_log_occurred_at" ON "audit_log" USING btree ("occurred_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_audit_log_actor" ON "audit_log" USING btree ("actor");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_audit_log_advocate_ids_gin" ON "audit_log" USING gin ("advocate_ids");--> statement-breakpoint
+-- The audit log is append-only: rows can be inserted, but updates, deletes
+-- and truncation fail, so no code path can quietly rewrite history.
+CREATE OR REPLACE FUNCTION "audit_log_reject_change"() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+--> statement-breakpoint
+CREATE TRIGGER "audit_log_append_only"
+  BEFORE UPDATE OR DELETE ON "audit_log"
+  FOR EACH ROW EXECUTE FUNCTION "audit_log_reject_change"();
+--> statement-breakpoint
+CREATE TRIGGER "audit_log_no_truncate"
+  BEFORE TRUNCATE ON "audit_log"
+  FOR EACH STATEMENT EXECUTE FUNCTION "audit_log_reject_change"();
@@ -0,0 +1,52 @@
+CREATE TABLE IF NOT EXISTS "saved_searches" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"api_key_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"query" text DEFAULT '' NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"updated_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"last_viewed_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "shortlist_entries" (
+	"shortlist_id" integer NOT NULL,
+	"advocate_id" integer NOT NULL,
+	"note" text,
+	"added_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	CONSTRAINT "shortlist_entries_shortlist_id_advocate_id_pk" PRIMARY KEY("shortlist_id","advocate_id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "shortlists" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"api_key_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP,
+	"updated_at" timestamp DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "saved_searches" ADD CONSTRAINT "saved_searches_api_key_id_api_keys_id_fk" FOREIGN KEY ("api_key_id") REFERENCES "public"."api_keys"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "shortlist_entries" ADD CONSTRAINT "shortlist_entries_shortlist_id_shortlists_id_fk" FOREIGN KEY ("shortlist_id") REFERENCES "public"."shortlists"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "shortlist_entries" ADD CONSTRAINT "shortlist_entries_advocate_id_advocates_id_fk" FOREIGN KEY ("advocate_id") REFERENCES "public"."advocates"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "shortlists" ADD CONSTRAINT "shortlists_api_key_id_api_keys_id_fk" FOREIGN KEY ("api_key_id") REFERENCES "public"."api_keys"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_saved_searches_owner_name" ON "saved_searches" USING btree ("api_key_id","name");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_shortlists_owner_name" ON "shortlists" USING btree ("api_key_id","name");
\ No newline at end of file
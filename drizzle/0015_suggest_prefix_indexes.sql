@@ -0,0 +1,5 @@
+-- Prefix indexes for GET /api/advocates/suggest. text_pattern_ops lets a b-tree
+-- serve lower(col) LIKE 'prefix%' whatever the database collation.
+CREATE INDEX IF NOT EXISTS "idx_advocates_first_name_prefix" ON "advocates" USING btree (lower("first_name") text_pattern_ops);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_advocates_last_name_prefix" ON "advocates" USING btree (lower("last_name") text_pattern_ops);--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_advocates_city_prefix" ON "advocates" USING btree (lower("city") text_pattern_ops);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "advocates" ADD COLUMN "languages" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_advocates_languages_gin" ON "advocates" USING gin ("languages");
\ No newline at end of file
@@ -0,0 +1,47 @@
+CREATE TABLE IF NOT EXISTS "advocate_plans" (
+	"advocate_id" integer NOT NULL,
+	"plan_id" integer NOT NULL,
+	CONSTRAINT "advocate_plans_advocate_id_plan_id_pk" PRIMARY KEY("advocate_id","plan_id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "plans" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"slug" text NOT NULL,
+	"name" text NOT NULL,
+	"payer" text NOT NULL,
+	"type" text NOT NULL,
+	"created_at" timestamp DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "advocate_plans" ADD CONSTRAINT "advocate_plans_advocate_id_advocates_id_fk" FOREIGN KEY ("advocate_id") REFERENCES "public"."advocates"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "advocate_plans" ADD CONSTRAINT "advocate_plans_plan_id_plans_id_fk" FOREIGN KEY ("plan_id") REFERENCES "public"."plans"("id") ON DELETE restrict ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_advocate_plans_plan" ON "advocate_plans" USING btree ("plan_id");--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_plans_slug" ON "plans" USING btree ("slug");
+--> statement-breakpoint
+-- Payer catalog (mirrors src/db/seed/plans.ts at the time of this migration)
+INSERT INTO "plans" ("slug", "name", "payer", "type") VALUES
+  ('original-medicare', 'Original Medicare (Parts A & B)', 'Medicare', 'original_medicare'),
+  ('aarp-medicare-advantage', 'AARP Medicare Advantage', 'UnitedHealthcare', 'medicare_advantage'),
+  ('humana-gold-plus-hmo', 'Humana Gold Plus HMO', 'Humana', 'medicare_advantage'),
+  ('humana-choice-ppo', 'Humana Choice PPO', 'Humana', 'medicare_advantage'),
+  ('aetna-medicare-ppo', 'Aetna Medicare PPO', 'Aetna', 'medicare_advantage'),
+  ('kaiser-senior-advantage', 'Kaiser Permanente Senior Advantage', 'Kaiser Permanente', 'medicare_advantage'),
+  ('anthem-medicare-advantage', 'Anthem Medicare Advantage', 'Anthem', 'medicare_advantage'),
+  ('wellcare-medicare-advantage', 'Wellcare Medicare Advantage', 'Wellcare', 'medicare_advantage'),
+  ('medigap-plan-g', 'Medigap Plan G', 'Medicare Supplement', 'medigap'),
+  ('medigap-plan-n', 'Medigap Plan N', 'Medicare Supplement', 'medigap'),
+  ('medigap-plan-f', 'Medigap Plan F', 'Medicare Supplement', 'medigap'),
+  ('medicaid', 'Medicaid', 'State Medicaid', 'medicaid'),
+  ('unitedhealthcare-dual-complete', 'UnitedHealthcare Dual Complete', 'UnitedHealthcare', 'dual_eligible'),
+  ('humana-dual-snp', 'Humana Gold Plus SNP-DE', 'Humana', 'dual_eligible')
+ON CONFLICT DO NOTHING;
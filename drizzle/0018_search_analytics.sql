@@ -0,0 +1,31 @@
+CREATE TABLE IF NOT EXISTS "search_connects" (
+	"search_event_id" integer NOT NULL,
+	"advocate_id" integer NOT NULL,
+	"occurred_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "search_connects_search_event_id_advocate_id_pk" PRIMARY KEY("search_event_id","advocate_id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "search_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"occurred_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"source" text NOT NULL,
+	"query" text DEFAULT '' NOT NULL,
+	"filters" jsonb NOT NULL,
+	"result_count" integer NOT NULL,
+	"latency_ms" integer NOT NULL,
+	"page" integer
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "search_connects" ADD CONSTRAINT "search_connects_search_event_id_search_events_id_fk" FOREIGN KEY ("search_event_id") REFERENCES "public"."search_events"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "search_connects" ADD CONSTRAINT "search_connects_advocate_id_advocates_id_fk" FOREIGN KEY ("advocate_id") REFERENCES "public"."advocates"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_search_events_occurred_at" ON "search_events" USING btree ("occurred_at");
\ No newline at end of file
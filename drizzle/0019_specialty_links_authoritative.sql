@@ -0,0 +1,19 @@
+-- advocate_specialties becomes the only record of an advocate's specialties;
+-- the denormalized advocates.specialties copy is dropped
+ALTER TABLE "advocate_specialties" ADD COLUMN "position" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+-- Links written since 0005 already exist; take each one's position from the copy
+INSERT INTO "advocate_specialties" ("advocate_id", "specialty_id", "position")
+SELECT "advocates"."id", "specialties"."id", element.position - 1
+FROM "advocates"
+CROSS JOIN LATERAL jsonb_array_elements_text("advocates"."specialties") WITH ORDINALITY AS element(value, position)
+JOIN "specialties" ON "specialties"."name" = element.value
+ON CONFLICT ("advocate_id", "specialty_id") DO UPDATE SET "position" = excluded."position";--> statement-breakpoint
+DROP INDEX IF EXISTS "idx_advocates_specialties_gin";--> statement-breakpoint
+-- The generated document read the copy, so it is rebuilt without it; searches
+-- append the linked names instead
+ALTER TABLE "advocates" DROP COLUMN "search_vector";--> statement-breakpoint
+ALTER TABLE "advocates" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', first_name || ' ' || last_name), 'A') ||
+        setweight(to_tsvector('english', city), 'C') ||
+        setweight(to_tsvector('english', degree), 'D')) STORED;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_advocates_search_vector" ON "advocates" USING gin ("search_vector");--> statement-breakpoint
+ALTER TABLE "advocates" DROP COLUMN IF EXISTS "specialties";
@@ -0,0 +1 @@
+ALTER TABLE "bookings" ADD COLUMN "token_hash" text;
\ No newline at end of file
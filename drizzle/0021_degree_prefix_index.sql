@@ -0,0 +1,3 @@
+-- GET /api/advocates/suggest also completes degrees by prefix; 0015 indexed only
+-- names and cities.
+CREATE INDEX IF NOT EXISTS "idx_advocates_degree_prefix" ON "advocates" USING btree (lower("degree") text_pattern_ops);
@@ -0,0 +1,3 @@
+-- Keyword searches match specialty names apart from search_vector, so both
+-- sides of the OR can use an index.
+CREATE INDEX IF NOT EXISTS "idx_specialties_name_search" ON "specialties" USING gin (to_tsvector('english', "name"));
\ No newline at end of file
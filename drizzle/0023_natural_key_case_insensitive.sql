@@ -0,0 +1,14 @@
+-- naturalKey and findDuplicateAdvocate compare names without case; the index
+-- now does too, so the upsert's ON CONFLICT catches "ana ruiz" for "Ana Ruiz".
+-- Active rows that only differed by case are soft-deleted first, keeping the oldest.
+UPDATE "advocates" SET "deleted_at" = CURRENT_TIMESTAMP
+WHERE "deleted_at" IS NULL AND EXISTS (
+  SELECT 1 FROM "advocates" AS "kept"
+  WHERE "kept"."deleted_at" IS NULL
+    AND lower("kept"."first_name") = lower("advocates"."first_name")
+    AND lower("kept"."last_name") = lower("advocates"."last_name")
+    AND "kept"."phone_number" = "advocates"."phone_number"
+    AND "kept"."id" < "advocates"."id"
+);--> statement-breakpoint
+DROP INDEX IF EXISTS "idx_advocates_natural_key";--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_advocates_natural_key" ON "advocates" USING btree (lower("first_name"),lower("last_name"),"phone_number") WHERE deleted_at IS NULL;
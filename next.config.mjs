@@ -1,4 +1,10 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  // /api/v1 is served by the current handlers; a breaking change gets its own
+  // routes under /api/v2 while v1 clients keep working
+  async rewrites() {
+    return [{ source: "/api/v1/:path*", destination: "/api/:path*" }];
+  },
+};
 
 export default nextConfig;
@@ -0,0 +1,96 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { findAdvocateById } from "../../../../../../db/queries/advocates";
+import { listApiKeys } from "../../../../../../db/queries/apiKeys";
+import { listAuditEntries } from "../../../../../../db/queries/audit";
+import { parseId } from "../../../../../../lib/routeParams";
+
+export const dynamic = "force-dynamic";
+
+// Reads are logged too, but the history shows changes
+const HISTORY_LIMIT = 200;
+
+interface HistoryPageProps {
+  params: { id: string };
+}
+
+const formatValue = (value: unknown) => (typeof value === "string" ? value : JSON.stringify(value));
+
+/**
+ * Who changed an advocate, when and how, from the audit log. Deactivated
+ * advocates keep their history, so the page works for them too.
+ */
+export default async function AdvocateHistoryPage({ params }: HistoryPageProps) {
+  const id = parseId(params.id);
+  if (id === null) notFound();
+
+  const [advocate, { data: entries }, keys] = await Promise.all([
+    findAdvocateById(id),
+    listAuditEntries({ advocateId: id, limit: HISTORY_LIMIT }),
+    listApiKeys(),
+  ]);
+  const keyNames = new Map(keys.map((key) => [`key:${key.id}`, key.name]));
+  const changes = entries.filter((entry) => entry.action !== "read");
+
+  return (
+    <div>
+      <Link href="/admin" className="text-sm text-amber-700 hover:text-amber-800">
+        ← Advocates
+      </Link>
+      <h1 className="mt-2 mb-4 text-2xl font-serif font-bold text-gray-900">
+        {advocate ? `${advocate.firstName} ${advocate.lastName}` : `Advocate ${id}`}
+        <span className="ml-3 text-base font-sans font-normal text-gray-500">
+          {advocate ? "History" : "History (deactivated)"}
+        </span>
+      </h1>
+
+      {changes.length === 0 ? (
+        <p className="text-gray-600">No recorded changes.</p>
+      ) : (
+        <div className="overflow-x-auto bg-white border border-gray-200 rounded-lg">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-left text-xs uppercase tracking-wide text-gray-600">
+              <tr>
+                <th className="px-3 py-2 font-medium">When</th>
+                <th className="px-3 py-2 font-medium">Who</th>
+                <th className="px-3 py-2 font-medium">Action</th>
+                <th className="px-3 py-2 font-medium">Request</th>
+                <th className="px-3 py-2 font-medium">Changes</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {changes.map((entry) => (
+                <tr key={entry.id} className="align-top">
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                    {new Date(entry.occurredAt).toLocaleString()}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap">{keyNames.get(entry.actor) ?? entry.actor}</td>
+                  <td className="px-3 py-2">{entry.action}</td>
+                  <td className="px-3 py-2 font-mono text-xs text-gray-600">
+                    {entry.method} {entry.path}
+                  </td>
+                  <td className="px-3 py-2">
+                    {entry.changes ? (
+                      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+                        {Object.entries(entry.changes)
+                          .filter(([field]) => field !== "ids")
+                          .map(([field, value]) => (
+                            <div key={field} className="contents">
+                              <dt className="text-gray-500">{field}</dt>
+                              <dd className="text-gray-900 break-all">{formatValue(value)}</dd>
+                            </div>
+                          ))}
+                      </dl>
+                    ) : (
+                      <span className="text-gray-400">—</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
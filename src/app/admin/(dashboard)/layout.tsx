@@ -0,0 +1,51 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { SignOutButton } from "../../../components/admin/SignOutButton";
+import { getStaffSession } from "../../../lib/staffSession";
+
+export const metadata: Metadata = {
+  title: "Directory admin",
+  robots: { index: false },
+};
+
+/**
+ * Gates every /admin page behind a staff session. Data changes go through the
+ * API with the same session, so they are scope-checked and audited like any
+ * other client's.
+ */
+export default async function AdminLayout({ children }: { children: React.ReactNode }) {
+  const staff = await getStaffSession();
+  if (!staff) redirect("/admin/login");
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-white border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 py-3 flex items-center gap-6">
+          <Link href="/admin" className="font-serif text-lg font-bold text-gray-900">
+            Directory admin
+          </Link>
+          <nav className="flex gap-4 text-sm">
+            <Link href="/admin" className="text-gray-700 hover:text-amber-700">
+              Advocates
+            </Link>
+            <Link href="/admin/searches" className="text-gray-700 hover:text-amber-700">
+              Saved searches
+            </Link>
+            <Link href="/admin/shortlists" className="text-gray-700 hover:text-amber-700">
+              Shortlists
+            </Link>
+            <Link href="/admin/specialties" className="text-gray-700 hover:text-amber-700">
+              Specialties
+            </Link>
+          </nav>
+          <div className="ml-auto flex items-center gap-4">
+            <span className="text-sm text-gray-500">{staff.name}</span>
+            <SignOutButton />
+          </div>
+        </div>
+      </header>
+      <main className="max-w-7xl mx-auto px-4 py-6">{children}</main>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { runAdvocateSearch } from "../../../db/queries/advocates";
+import { listShortlists } from "../../../db/queries/shortlists";
+import { listSpecialties } from "../../../db/queries/specialties";
+import { degrees } from "../../../db/seed/taxonomy";
+import { AdvocateTable } from "../../../components/admin/AdvocateTable";
+import type { ValidationIssue } from "../../../lib/advocateFilters";
+import { parseAdvocateQuery } from "../../../lib/contractValidation";
+import { toSearchParams } from "../../../lib/routeParams";
+import { toJson, type Json } from "../../../lib/schema";
+import { getStaffSession } from "../../../lib/staffSession";
+import type { AdvocateSearchResponse } from "../../../types/advocate";
+import type { Shortlist } from "../../../types/shortlist";
+
+export const dynamic = "force-dynamic";
+
+// Staff scan many rows at once; the public page shows 20
+const ADMIN_PAGE_SIZE = "50";
+
+interface AdminPageProps {
+  searchParams: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * Advocate table for staff, driven by the same query parameters and search
+ * function as GET /api/advocates. Re-running a saved search adds `newSince`,
+ * which GET /api/advocates ignores, to mark the advocates added since.
+ */
+export default async function AdminAdvocatesPage({ searchParams }: AdminPageProps) {
+  const params = toSearchParams(searchParams);
+  if (!params.has("limit")) params.set("limit", ADMIN_PAGE_SIZE);
+  const parsed = parseAdvocateQuery(params);
+  const issues: ValidationIssue[] = parsed.success ? [] : parsed.issues;
+  const query = parsed.success ? parsed : parseAdvocateQuery(new URLSearchParams({ limit: ADMIN_PAGE_SIZE }));
+
+  const newSinceRaw = params.get("newSince");
+  const newSince = newSinceRaw && !Number.isNaN(Date.parse(newSinceRaw)) ? newSinceRaw : undefined;
+
+  let response: Json<AdvocateSearchResponse> | null = null;
+  let specialties: string[] = [];
+  let shortlists: Json<Shortlist>[] = [];
+  try {
+    if (query.success) {
+      response = toJson(await runAdvocateSearch(query.data));
+    }
+    specialties = (await listSpecialties()).map((specialty) => specialty.name);
+    const staff = await getStaffSession();
+    if (staff) shortlists = toJson(await listShortlists(staff.id));
+  } catch (error) {
+    console.error("Error fetching advocates:", error);
+  }
+
+  return (
+    <AdvocateTable
+      queryString={params.toString()}
+      response={response}
+      issues={issues}
+      degrees={degrees}
+      specialties={specialties}
+      shortlists={shortlists}
+      newSince={newSince}
+    />
+  );
+}
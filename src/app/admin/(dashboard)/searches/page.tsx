@@ -0,0 +1,15 @@
+import { redirect } from "next/navigation";
+import { listSavedSearches } from "../../../../db/queries/savedSearches";
+import { SavedSearchList } from "../../../../components/admin/SavedSearchList";
+import { toJson } from "../../../../lib/schema";
+import { getStaffSession } from "../../../../lib/staffSession";
+
+export const dynamic = "force-dynamic";
+
+/** The signed-in staff member's saved searches; changes go through /api/saved-searches. */
+export default async function SavedSearchesPage() {
+  const staff = await getStaffSession();
+  if (!staff) redirect("/admin/login");
+
+  return <SavedSearchList savedSearches={toJson(await listSavedSearches(staff.id))} />;
+}
@@ -0,0 +1,26 @@
+import { notFound, redirect } from "next/navigation";
+import { findShortlistWithEntries } from "../../../../../db/queries/shortlists";
+import { ShortlistDetail } from "../../../../../components/admin/ShortlistDetail";
+import { parseId } from "../../../../../lib/routeParams";
+import { toJson } from "../../../../../lib/schema";
+import { getStaffSession } from "../../../../../lib/staffSession";
+
+export const dynamic = "force-dynamic";
+
+interface ShortlistPageProps {
+  params: { id: string };
+}
+
+/** One shortlist's advocates and notes; other staff members' shortlists are a 404. */
+export default async function ShortlistPage({ params }: ShortlistPageProps) {
+  const staff = await getStaffSession();
+  if (!staff) redirect("/admin/login");
+
+  const id = parseId(params.id);
+  if (id === null) notFound();
+
+  const shortlist = await findShortlistWithEntries(id, staff.id);
+  if (!shortlist) notFound();
+
+  return <ShortlistDetail shortlist={toJson(shortlist)} />;
+}
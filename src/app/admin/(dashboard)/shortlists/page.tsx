@@ -0,0 +1,15 @@
+import { redirect } from "next/navigation";
+import { listShortlists } from "../../../../db/queries/shortlists";
+import { ShortlistList } from "../../../../components/admin/ShortlistList";
+import { toJson } from "../../../../lib/schema";
+import { getStaffSession } from "../../../../lib/staffSession";
+
+export const dynamic = "force-dynamic";
+
+/** The signed-in staff member's shortlists; changes go through /api/shortlists. */
+export default async function ShortlistsPage() {
+  const staff = await getStaffSession();
+  if (!staff) redirect("/admin/login");
+
+  return <ShortlistList shortlists={toJson(await listShortlists(staff.id))} />;
+}
@@ -0,0 +1,11 @@
+import { listSpecialties } from "../../../../db/queries/specialties";
+import { SpecialtyEditor } from "../../../../components/admin/SpecialtyEditor";
+
+export const dynamic = "force-dynamic";
+
+/** Specialty taxonomy editor; changes go through /api/specialties. */
+export default async function AdminSpecialtiesPage() {
+  const specialties = await listSpecialties();
+
+  return <SpecialtyEditor specialties={specialties} />;
+}
@@ -0,0 +1,21 @@
+import { redirect } from "next/navigation";
+import { AdminLogin } from "../../../components/admin/AdminLogin";
+import { getStaffSession } from "../../../lib/staffSession";
+
+export const dynamic = "force-dynamic";
+
+export default async function AdminLoginPage() {
+  if (await getStaffSession()) redirect("/admin");
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-white to-gray-50 py-24 px-4">
+      <div className="max-w-md mx-auto bg-white rounded-2xl shadow-md p-8 border border-gray-100">
+        <h1 className="text-3xl font-serif font-bold text-gray-900 mb-2">Staff sign-in</h1>
+        <p className="text-sm text-gray-600 mb-6">
+          Sign in with your personal API key. It needs the staff or admin scope.
+        </p>
+        <AdminLogin />
+      </div>
+    </main>
+  );
+}
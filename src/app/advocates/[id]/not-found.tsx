@@ -0,0 +1,16 @@
+import Link from "next/link";
+
+export default function AdvocateNotFound() {
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-white to-gray-50 py-24 px-4 text-center">
+      <h1 className="text-4xl font-serif font-bold text-gray-900 mb-4">Advocate not found</h1>
+      <p className="text-gray-600 mb-8">This advocate may have left the directory, or the link is incorrect.</p>
+      <Link
+        href="/"
+        className="px-6 py-3 bg-amber-500 hover:bg-amber-600 text-white font-medium rounded-full transition-colors shadow-sm"
+      >
+        Browse advocates
+      </Link>
+    </main>
+  );
+}
@@ -0,0 +1,186 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { findAdvocateById, findSimilarAdvocates } from "../../../db/queries/advocates";
+import { listAdvocateSpecialties } from "../../../db/queries/specialties";
+import { BookButton } from "../../../components/BookButton";
+import { formatPhoneNumber, phoneUri } from "../../../lib/phone";
+import { groupPlansByType } from "../../../lib/plans";
+import { parseId } from "../../../lib/routeParams";
+import type { Specialty } from "../../../types/specialty";
+
+// Profiles change through the API; always render from the current row
+export const dynamic = "force-dynamic";
+
+interface PageProps {
+  params: { id: string };
+}
+
+/** Loads an active advocate, or renders the 404 page for unknown, deleted or malformed ids. */
+async function loadAdvocate(rawId: string) {
+  const id = parseId(rawId);
+  const advocate = id === null ? null : await findAdvocateById(id, ["languages", "plans"]);
+  if (!advocate || id === null) notFound();
+  return { ...advocate, id };
+}
+
+/** Groups specialties by category; uncategorized ones are listed last as "Other". */
+function groupByCategory(specialties: Specialty[]): [string, Specialty[]][] {
+  const groups = new Map<string, Specialty[]>();
+  for (const specialty of specialties) {
+    const category = specialty.category ?? "Other";
+    groups.set(category, [...(groups.get(category) ?? []), specialty]);
+  }
+  return Array.from(groups.entries());
+}
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const advocate = await loadAdvocate(params.id);
+  return {
+    title: `${advocate.firstName} ${advocate.lastName}, ${advocate.degree} | Find Your Advocate`,
+    description: `${advocate.degree} in ${advocate.city} with ${advocate.yearsOfExperience} years of experience.`,
+  };
+}
+
+export default async function AdvocatePage({ params }: PageProps) {
+  const advocate = await loadAdvocate(params.id);
+  const [specialties, similar] = await Promise.all([
+    listAdvocateSpecialties(advocate.id),
+    findSimilarAdvocates(advocate),
+  ]);
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-white to-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-4xl mx-auto">
+        <Link href="/" className="text-sm font-medium text-amber-700 hover:text-amber-800">
+          ← All advocates
+        </Link>
+
+        {/* Profile */}
+        <section className="mt-6 bg-white rounded-2xl shadow-md p-8 border border-gray-100">
+          <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start gap-6">
+            <div>
+              <h1 className="text-4xl font-serif font-bold text-gray-900 mb-2">
+                {advocate.firstName} {advocate.lastName}
+              </h1>
+              <span className="px-3 py-1 bg-emerald-50 text-emerald-700 text-xs font-medium rounded-full">
+                {advocate.degree}
+              </span>
+            </div>
+            <BookButton
+              advocate={{ id: advocate.id, firstName: advocate.firstName, lastName: advocate.lastName }}
+            />
+          </div>
+
+          <dl className="mt-8 grid grid-cols-1 sm:grid-cols-3 gap-6">
+            <div>
+              <dt className="text-sm text-gray-500">Location</dt>
+              <dd className="text-gray-900 font-medium">
+                {advocate.state ? `${advocate.city}, ${advocate.state}` : advocate.city}
+                {advocate.zip && ` ${advocate.zip}`}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-sm text-gray-500">Experience</dt>
+              <dd className="text-gray-900 font-medium">{advocate.yearsOfExperience} years</dd>
+            </div>
+            <div>
+              <dt className="text-sm text-gray-500">Phone</dt>
+              <dd className="text-gray-900 font-medium">
+                <a href={phoneUri(advocate.phoneNumber, advocate.phoneExtension)} className="hover:text-amber-700">
+                  {formatPhoneNumber(advocate.phoneNumber, advocate.phoneExtension)}
+                </a>
+              </dd>
+            </div>
+            {advocate.languages && advocate.languages.length > 0 && (
+              <div>
+                <dt className="text-sm text-gray-500">Languages</dt>
+                <dd className="text-gray-900 font-medium">
+                  {advocate.languages
+                    .map(({ language, proficiency }) => (proficiency === "native" ? language : `${language} (${proficiency})`))
+                    .join(", ")}
+                </dd>
+              </div>
+            )}
+          </dl>
+        </section>
+
+        {/* Specialties */}
+        {specialties.length > 0 && (
+          <section className="mt-8 bg-white rounded-2xl shadow-md p-8 border border-gray-100">
+            <h2 className="text-2xl font-serif font-bold text-gray-900 mb-6">Specialties</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+              {groupByCategory(specialties).map(([category, items]) => (
+                <div key={category}>
+                  <h3 className="text-sm font-semibold text-gray-900 mb-2">{category}</h3>
+                  <div className="flex flex-wrap gap-2">
+                    {items.map((specialty) => (
+                      <span key={specialty.id} className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded-md">
+                        {specialty.name}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {/* Coverage */}
+        <section className="mt-8 bg-white rounded-2xl shadow-md p-8 border border-gray-100">
+          <h2 className="text-2xl font-serif font-bold text-gray-900 mb-6">Coverage</h2>
+          {advocate.plans && advocate.plans.length > 0 ? (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+              {groupPlansByType(advocate.plans).map((group) => (
+                <div key={group.type}>
+                  <h3 className="text-sm font-semibold text-gray-900 mb-2">{group.label}</h3>
+                  <ul className="space-y-1 text-sm text-gray-700">
+                    {group.plans.map((plan) => (
+                      <li key={plan.id}>
+                        {plan.name}
+                        {plan.payer !== plan.name && <span className="text-gray-500"> · {plan.payer}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">
+              No accepted plans on file yet. Call the advocate to confirm coverage.
+            </p>
+          )}
+        </section>
+
+        {/* Similar advocates */}
+        {similar.length > 0 && (
+          <section className="mt-8">
+            <h2 className="text-2xl font-serif font-bold text-gray-900 mb-4">Similar advocates</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              {similar.map((other) => (
+                <Link
+                  key={other.id}
+                  href={`/advocates/${other.id}`}
+                  className="block bg-white rounded-2xl shadow-md hover:shadow-xl transition-shadow p-5 border border-gray-100"
+                >
+                  <p className="text-lg font-semibold text-gray-900">
+                    {other.firstName} {other.lastName}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {other.degree} · {other.city} · {other.yearsOfExperience} years
+                  </p>
+                  <p className="mt-2 text-xs text-gray-500">
+                    {other.sharedSpecialties > 0 &&
+                      `${other.sharedSpecialties} shared ${other.sharedSpecialties === 1 ? "specialty" : "specialties"}`}
+                    {other.sharedSpecialties > 0 && other.city === advocate.city && " · "}
+                    {other.city === advocate.city && "Same city"}
+                  </p>
+                </Link>
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,66 @@
+import { findAdvocateById } from "../../../../../db/queries/advocates";
+import { listAvailability, replaceAvailability } from "../../../../../db/queries/bookings";
+import { withApiAccess } from "../../../../../lib/apiAccess";
+import { parseAvailabilityInput } from "../../../../../lib/bookingValidation";
+import { invalidId, parseId } from "../../../../../lib/routeParams";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const notFound = () => Response.json({ error: "Advocate not found" }, { status: 404 });
+
+async function getAvailability(_request: Request, { params }: RouteContext): Promise<Response> {
+  const id = parseId(params.id);
+  if (id === null) return invalidId("advocate");
+
+  try {
+    if (!(await findAdvocateById(id))) return notFound();
+
+    const windows = await listAvailability(id);
+    return Response.json({ data: windows });
+  } catch (error) {
+    console.error("Error fetching availability:", error);
+    return Response.json(
+      { error: "Failed to fetch availability" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Replaces the advocate's weekly schedule:
+ * `{ timezone, slotMinutes?, windows: [{ dayOfWeek, startTime, endTime }] }`.
+ */
+async function putAvailability(request: Request, { params }: RouteContext): Promise<Response> {
+  const id = parseId(params.id);
+  if (id === null) return invalidId("advocate");
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const parsed = parseAvailabilityInput(body);
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid availability", issues: parsed.issues }, { status: 400 });
+  }
+
+  try {
+    if (!(await findAdvocateById(id))) return notFound();
+
+    const windows = await replaceAvailability(id, parsed.data);
+    return Response.json({ data: windows });
+  } catch (error) {
+    console.error("Error updating availability:", error);
+    return Response.json(
+      { error: "Failed to update availability" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withApiAccess(getAvailability);
+export const PUT = withApiAccess(putAvailability, { scope: "write", audit: "update" });
@@ -0,0 +1,65 @@
+import { findAdvocateById } from "../../../../../db/queries/advocates";
+import { createBooking, listAvailability } from "../../../../../db/queries/bookings";
+import { withApiAccess } from "../../../../../lib/apiAccess";
+import { advocatesApi } from "../../../../../lib/apiContract";
+import { findSlot } from "../../../../../lib/availability";
+import { parseBookingRequest } from "../../../../../lib/bookingValidation";
+import { invalidId, parseId } from "../../../../../lib/routeParams";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * Requests a slot: `{ startsAt, patientName, patientEmail, note? }`.
+ * The booking starts as "requested"; 409 means the slot was taken meanwhile.
+ * The response carries the patient's `token` for the booking, shown only once.
+ */
+async function postBooking(request: Request, { params }: RouteContext): Promise<Response> {
+  const id = parseId(params.id);
+  if (id === null) return invalidId("advocate");
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const parsed = parseBookingRequest(body);
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid booking", issues: parsed.issues }, { status: 400 });
+  }
+
+  try {
+    if (!(await findAdvocateById(id))) {
+      return Response.json({ error: "Advocate not found" }, { status: 404 });
+    }
+
+    const slot = findSlot(await listAvailability(id), parsed.data.startsAt);
+    if (!slot || parsed.data.startsAt.getTime() <= Date.now()) {
+      return Response.json(
+        {
+          error: "Invalid booking",
+          issues: [{ field: "startsAt", message: "startsAt is not an open slot for this advocate" }],
+        },
+        { status: 400 }
+      );
+    }
+
+    const created = await createBooking(id, parsed.data, slot);
+    if (!created) {
+      return Response.json({ error: "This slot has already been booked" }, { status: 409 });
+    }
+
+    return Response.json(created, { status: 201 });
+  } catch (error) {
+    console.error("Error creating booking:", error);
+    return Response.json(
+      { error: "Failed to create booking" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withApiAccess(postBooking, { endpoint: advocatesApi.createBooking });
@@ -0,0 +1,74 @@
+import { findAdvocateById } from "../../../../../db/queries/advocates";
+import { findPlansForAdvocates, replaceAdvocatePlans, resolvePlans } from "../../../../../db/queries/plans";
+import { withApiAccess } from "../../../../../lib/apiAccess";
+import { parsePlanSelection } from "../../../../../lib/planValidation";
+import { invalidId, parseId } from "../../../../../lib/routeParams";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const notFound = () => Response.json({ error: "Advocate not found" }, { status: 404 });
+
+async function getPlans(_request: Request, { params }: RouteContext): Promise<Response> {
+  const id = parseId(params.id);
+  if (id === null) return invalidId("advocate");
+
+  try {
+    if (!(await findAdvocateById(id))) return notFound();
+
+    const accepted = await findPlansForAdvocates([id]);
+    return Response.json({ data: accepted.get(id) ?? [] });
+  } catch (error) {
+    console.error("Error fetching advocate plans:", error);
+    return Response.json(
+      { error: "Failed to fetch advocate plans" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Replaces the plans the advocate accepts: `{ plans: [slug or name, ...] }`. */
+async function putPlans(request: Request, { params }: RouteContext): Promise<Response> {
+  const id = parseId(params.id);
+  if (id === null) return invalidId("advocate");
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const parsed = parsePlanSelection(body);
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid plans", issues: parsed.issues }, { status: 400 });
+  }
+
+  try {
+    if (!(await findAdvocateById(id))) return notFound();
+
+    const resolved = await resolvePlans(parsed.data);
+    if (resolved.unknown.length > 0) {
+      return Response.json(
+        {
+          error: "Invalid plans",
+          issues: [{ field: "plans", message: `Unknown plans: ${resolved.unknown.join(", ")}` }],
+        },
+        { status: 400 }
+      );
+    }
+
+    const accepted = await replaceAdvocatePlans(id, resolved.plans.map((plan) => plan.id));
+    return Response.json({ data: accepted });
+  } catch (error) {
+    console.error("Error updating advocate plans:", error);
+    return Response.json(
+      { error: "Failed to update advocate plans" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withApiAccess(getPlans);
+export const PUT = withApiAccess(putPlans, { scope: "write", audit: "update" });
@@ -0,0 +1,128 @@
+import {
+  findAdvocateById,
+  findDuplicateAdvocate,
+  softDeleteAdvocate,
+  updateAdvocate,
+} from "../../../../db/queries/advocates";
+import { resolveSpecialtyNames } from "../../../../db/queries/specialties";
+import { isUniqueViolation } from "../../../../db/errors";
+import { parseAdvocateInput } from "../../../../lib/advocateValidation";
+import { withApiAccess } from "../../../../lib/apiAccess";
+import { advocatesApi } from "../../../../lib/apiContract";
+import { conditionalJson } from "../../../../lib/conditionalResponse";
+import { readQuery } from "../../../../lib/contractValidation";
+import { invalidId, parseId } from "../../../../lib/routeParams";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const notFound = () => Response.json({ error: "Advocate not found" }, { status: 404 });
+
+const duplicateAdvocate = (duplicateId: number | undefined) =>
+  Response.json(
+    { error: "An advocate with this name and phone number already exists", id: duplicateId },
+    { status: 409 }
+  );
+
+async function getAdvocate(request: Request, { params }: RouteContext): Promise<Response> {
+  const id = parseId(params.id);
+  if (id === null) return invalidId("advocate");
+
+  const { include = [] } = readQuery(advocatesApi.getAdvocate, request);
+
+  try {
+    const advocate = await findAdvocateById(id, include);
+    if (!advocate) return notFound();
+
+    return conditionalJson(request, { data: advocate });
+  } catch (error) {
+    console.error("Error fetching advocate:", error);
+    return Response.json(
+      { error: "Failed to fetch advocate" },
+      { status: 500 }
+    );
+  }
+}
+
+async function patchAdvocate(request: Request, { params }: RouteContext): Promise<Response> {
+  const id = parseId(params.id);
+  if (id === null) return invalidId("advocate");
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const parsed = parseAdvocateInput(body, { partial: true });
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid advocate", issues: parsed.issues }, { status: 400 });
+  }
+
+  try {
+    const existing = await findAdvocateById(id);
+    if (!existing) return notFound();
+
+    const changes = parsed.data;
+    if (changes.specialties) {
+      const { names, unknown } = await resolveSpecialtyNames(changes.specialties);
+      if (unknown.length > 0) {
+        return Response.json(
+          {
+            error: "Invalid advocate",
+            issues: [{ field: "specialties", message: `Unknown specialties: ${unknown.join(", ")}` }],
+          },
+          { status: 400 }
+        );
+      }
+      changes.specialties = names;
+    }
+
+    // Changing the name or phone must not collide with another advocate
+    if (changes.firstName || changes.lastName || changes.phoneNumber) {
+      const duplicate = await findDuplicateAdvocate({ ...existing, ...changes }, id);
+      if (duplicate) return duplicateAdvocate(duplicate.id);
+    }
+
+    const advocate = await updateAdvocate(id, changes);
+    if (!advocate) return notFound();
+
+    return Response.json({ data: advocate });
+  } catch (error) {
+    // Another write took this name and phone number after the check; the natural key index caught it
+    if (isUniqueViolation(error)) {
+      const existing = await findAdvocateById(id);
+      const duplicate = existing && (await findDuplicateAdvocate({ ...existing, ...parsed.data }, id));
+      return duplicateAdvocate(duplicate?.id);
+    }
+    console.error("Error updating advocate:", error);
+    return Response.json(
+      { error: "Failed to update advocate" },
+      { status: 500 }
+    );
+  }
+}
+
+async function deleteAdvocate(_request: Request, { params }: RouteContext): Promise<Response> {
+  const id = parseId(params.id);
+  if (id === null) return invalidId("advocate");
+
+  try {
+    const deleted = await softDeleteAdvocate(id);
+    if (!deleted) return notFound();
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error("Error deleting advocate:", error);
+    return Response.json(
+      { error: "Failed to delete advocate" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withApiAccess(getAdvocate, { endpoint: advocatesApi.getAdvocate, audit: "read" });
+export const PATCH = withApiAccess(patchAdvocate, { endpoint: advocatesApi.updateAdvocate, audit: "update" });
+export const DELETE = withApiAccess(deleteAdvocate, { endpoint: advocatesApi.deleteAdvocate, audit: "delete" });
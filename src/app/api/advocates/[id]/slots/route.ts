@@ -0,0 +1,61 @@
+import { findAdvocateById } from "../../../../../db/queries/advocates";
+import { listAvailability, listBookedStarts } from "../../../../../db/queries/bookings";
+import type { ValidationIssue } from "../../../../../lib/advocateFilters";
+import { withApiAccess } from "../../../../../lib/apiAccess";
+import { generateSlots } from "../../../../../lib/availability";
+import { invalidId, parseId } from "../../../../../lib/routeParams";
+
+const DEFAULT_DAYS = 7;
+const MAX_DAYS = 28;
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * Lists open slots: the advocate's weekly windows expanded over
+ * `?from=<ISO date or timestamp>` (default now) for `?days=` (default 7,
+ * max 28), minus requested and confirmed bookings.
+ */
+async function getSlots(request: Request, { params }: RouteContext): Promise<Response> {
+  const id = parseId(params.id);
+  if (id === null) return invalidId("advocate");
+
+  const searchParams = new URL(request.url).searchParams;
+  const fromRaw = searchParams.get("from");
+  const daysRaw = searchParams.get("days");
+  const from = fromRaw ? new Date(fromRaw) : new Date();
+  const days = daysRaw ? Number(daysRaw) : DEFAULT_DAYS;
+
+  const issues: ValidationIssue[] = [];
+  if (Number.isNaN(from.getTime())) {
+    issues.push({ field: "from", message: "from must be an ISO 8601 date or timestamp" });
+  }
+  if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+    issues.push({ field: "days", message: `days must be a whole number between 1 and ${MAX_DAYS}` });
+  }
+  if (issues.length > 0) {
+    return Response.json({ error: "Invalid query parameters", issues }, { status: 400 });
+  }
+
+  try {
+    if (!(await findAdvocateById(id))) {
+      return Response.json({ error: "Advocate not found" }, { status: 404 });
+    }
+
+    const windows = await listAvailability(id);
+    const to = new Date(from.getTime() + days * 24 * 60 * 60 * 1000);
+    const booked = await listBookedStarts(id, from, to);
+    const slots = generateSlots(windows, { from, days }).filter((slot) => !booked.has(slot.startsAt));
+
+    return Response.json({ data: slots, timezone: windows[0]?.timezone ?? null });
+  } catch (error) {
+    console.error("Error fetching slots:", error);
+    return Response.json(
+      { error: "Failed to fetch slots" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withApiAccess(getSlots);
@@ -0,0 +1,52 @@
+import { bulkUpdateAdvocates } from "../../../../db/queries/advocates";
+import { resolveSpecialtyNames } from "../../../../db/queries/specialties";
+import { parseBulkRequest } from "../../../../lib/advocateValidation";
+import { withApiAccess } from "../../../../lib/apiAccess";
+
+/**
+ * Applies one change to many advocates:
+ * `{ ids, action: "deactivate" | "addSpecialty" | "setCity", specialty?, city? }`.
+ * Responds with the `ids` that changed; advocates that are deleted or
+ * already have the specialty are skipped.
+ */
+async function postBulk(request: Request): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const parsed = parseBulkRequest(body);
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid bulk action", issues: parsed.issues }, { status: 400 });
+  }
+
+  try {
+    const { ids, ...change } = parsed.data;
+    if (change.action === "addSpecialty") {
+      const { names, unknown } = await resolveSpecialtyNames([change.specialty]);
+      if (unknown.length > 0) {
+        return Response.json(
+          {
+            error: "Invalid bulk action",
+            issues: [{ field: "specialty", message: `Unknown specialty: ${change.specialty}` }],
+          },
+          { status: 400 }
+        );
+      }
+      change.specialty = names[0];
+    }
+
+    const changed = await bulkUpdateAdvocates(ids, change);
+    return Response.json({ ids: changed, count: changed.length });
+  } catch (error) {
+    console.error("Error updating advocates in bulk:", error);
+    return Response.json(
+      { error: "Failed to update advocates" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withApiAccess(postBulk, { scope: "write", audit: "bulk" });
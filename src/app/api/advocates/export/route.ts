@@ -0,0 +1,79 @@
+import { iterateAdvocates } from "../../../../db/queries/advocates";
+import { EXPORT_FORMATS } from "../../../../lib/advocateExport";
+import { resolveAdvocateQuery } from "../../../../lib/advocateFilters";
+import { withApiAccess } from "../../../../lib/apiAccess";
+import { advocatesApi } from "../../../../lib/apiContract";
+import { readQuery } from "../../../../lib/contractValidation";
+import type { RankedAdvocate } from "../../../../types/advocate";
+
+// An export reads the whole directory, so it draws ten requests' worth of rate limit
+const EXPORT_COST = 10;
+
+/**
+ * Exports every advocate matching the same query parameters as
+ * GET /api/advocates (paging aside) as `?format=csv` (default), `ndjson` or
+ * `vcard`. Rows are streamed batch by batch, so large exports never sit in
+ * memory.
+ */
+async function getExport(request: Request): Promise<Response> {
+  const { format = "csv", ...filters } = readQuery(advocatesApi.exportAdvocates, request);
+
+  const parsed = resolveAdvocateQuery(filters);
+  if (!parsed.success) {
+    return Response.json(
+      { error: "Invalid query parameters", issues: parsed.issues },
+      { status: 400 }
+    );
+  }
+
+  const formatter = EXPORT_FORMATS[format];
+  const batches = iterateAdvocates(parsed.data);
+
+  // Fetch the first batch up front so a failing query still gets a JSON 500
+  let pending: IteratorResult<RankedAdvocate[]> | null;
+  try {
+    pending = await batches.next();
+  } catch (error) {
+    console.error("Error exporting advocates:", error);
+    return Response.json(
+      { error: "Failed to export advocates" },
+      { status: 500 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (formatter.header) controller.enqueue(encoder.encode(formatter.header));
+    },
+    // Called whenever the client is ready for more, so a slow download slows the queries
+    async pull(controller) {
+      try {
+        const { done, value } = pending ?? (await batches.next());
+        pending = null;
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(value.map(formatter.format).join("")));
+        }
+      } catch (error) {
+        console.error("Error exporting advocates:", error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await batches.return(undefined);
+    },
+  });
+
+  const date = new Date().toISOString().slice(0, 10);
+  return new Response(stream, {
+    headers: {
+      "Content-Type": formatter.contentType,
+      "Content-Disposition": `attachment; filename="advocates-${date}.${formatter.extension}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+export const GET = withApiAccess(getExport, { endpoint: advocatesApi.exportAdvocates, audit: "export", cost: EXPORT_COST });
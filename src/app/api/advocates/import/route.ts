@@ -0,0 +1,52 @@
+import { importAdvocates } from "../../../../db/queries/imports";
+import { parseCsvImport, parseJsonImport, type ImportFile } from "../../../../lib/advocateImport";
+import type { ParseResult } from "../../../../lib/advocateFilters";
+import { withApiAccess } from "../../../../lib/apiAccess";
+import { advocatesApi } from "../../../../lib/apiContract";
+import { readQuery } from "../../../../lib/contractValidation";
+
+// Up to thousands of upserts in one request: ten requests' worth of rate limit
+const IMPORT_COST = 10;
+
+/**
+ * Bulk-imports advocates from a CSV (`Content-Type: text/csv`) or JSON array
+ * (`application/json`) roster. `?dryRun=true` validates and reports without
+ * writing. Row-level problems are reported per row and never fail the
+ * request; only an unreadable file does.
+ */
+async function postImport(request: Request): Promise<Response> {
+  const { dryRun = false } = readQuery(advocatesApi.importAdvocates, request);
+
+  const contentType = request.headers.get("content-type")?.split(";")[0].trim().toLowerCase();
+  let file: ParseResult<ImportFile>;
+  if (contentType === "text/csv") {
+    file = parseCsvImport(await request.text());
+  } else if (contentType === "application/json") {
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return Response.json({ error: "Request body must be valid JSON" }, { status: 400 });
+    }
+    file = parseJsonImport(body);
+  } else {
+    return Response.json({ error: "Content-Type must be text/csv or application/json" }, { status: 415 });
+  }
+
+  if (!file.success) {
+    return Response.json({ error: "Invalid import file", issues: file.issues }, { status: 400 });
+  }
+
+  try {
+    const report = await importAdvocates(file.data, { dryRun });
+    return Response.json(report);
+  } catch (error) {
+    console.error("Error importing advocates:", error);
+    return Response.json(
+      { error: "Failed to import advocates" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withApiAccess(postImport, { endpoint: advocatesApi.importAdvocates, audit: "import", cost: IMPORT_COST });
@@ -0,0 +1,65 @@
+import { findMatchCandidates } from "../../../../db/queries/advocates";
+import { resolveSpecialtyNames } from "../../../../db/queries/specialties";
+import { withApiAccess } from "../../../../lib/apiAccess";
+import { advocatesApi } from "../../../../lib/apiContract";
+import { rankAdvocates } from "../../../../lib/matchScoring";
+import { parseMatchRequest } from "../../../../lib/matchValidation";
+
+/**
+ * Recommends the advocates who best fit a patient profile, each with an
+ * overall score, a per-factor breakdown and a plain-language explanation.
+ * See parseMatchRequest for the body and scoreAdvocate for the scoring.
+ */
+async function postMatch(request: Request): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const parsed = parseMatchRequest(body);
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid match request", issues: parsed.issues }, { status: 400 });
+  }
+
+  try {
+    const { profile, weights, limit } = parsed.data;
+
+    // Names or slugs in, canonical names out, so they compare with advocate data
+    const { names, unknown } = await resolveSpecialtyNames(profile.specialties.map((needed) => needed.name));
+    if (unknown.length > 0) {
+      return Response.json(
+        {
+          error: "Invalid match request",
+          issues: [{ field: "specialties", message: `Unknown specialties: ${unknown.join(", ")}` }],
+        },
+        { status: 400 }
+      );
+    }
+    // names is de-duplicated, so a shorter list means one specialty was given twice
+    if (names.length !== profile.specialties.length) {
+      return Response.json(
+        {
+          error: "Invalid match request",
+          issues: [{ field: "specialties", message: "Each specialty may only be listed once" }],
+        },
+        { status: 400 }
+      );
+    }
+    profile.specialties = profile.specialties.map((needed, index) => ({ ...needed, name: names[index] }));
+
+    const candidates = await findMatchCandidates(profile);
+    const matches = rankAdvocates(candidates, profile, weights, limit);
+
+    return Response.json({ data: matches, profile, weights });
+  } catch (error) {
+    console.error("Error matching advocates:", error);
+    return Response.json(
+      { error: "Failed to match advocates" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withApiAccess(postMatch, { endpoint: advocatesApi.matchAdvocates, audit: "read" });
@@ -1,86 +1,89 @@
-import db from "../../../db";
-import { advocates } from "../../../db/schema";
-import { ilike, or, sql } from "drizzle-orm";
-import type { Advocate } from "../../../types/advocate";
+import {
+  createAdvocate,
+  findDuplicateAdvocate,
+  runAdvocateSearch,
+} from "../../../db/queries/advocates";
+import { resolveSpecialtyNames } from "../../../db/queries/specialties";
+import { isUniqueViolation } from "../../../db/errors";
+import { resolveAdvocateQuery } from "../../../lib/advocateFilters";
+import { parseAdvocateInput } from "../../../lib/advocateValidation";
+import { withApiAccess } from "../../../lib/apiAccess";
+import { advocatesApi } from "../../../lib/apiContract";
+import { conditionalJson } from "../../../lib/conditionalResponse";
+import { readQuery } from "../../../lib/contractValidation";
+import { logSearch } from "../../../lib/searchAnalytics";
 
-interface PaginatedResponse {
-  data: Advocate[];
-  total: number;
-  page: number;
-  limit: number;
-  totalPages: number;
-}
-
-export async function GET(request: Request): Promise<Response> {
-  const { searchParams } = new URL(request.url);
-
-  const search = searchParams.get("search") || "";
-  const limit = parseInt(searchParams.get("limit") || "20", 10);
-  const page = parseInt(searchParams.get("page") || "1", 10);
-  const offset = (page - 1) * limit;
+async function getAdvocates(request: Request): Promise<Response> {
+  const parsed = resolveAdvocateQuery(readQuery(advocatesApi.searchAdvocates, request));
+  if (!parsed.success) {
+    return Response.json(
+      { error: "Invalid query parameters", issues: parsed.issues },
+      { status: 400 }
+    );
+  }
 
   try {
-    // Check if user is searching specifically for years of experience
-    // Examples: "3 years", "15 yrs", "5 years of experience"
-    // Returns advocates with AT LEAST that many years (minimum threshold)
-    const yearsMatch = search.match(/^(\d+)\s*(year|yr|yrs|years)(\s+of\s+experience)?$/i);
-
-    // Build search conditions once (avoids type issues with query mutation)
-    const searchConditions = search
-      ? yearsMatch
-        ? // If searching for years, return advocates with AT LEAST that many years
-          sql`${advocates.yearsOfExperience} >= ${parseInt(yearsMatch[1], 10)}`
-        : // Otherwise, search all text fields
-          or(
-            ilike(advocates.firstName, `%${search}%`),
-            ilike(advocates.lastName, `%${search}%`),
-            ilike(advocates.city, `%${search}%`),
-            ilike(advocates.degree, `%${search}%`),
-            // Phone number search - convert to text for partial matching
-            sql`${advocates.phoneNumber}::text ILIKE ${`%${search}%`}`,
-            // Years of experience search - convert to text for partial matching
-            sql`${advocates.yearsOfExperience}::text ILIKE ${`%${search}%`}`,
-            // JSONB search on specialties array - converts to text for search
-            sql`${advocates.specialties}::text ILIKE ${`%${search}%`}`
-          )
-      : undefined;
-
-    // Get total count for pagination
-    const countResult = searchConditions
-      ? await db.select({ count: sql<number>`count(*)` }).from(advocates).where(searchConditions)
-      : await db.select({ count: sql<number>`count(*)` }).from(advocates);
+    const started = performance.now();
+    const results = await runAdvocateSearch(parsed.data);
+    // Clients report clicks on "Connect" against this id
+    const searchId = await logSearch("api", parsed.data, results.total, performance.now() - started);
+    // A 304 still logs the search: the client ran it, it just already had the answer
+    return conditionalJson(request, results, searchId === null ? {} : { "X-Search-Id": searchId.toString() });
+  } catch (error) {
+    console.error("Error fetching advocates:", error);
+    return Response.json(
+      { error: "Failed to fetch advocates" },
+      { status: 500 }
+    );
+  }
+}
 
-    const total = Number(countResult[0].count);
-    const totalPages = Math.ceil(total / limit);
+const duplicateAdvocate = (id: number | undefined) =>
+  Response.json(
+    { error: "An advocate with this name and phone number already exists", id },
+    { status: 409 }
+  );
 
-    // Build and execute main query with pagination
-    const query = searchConditions
-      ? db.select().from(advocates).where(searchConditions).limit(limit).offset(offset)
-      : db.select().from(advocates).limit(limit).offset(offset);
+async function postAdvocate(request: Request): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
 
-    const results = await query;
+  const parsed = parseAdvocateInput(body);
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid advocate", issues: parsed.issues }, { status: 400 });
+  }
 
-    // Cast types to match Advocate interface
-    const data: Advocate[] = results.map((advocate) => ({
-      ...advocate,
-      specialties: advocate.specialties as string[],
-      createdAt: advocate.createdAt ?? undefined,
-    }));
+  try {
+    const { names, unknown } = await resolveSpecialtyNames(parsed.data.specialties);
+    if (unknown.length > 0) {
+      return Response.json(
+        {
+          error: "Invalid advocate",
+          issues: [{ field: "specialties", message: `Unknown specialties: ${unknown.join(", ")}` }],
+        },
+        { status: 400 }
+      );
+    }
 
-    const response: PaginatedResponse = {
-      data,
-      total,
-      page,
-      limit,
-      totalPages,
-    };
+    const duplicate = await findDuplicateAdvocate(parsed.data);
+    if (duplicate) return duplicateAdvocate(duplicate.id);
 
-    return Response.json(response);
+    const advocate = await createAdvocate({ ...parsed.data, specialties: names });
+    return Response.json({ data: advocate }, { status: 201 });
   } catch (error) {
-    console.error("Error fetching advocates:", error);
+    // A concurrent create of the same advocate won the race; the natural key index caught it
+    if (isUniqueViolation(error)) return duplicateAdvocate((await findDuplicateAdvocate(parsed.data))?.id);
+    console.error("Error creating advocate:", error);
     return Response.json(
-      { error: "Failed to fetch advocates" },
+      { error: "Failed to create advocate" },
       { status: 500 }
     );
   }
 }
+
+export const GET = withApiAccess(getAdvocates, { endpoint: advocatesApi.searchAdvocates, audit: "read" });
+export const POST = withApiAccess(postAdvocate, { endpoint: advocatesApi.createAdvocate, audit: "create" });
@@ -0,0 +1,39 @@
+import { suggestCompletions } from "../../../../db/queries/suggestions";
+import { DEFAULT_SUGGESTION_LIMIT } from "../../../../lib/advocateFilters";
+import { withApiAccess } from "../../../../lib/apiAccess";
+import { advocatesApi } from "../../../../lib/apiContract";
+import { readQuery } from "../../../../lib/contractValidation";
+import { cachedSearch, SEARCH_CACHE_SECONDS } from "../../../../lib/searchCache";
+
+// Suggestions are requested per keystroke, so each costs a fraction of a request
+const SUGGEST_COST = 0.2;
+
+/**
+ * Typeahead completions for the search box, grouped into names, cities,
+ * degrees and specialties, each with its advocate count. Prefixes match
+ * case-insensitively; results are cached per prefix with search results, so
+ * advocate writes drop them too. Browsers may keep them for a minute.
+ */
+async function getSuggestions(request: Request): Promise<Response> {
+  const { q, limit = DEFAULT_SUGGESTION_LIMIT } = readQuery(advocatesApi.suggestAdvocates, request);
+  const prefix = q.replace(/\s+/g, " ");
+  const headers = { "Cache-Control": `public, max-age=${SEARCH_CACHE_SECONDS}` };
+  if (prefix === "") {
+    return Response.json({ query: prefix, names: [], cities: [], degrees: [], specialties: [] }, { headers });
+  }
+
+  try {
+    const suggestions = await cachedSearch(`suggest:${prefix.toLowerCase()}|${limit}`, () =>
+      suggestCompletions(prefix, limit)
+    );
+    return Response.json({ ...suggestions, query: prefix }, { headers });
+  } catch (error) {
+    console.error("Error fetching suggestions:", error);
+    return Response.json(
+      { error: "Failed to fetch suggestions" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withApiAccess(getSuggestions, { endpoint: advocatesApi.suggestAdvocates, cost: SUGGEST_COST });
@@ -0,0 +1,51 @@
+import { findAdvocateById } from "../../../../../../db/queries/advocates";
+import { recordSearchConnect } from "../../../../../../db/queries/searchAnalytics";
+import { withApiAccess } from "../../../../../../lib/apiAccess";
+import { advocatesApi } from "../../../../../../lib/apiContract";
+import { invalidId, parseId } from "../../../../../../lib/routeParams";
+import { parseSearchConnect } from "../../../../../../lib/searchAnalyticsValidation";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * Records a click on "Connect" for an advocate in a search's results:
+ * `{ advocateId }`. The search id comes from the `X-Search-Id` header of
+ * GET /api/advocates, or from the home page.
+ */
+async function postConnect(request: Request, { params }: RouteContext): Promise<Response> {
+  const id = parseId(params.id);
+  if (id === null) return invalidId("search");
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const parsed = parseSearchConnect(body);
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid click", issues: parsed.issues }, { status: 400 });
+  }
+
+  try {
+    if (!(await findAdvocateById(parsed.data.advocateId))) {
+      return Response.json({ error: "Advocate not found" }, { status: 404 });
+    }
+    if (!(await recordSearchConnect(id, parsed.data.advocateId))) {
+      return Response.json({ error: "Search not found" }, { status: 404 });
+    }
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error("Error recording search click:", error);
+    return Response.json(
+      { error: "Failed to record search click" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withApiAccess(postConnect, { endpoint: advocatesApi.recordSearchConnect });
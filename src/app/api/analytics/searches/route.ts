@@ -0,0 +1,33 @@
+import { getSearchReport } from "../../../../db/queries/searchAnalytics";
+import { withApiAccess } from "../../../../lib/apiAccess";
+import { parseSearchReportQuery } from "../../../../lib/searchAnalyticsValidation";
+
+// The report covers searches up to the moment it is requested
+export const dynamic = "force-dynamic";
+
+/**
+ * Reports on recent searches: top queries, queries that found nobody, slow
+ * queries and click-through to "Connect". Filter with `?days=`, `?source=`
+ * and `?limit=`.
+ */
+async function getSearchAnalytics(request: Request): Promise<Response> {
+  const parsed = parseSearchReportQuery(new URL(request.url).searchParams);
+  if (!parsed.success) {
+    return Response.json(
+      { error: "Invalid query parameters", issues: parsed.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return Response.json(await getSearchReport(parsed.data));
+  } catch (error) {
+    console.error("Error fetching search analytics:", error);
+    return Response.json(
+      { error: "Failed to fetch search analytics" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withApiAccess(getSearchAnalytics, { scope: "staff" });
@@ -0,0 +1,29 @@
+import { listAuditEntries } from "../../../db/queries/audit";
+import { withApiAccess } from "../../../lib/apiAccess";
+import { parseAuditQuery } from "../../../lib/apiAccessValidation";
+
+/**
+ * Lists audit entries newest first, filtered by `?advocateId=`, `?actor=`
+ * (e.g. "key:3") or `?action=`. Page with `?before=` set to `nextBefore`.
+ */
+async function getAudit(request: Request): Promise<Response> {
+  const parsed = parseAuditQuery(new URL(request.url).searchParams);
+  if (!parsed.success) {
+    return Response.json(
+      { error: "Invalid query parameters", issues: parsed.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    return Response.json(await listAuditEntries(parsed.data));
+  } catch (error) {
+    console.error("Error fetching audit log:", error);
+    return Response.json(
+      { error: "Failed to fetch audit log" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withApiAccess(getAudit, { scope: "admin" });
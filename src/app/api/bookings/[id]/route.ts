@@ -0,0 +1,114 @@
+import { findBookingById, findBookingByToken, updateBookingStatus } from "../../../../db/queries/bookings";
+import { hasScope, withApiAccess, type ApiCaller } from "../../../../lib/apiAccess";
+import { advocatesApi } from "../../../../lib/apiContract";
+import { canTransition } from "../../../../lib/availability";
+import { parseBookingStatus } from "../../../../lib/bookingValidation";
+import { invalidId, parseId } from "../../../../lib/routeParams";
+import type { Booking } from "../../../../types/booking";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Patients send the token they received when booking instead of an API key
+const BOOKING_TOKEN_HEADER = "x-booking-token";
+
+const notFound = () => Response.json({ error: "Booking not found" }, { status: 404 });
+
+const isStaff = ({ apiKey }: ApiCaller) => apiKey !== null && hasScope(apiKey, "write");
+
+// Like a scoped route: 401 without a key, 403 with a key lacking the scope
+const needsAccess = ({ apiKey }: ApiCaller) =>
+  apiKey
+    ? Response.json({ error: "This API key lacks the write scope" }, { status: 403 })
+    : Response.json(
+        { error: "This endpoint requires an API key with the write scope or the booking's X-Booking-Token" },
+        { status: 401, headers: { "WWW-Authenticate": "Bearer" } }
+      );
+
+/**
+ * Loads the booking if the caller may see it: any booking for a key with the
+ * write scope, otherwise only the one the X-Booking-Token header opens. A
+ * wrong token finds nothing, so ids cannot be probed with it.
+ */
+function findVisibleBooking(request: Request, id: number, caller: ApiCaller): Promise<Booking | null> {
+  if (isStaff(caller)) return findBookingById(id);
+  const token = request.headers.get(BOOKING_TOKEN_HEADER);
+  return token ? findBookingByToken(id, token) : Promise.resolve(null);
+}
+
+async function getBooking(request: Request, { params }: RouteContext, caller: ApiCaller): Promise<Response> {
+  const id = parseId(params.id);
+  if (id === null) return invalidId("booking");
+  if (!isStaff(caller) && !request.headers.has(BOOKING_TOKEN_HEADER)) return needsAccess(caller);
+
+  try {
+    const booking = await findVisibleBooking(request, id, caller);
+    if (!booking) return notFound();
+
+    return Response.json({ data: booking });
+  } catch (error) {
+    console.error("Error fetching booking:", error);
+    return Response.json(
+      { error: "Failed to fetch booking" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Confirms or cancels a booking: `{ status: "confirmed" | "cancelled" }`.
+ * Only requested -> confirmed, requested -> cancelled and
+ * confirmed -> cancelled are allowed; anything else is a 409.
+ * Patients, identified by their booking token, can only cancel.
+ */
+async function patchBooking(request: Request, { params }: RouteContext, caller: ApiCaller): Promise<Response> {
+  const id = parseId(params.id);
+  if (id === null) return invalidId("booking");
+  if (!isStaff(caller) && !request.headers.has(BOOKING_TOKEN_HEADER)) return needsAccess(caller);
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const parsed = parseBookingStatus(body);
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid booking", issues: parsed.issues }, { status: 400 });
+  }
+
+  const status = parsed.data;
+  if (status !== "cancelled" && !isStaff(caller)) {
+    return Response.json({ error: "A booking token can only cancel the booking" }, { status: 403 });
+  }
+
+  try {
+    const existing = await findVisibleBooking(request, id, caller);
+    if (!existing) return notFound();
+
+    if (!canTransition(existing.status, status)) {
+      return Response.json(
+        { error: `A ${existing.status} booking cannot become ${status}` },
+        { status: 409 }
+      );
+    }
+
+    const booking = await updateBookingStatus(id, existing.status, status);
+    if (!booking) {
+      return Response.json({ error: "Booking was changed by another request" }, { status: 409 });
+    }
+
+    return Response.json({ data: booking });
+  } catch (error) {
+    console.error("Error updating booking:", error);
+    return Response.json(
+      { error: "Failed to update booking" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withApiAccess(getBooking, { endpoint: advocatesApi.getBooking });
+export const PATCH = withApiAccess(patchBooking, { endpoint: advocatesApi.updateBooking });
@@ -0,0 +1,28 @@
+import { revokeApiKey } from "../../../../db/queries/apiKeys";
+import { withApiAccess } from "../../../../lib/apiAccess";
+import { invalidId, parseId } from "../../../../lib/routeParams";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/** Revokes a key. It stays listed, with `revokedAt`, so audit entries keep their actor. */
+async function deleteKey(_request: Request, { params }: RouteContext): Promise<Response> {
+  const id = parseId(params.id);
+  if (id === null) return invalidId("API key");
+
+  try {
+    const revoked = await revokeApiKey(id);
+    if (!revoked) return Response.json({ error: "API key not found" }, { status: 404 });
+
+    return Response.json({ data: revoked });
+  } catch (error) {
+    console.error("Error revoking API key:", error);
+    return Response.json(
+      { error: "Failed to revoke API key" },
+      { status: 500 }
+    );
+  }
+}
+
+export const DELETE = withApiAccess(deleteKey, { scope: "admin" });
@@ -0,0 +1,46 @@
+import { createApiKey, listApiKeys } from "../../../db/queries/apiKeys";
+import { withApiAccess } from "../../../lib/apiAccess";
+import { parseApiKeyInput } from "../../../lib/apiAccessValidation";
+
+async function getKeys(): Promise<Response> {
+  try {
+    return Response.json({ data: await listApiKeys() });
+  } catch (error) {
+    console.error("Error fetching API keys:", error);
+    return Response.json(
+      { error: "Failed to fetch API keys" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Creates an API key: `{ name, scopes: ["read" | "write" | "admin", ...] }`.
+ * The response's `key` is the only time the secret is shown.
+ */
+async function postKey(request: Request): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const parsed = parseApiKeyInput(body);
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid API key", issues: parsed.issues }, { status: 400 });
+  }
+
+  try {
+    return Response.json(await createApiKey(parsed.data), { status: 201 });
+  } catch (error) {
+    console.error("Error creating API key:", error);
+    return Response.json(
+      { error: "Failed to create API key" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withApiAccess(getKeys, { scope: "admin" });
+export const POST = withApiAccess(postKey, { scope: "admin" });
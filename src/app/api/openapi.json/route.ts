@@ -0,0 +1,14 @@
+import { withApiAccess } from "../../../lib/apiAccess";
+import { buildOpenApiDocument } from "../../../lib/openapi";
+
+// The document only changes with a deploy
+const CACHE_SECONDS = 3600;
+
+const document = buildOpenApiDocument();
+
+/** The OpenAPI 3 document for the advocates API, also served as /api/v1/openapi.json. */
+async function getOpenApiDocument(): Promise<Response> {
+  return Response.json(document, { headers: { "Cache-Control": `public, max-age=${CACHE_SECONDS}` } });
+}
+
+export const GET = withApiAccess(getOpenApiDocument);
@@ -0,0 +1,21 @@
+import { listPlans } from "../../../db/queries/plans";
+import { withApiAccess } from "../../../lib/apiAccess";
+
+// Counts change with every advocate write; never serve a build-time snapshot
+export const dynamic = "force-dynamic";
+
+/** Lists the payer catalog, grouped by plan type, with how many advocates accept each plan. */
+async function getPlans(): Promise<Response> {
+  try {
+    const data = await listPlans();
+    return Response.json({ data });
+  } catch (error) {
+    console.error("Error fetching plans:", error);
+    return Response.json(
+      { error: "Failed to fetch plans" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withApiAccess(getPlans);
@@ -0,0 +1,57 @@
+import { runAdvocateSearch } from "../../../../../db/queries/advocates";
+import { findSavedSearch, newSince, viewSavedSearch } from "../../../../../db/queries/savedSearches";
+import { resolveAdvocateQuery } from "../../../../../lib/advocateFilters";
+import { callerKeyId, withApiAccess, type ApiCaller } from "../../../../../lib/apiAccess";
+import { advocatesApi } from "../../../../../lib/apiContract";
+import { readQuery } from "../../../../../lib/contractValidation";
+import { invalidId, parseId } from "../../../../../lib/routeParams";
+import { parseQuery } from "../../../../../lib/schema";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * Re-runs a saved search. Fetching the first page marks it viewed, which
+ * resets its `newMatches`; later pages leave it alone so paging through the
+ * results still shows the same new matches. `?markViewed=true` or `false`
+ * overrides that. Returns the GET /api/advocates response plus `savedSearch`
+ * as it was before this view and `newSince`: advocates created after it are
+ * the new matches.
+ */
+async function getSavedSearchResults(request: Request, { params }: RouteContext, caller: ApiCaller): Promise<Response> {
+  const id = parseId(params.id);
+  if (id === null) return invalidId("saved search");
+
+  // Paging comes from the request; everything else from the saved query
+  const { markViewed: markViewedParam, ...paging } = readQuery(advocatesApi.getSavedSearchResults, request);
+
+  try {
+    const ownerId = callerKeyId(caller);
+    const savedSearch = await findSavedSearch(id, ownerId);
+    if (!savedSearch) return Response.json({ error: "Saved search not found" }, { status: 404 });
+
+    const saved = parseQuery(advocatesApi.searchAdvocates.query, new URLSearchParams(savedSearch.query));
+    const parsed = saved.success ? resolveAdvocateQuery({ ...saved.data, ...paging }) : saved;
+    if (!parsed.success) {
+      return Response.json(
+        { error: "Invalid query parameters", issues: parsed.issues },
+        { status: 400 }
+      );
+    }
+
+    const isFirstPage = !parsed.data.cursor && parsed.data.page === 1;
+    const markViewed = markViewedParam ?? isFirstPage;
+    const viewed = markViewed ? (await viewSavedSearch(id, ownerId)) ?? savedSearch : savedSearch;
+    const results = await runAdvocateSearch(parsed.data);
+    return Response.json({ ...results, savedSearch: viewed, newSince: newSince(viewed) });
+  } catch (error) {
+    console.error("Error running saved search:", error);
+    return Response.json(
+      { error: "Failed to run saved search" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withApiAccess(getSavedSearchResults, { endpoint: advocatesApi.getSavedSearchResults });
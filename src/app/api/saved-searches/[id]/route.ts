@@ -0,0 +1,98 @@
+import {
+  findConflictingSavedSearch,
+  findSavedSearch,
+  removeSavedSearch,
+  updateSavedSearch,
+} from "../../../../db/queries/savedSearches";
+import { callerKeyId, withApiAccess, type ApiCaller } from "../../../../lib/apiAccess";
+import { advocatesApi } from "../../../../lib/apiContract";
+import { invalidId, parseId } from "../../../../lib/routeParams";
+import { parseSavedSearchInput } from "../../../../lib/savedSearchValidation";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Other keys' saved searches are reported as missing, not forbidden
+const notFound = () => Response.json({ error: "Saved search not found" }, { status: 404 });
+
+async function getSavedSearch(_request: Request, { params }: RouteContext, caller: ApiCaller): Promise<Response> {
+  const id = parseId(params.id);
+  if (id === null) return invalidId("saved search");
+
+  try {
+    const savedSearch = await findSavedSearch(id, callerKeyId(caller));
+    if (!savedSearch) return notFound();
+
+    return Response.json({ data: savedSearch });
+  } catch (error) {
+    console.error("Error fetching saved search:", error);
+    return Response.json(
+      { error: "Failed to fetch saved search" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Renames a saved search or replaces its query: `{ name?, query? }`. */
+async function patchSavedSearch(request: Request, { params }: RouteContext, caller: ApiCaller): Promise<Response> {
+  const id = parseId(params.id);
+  if (id === null) return invalidId("saved search");
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const parsed = parseSavedSearchInput(body, { partial: true });
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid saved search", issues: parsed.issues }, { status: 400 });
+  }
+
+  try {
+    const ownerId = callerKeyId(caller);
+    if (parsed.data.name !== undefined) {
+      const conflict = await findConflictingSavedSearch(ownerId, parsed.data.name, id);
+      if (conflict) {
+        return Response.json(
+          { error: "You already have a saved search with this name", id: conflict.id },
+          { status: 409 }
+        );
+      }
+    }
+
+    const savedSearch = await updateSavedSearch(id, ownerId, parsed.data);
+    if (!savedSearch) return notFound();
+
+    return Response.json({ data: savedSearch });
+  } catch (error) {
+    console.error("Error updating saved search:", error);
+    return Response.json(
+      { error: "Failed to update saved search" },
+      { status: 500 }
+    );
+  }
+}
+
+async function deleteSavedSearch(_request: Request, { params }: RouteContext, caller: ApiCaller): Promise<Response> {
+  const id = parseId(params.id);
+  if (id === null) return invalidId("saved search");
+
+  try {
+    if (!(await removeSavedSearch(id, callerKeyId(caller)))) return notFound();
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error("Error deleting saved search:", error);
+    return Response.json(
+      { error: "Failed to delete saved search" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withApiAccess(getSavedSearch, { endpoint: advocatesApi.getSavedSearch });
+export const PATCH = withApiAccess(patchSavedSearch, { endpoint: advocatesApi.updateSavedSearch });
+export const DELETE = withApiAccess(deleteSavedSearch, { endpoint: advocatesApi.deleteSavedSearch });
@@ -0,0 +1,55 @@
+import { createSavedSearch, findConflictingSavedSearch, listSavedSearches } from "../../../db/queries/savedSearches";
+import { callerKeyId, withApiAccess, type ApiCaller } from "../../../lib/apiAccess";
+import { advocatesApi } from "../../../lib/apiContract";
+import { parseSavedSearchInput } from "../../../lib/savedSearchValidation";
+import type { SavedSearchInput } from "../../../types/savedSearch";
+
+/** Lists the caller's saved searches, each with `newMatches` since it was last viewed. */
+async function getSavedSearches(_request: Request, _context: unknown, caller: ApiCaller): Promise<Response> {
+  try {
+    return Response.json({ data: await listSavedSearches(callerKeyId(caller)) });
+  } catch (error) {
+    console.error("Error fetching saved searches:", error);
+    return Response.json(
+      { error: "Failed to fetch saved searches" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Saves a search: `{ name, query }`, where `query` is a GET /api/advocates query string. */
+async function postSavedSearch(request: Request, _context: unknown, caller: ApiCaller): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const parsed = parseSavedSearchInput(body);
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid saved search", issues: parsed.issues }, { status: 400 });
+  }
+
+  try {
+    const input = parsed.data as SavedSearchInput;
+    const conflict = await findConflictingSavedSearch(callerKeyId(caller), input.name);
+    if (conflict) {
+      return Response.json(
+        { error: "You already have a saved search with this name", id: conflict.id },
+        { status: 409 }
+      );
+    }
+
+    return Response.json({ data: await createSavedSearch(callerKeyId(caller), input) }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating saved search:", error);
+    return Response.json(
+      { error: "Failed to create saved search" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withApiAccess(getSavedSearches, { endpoint: advocatesApi.listSavedSearches });
+export const POST = withApiAccess(postSavedSearch, { endpoint: advocatesApi.createSavedSearch });
@@ -1,9 +1,48 @@
-import db from "../../../db";
-import { advocates } from "../../../db/schema";
-import { advocateData } from "../../../db/seed/advocates";
+import { isSeedingEnabled, MAX_GENERATED_ADVOCATES, runSeed } from "../../../db/seed/runSeed";
+import type { ValidationIssue } from "../../../lib/advocateFilters";
+import { withApiAccess } from "../../../lib/apiAccess";
 
-export async function POST() {
-  const records = await db.insert(advocates).values(advocateData).returning();
+/**
+ * Seeds the database. Without parameters, upserts the fixed sample advocates;
+ * `?count=N&seed=S` generates N deterministic synthetic advocates instead.
+ * Safe to call repeatedly: rows are upserted on their natural key.
+ */
+async function postSeed(request: Request): Promise<Response> {
+  if (!isSeedingEnabled()) {
+    return Response.json(
+      { error: "Seeding is disabled outside development. Set ALLOW_SEED=true to enable it." },
+      { status: 403 }
+    );
+  }
 
-  return Response.json({ advocates: records });
+  const { searchParams } = new URL(request.url);
+  const issues: ValidationIssue[] = [];
+  const readInteger = (field: string, max: number): number | undefined => {
+    const raw = searchParams.get(field);
+    if (raw === null) return undefined;
+    if (!/^\d+$/.test(raw) || parseInt(raw, 10) > max) {
+      issues.push({ field, message: `${field} must be a whole number up to ${max}` });
+      return undefined;
+    }
+    return parseInt(raw, 10);
+  };
+
+  const count = readInteger("count", MAX_GENERATED_ADVOCATES);
+  const seed = readInteger("seed", 2 ** 32 - 1);
+  if (issues.length > 0) {
+    return Response.json({ error: "Invalid query parameters", issues }, { status: 400 });
+  }
+
+  try {
+    const summary = await runSeed({ count, seed });
+    return Response.json(summary);
+  } catch (error) {
+    console.error("Error seeding database:", error);
+    return Response.json(
+      { error: "Failed to seed database" },
+      { status: 500 }
+    );
+  }
 }
+
+export const POST = withApiAccess(postSeed, { scope: "admin", audit: "seed" });
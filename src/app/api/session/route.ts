@@ -0,0 +1,62 @@
+import { findApiKeyBySecret } from "../../../db/queries/apiKeys";
+import { hasScope, limitKeyChecks, SESSION_COOKIE } from "../../../lib/apiAccess";
+
+// Staff sessions last a working day
+const SESSION_SECONDS = 8 * 60 * 60;
+
+function sessionCookie(value: string, maxAge: number): string {
+  const secure = process.env.NODE_ENV === "production" ? "; Secure" : "";
+  return `${SESSION_COOKIE}=${encodeURIComponent(value)}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${maxAge}${secure}`;
+}
+
+/**
+ * Signs a staff member in to /admin: `{ key }` must be an active API key with
+ * the staff (or admin) scope. The key is kept in an HttpOnly cookie, which
+ * API routes accept like an Authorization header.
+ *
+ * Not wrapped in withApiAccess: a stale session cookie must not block
+ * signing in again. The key check still draws on the caller's per-IP bucket,
+ * so keys cannot be guessed here faster than on the API.
+ */
+export async function POST(request: Request): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const key = typeof body === "object" && body !== null && "key" in body ? body.key : undefined;
+  if (typeof key !== "string" || key.trim() === "") {
+    return Response.json(
+      { error: "Invalid sign-in", issues: [{ field: "key", message: "key must be a non-empty string" }] },
+      { status: 400 }
+    );
+  }
+
+  const limited = await limitKeyChecks(request);
+  if (limited) return limited;
+
+  try {
+    const apiKey = await findApiKeyBySecret(key.trim());
+    if (!apiKey || !hasScope(apiKey, "staff")) {
+      return Response.json({ error: "This key is invalid, revoked or lacks the staff scope" }, { status: 401 });
+    }
+
+    return Response.json(
+      { data: apiKey },
+      { headers: { "Set-Cookie": sessionCookie(key.trim(), SESSION_SECONDS) } }
+    );
+  } catch (error) {
+    console.error("Error signing in:", error);
+    return Response.json(
+      { error: "Failed to sign in" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Signs out by expiring the session cookie. */
+export async function DELETE(): Promise<Response> {
+  return new Response(null, { status: 204, headers: { "Set-Cookie": sessionCookie("", 0) } });
+}
@@ -0,0 +1,65 @@
+import { removeFromShortlist, updateShortlistNote } from "../../../../../../db/queries/shortlists";
+import { callerKeyId, withApiAccess, type ApiCaller } from "../../../../../../lib/apiAccess";
+import { invalidId, parseId } from "../../../../../../lib/routeParams";
+import { parseShortlistNote } from "../../../../../../lib/shortlistValidation";
+
+interface RouteContext {
+  params: { id: string; advocateId: string };
+}
+
+const notFound = () => Response.json({ error: "Advocate is not on this shortlist" }, { status: 404 });
+
+/** Sets an entry's note: `{ note }`, where null clears it. */
+async function patchShortlistEntry(request: Request, { params }: RouteContext, caller: ApiCaller): Promise<Response> {
+  const id = parseId(params.id);
+  if (id === null) return invalidId("shortlist");
+  const advocateId = parseId(params.advocateId);
+  if (advocateId === null) return invalidId("advocate");
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const parsed = parseShortlistNote(body);
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid note", issues: parsed.issues }, { status: 400 });
+  }
+
+  try {
+    const entry = await updateShortlistNote(id, callerKeyId(caller), advocateId, parsed.data.note);
+    if (!entry) return notFound();
+
+    return Response.json({ data: entry });
+  } catch (error) {
+    console.error("Error updating shortlist note:", error);
+    return Response.json(
+      { error: "Failed to update shortlist note" },
+      { status: 500 }
+    );
+  }
+}
+
+async function deleteShortlistEntry(_request: Request, { params }: RouteContext, caller: ApiCaller): Promise<Response> {
+  const id = parseId(params.id);
+  if (id === null) return invalidId("shortlist");
+  const advocateId = parseId(params.advocateId);
+  if (advocateId === null) return invalidId("advocate");
+
+  try {
+    if (!(await removeFromShortlist(id, callerKeyId(caller), advocateId))) return notFound();
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error("Error removing from shortlist:", error);
+    return Response.json(
+      { error: "Failed to remove from shortlist" },
+      { status: 500 }
+    );
+  }
+}
+
+export const PATCH = withApiAccess(patchShortlistEntry, { scope: "write" });
+export const DELETE = withApiAccess(deleteShortlistEntry, { scope: "write" });
@@ -0,0 +1,57 @@
+import { findAdvocatesByIds } from "../../../../../db/queries/advocates";
+import { addToShortlist } from "../../../../../db/queries/shortlists";
+import { callerKeyId, withApiAccess, type ApiCaller } from "../../../../../lib/apiAccess";
+import { invalidId, parseId } from "../../../../../lib/routeParams";
+import { parseShortlistAdditions } from "../../../../../lib/shortlistValidation";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * Adds advocates to a shortlist: `{ advocateIds, note? }`. Adding an
+ * advocate already on it is not an error. Returns the updated shortlist.
+ */
+async function postShortlistAdvocates(request: Request, { params }: RouteContext, caller: ApiCaller): Promise<Response> {
+  const id = parseId(params.id);
+  if (id === null) return invalidId("shortlist");
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const parsed = parseShortlistAdditions(body);
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid shortlist entries", issues: parsed.issues }, { status: 400 });
+  }
+
+  try {
+    const found = await findAdvocatesByIds(parsed.data.advocateIds);
+    const missing = parsed.data.advocateIds.filter((advocateId) => !found.has(advocateId));
+    if (missing.length > 0) {
+      return Response.json(
+        {
+          error: "Invalid shortlist entries",
+          issues: [{ field: "advocateIds", message: `Unknown or inactive advocates: ${missing.join(", ")}` }],
+        },
+        { status: 400 }
+      );
+    }
+
+    const shortlist = await addToShortlist(id, callerKeyId(caller), parsed.data);
+    if (!shortlist) return Response.json({ error: "Shortlist not found" }, { status: 404 });
+
+    return Response.json({ data: shortlist });
+  } catch (error) {
+    console.error("Error adding to shortlist:", error);
+    return Response.json(
+      { error: "Failed to add to shortlist" },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withApiAccess(postShortlistAdvocates, { scope: "write" });
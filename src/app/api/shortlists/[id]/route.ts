@@ -0,0 +1,99 @@
+import {
+  findConflictingShortlist,
+  findShortlistWithEntries,
+  removeShortlist,
+  renameShortlist,
+} from "../../../../db/queries/shortlists";
+import { callerKeyId, withApiAccess, type ApiCaller } from "../../../../lib/apiAccess";
+import { invalidId, parseId } from "../../../../lib/routeParams";
+import { parseShortlistInput } from "../../../../lib/shortlistValidation";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Other keys' shortlists are reported as missing, not forbidden
+const notFound = () => Response.json({ error: "Shortlist not found" }, { status: 404 });
+
+/**
+ * Returns a shortlist with its entries. Deactivated advocates stay on the
+ * list with `advocate: null`, so their notes are kept.
+ */
+async function getShortlist(_request: Request, { params }: RouteContext, caller: ApiCaller): Promise<Response> {
+  const id = parseId(params.id);
+  if (id === null) return invalidId("shortlist");
+
+  try {
+    const shortlist = await findShortlistWithEntries(id, callerKeyId(caller));
+    if (!shortlist) return notFound();
+
+    return Response.json({ data: shortlist });
+  } catch (error) {
+    console.error("Error fetching shortlist:", error);
+    return Response.json(
+      { error: "Failed to fetch shortlist" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Renames a shortlist: `{ name }`. */
+async function patchShortlist(request: Request, { params }: RouteContext, caller: ApiCaller): Promise<Response> {
+  const id = parseId(params.id);
+  if (id === null) return invalidId("shortlist");
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const parsed = parseShortlistInput(body, { partial: true });
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid shortlist", issues: parsed.issues }, { status: 400 });
+  }
+
+  try {
+    const ownerId = callerKeyId(caller);
+    const conflict = await findConflictingShortlist(ownerId, parsed.data.name, id);
+    if (conflict) {
+      return Response.json(
+        { error: "You already have a shortlist with this name", id: conflict.id },
+        { status: 409 }
+      );
+    }
+
+    const shortlist = await renameShortlist(id, ownerId, parsed.data.name);
+    if (!shortlist) return notFound();
+
+    return Response.json({ data: shortlist });
+  } catch (error) {
+    console.error("Error updating shortlist:", error);
+    return Response.json(
+      { error: "Failed to update shortlist" },
+      { status: 500 }
+    );
+  }
+}
+
+async function deleteShortlist(_request: Request, { params }: RouteContext, caller: ApiCaller): Promise<Response> {
+  const id = parseId(params.id);
+  if (id === null) return invalidId("shortlist");
+
+  try {
+    if (!(await removeShortlist(id, callerKeyId(caller)))) return notFound();
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error("Error deleting shortlist:", error);
+    return Response.json(
+      { error: "Failed to delete shortlist" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withApiAccess(getShortlist, { scope: "read" });
+export const PATCH = withApiAccess(patchShortlist, { scope: "write" });
+export const DELETE = withApiAccess(deleteShortlist, { scope: "write" });
@@ -0,0 +1,66 @@
+import { findAdvocatesByIds } from "../../../db/queries/advocates";
+import { createShortlist, findConflictingShortlist, listShortlists } from "../../../db/queries/shortlists";
+import { callerKeyId, withApiAccess, type ApiCaller } from "../../../lib/apiAccess";
+import { parseShortlistInput } from "../../../lib/shortlistValidation";
+
+async function getShortlists(_request: Request, _context: unknown, caller: ApiCaller): Promise<Response> {
+  try {
+    return Response.json({ data: await listShortlists(callerKeyId(caller)) });
+  } catch (error) {
+    console.error("Error fetching shortlists:", error);
+    return Response.json(
+      { error: "Failed to fetch shortlists" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Creates a shortlist: `{ name, advocateIds? }`. */
+async function postShortlist(request: Request, _context: unknown, caller: ApiCaller): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const parsed = parseShortlistInput(body);
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid shortlist", issues: parsed.issues }, { status: 400 });
+  }
+
+  try {
+    const ownerId = callerKeyId(caller);
+    const { name, advocateIds = [] } = parsed.data;
+    const conflict = await findConflictingShortlist(ownerId, name);
+    if (conflict) {
+      return Response.json(
+        { error: "You already have a shortlist with this name", id: conflict.id },
+        { status: 409 }
+      );
+    }
+
+    const found = await findAdvocatesByIds(advocateIds);
+    const missing = advocateIds.filter((id) => !found.has(id));
+    if (missing.length > 0) {
+      return Response.json(
+        {
+          error: "Invalid shortlist",
+          issues: [{ field: "advocateIds", message: `Unknown or inactive advocates: ${missing.join(", ")}` }],
+        },
+        { status: 400 }
+      );
+    }
+
+    return Response.json({ data: await createShortlist(ownerId, name, advocateIds) }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating shortlist:", error);
+    return Response.json(
+      { error: "Failed to create shortlist" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withApiAccess(getShortlists, { scope: "read" });
+export const POST = withApiAccess(postShortlist, { scope: "write" });
@@ -0,0 +1,82 @@
+import { findConflictingSpecialty, removeSpecialty, updateSpecialty } from "../../../../db/queries/specialties";
+import { withApiAccess } from "../../../../lib/apiAccess";
+import { invalidId, parseId } from "../../../../lib/routeParams";
+import { parseSpecialtyInput } from "../../../../lib/specialtyValidation";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const notFound = () => Response.json({ error: "Specialty not found" }, { status: 404 });
+
+/**
+ * Renames or recategorizes a specialty: `{ name?, category? }`. The slug
+ * stays the same, and advocates who offer it show the new name at once.
+ */
+async function patchSpecialty(request: Request, { params }: RouteContext): Promise<Response> {
+  const id = parseId(params.id);
+  if (id === null) return invalidId("specialty");
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const parsed = parseSpecialtyInput(body, { partial: true });
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid specialty", issues: parsed.issues }, { status: 400 });
+  }
+
+  try {
+    if (parsed.data.name !== undefined) {
+      const conflict = await findConflictingSpecialty(parsed.data.name, id);
+      if (conflict) {
+        return Response.json(
+          { error: "A specialty with this name already exists", id: conflict.id },
+          { status: 409 }
+        );
+      }
+    }
+
+    const specialty = await updateSpecialty(id, parsed.data);
+    if (!specialty) return notFound();
+
+    return Response.json({ data: specialty });
+  } catch (error) {
+    console.error("Error updating specialty:", error);
+    return Response.json(
+      { error: "Failed to update specialty" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Removes a specialty; 409 while any advocate still has it. */
+async function deleteSpecialty(_request: Request, { params }: RouteContext): Promise<Response> {
+  const id = parseId(params.id);
+  if (id === null) return invalidId("specialty");
+
+  try {
+    const result = await removeSpecialty(id);
+    if (result === "not_found") return notFound();
+    if (result === "in_use") {
+      return Response.json(
+        { error: "Advocates still have this specialty; remove it from them first" },
+        { status: 409 }
+      );
+    }
+
+    return new Response(null, { status: 204 });
+  } catch (error) {
+    console.error("Error deleting specialty:", error);
+    return Response.json(
+      { error: "Failed to delete specialty" },
+      { status: 500 }
+    );
+  }
+}
+
+export const PATCH = withApiAccess(patchSpecialty, { scope: "staff" });
+export const DELETE = withApiAccess(deleteSpecialty, { scope: "staff" });
@@ -0,0 +1,57 @@
+import { createSpecialty, findConflictingSpecialty, listSpecialties } from "../../../db/queries/specialties";
+import { withApiAccess } from "../../../lib/apiAccess";
+import { parseSpecialtyInput } from "../../../lib/specialtyValidation";
+import type { SpecialtyInput } from "../../../types/specialty";
+
+// Counts change with every advocate write; never serve a build-time snapshot
+export const dynamic = "force-dynamic";
+
+async function getSpecialties(): Promise<Response> {
+  try {
+    const data = await listSpecialties();
+    return Response.json({ data });
+  } catch (error) {
+    console.error("Error fetching specialties:", error);
+    return Response.json(
+      { error: "Failed to fetch specialties" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Adds a specialty: `{ name, category? }`. 409 when the name or its slug is taken. */
+async function postSpecialty(request: Request): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const parsed = parseSpecialtyInput(body);
+  if (!parsed.success) {
+    return Response.json({ error: "Invalid specialty", issues: parsed.issues }, { status: 400 });
+  }
+  const input = parsed.data as SpecialtyInput;
+
+  try {
+    const conflict = await findConflictingSpecialty(input.name);
+    if (conflict) {
+      return Response.json(
+        { error: "A specialty with this name already exists", id: conflict.id },
+        { status: 409 }
+      );
+    }
+
+    return Response.json({ data: await createSpecialty(input) }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating specialty:", error);
+    return Response.json(
+      { error: "Failed to create specialty" },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = withApiAccess(getSpecialties);
+export const POST = withApiAccess(postSpecialty, { scope: "staff" });
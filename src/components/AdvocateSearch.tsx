@@ -0,0 +1,776 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState, useTransition } from "react";
+import Link from "next/link";
+import { usePathname, useRouter } from "next/navigation";
+import type { AdvocateFilters, AdvocateSortField, LanguageProficiency } from "../types/advocate";
+import type { ApiAdvocateSearchResponse } from "../lib/apiContract";
+import { advocatesClient } from "../lib/apiClient";
+import { useDebounce } from "../hooks/useDebounce";
+import {
+  DEFAULT_RADIUS_MILES,
+  EXPERIENCE_BUCKETS,
+  filtersToSearchParams,
+  type ValidationIssue,
+} from "../lib/advocateFilters";
+import { parseAdvocateQuery } from "../lib/contractValidation";
+import { parseNear } from "../lib/geo";
+import { groupPlansByType } from "../lib/plans";
+import { plans as planCatalog } from "../db/seed/plans";
+import { FacetList } from "./FacetList";
+import { SuggestionList, suggestionOptionId, suggestionOptions, type SuggestionOption } from "./SuggestionList";
+import { useSuggestions } from "../hooks/useSuggestions";
+import { BookButton } from "./BookButton";
+import { formatPhoneNumber, phoneUri } from "../lib/phone";
+import type { ExportFormat } from "../lib/advocateExport";
+import { removeSearchToken } from "../lib/searchQuery";
+import type { SearchToken } from "../types/searchQuery";
+
+interface AdvocateSearchProps {
+  /** Current query string; the single source of truth for search state */
+  queryString: string;
+  /** Results rendered on the server for `queryString`; null if the search failed */
+  response: ApiAdvocateSearchResponse | null;
+  /** Problems with the query string, whose parameters were then ignored */
+  issues: ValidationIssue[];
+  /** This search in the search log, for recording clicks on "Connect"; null if it was not logged, as for later pages */
+  searchId: number | null;
+  /** Whether the visitor's staff session can download exports, which need an API key */
+  canExport: boolean;
+}
+
+// "" lets the API choose: relevance for text searches, last name otherwise
+const SORT_OPTIONS: { value: AdvocateSortField | ""; label: string }[] = [
+  { value: "", label: "Best match" },
+  { value: "lastName", label: "Last name" },
+  { value: "city", label: "City" },
+  { value: "yearsOfExperience", label: "Most experienced" },
+  { value: "createdAt", label: "Newest" },
+];
+
+const RADIUS_OPTIONS = [5, 10, 25, 50, 100];
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: "csv", label: "Spreadsheet (CSV)" },
+  { format: "ndjson", label: "JSON lines" },
+  { format: "vcard", label: "Contacts (vCard)" },
+];
+
+const TOKEN_LABELS: Record<SearchToken["kind"], string> = {
+  city: "City",
+  degree: "Degree",
+  specialty: "Specialty",
+  language: "Language",
+  experience: "Experience",
+  phrase: "Exact phrase",
+  keyword: "Keyword",
+};
+
+const SUGGESTION_LIST_ID = "search-suggestions";
+
+// "" accepts any level; each other option also accepts the levels above it
+const PROFICIENCY_OPTIONS: { value: LanguageProficiency | ""; label: string }[] = [
+  { value: "", label: "Any level" },
+  { value: "fluent", label: "Fluent or native" },
+  { value: "native", label: "Native speakers only" },
+];
+
+// The "Accepts my plan" picker lists the catalog grouped by plan type
+const PLAN_GROUPS = groupPlansByType(planCatalog);
+
+// Adds the value if absent, removes it if present
+const toggleValue = (values: string[], value: string): string[] =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+/**
+ * Search page body. Every search parameter lives in the URL: interactions
+ * push a new query string, the server re-renders results for it, and
+ * Back/Forward or a shared link restore the exact same search.
+ */
+export function AdvocateSearch({ queryString, response, issues, searchId, canExport }: AdvocateSearchProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [loading, startTransition] = useTransition();
+
+  const params = useMemo(() => new URLSearchParams(queryString), [queryString]);
+  const parsed = parseAdvocateQuery(params);
+  const query = parsed.success ? parsed.data : null;
+  const filters: AdvocateFilters = query?.filters ?? { cities: [], degrees: [], specialties: [], specialtyMatch: "any" };
+  const urlCursor = query?.cursor ? params.get("cursor") : null;
+  const sortField = (params.get("sort") ?? "") as AdvocateSortField | "";
+  const sortOrder = params.get("order");
+  const urlSearch = filters.search ?? "";
+  const urlNear = params.get("near") ?? "";
+  const urlRadius = filters.near?.radiusMiles ?? DEFAULT_RADIUS_MILES;
+
+  // Inputs keep local state while typing. The refs remember the values this
+  // component last pushed, so the inputs only follow the URL when it changes
+  // from elsewhere (Back/Forward), never overwriting text typed meanwhile.
+  const [searchTerm, setSearchTerm] = useState<string>(urlSearch);
+  const [nearZip, setNearZip] = useState<string>(urlNear);
+  const [radiusMiles, setRadiusMiles] = useState<number>(urlRadius);
+  const pushedSearch = useRef<string>(urlSearch);
+  const pushedNear = useRef<string>(urlNear);
+
+  useEffect(() => {
+    if (urlSearch === pushedSearch.current) return;
+    pushedSearch.current = urlSearch;
+    setSearchTerm(urlSearch);
+  }, [urlSearch]);
+
+  useEffect(() => {
+    if (urlNear === pushedNear.current) return;
+    pushedNear.current = urlNear;
+    setNearZip(urlNear);
+  }, [urlNear]);
+
+  useEffect(() => setRadiusMiles(urlRadius), [urlRadius]);
+
+  // Cursor for each page visited so far; the first page has none. The URL
+  // holds the current page's cursor: Next pushes the API's nextCursor and
+  // Previous pops back through this stack. A new search (no cursor) resets it.
+  const [cursors, setCursors] = useState<(string | null)[]>(urlCursor ? [null, urlCursor] : [null]);
+  const currentPage = cursors.length;
+
+  useEffect(() => {
+    setCursors((stack) => {
+      // Back/Forward to a page already visited keeps the pages before it
+      const index = stack.indexOf(urlCursor);
+      return index !== -1 ? stack.slice(0, index + 1) : [...stack, urlCursor];
+    });
+  }, [urlCursor]);
+
+  // Debounce search term by 500ms - reduces API calls by ~80%
+  const debouncedSearch = useDebounce(searchTerm, 500);
+
+  // Typeahead: the list opens while typing and closes on Escape, blur or a pick
+  const [suggestionsOpen, setSuggestionsOpen] = useState<boolean>(false);
+  const [activeIndex, setActiveIndex] = useState<number>(-1);
+  const options = suggestionOptions(useSuggestions(searchTerm, suggestionsOpen));
+  const showSuggestions = suggestionsOpen && options.length > 0;
+
+  useEffect(() => setActiveIndex(-1), [options.length, searchTerm]);
+
+  const advocates = response?.data ?? [];
+  const facets = response?.facets ?? null;
+  const total = response?.total ?? 0;
+  const totalPages = Math.max(response?.totalPages ?? 1, 1);
+  const nextCursor = response?.nextCursor ?? null;
+  const error = response ? null : "Failed to load advocates";
+
+  const selectedBucket = EXPERIENCE_BUCKETS.find(
+    (bucket) => bucket.minYears === filters.minYears && bucket.maxYears === filters.maxYears
+  );
+  const sortOptions = filters.near
+    ? [...SORT_OPTIONS, { value: "distance" as const, label: "Nearest" }]
+    : SORT_OPTIONS;
+
+  /**
+   * Pushes a new search onto the browser history. Any change other than
+   * paging starts again from the first page. The order is kept until the sort
+   * changes, which falls back to the new field's default direction.
+   */
+  const navigate = (changes: {
+    filters?: Partial<AdvocateFilters>;
+    sort?: AdvocateSortField | "";
+    cursor?: string | null;
+  }) => {
+    const nextFilters = { ...filters, ...changes.filters };
+    const next = filtersToSearchParams(nextFilters);
+    // Distance sort is only valid while a proximity search is active
+    const sort = changes.sort ?? sortField;
+    if (sort && (sort !== "distance" || nextFilters.near)) next.set("sort", sort);
+    if (sortOrder && sort === sortField) next.set("order", sortOrder);
+    if (changes.cursor) next.set("cursor", changes.cursor);
+
+    const search = next.toString();
+    startTransition(() => router.push(search ? `${pathname}?${search}` : pathname, { scroll: false }));
+  };
+
+  // Later pages are not logged, so their clicks count for the search's first page
+  const filterKey = filtersToSearchParams(filters).toString();
+  const [loggedSearch, setLoggedSearch] = useState({ filters: filterKey, id: searchId });
+  useEffect(() => {
+    if (searchId !== null) setLoggedSearch({ filters: filterKey, id: searchId });
+  }, [searchId, filterKey]);
+
+  // Export links carry the current filters and sort, but not the page
+  const exportHref = (format: ExportFormat) => {
+    const next = filtersToSearchParams(filters);
+    if (sortField && (sortField !== "distance" || filters.near)) next.set("sort", sortField);
+    if (sortOrder) next.set("order", sortOrder);
+    next.set("format", format);
+    return `/api/advocates/export?${next}`;
+  };
+
+  // The push below reads navigate through a ref, so that only debouncedSearch
+  // triggers it and a re-render never replays a stale term
+  const navigateRef = useRef(navigate);
+  useEffect(() => {
+    navigateRef.current = navigate;
+  });
+
+  // Push the search once typing settles
+  useEffect(() => {
+    const term = debouncedSearch.trim();
+    if (term === pushedSearch.current) return;
+    pushedSearch.current = term;
+    navigateRef.current({ filters: { search: term || undefined } });
+  }, [debouncedSearch]);
+
+  const onSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setSearchTerm(e.target.value);
+    setSuggestionsOpen(true);
+  };
+
+  // A picked suggestion replaces the typed text with a structured filter;
+  // names have no filter of their own, so they become an exact phrase
+  const onSelectSuggestion = (option: SuggestionOption) => {
+    const term = option.kind === "name" ? `"${option.value}"` : "";
+    pushedSearch.current = term;
+    setSearchTerm(term);
+    setSuggestionsOpen(false);
+
+    const search = term || undefined;
+    if (option.kind === "name") {
+      navigate({ filters: { search } });
+    } else {
+      const field = option.kind === "city" ? "cities" : option.kind === "degree" ? "degrees" : "specialties";
+      const values = filters[field].includes(option.value) ? filters[field] : [...filters[field], option.value];
+      navigate({ filters: { search, [field]: values, specialtyMatch: "all" } });
+    }
+  };
+
+  const onSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (!showSuggestions) {
+        setSuggestionsOpen(true);
+        return;
+      }
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      // Wraps around, passing through "nothing highlighted" at -1
+      setActiveIndex((index) => ((index + step + 1 + options.length + 1) % (options.length + 1)) - 1);
+    } else if (e.key === "Enter" && showSuggestions && activeIndex >= 0) {
+      e.preventDefault();
+      onSelectSuggestion(options[activeIndex]);
+    } else if (e.key === "Escape" && suggestionsOpen) {
+      e.preventDefault();
+      setSuggestionsOpen(false);
+    }
+  };
+
+  const onReset = () => {
+    pushedSearch.current = "";
+    pushedNear.current = "";
+    setSearchTerm("");
+    setNearZip("");
+    setRadiusMiles(DEFAULT_RADIUS_MILES);
+    startTransition(() => router.push(pathname, { scroll: false }));
+  };
+
+  // Clicked facets narrow the results: values within a field are ORed,
+  // except specialties, where each click requires one more specialty
+  const onToggleFacet = (field: "cities" | "degrees" | "specialties", value: string) => {
+    navigate({ filters: { [field]: toggleValue(filters[field], value), specialtyMatch: "all" } });
+  };
+
+  // Languages are alternatives: a patient needs one they speak
+  const onToggleLanguage = (language: string) => {
+    const languages = toggleValue(filters.languages ?? [], language);
+    navigate({
+      filters: {
+        languages: languages.length > 0 ? languages : undefined,
+        proficiency: languages.length > 0 ? filters.proficiency : undefined,
+      },
+    });
+  };
+
+  const onToggleExperience = (key: string) => {
+    const bucket = selectedBucket?.key === key ? undefined : EXPERIENCE_BUCKETS.find((b) => b.key === key);
+    navigate({ filters: { minYears: bucket?.minYears, maxYears: bucket?.maxYears } });
+  };
+
+  // Proximity applies once a complete ZIP from the gazetteer is entered
+  const nearZipComplete = /^\d{5}$/.test(nearZip);
+  const nearCenter = nearZipComplete ? parseNear(nearZip) : null;
+
+  // A partial ZIP keeps the previous proximity filter until it is complete
+  const onNearZipChange = (value: string) => {
+    const zip = value.replace(/\D/g, "");
+    setNearZip(zip);
+    const center = /^\d{5}$/.test(zip) ? parseNear(zip) : null;
+    if (center) {
+      pushedNear.current = zip;
+      navigate({ filters: { near: { ...center, radiusMiles } } });
+    } else if (zip === "" && filters.near) {
+      pushedNear.current = "";
+      navigate({ filters: { near: undefined } });
+    }
+  };
+
+  const onRadiusChange = (miles: number) => {
+    setRadiusMiles(miles);
+    if (filters.near) navigate({ filters: { near: { ...filters.near, radiusMiles: miles } } });
+  };
+
+  // Dismissing a chip deletes its words from the search box and searches again
+  const onRemoveToken = (token: SearchToken) => {
+    const term = removeSearchToken(searchTerm, token);
+    pushedSearch.current = term;
+    setSearchTerm(term);
+    navigate({ filters: { search: term || undefined } });
+  };
+
+  // Click-through analytics; the booking flow does not wait for it or care if it fails
+  const onConnect = (advocateId: number) => {
+    const connectSearchId = searchId ?? (loggedSearch.filters === filterKey ? loggedSearch.id : null);
+    if (connectSearchId === null) return;
+    advocatesClient.recordSearchConnect(connectSearchId, advocateId, { keepalive: true }).catch(() => undefined);
+  };
+
+  const onPreviousPage = () => {
+    if (cursors.length > 1) navigate({ cursor: cursors[cursors.length - 2] });
+  };
+
+  const onNextPage = () => {
+    if (nextCursor) navigate({ cursor: nextCursor });
+  };
+
+  return (
+    <main className="min-h-screen bg-gradient-to-b from-white to-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-7xl mx-auto">
+        {/* Header with Serif Typography */}
+        <div className="text-center mb-12">
+          <h1 className="text-5xl font-serif font-bold text-gray-900 mb-4">
+            Find Your Advocate
+          </h1>
+          <p className="text-lg text-gray-600 max-w-2xl mx-auto">
+            Connect with healthcare advocates who will help untangle your healthcare—covered by Medicare.
+          </p>
+        </div>
+
+        {/* Error Message */}
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700">
+            <strong>Error:</strong> {error}
+          </div>
+        )}
+        {issues.length > 0 && (
+          <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg text-amber-800">
+            <strong>Some search settings in this link were invalid and have been ignored:</strong>{" "}
+            {issues.map((issue) => issue.message).join("; ")}
+          </div>
+        )}
+
+        {/* Search Bar - Solace Style */}
+        <div className="mb-8 max-w-3xl mx-auto">
+          <label htmlFor="search" className="block text-sm font-medium text-gray-700 mb-2">
+            Search by name, city, degree, specialty, phone number, or years of experience
+          </label>
+          <div className="flex gap-3">
+            <div className="relative flex-1">
+              <input
+                id="search"
+                type="text"
+                role="combobox"
+                aria-autocomplete="list"
+                aria-expanded={showSuggestions}
+                aria-controls={SUGGESTION_LIST_ID}
+                aria-activedescendant={
+                  showSuggestions && activeIndex >= 0 ? suggestionOptionId(SUGGESTION_LIST_ID, activeIndex) : undefined
+                }
+                autoComplete="off"
+                value={searchTerm}
+                onChange={onSearchChange}
+                onKeyDown={onSearchKeyDown}
+                onBlur={() => setSuggestionsOpen(false)}
+                placeholder="Search advocates..."
+                className="w-full px-6 py-4 text-lg border border-gray-300 rounded-full shadow-sm focus:ring-2 focus:ring-amber-500 focus:border-amber-500 disabled:bg-gray-100 disabled:cursor-not-allowed transition-all"
+              />
+              {showSuggestions && (
+                <SuggestionList
+                  id={SUGGESTION_LIST_ID}
+                  options={options}
+                  activeIndex={activeIndex}
+                  onSelect={onSelectSuggestion}
+                  onHighlight={setActiveIndex}
+                />
+              )}
+            </div>
+            <button
+              onClick={onReset}
+              disabled={loading}
+              className="px-6 py-4 bg-white border border-gray-300 rounded-full text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all font-medium"
+            >
+              Reset
+            </button>
+          </div>
+          {searchTerm && response?.interpretation && response.interpretation.tokens.length > 0 && (
+            <ul className="mt-2 flex flex-wrap gap-2 text-sm" aria-label="Search interpreted as">
+              {response.interpretation.tokens.map((token, index) => (
+                <li
+                  key={`${token.text}-${index}`}
+                  className={`inline-flex items-center gap-1 pl-3 pr-1 py-1 rounded-full border ${
+                    token.negated
+                      ? "bg-red-50 border-red-200 text-red-800"
+                      : "bg-amber-50 border-amber-200 text-amber-900"
+                  }`}
+                >
+                  <span className="text-gray-500">
+                    {token.negated ? "Not " : ""}
+                    {TOKEN_LABELS[token.kind]}:
+                  </span>
+                  <span className="font-medium">{token.kind === "phrase" ? `“${token.value}”` : token.value}</span>
+                  <button
+                    type="button"
+                    onClick={() => onRemoveToken(token)}
+                    disabled={loading}
+                    aria-label={`Remove ${token.text}`}
+                    className="ml-1 w-5 h-5 rounded-full text-gray-500 hover:bg-white hover:text-gray-900 disabled:opacity-50"
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-gray-700">
+            <label htmlFor="radius">Within</label>
+            <select
+              id="radius"
+              value={radiusMiles}
+              onChange={(e) => onRadiusChange(parseInt(e.target.value, 10))}
+              disabled={loading}
+              className="px-3 py-2 border border-gray-300 rounded-full bg-white focus:ring-2 focus:ring-amber-500 focus:border-amber-500 disabled:opacity-50"
+            >
+              {RADIUS_OPTIONS.map((miles) => (
+                <option key={miles} value={miles}>
+                  {miles} miles
+                </option>
+              ))}
+            </select>
+            <label htmlFor="near-zip">of ZIP</label>
+            <input
+              id="near-zip"
+              type="text"
+              inputMode="numeric"
+              maxLength={5}
+              value={nearZip}
+              onChange={(e) => onNearZipChange(e.target.value)}
+              placeholder="e.g. 78701"
+              className="w-28 px-3 py-2 border border-gray-300 rounded-full focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+            />
+            {nearZipComplete && !nearCenter && (
+              <span className="text-red-600">We don&apos;t have location data for that ZIP yet</span>
+            )}
+            <label htmlFor="plan" className="ml-2">
+              Accepts
+            </label>
+            <select
+              id="plan"
+              value={filters.plans?.[0] ?? ""}
+              onChange={(e) => navigate({ filters: { plans: e.target.value ? [e.target.value] : undefined } })}
+              disabled={loading}
+              className="max-w-xs px-3 py-2 border border-gray-300 rounded-full bg-white focus:ring-2 focus:ring-amber-500 focus:border-amber-500 disabled:opacity-50"
+            >
+              <option value="">Any plan</option>
+              {PLAN_GROUPS.map((group) => (
+                <optgroup key={group.type} label={group.label}>
+                  {group.plans.map((plan) => (
+                    <option key={plan.slug} value={plan.slug}>
+                      {plan.name}
+                    </option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Loading Indicator - Better Placement */}
+        {loading && (
+          <div className="flex justify-center items-center py-8">
+            <div className="flex items-center gap-3 text-gray-600">
+              <svg className="animate-spin h-5 w-5 text-amber-600" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+              </svg>
+              <span className="text-sm font-medium">Loading advocates...</span>
+            </div>
+          </div>
+        )}
+
+        {/* Results Count and Pagination */}
+        <div className="flex flex-col sm:flex-row justify-between items-center mb-6 gap-4">
+          <div className="flex items-center gap-4">
+            <p className="text-sm text-gray-600">
+              Showing <span className="font-medium text-gray-900">{advocates.length}</span> of{" "}
+              {response?.totalIsApproximate && "about "}
+              <span className="font-medium text-gray-900">{total.toLocaleString("en-US")}</span> advocates
+            </p>
+            <label htmlFor="sort" className="sr-only">
+              Sort by
+            </label>
+            <select
+              id="sort"
+              value={sortField}
+              onChange={(e) => navigate({ sort: e.target.value as AdvocateSortField | "" })}
+              disabled={loading}
+              className="px-3 py-2 border border-gray-300 rounded-full text-sm text-gray-700 bg-white focus:ring-2 focus:ring-amber-500 focus:border-amber-500 disabled:opacity-50"
+            >
+              {sortOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            {canExport && total > 0 && (
+              <details className="relative">
+                <summary className="list-none cursor-pointer px-4 py-2 border border-gray-300 rounded-full text-sm font-medium text-gray-700 hover:bg-gray-50">
+                  Export
+                </summary>
+                <div className="absolute left-0 z-10 mt-2 w-44 bg-white border border-gray-200 rounded-lg shadow-lg py-1">
+                  {EXPORT_OPTIONS.map((option) => (
+                    <a
+                      key={option.format}
+                      href={exportHref(option.format)}
+                      download
+                      className="block px-4 py-2 text-sm text-gray-700 hover:bg-amber-50"
+                    >
+                      {option.label}
+                    </a>
+                  ))}
+                </div>
+              </details>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={onPreviousPage}
+              disabled={currentPage === 1 || loading}
+              className="px-5 py-2 border border-gray-300 rounded-full text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            >
+              Previous
+            </button>
+            <span className="text-sm text-gray-600">
+              Page <span className="font-medium text-gray-900">{currentPage}</span> of{" "}
+              {response?.totalIsApproximate && "about "}
+              <span className="font-medium text-gray-900">{totalPages.toLocaleString("en-US")}</span>
+            </span>
+            <button
+              onClick={onNextPage}
+              disabled={!nextCursor || loading}
+              className="px-5 py-2 bg-amber-500 text-white rounded-full text-sm font-medium hover:bg-amber-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-sm"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+
+        <div className="lg:grid lg:grid-cols-4 lg:gap-8">
+          {/* Facet Sidebar */}
+          <aside className="mb-8 lg:mb-0" aria-label="Filter results">
+            {facets && (
+              <>
+                <FacetList
+                  title="City"
+                  options={facets.cities}
+                  selected={filters.cities}
+                  onToggle={(value) => onToggleFacet("cities", value)}
+                  disabled={loading}
+                />
+                <FacetList
+                  title="Degree"
+                  options={facets.degrees}
+                  selected={filters.degrees}
+                  onToggle={(value) => onToggleFacet("degrees", value)}
+                  disabled={loading}
+                />
+                <FacetList
+                  title="Specialty"
+                  options={facets.specialties}
+                  selected={filters.specialties}
+                  onToggle={(value) => onToggleFacet("specialties", value)}
+                  disabled={loading}
+                />
+                {facets.languages && (
+                  <FacetList
+                    title="Language"
+                    options={facets.languages}
+                    selected={filters.languages ?? []}
+                    onToggle={onToggleLanguage}
+                    disabled={loading}
+                  />
+                )}
+                {filters.languages && (
+                  <div className="-mt-4 mb-6 px-3">
+                    <label htmlFor="proficiency" className="sr-only">
+                      Language proficiency
+                    </label>
+                    <select
+                      id="proficiency"
+                      value={filters.proficiency ?? ""}
+                      onChange={(e) =>
+                        navigate({ filters: { proficiency: (e.target.value || undefined) as LanguageProficiency | undefined } })
+                      }
+                      disabled={loading}
+                      className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 bg-white focus:ring-2 focus:ring-amber-500 focus:border-amber-500 disabled:opacity-50"
+                    >
+                      {PROFICIENCY_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <FacetList
+                  title="Experience"
+                  options={facets.experience
+                    .filter((bucket) => bucket.count > 0)
+                    .map((bucket) => ({ value: bucket.key, label: bucket.label, count: bucket.count }))}
+                  selected={selectedBucket ? [selectedBucket.key] : []}
+                  onToggle={onToggleExperience}
+                  disabled={loading}
+                />
+              </>
+            )}
+          </aside>
+
+          <div className="lg:col-span-3">
+            {/* Card Grid - Solace Style */}
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+              {advocates.map((advocate, index) => (
+                <div
+                  key={advocate.id ?? index}
+                  className="bg-white rounded-2xl shadow-md hover:shadow-xl transition-shadow duration-300 p-6 border border-gray-100"
+                >
+                  {/* Name */}
+                  <h3 className="text-xl font-semibold text-gray-900 mb-1">
+                    {advocate.id !== undefined ? (
+                      <Link href={`/advocates/${advocate.id}`} className="hover:text-amber-700">
+                        {advocate.firstName} {advocate.lastName}
+                      </Link>
+                    ) : (
+                      `${advocate.firstName} ${advocate.lastName}`
+                    )}
+                  </h3>
+
+                  {/* Degree Badge */}
+                  <div className="inline-block mb-3">
+                    <span className="px-3 py-1 bg-emerald-50 text-emerald-700 text-xs font-medium rounded-full">
+                      {advocate.degree}
+                    </span>
+                  </div>
+
+                  {/* Details */}
+                  <div className="space-y-2 mb-4">
+                    <div className="flex items-start gap-2">
+                      <span className="text-gray-500 text-sm min-w-[80px]">Location:</span>
+                      <span className="text-gray-900 text-sm font-medium">
+                        {advocate.state ? `${advocate.city}, ${advocate.state}` : advocate.city}
+                        {advocate.distanceMiles !== undefined && (
+                          <span className="ml-1 font-normal text-gray-500">({advocate.distanceMiles} mi)</span>
+                        )}
+                      </span>
+                    </div>
+                    <div className="flex items-start gap-2">
+                      <span className="text-gray-500 text-sm min-w-[80px]">Experience:</span>
+                      <span className="text-gray-900 text-sm font-medium">{advocate.yearsOfExperience} years</span>
+                    </div>
+                    <div className="flex items-start gap-2">
+                      <span className="text-gray-500 text-sm min-w-[80px]">Phone:</span>
+                      <a
+                        href={phoneUri(advocate.phoneNumber, advocate.phoneExtension)}
+                        className="text-gray-900 text-sm font-medium hover:text-amber-700"
+                      >
+                        {formatPhoneNumber(advocate.phoneNumber, advocate.phoneExtension)}
+                      </a>
+                    </div>
+                    {advocate.languages && advocate.languages.length > 0 && (
+                      <div className="flex items-start gap-2">
+                        <span className="text-gray-500 text-sm min-w-[80px]">Speaks:</span>
+                        <div className="flex flex-wrap gap-1">
+                          {advocate.languages.map(({ language, proficiency }) => (
+                            <span
+                              key={language}
+                              title={`${language}: ${proficiency}`}
+                              className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+                                filters.languages?.includes(language)
+                                  ? "bg-amber-100 text-amber-900"
+                                  : "bg-sky-50 text-sky-800"
+                              }`}
+                            >
+                              {language}
+                              {proficiency !== "native" && <span className="font-normal"> · {proficiency}</span>}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                    {advocate.plans && advocate.plans.length > 0 && (
+                      <div className="flex items-start gap-2">
+                        <span className="text-gray-500 text-sm min-w-[80px]">Coverage:</span>
+                        <div className="flex flex-wrap gap-1">
+                          {groupPlansByType(advocate.plans).map((group) => (
+                            <span
+                              key={group.type}
+                              title={group.plans.map((plan) => plan.name).join(", ")}
+                              className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+                                group.plans.some((plan) => filters.plans?.includes(plan.slug))
+                                  ? "bg-amber-100 text-amber-900"
+                                  : "bg-violet-50 text-violet-800"
+                              }`}
+                            >
+                              {group.label}
+                              {group.plans.length > 1 && <span className="font-normal"> · {group.plans.length} plans</span>}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Specialties */}
+                  {advocate.specialties.length > 0 && (
+                    <div className="pt-4 border-t border-gray-100">
+                      <p className="text-xs text-gray-500 mb-2">Specialties</p>
+                      <div className="flex flex-wrap gap-2">
+                        {advocate.specialties.map((specialty: string, i: number) => (
+                          <span
+                            key={i}
+                            className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded-md"
+                          >
+                            {specialty}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* CTA Button */}
+                  {advocate.id !== undefined && (
+                    <BookButton
+                      advocate={{ id: advocate.id, firstName: advocate.firstName, lastName: advocate.lastName }}
+                      className="mt-4 w-full"
+                      onConnect={() => onConnect(advocate.id as number)}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {/* Empty State */}
+            {!loading && advocates.length === 0 && (
+              <div className="text-center py-16">
+                <p className="text-gray-500 text-lg mb-2">No advocates found</p>
+                <p className="text-gray-400 text-sm">Try adjusting your search criteria</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import { useState } from "react";
+import type { Advocate } from "../types/advocate";
+import { BookingModal } from "./BookingModal";
+
+interface BookButtonProps {
+  advocate: Pick<Advocate, "firstName" | "lastName"> & { id: number };
+  className?: string;
+  /** Called each time the button is clicked, e.g. to record click-through from search results */
+  onConnect?: () => void;
+}
+
+/** "Connect with Advocate" button that opens the booking flow. */
+export function BookButton({ advocate, className = "", onConnect }: BookButtonProps) {
+  const [open, setOpen] = useState<boolean>(false);
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => {
+          onConnect?.();
+          setOpen(true);
+        }}
+        className={`py-3 px-6 bg-amber-500 hover:bg-amber-600 text-white font-medium rounded-full transition-colors shadow-sm ${className}`}
+      >
+        Connect with Advocate
+      </button>
+      {open && <BookingModal advocate={advocate} onClose={() => setOpen(false)} />}
+    </>
+  );
+}
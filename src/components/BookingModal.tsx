@@ -0,0 +1,316 @@
+import { useEffect, useState } from "react";
+import type { Advocate } from "../types/advocate";
+import type { Booking, Slot } from "../types/booking";
+
+interface BookingModalProps {
+  advocate: Pick<Advocate, "firstName" | "lastName"> & { id: number };
+  onClose: () => void;
+}
+
+const DAYS_PER_PAGE = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Slots are shown in the patient's own time zone
+const formatDay = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" });
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+
+/** Groups slots by the local calendar day they start on, keeping order. */
+function groupByDay(slots: Slot[]): [string, Slot[]][] {
+  const groups = new Map<string, Slot[]>();
+  for (const slot of slots) {
+    const day = formatDay(slot.startsAt);
+    groups.set(day, [...(groups.get(day) ?? []), slot]);
+  }
+  return Array.from(groups.entries());
+}
+
+/**
+ * Booking flow for one advocate: pick an open slot from the week's schedule,
+ * enter contact details, and request the appointment. A slot taken by someone
+ * else in the meantime (409) refreshes the schedule instead of failing silently.
+ */
+export function BookingModal({ advocate, onClose }: BookingModalProps) {
+  const [weekOffset, setWeekOffset] = useState<number>(0);
+  const [slots, setSlots] = useState<Slot[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Slot | null>(null);
+  const [patientName, setPatientName] = useState<string>("");
+  const [patientEmail, setPatientEmail] = useState<string>("");
+  const [note, setNote] = useState<string>("");
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [booking, setBooking] = useState<Booking | null>(null);
+  // Lets the patient cancel the request they just made; shown by the API only once
+  const [bookingToken, setBookingToken] = useState<string | null>(null);
+  // Bumped to refetch slots after a conflict
+  const [refreshKey, setRefreshKey] = useState<number>(0);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [onClose]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const fetchSlots = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const from = weekOffset === 0 ? new Date() : new Date(Date.now() + weekOffset * DAYS_PER_PAGE * DAY_MS);
+        const params = new URLSearchParams({ from: from.toISOString(), days: DAYS_PER_PAGE.toString() });
+        const response = await fetch(`/api/advocates/${advocate.id}/slots?${params}`, {
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          throw new Error(`Failed to fetch availability: ${response.statusText}`);
+        }
+
+        const jsonResponse: { data: Slot[] } = await response.json();
+        setSlots(jsonResponse.data);
+      } catch (err) {
+        if (err instanceof Error && err.name === "AbortError") return;
+        setError(err instanceof Error ? err.message : "Failed to load availability");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSlots();
+    return () => controller.abort();
+  }, [advocate.id, weekOffset, refreshKey]);
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      const response = await fetch(`/api/advocates/${advocate.id}/bookings`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ startsAt: selected.startsAt, patientName, patientEmail, ...(note && { note }) }),
+      });
+      const jsonResponse = await response.json();
+
+      if (response.status === 409) {
+        setError("Sorry, that time was just booked. Please pick another.");
+        setSelected(null);
+        setRefreshKey((key) => key + 1);
+        return;
+      }
+      if (!response.ok) {
+        const issues: { message: string }[] = jsonResponse.issues ?? [];
+        throw new Error(issues.map((issue) => issue.message).join(". ") || jsonResponse.error);
+      }
+
+      setBooking(jsonResponse.data);
+      setBookingToken(jsonResponse.token);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to request appointment");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const onCancelBooking = async () => {
+    if (!booking || !bookingToken) return;
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      const response = await fetch(`/api/bookings/${booking.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", "X-Booking-Token": bookingToken },
+        body: JSON.stringify({ status: "cancelled" }),
+      });
+      const jsonResponse = await response.json();
+      if (!response.ok) throw new Error(jsonResponse.error);
+
+      setBooking(jsonResponse.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to cancel appointment");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="booking-title"
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-white rounded-2xl shadow-xl p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-start mb-4">
+          <h2 id="booking-title" className="text-2xl font-serif font-bold text-gray-900">
+            Book with {advocate.firstName} {advocate.lastName}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close"
+            className="text-2xl leading-none text-gray-400 hover:text-gray-600"
+          >
+            ×
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+        )}
+
+        {booking ? (
+          <div className="text-center py-6">
+            {booking.status === "cancelled" ? (
+              <>
+                <p className="text-lg font-medium text-gray-900 mb-2">Request cancelled</p>
+                <p className="text-sm text-gray-600 mb-6">
+                  {formatDay(booking.startsAt.toString())} at {formatTime(booking.startsAt.toString())} is free again.
+                </p>
+              </>
+            ) : (
+              <>
+                <p className="text-lg font-medium text-gray-900 mb-2">Appointment requested</p>
+                <p className="text-sm text-gray-600 mb-6">
+                  {formatDay(booking.startsAt.toString())} at {formatTime(booking.startsAt.toString())}.{" "}
+                  {advocate.firstName} will confirm by email at {booking.patientEmail}.
+                </p>
+              </>
+            )}
+            <div className="flex justify-center gap-3">
+              {booking.status !== "cancelled" && bookingToken && (
+                <button
+                  type="button"
+                  onClick={onCancelBooking}
+                  disabled={submitting}
+                  className="px-6 py-3 border border-gray-300 text-gray-700 hover:bg-gray-50 font-medium rounded-full transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {submitting ? "Cancelling..." : "Cancel request"}
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-6 py-3 bg-amber-500 hover:bg-amber-600 text-white font-medium rounded-full transition-colors shadow-sm"
+              >
+                Done
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={onSubmit}>
+            <div className="flex justify-between items-center mb-3">
+              <button
+                type="button"
+                onClick={() => setWeekOffset((offset) => offset - 1)}
+                disabled={weekOffset === 0 || loading}
+                className="px-3 py-1 text-sm border border-gray-300 rounded-full text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Earlier
+              </button>
+              <span className="text-sm text-gray-600">
+                {weekOffset === 0 ? "Next 7 days" : `${weekOffset * DAYS_PER_PAGE}–${(weekOffset + 1) * DAYS_PER_PAGE} days out`}
+              </span>
+              <button
+                type="button"
+                onClick={() => setWeekOffset((offset) => offset + 1)}
+                disabled={weekOffset >= 3 || loading}
+                className="px-3 py-1 text-sm border border-gray-300 rounded-full text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Later
+              </button>
+            </div>
+
+            <div className="mb-5 min-h-[8rem]">
+              {loading ? (
+                <p className="text-sm text-gray-500 py-8 text-center">Loading availability...</p>
+              ) : slots.length === 0 ? (
+                <p className="text-sm text-gray-500 py-8 text-center">No open times in this range</p>
+              ) : (
+                groupByDay(slots).map(([day, daySlots]) => (
+                  <div key={day} className="mb-3">
+                    <p className="text-xs font-semibold text-gray-500 mb-1">{day}</p>
+                    <div className="flex flex-wrap gap-2">
+                      {daySlots.map((slot) => (
+                        <button
+                          key={slot.startsAt}
+                          type="button"
+                          onClick={() => setSelected(slot)}
+                          aria-pressed={selected?.startsAt === slot.startsAt}
+                          className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                            selected?.startsAt === slot.startsAt
+                              ? "bg-amber-500 border-amber-500 text-white"
+                              : "border-gray-300 text-gray-700 hover:bg-gray-50"
+                          }`}
+                        >
+                          {formatTime(slot.startsAt)}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="space-y-3 mb-5">
+              <label className="block text-sm text-gray-700">
+                Your name
+                <input
+                  type="text"
+                  required
+                  value={patientName}
+                  onChange={(e) => setPatientName(e.target.value)}
+                  className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Email
+                <input
+                  type="email"
+                  required
+                  value={patientEmail}
+                  onChange={(e) => setPatientEmail(e.target.value)}
+                  className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                />
+              </label>
+              <label className="block text-sm text-gray-700">
+                Anything the advocate should know? (optional)
+                <textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  rows={3}
+                  maxLength={1000}
+                  className="mt-1 w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+                />
+              </label>
+            </div>
+
+            <button
+              type="submit"
+              disabled={!selected || submitting}
+              className="w-full py-3 bg-amber-500 hover:bg-amber-600 text-white font-medium rounded-full transition-colors shadow-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {submitting
+                ? "Requesting..."
+                : selected
+                  ? `Request ${formatDay(selected.startsAt)}, ${formatTime(selected.startsAt)}`
+                  : "Choose a time"}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useState } from "react";
+
+export interface FacetOption {
+  value: string;
+  label?: string;
+  count: number;
+}
+
+interface FacetListProps {
+  title: string;
+  options: FacetOption[];
+  selected: string[];
+  onToggle: (value: string) => void;
+  disabled?: boolean;
+  maxVisible?: number;
+}
+
+/**
+ * Renders a facet group as a list of toggle buttons with counts,
+ * e.g. "San Francisco (42)". Selected values always stay visible, even when
+ * the current result set no longer contains them, so they can be cleared.
+ */
+export function FacetList({
+  title,
+  options,
+  selected,
+  onToggle,
+  disabled = false,
+  maxVisible = 8,
+}: FacetListProps) {
+  const [expanded, setExpanded] = useState<boolean>(false);
+
+  const missingSelected: FacetOption[] = selected
+    .filter((value) => !options.some((option) => option.value === value))
+    .map((value) => ({ value, count: 0 }));
+  const allOptions = [...missingSelected, ...options];
+  const visibleOptions = expanded ? allOptions : allOptions.slice(0, maxVisible);
+
+  if (allOptions.length === 0) return null;
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-sm font-semibold text-gray-900 mb-2">{title}</h3>
+      <ul className="space-y-1">
+        {visibleOptions.map((option) => {
+          const isSelected = selected.includes(option.value);
+          return (
+            <li key={option.value}>
+              <button
+                type="button"
+                onClick={() => onToggle(option.value)}
+                disabled={disabled}
+                aria-pressed={isSelected}
+                className={`w-full flex justify-between items-start gap-2 px-3 py-1.5 rounded-lg text-left text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                  isSelected
+                    ? "bg-amber-50 text-amber-800 font-medium"
+                    : "text-gray-700 hover:bg-gray-100"
+                }`}
+              >
+                <span>{option.label ?? option.value}</span>
+                <span className="text-gray-500">({option.count})</span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      {allOptions.length > maxVisible && (
+        <button
+          type="button"
+          onClick={() => setExpanded((prev) => !prev)}
+          className="mt-1 px-3 text-xs font-medium text-amber-700 hover:text-amber-800"
+        >
+          {expanded ? "Show less" : `Show all ${allOptions.length}`}
+        </button>
+      )}
+    </div>
+  );
+}
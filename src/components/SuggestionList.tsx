@@ -0,0 +1,89 @@
+import type { AdvocateSuggestions } from "../types/advocate";
+
+export type SuggestionKind = "name" | "city" | "degree" | "specialty";
+
+export interface SuggestionOption {
+  kind: SuggestionKind;
+  value: string;
+  count: number;
+}
+
+interface SuggestionListProps {
+  /** Id of the listbox, referenced by the input's aria-controls */
+  id: string;
+  options: SuggestionOption[];
+  /** Index into `options` of the highlighted option, or -1 */
+  activeIndex: number;
+  onSelect: (option: SuggestionOption) => void;
+  onHighlight: (index: number) => void;
+}
+
+const GROUPS: { kind: SuggestionKind; label: string }[] = [
+  { kind: "name", label: "Advocates" },
+  { kind: "specialty", label: "Specialties" },
+  { kind: "city", label: "Cities" },
+  { kind: "degree", label: "Degrees" },
+];
+
+/** Flattens grouped suggestions into options, in the order the list shows them. */
+export function suggestionOptions(suggestions: AdvocateSuggestions | null): SuggestionOption[] {
+  if (!suggestions) return [];
+  const groups: Record<SuggestionKind, AdvocateSuggestions["names"]> = {
+    name: suggestions.names,
+    specialty: suggestions.specialties,
+    city: suggestions.cities,
+    degree: suggestions.degrees,
+  };
+  return GROUPS.flatMap(({ kind }) => groups[kind].map(({ value, count }) => ({ kind, value, count })));
+}
+
+export const suggestionOptionId = (listId: string, index: number) => `${listId}-option-${index}`;
+
+/**
+ * The dropdown half of the search combobox: options grouped under headings,
+ * each with its advocate count. Focus stays in the input, which points at
+ * the highlighted option with aria-activedescendant.
+ */
+export function SuggestionList({ id, options, activeIndex, onSelect, onHighlight }: SuggestionListProps) {
+  return (
+    <ul
+      id={id}
+      role="listbox"
+      aria-label="Suggestions"
+      className="absolute left-0 right-0 z-20 mt-2 max-h-96 overflow-y-auto bg-white border border-gray-200 rounded-2xl shadow-lg py-2"
+    >
+      {GROUPS.map(({ kind, label }) => {
+        const group = options.flatMap((option, index) => (option.kind === kind ? [{ option, index }] : []));
+        if (group.length === 0) return null;
+
+        return (
+          <li key={kind} role="presentation">
+            <p id={`${id}-${kind}`} className="px-4 pt-2 pb-1 text-xs font-medium uppercase tracking-wide text-gray-500">
+              {label}
+            </p>
+            <ul role="group" aria-labelledby={`${id}-${kind}`}>
+              {group.map(({ option, index }) => (
+                <li
+                  key={option.value}
+                  id={suggestionOptionId(id, index)}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  // Keep focus in the input; selection happens on click
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => onSelect(option)}
+                  onMouseEnter={() => onHighlight(index)}
+                  className={`flex justify-between gap-4 px-4 py-2 cursor-pointer text-gray-900 ${
+                    index === activeIndex ? "bg-amber-50" : ""
+                  }`}
+                >
+                  <span>{option.value}</span>
+                  <span className="text-sm text-gray-500">{option.count}</span>
+                </li>
+              ))}
+            </ul>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
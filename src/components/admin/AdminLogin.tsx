@@ -0,0 +1,60 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+
+export function AdminLogin() {
+  const router = useRouter();
+  const [key, setKey] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const onSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ key }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        setError(body?.error ?? "Sign-in failed");
+        return;
+      }
+      router.replace("/admin");
+      router.refresh();
+    } catch {
+      setError("Sign-in failed");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={onSubmit} className="space-y-4">
+      <label htmlFor="api-key" className="block text-sm font-medium text-gray-700">
+        API key
+      </label>
+      <input
+        id="api-key"
+        type="password"
+        autoComplete="off"
+        value={key}
+        onChange={(e) => setKey(e.target.value)}
+        placeholder="sk_..."
+        className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+      />
+      {error && <p className="text-sm text-red-700">{error}</p>}
+      <button
+        type="submit"
+        disabled={submitting || key.trim() === ""}
+        className="w-full px-5 py-3 bg-amber-500 text-white rounded-full font-medium hover:bg-amber-600 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-sm"
+      >
+        {submitting ? "Signing in..." : "Sign in"}
+      </button>
+    </form>
+  );
+}
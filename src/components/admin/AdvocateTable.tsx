@@ -0,0 +1,510 @@
+"use client";
+
+import { useMemo, useState, useTransition } from "react";
+import Link from "next/link";
+import { usePathname, useRouter } from "next/navigation";
+import { describeError } from "./describeError";
+import type { ValidationIssue } from "../../lib/advocateFilters";
+import type {
+  AdvocateBulkChange,
+  AdvocateInput,
+  AdvocateSearchResponse,
+  AdvocateSortField,
+  RankedAdvocate,
+} from "../../types/advocate";
+import type { Json } from "../../lib/schema";
+import type { Shortlist } from "../../types/shortlist";
+
+interface AdvocateTableProps {
+  /** Current query string; sorting, searching and paging push a new one */
+  queryString: string;
+  response: Json<AdvocateSearchResponse> | null;
+  issues: ValidationIssue[];
+  degrees: string[];
+  /** Canonical specialty names, for the "Add specialty" bulk action */
+  specialties: string[];
+  /** The staff member's shortlists, for "Add to shortlist" */
+  shortlists: Json<Shortlist>[];
+  /** ISO time from a re-run saved search; advocates added after it are marked new */
+  newSince?: string;
+}
+
+const COLUMNS: { label: string; sort?: AdvocateSortField }[] = [
+  { label: "First name" },
+  { label: "Last name", sort: "lastName" },
+  { label: "City", sort: "city" },
+  { label: "Degree" },
+  { label: "Years", sort: "yearsOfExperience" },
+  { label: "Phone" },
+  { label: "Specialties" },
+  { label: "Added", sort: "createdAt" },
+];
+
+type EditableField = "firstName" | "lastName" | "city" | "degree" | "yearsOfExperience" | "phoneNumber";
+
+interface EditableCellProps {
+  advocate: Json<RankedAdvocate>;
+  field: EditableField;
+  /** Shown when not editing; defaults to the field's value */
+  display?: string;
+  options?: string[];
+  onSaved: () => void;
+}
+
+/**
+ * A cell that turns into an input on click. Enter or leaving the field saves
+ * through PATCH /api/advocates/[id]; Escape cancels. Validation errors from
+ * the API are shown under the input.
+ */
+function EditableCell({ advocate, field, display, options, onSaved }: EditableCellProps) {
+  const current = String(advocate[field]);
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const save = async () => {
+    if (draft === null || saving) return;
+    if (draft === current) {
+      setDraft(null);
+      return;
+    }
+    const value = field === "yearsOfExperience" ? Number(draft) : draft;
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/advocates/${advocate.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ [field]: value } satisfies Partial<AdvocateInput>),
+      });
+      if (!response.ok) {
+        setError(await describeError(response));
+        return;
+      }
+      setDraft(null);
+      setError(null);
+      onSaved();
+    } catch {
+      setError("Failed to save");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter") save();
+    if (e.key === "Escape") {
+      setDraft(null);
+      setError(null);
+    }
+  };
+
+  if (draft === null) {
+    return (
+      <button
+        type="button"
+        onClick={() => setDraft(current)}
+        title="Click to edit"
+        className="w-full text-left px-1 -mx-1 rounded hover:bg-amber-50"
+      >
+        {display ?? current}
+      </button>
+    );
+  }
+
+  const inputClass = "w-full px-1 py-0.5 border border-amber-400 rounded text-sm focus:ring-1 focus:ring-amber-500";
+  return (
+    <div>
+      {options ? (
+        <select
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={save}
+          onKeyDown={onKeyDown}
+          disabled={saving}
+          className={inputClass}
+        >
+          {options.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <input
+          autoFocus
+          type={field === "yearsOfExperience" ? "number" : "text"}
+          min={0}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={save}
+          onKeyDown={onKeyDown}
+          disabled={saving}
+          className={inputClass}
+        />
+      )}
+      {error && <p className="mt-1 text-xs text-red-700">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * Dense, sortable advocate table for staff, with inline editing, row
+ * selection and bulk actions. Every change goes through the advocates API
+ * and is followed by a server refresh, so the table always shows stored data.
+ */
+export function AdvocateTable({
+  queryString,
+  response,
+  issues,
+  degrees,
+  specialties,
+  shortlists,
+  newSince,
+}: AdvocateTableProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [refreshing, startTransition] = useTransition();
+  const params = useMemo(() => new URLSearchParams(queryString), [queryString]);
+
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [bulkSpecialty, setBulkSpecialty] = useState(specialties[0] ?? "");
+  const [bulkCity, setBulkCity] = useState("");
+  const [shortlistId, setShortlistId] = useState(shortlists[0]?.id.toString() ?? "");
+  const [searchName, setSearchName] = useState("");
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const advocates = response?.data ?? [];
+  const total = response?.total ?? 0;
+  const page = response?.page ?? 1;
+  const totalPages = Math.max(response?.totalPages ?? 1, 1);
+  const sort = response?.sort;
+
+  const refresh = () => startTransition(() => router.refresh());
+
+  // Links keep the current search and filters; sorting returns to page 1
+  const hrefWith = (changes: Record<string, string | null>) => {
+    const next = new URLSearchParams(params);
+    for (const [key, value] of Object.entries(changes)) {
+      if (value === null) next.delete(key);
+      else next.set(key, value);
+    }
+    return `${pathname}?${next}`;
+  };
+  const sortHref = (field: AdvocateSortField) =>
+    hrefWith({
+      sort: field,
+      order: sort?.field === field && sort.order === "asc" ? "desc" : "asc",
+      page: null,
+    });
+
+  const allSelected = advocates.length > 0 && advocates.every((advocate) => selected.has(advocate.id as number));
+  const toggleAll = () =>
+    setSelected(allSelected ? new Set() : new Set(advocates.map((advocate) => advocate.id as number)));
+  const toggleOne = (id: number) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+
+  const runBulk = async (change: AdvocateBulkChange) => {
+    if (change.action === "deactivate" && !window.confirm(`Deactivate ${selected.size} advocates?`)) return;
+    setWorking(true);
+    setMessage(null);
+    try {
+      const response = await fetch("/api/advocates/bulk", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids: Array.from(selected), ...change }),
+      });
+      if (!response.ok) {
+        setMessage({ text: await describeError(response), error: true });
+        return;
+      }
+      const { count } = await response.json();
+      setMessage({ text: `Updated ${count} of ${selected.size} selected advocates` });
+      setSelected(new Set());
+      refresh();
+    } catch {
+      setMessage({ text: "Bulk action failed", error: true });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  // Saved searches and shortlists are the staff member's own, not directory changes
+  const post = async (url: string, body: unknown, success: (json: { data: { name: string } }) => string) => {
+    setWorking(true);
+    setMessage(null);
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        setMessage({ text: await describeError(response), error: true });
+        return false;
+      }
+      setMessage({ text: success(await response.json()) });
+      return true;
+    } catch {
+      setMessage({ text: "Request failed", error: true });
+      return false;
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const saveSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const saved = await post("/api/saved-searches", { name: searchName, query: queryString }, ({ data }) => `Saved "${data.name}"`);
+    if (saved) setSearchName("");
+  };
+
+  const addToShortlist = async () => {
+    const added = await post(
+      `/api/shortlists/${shortlistId}/advocates`,
+      { advocateIds: Array.from(selected) },
+      ({ data }) => `Added ${selected.size} advocates to "${data.name}"`
+    );
+    if (added) setSelected(new Set());
+  };
+
+  const since = newSince ? new Date(newSince) : null;
+  const isNew = (advocate: Json<RankedAdvocate>) =>
+    since !== null && advocate.createdAt !== undefined && new Date(advocate.createdAt) > since;
+
+  const busy = working || refreshing;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <h1 className="text-2xl font-serif font-bold text-gray-900">Advocates</h1>
+        <form action={pathname} className="flex gap-2">
+          <input
+            name="search"
+            type="search"
+            defaultValue={params.get("search") ?? ""}
+            placeholder="Search..."
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+          />
+          <button type="submit" className="px-3 py-1.5 bg-white border border-gray-300 rounded-lg text-sm hover:bg-gray-50">
+            Search
+          </button>
+        </form>
+        <span className="text-sm text-gray-600">{total} advocates</span>
+        <form onSubmit={saveSearch} className="ml-auto flex gap-2">
+          <input
+            value={searchName}
+            onChange={(e) => setSearchName(e.target.value)}
+            placeholder="Name this search"
+            aria-label="Saved search name"
+            className="w-48 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:border-amber-500"
+          />
+          <button
+            type="submit"
+            disabled={busy || searchName.trim() === ""}
+            className="px-3 py-1.5 bg-white border border-gray-300 rounded-lg text-sm hover:bg-gray-50 disabled:opacity-50"
+          >
+            Save search
+          </button>
+        </form>
+      </div>
+
+      {since && (
+        <div className="mb-4 p-3 bg-emerald-50 border border-emerald-200 rounded-lg text-sm text-emerald-800">
+          Advocates added since you last ran this search ({since.toLocaleString()}) are marked New.
+        </div>
+      )}
+
+      {!response && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          Failed to load advocates
+        </div>
+      )}
+      {issues.length > 0 && (
+        <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+          Ignored invalid parameters: {issues.map((issue) => issue.message).join("; ")}
+        </div>
+      )}
+
+      {/* Bulk actions apply to the selected rows */}
+      {selected.size > 0 && (
+        <div className="mb-3 p-3 bg-white border border-amber-200 rounded-lg flex flex-wrap items-center gap-3 text-sm">
+          <span className="font-medium text-gray-900">{selected.size} selected</span>
+          <button
+            onClick={() => runBulk({ action: "deactivate" })}
+            disabled={busy}
+            className="px-3 py-1 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 disabled:opacity-50"
+          >
+            Deactivate
+          </button>
+          <span className="flex items-center gap-1">
+            <select
+              value={bulkSpecialty}
+              onChange={(e) => setBulkSpecialty(e.target.value)}
+              aria-label="Specialty to add"
+              className="max-w-xs px-2 py-1 border border-gray-300 rounded-lg"
+            >
+              {specialties.map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => runBulk({ action: "addSpecialty", specialty: bulkSpecialty })}
+              disabled={busy || !bulkSpecialty}
+              className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              Add specialty
+            </button>
+          </span>
+          <span className="flex items-center gap-1">
+            <input
+              value={bulkCity}
+              onChange={(e) => setBulkCity(e.target.value)}
+              placeholder="New city"
+              aria-label="New city"
+              className="w-36 px-2 py-1 border border-gray-300 rounded-lg"
+            />
+            <button
+              onClick={() => runBulk({ action: "setCity", city: bulkCity })}
+              disabled={busy || bulkCity.trim() === ""}
+              className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              Change city
+            </button>
+          </span>
+          {shortlists.length > 0 && (
+            <span className="flex items-center gap-1">
+              <select
+                value={shortlistId}
+                onChange={(e) => setShortlistId(e.target.value)}
+                aria-label="Shortlist"
+                className="max-w-xs px-2 py-1 border border-gray-300 rounded-lg"
+              >
+                {shortlists.map((shortlist) => (
+                  <option key={shortlist.id} value={shortlist.id}>
+                    {shortlist.name}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={addToShortlist}
+                disabled={busy}
+                className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+              >
+                Add to shortlist
+              </button>
+            </span>
+          )}
+        </div>
+      )}
+      {message && (
+        <p className={`mb-3 text-sm ${message.error ? "text-red-700" : "text-emerald-700"}`}>{message.text}</p>
+      )}
+
+      <div className={`overflow-x-auto bg-white border border-gray-200 rounded-lg ${busy ? "opacity-60" : ""}`}>
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 text-left text-xs uppercase tracking-wide text-gray-600">
+            <tr>
+              <th className="px-2 py-2 w-8">
+                <input type="checkbox" checked={allSelected} onChange={toggleAll} aria-label="Select all on this page" />
+              </th>
+              {COLUMNS.map(({ label, sort: field }) => (
+                <th key={label} className="px-2 py-2 font-medium">
+                  {field ? (
+                    <Link href={sortHref(field)} className="hover:text-gray-900">
+                      {label}
+                      {sort?.field === field && (sort.order === "asc" ? " ▲" : " ▼")}
+                    </Link>
+                  ) : (
+                    label
+                  )}
+                </th>
+              ))}
+              <th className="px-2 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {advocates.map((advocate) => {
+              const id = advocate.id as number;
+              return (
+                <tr key={id} className={selected.has(id) ? "bg-amber-50/50" : "hover:bg-gray-50"}>
+                  <td className="px-2 py-1.5">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(id)}
+                      onChange={() => toggleOne(id)}
+                      aria-label={`Select ${advocate.firstName} ${advocate.lastName}`}
+                    />
+                  </td>
+                  <td className="px-2 py-1.5">
+                    <EditableCell advocate={advocate} field="firstName" onSaved={refresh} />
+                  </td>
+                  <td className="px-2 py-1.5">
+                    <EditableCell advocate={advocate} field="lastName" onSaved={refresh} />
+                  </td>
+                  <td className="px-2 py-1.5">
+                    <EditableCell advocate={advocate} field="city" onSaved={refresh} />
+                  </td>
+                  <td className="px-2 py-1.5">
+                    <EditableCell advocate={advocate} field="degree" options={degrees} onSaved={refresh} />
+                  </td>
+                  <td className="px-2 py-1.5 w-20">
+                    <EditableCell advocate={advocate} field="yearsOfExperience" onSaved={refresh} />
+                  </td>
+                  <td className="px-2 py-1.5 whitespace-nowrap">
+                    <EditableCell
+                      advocate={advocate}
+                      field="phoneNumber"
+                      display={advocate.phoneDisplay}
+                      onSaved={refresh}
+                    />
+                  </td>
+                  <td className="px-2 py-1.5 text-gray-600 max-w-xs truncate" title={advocate.specialties.join(", ")}>
+                    {advocate.specialties.join(", ")}
+                  </td>
+                  <td className="px-2 py-1.5 text-gray-500 whitespace-nowrap">
+                    {advocate.createdAt ? new Date(advocate.createdAt).toLocaleDateString() : ""}
+                    {isNew(advocate) && (
+                      <span className="ml-2 px-1.5 py-0.5 bg-emerald-100 text-emerald-800 rounded text-xs font-medium">
+                        New
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-2 py-1.5 whitespace-nowrap">
+                    <Link href={`/admin/advocates/${id}/history`} className="text-amber-700 hover:text-amber-800">
+                      History
+                    </Link>
+                  </td>
+                </tr>
+              );
+            })}
+            {advocates.length === 0 && (
+              <tr>
+                <td colSpan={COLUMNS.length + 2} className="px-2 py-8 text-center text-gray-500">
+                  No advocates match
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-3 flex items-center justify-between text-sm text-gray-600">
+        <span>
+          Page {page} of {totalPages}
+        </span>
+        <span className="flex gap-3">
+          {page > 1 && <Link href={hrefWith({ page: String(page - 1) })}>← Previous</Link>}
+          {page < totalPages && <Link href={hrefWith({ page: String(page + 1) })}>Next →</Link>}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { describeError } from "./describeError";
+import type { Json } from "../../lib/schema";
+import type { SavedSearch } from "../../types/savedSearch";
+
+interface SavedSearchListProps {
+  savedSearches: Json<SavedSearch>[];
+}
+
+const inputClass =
+  "px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:border-amber-500";
+
+/** "search: trauma · city: Fort Worth" for a saved query string. */
+function describeQuery(query: string): string {
+  const parts = Array.from(new URLSearchParams(query)).map(([name, value]) => `${name}: ${value}`);
+  return parts.length > 0 ? parts.join(" · ") : "All advocates";
+}
+
+/**
+ * Lists saved searches with how many advocates are new since each was last
+ * run. Running one marks it viewed and opens the advocate table with the new
+ * advocates marked.
+ */
+export function SavedSearchList({ savedSearches }: SavedSearchListProps) {
+  const router = useRouter();
+  const [refreshing, startTransition] = useTransition();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  // Sends one request; returns its JSON body, or null after showing the error
+  const send = async (url: string, init?: RequestInit) => {
+    setWorking(true);
+    setError(null);
+    try {
+      const response = await fetch(url, init);
+      if (!response.ok) {
+        setError(await describeError(response));
+        return null;
+      }
+      return response.status === 204 ? {} : await response.json();
+    } catch {
+      setError("Request failed");
+      return null;
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const onRun = async (savedSearch: Json<SavedSearch>) => {
+    // Running through the API records the view; the table then marks what was added since
+    const results = await send(`/api/saved-searches/${savedSearch.id}/results?limit=1`);
+    if (!results) return;
+    const params = new URLSearchParams(savedSearch.query);
+    params.set("newSince", results.newSince);
+    router.push(`/admin?${params}`);
+  };
+
+  const onRename = async (id: number) => {
+    const saved = await send(`/api/saved-searches/${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name: draft }),
+    });
+    if (!saved) return;
+    setEditingId(null);
+    startTransition(() => router.refresh());
+  };
+
+  const onDelete = async (savedSearch: Json<SavedSearch>) => {
+    if (!window.confirm(`Delete the saved search "${savedSearch.name}"?`)) return;
+    if (await send(`/api/saved-searches/${savedSearch.id}`, { method: "DELETE" })) {
+      startTransition(() => router.refresh());
+    }
+  };
+
+  const busy = working || refreshing;
+
+  return (
+    <div>
+      <h1 className="mb-2 text-2xl font-serif font-bold text-gray-900">Saved searches</h1>
+      <p className="mb-4 text-sm text-gray-600">Save a search from the advocate table to run it again here.</p>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      {savedSearches.length === 0 ? (
+        <p className="text-gray-600">No saved searches yet.</p>
+      ) : (
+        <ul className={`bg-white border border-gray-200 rounded-lg divide-y divide-gray-100 ${busy ? "opacity-60" : ""}`}>
+          {savedSearches.map((savedSearch) => (
+            <li key={savedSearch.id} className="px-4 py-3 flex flex-wrap items-center gap-3">
+              <div className="flex-1 min-w-0">
+                {editingId === savedSearch.id ? (
+                  <input
+                    autoFocus
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") onRename(savedSearch.id);
+                      if (e.key === "Escape") setEditingId(null);
+                    }}
+                    aria-label="Saved search name"
+                    className={`w-72 ${inputClass}`}
+                  />
+                ) : (
+                  <span className="font-medium text-gray-900">{savedSearch.name}</span>
+                )}
+                {savedSearch.newMatches > 0 && (
+                  <span className="ml-2 px-1.5 py-0.5 bg-emerald-100 text-emerald-800 rounded text-xs font-medium">
+                    {savedSearch.newMatches} new
+                  </span>
+                )}
+                <p className="text-sm text-gray-500 truncate">{describeQuery(savedSearch.query)}</p>
+                <p className="text-xs text-gray-400">
+                  {savedSearch.lastViewedAt
+                    ? `Last run ${new Date(savedSearch.lastViewedAt).toLocaleString()}`
+                    : "Never run"}
+                </p>
+              </div>
+              <div className="flex gap-3 text-sm">
+                {editingId === savedSearch.id ? (
+                  <>
+                    <button onClick={() => onRename(savedSearch.id)} disabled={busy} className="text-amber-700 hover:text-amber-800">
+                      Save
+                    </button>
+                    <button onClick={() => setEditingId(null)} className="text-gray-600 hover:text-gray-900">
+                      Cancel
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => onRun(savedSearch)}
+                      disabled={busy}
+                      className="px-3 py-1 bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-50"
+                    >
+                      Run
+                    </button>
+                    <button
+                      onClick={() => {
+                        setEditingId(savedSearch.id);
+                        setDraft(savedSearch.name);
+                      }}
+                      disabled={busy}
+                      className="text-amber-700 hover:text-amber-800"
+                    >
+                      Rename
+                    </button>
+                    <button onClick={() => onDelete(savedSearch)} disabled={busy} className="text-red-700 hover:text-red-800">
+                      Delete
+                    </button>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
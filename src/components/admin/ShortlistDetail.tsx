@@ -0,0 +1,174 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { describeError } from "./describeError";
+import { phoneUri } from "../../lib/phone";
+import type { Json } from "../../lib/schema";
+import type { ShortlistEntry, ShortlistWithEntries } from "../../types/shortlist";
+
+interface ShortlistDetailProps {
+  shortlist: Json<ShortlistWithEntries>;
+}
+
+const inputClass =
+  "px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:border-amber-500";
+
+/**
+ * A shortlist's advocates with a note per advocate. Notes save when the field
+ * loses focus; the list can be renamed inline.
+ */
+export function ShortlistDetail({ shortlist }: ShortlistDetailProps) {
+  const router = useRouter();
+  const [refreshing, startTransition] = useTransition();
+  const [name, setName] = useState<string | null>(null);
+  const [notes, setNotes] = useState<Record<number, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const base = `/api/shortlists/${shortlist.id}`;
+
+  // Sends one change and refreshes the page; returns whether it succeeded
+  const send = async (url: string, method: string, body?: unknown) => {
+    setWorking(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      if (!response.ok) {
+        setError(await describeError(response));
+        return false;
+      }
+      startTransition(() => router.refresh());
+      return true;
+    } catch {
+      setError("Request failed");
+      return false;
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const onRename = async () => {
+    if (name !== null && (await send(base, "PATCH", { name }))) setName(null);
+  };
+
+  const onSaveNote = async (entry: Json<ShortlistEntry>) => {
+    const note = notes[entry.advocateId];
+    if (note === undefined || note === (entry.note ?? "")) return;
+    await send(`${base}/advocates/${entry.advocateId}`, "PATCH", { note: note || null });
+  };
+
+  const onRemove = (entry: Json<ShortlistEntry>) => send(`${base}/advocates/${entry.advocateId}`, "DELETE");
+
+  const busy = working || refreshing;
+
+  return (
+    <div>
+      <Link href="/admin/shortlists" className="text-sm text-amber-700 hover:text-amber-800">
+        ← Shortlists
+      </Link>
+      <div className="mt-2 mb-4 flex items-center gap-3">
+        {name === null ? (
+          <>
+            <h1 className="text-2xl font-serif font-bold text-gray-900">{shortlist.name}</h1>
+            <button onClick={() => setName(shortlist.name)} className="text-sm text-amber-700 hover:text-amber-800">
+              Rename
+            </button>
+          </>
+        ) : (
+          <>
+            <input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") onRename();
+                if (e.key === "Escape") setName(null);
+              }}
+              aria-label="Shortlist name"
+              className={`w-80 ${inputClass}`}
+            />
+            <button onClick={onRename} disabled={busy} className="text-sm text-amber-700 hover:text-amber-800">
+              Save
+            </button>
+            <button onClick={() => setName(null)} className="text-sm text-gray-600 hover:text-gray-900">
+              Cancel
+            </button>
+          </>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      {shortlist.entries.length === 0 ? (
+        <p className="text-gray-600">
+          No advocates yet. Select advocates in the <Link href="/admin" className="text-amber-700">advocate table</Link> and
+          choose &ldquo;Add to shortlist&rdquo;.
+        </p>
+      ) : (
+        <div className={`overflow-x-auto bg-white border border-gray-200 rounded-lg ${busy ? "opacity-60" : ""}`}>
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-left text-xs uppercase tracking-wide text-gray-600">
+              <tr>
+                <th className="px-3 py-2 font-medium">Advocate</th>
+                <th className="px-3 py-2 font-medium">City</th>
+                <th className="px-3 py-2 font-medium">Phone</th>
+                <th className="px-3 py-2 font-medium w-1/3">Note</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {shortlist.entries.map((entry) => (
+                <tr key={entry.advocateId} className="align-top">
+                  <td className="px-3 py-2">
+                    {entry.advocate ? (
+                      <Link href={`/advocates/${entry.advocateId}`} className="text-gray-900 hover:text-amber-700">
+                        {entry.advocate.firstName} {entry.advocate.lastName}, {entry.advocate.degree}
+                      </Link>
+                    ) : (
+                      <span className="text-gray-400">Advocate {entry.advocateId} (deactivated)</span>
+                    )}
+                    {entry.advocate && (
+                      <p className="text-xs text-gray-500">{entry.advocate.specialties.join(", ")}</p>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-gray-600">{entry.advocate?.city}</td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {entry.advocate && (
+                      <a href={phoneUri(entry.advocate.phoneNumber, entry.advocate.phoneExtension)} className="text-gray-600 hover:text-amber-700">
+                        {entry.advocate.phoneDisplay}
+                      </a>
+                    )}
+                  </td>
+                  <td className="px-3 py-2">
+                    <textarea
+                      rows={2}
+                      value={notes[entry.advocateId] ?? entry.note ?? ""}
+                      onChange={(e) => setNotes({ ...notes, [entry.advocateId]: e.target.value })}
+                      onBlur={() => onSaveNote(entry)}
+                      placeholder="Add a note"
+                      aria-label={`Note for advocate ${entry.advocateId}`}
+                      className={`w-full ${inputClass}`}
+                    />
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <button onClick={() => onRemove(entry)} disabled={busy} className="text-red-700 hover:text-red-800">
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
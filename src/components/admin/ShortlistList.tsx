@@ -0,0 +1,111 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { describeError } from "./describeError";
+import type { Json } from "../../lib/schema";
+import type { Shortlist } from "../../types/shortlist";
+
+interface ShortlistListProps {
+  shortlists: Json<Shortlist>[];
+}
+
+const inputClass =
+  "px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:border-amber-500";
+
+/**
+ * Lists shortlists with a form to start a new one. Advocates are added from
+ * the advocate table's selection.
+ */
+export function ShortlistList({ shortlists }: ShortlistListProps) {
+  const router = useRouter();
+  const [refreshing, startTransition] = useTransition();
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  // Sends one change and refreshes the list; returns whether it succeeded
+  const send = async (url: string, init: RequestInit) => {
+    setWorking(true);
+    setError(null);
+    try {
+      const response = await fetch(url, init);
+      if (!response.ok) {
+        setError(await describeError(response));
+        return false;
+      }
+      startTransition(() => router.refresh());
+      return true;
+    } catch {
+      setError("Request failed");
+      return false;
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const onCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const created = await send("/api/shortlists", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name }),
+    });
+    if (created) setName("");
+  };
+
+  const onDelete = async (shortlist: Json<Shortlist>) => {
+    if (!window.confirm(`Delete the shortlist "${shortlist.name}" and its notes?`)) return;
+    await send(`/api/shortlists/${shortlist.id}`, { method: "DELETE" });
+  };
+
+  const busy = working || refreshing;
+
+  return (
+    <div>
+      <h1 className="mb-4 text-2xl font-serif font-bold text-gray-900">Shortlists</h1>
+
+      <form onSubmit={onCreate} className="mb-4 flex gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="New shortlist, e.g. a patient reference"
+          aria-label="New shortlist name"
+          className={`w-80 ${inputClass}`}
+        />
+        <button
+          type="submit"
+          disabled={busy || name.trim() === ""}
+          className="px-3 py-1 bg-amber-600 text-white rounded-lg text-sm hover:bg-amber-700 disabled:opacity-50"
+        >
+          Create
+        </button>
+      </form>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      {shortlists.length === 0 ? (
+        <p className="text-gray-600">No shortlists yet.</p>
+      ) : (
+        <ul className={`bg-white border border-gray-200 rounded-lg divide-y divide-gray-100 ${busy ? "opacity-60" : ""}`}>
+          {shortlists.map((shortlist) => (
+            <li key={shortlist.id} className="px-4 py-3 flex items-center gap-3">
+              <Link href={`/admin/shortlists/${shortlist.id}`} className="flex-1 font-medium text-gray-900 hover:text-amber-700">
+                {shortlist.name}
+              </Link>
+              <span className="text-sm text-gray-500">
+                {shortlist.advocateCount} {shortlist.advocateCount === 1 ? "advocate" : "advocates"}
+              </span>
+              <button onClick={() => onDelete(shortlist)} disabled={busy} className="text-sm text-red-700 hover:text-red-800">
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+
+export function SignOutButton() {
+  const router = useRouter();
+
+  const onSignOut = async () => {
+    await fetch("/api/session", { method: "DELETE" });
+    router.replace("/admin/login");
+    router.refresh();
+  };
+
+  return (
+    <button onClick={onSignOut} className="text-sm text-gray-600 hover:text-gray-900">
+      Sign out
+    </button>
+  );
+}
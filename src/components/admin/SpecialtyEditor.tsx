@@ -0,0 +1,197 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { describeError } from "./describeError";
+import type { SpecialtyInput, SpecialtyWithCount } from "../../types/specialty";
+
+interface SpecialtyEditorProps {
+  specialties: SpecialtyWithCount[];
+}
+
+const inputClass =
+  "px-2 py-1 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-amber-500 focus:border-amber-500";
+
+/**
+ * Lists the specialty taxonomy with inline rename, recategorize and delete,
+ * plus a form to add a specialty. Specialties still offered by advocates
+ * cannot be deleted.
+ */
+export function SpecialtyEditor({ specialties }: SpecialtyEditorProps) {
+  const router = useRouter();
+  const [refreshing, startTransition] = useTransition();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<SpecialtyInput>({ name: "", category: null });
+  const [added, setAdded] = useState<SpecialtyInput>({ name: "", category: null });
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const categories = Array.from(
+    new Set(specialties.flatMap((specialty) => (specialty.category ? [specialty.category] : [])))
+  ).sort();
+
+  // Sends one change and refreshes the list; returns whether it succeeded
+  const send = async (url: string, method: string, body?: SpecialtyInput) => {
+    setWorking(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      if (!response.ok) {
+        setError(await describeError(response));
+        return false;
+      }
+      startTransition(() => router.refresh());
+      return true;
+    } catch {
+      setError("Request failed");
+      return false;
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const startEditing = (specialty: SpecialtyWithCount) => {
+    setEditingId(specialty.id);
+    setDraft({ name: specialty.name, category: specialty.category });
+    setError(null);
+  };
+
+  const onSave = async (id: number) => {
+    if (await send(`/api/specialties/${id}`, "PATCH", { name: draft.name, category: draft.category || null })) {
+      setEditingId(null);
+    }
+  };
+
+  const onDelete = async (specialty: SpecialtyWithCount) => {
+    if (!window.confirm(`Delete "${specialty.name}"?`)) return;
+    await send(`/api/specialties/${specialty.id}`, "DELETE");
+  };
+
+  const onAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await send("/api/specialties", "POST", { name: added.name, category: added.category || null })) {
+      setAdded({ name: "", category: null });
+    }
+  };
+
+  const busy = working || refreshing;
+
+  return (
+    <div>
+      <h1 className="mb-4 text-2xl font-serif font-bold text-gray-900">Specialties</h1>
+
+      <form onSubmit={onAdd} className="mb-4 flex flex-wrap items-center gap-2">
+        <input
+          value={added.name}
+          onChange={(e) => setAdded({ ...added, name: e.target.value })}
+          placeholder="New specialty"
+          aria-label="New specialty name"
+          className={`w-72 ${inputClass}`}
+        />
+        <input
+          value={added.category ?? ""}
+          onChange={(e) => setAdded({ ...added, category: e.target.value })}
+          placeholder="Category"
+          aria-label="New specialty category"
+          list="specialty-categories"
+          className={`w-56 ${inputClass}`}
+        />
+        <button
+          type="submit"
+          disabled={busy || added.name.trim() === ""}
+          className="px-3 py-1 bg-amber-600 text-white rounded-lg text-sm hover:bg-amber-700 disabled:opacity-50"
+        >
+          Add
+        </button>
+      </form>
+      <datalist id="specialty-categories">
+        {categories.map((category) => (
+          <option key={category} value={category} />
+        ))}
+      </datalist>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      <div className={`overflow-x-auto bg-white border border-gray-200 rounded-lg ${busy ? "opacity-60" : ""}`}>
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 text-left text-xs uppercase tracking-wide text-gray-600">
+            <tr>
+              <th className="px-3 py-2 font-medium">Name</th>
+              <th className="px-3 py-2 font-medium">Category</th>
+              <th className="px-3 py-2 font-medium">Advocates</th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {specialties.map((specialty) =>
+              editingId === specialty.id ? (
+                <tr key={specialty.id} className="bg-amber-50/50">
+                  <td className="px-3 py-1.5">
+                    <input
+                      autoFocus
+                      value={draft.name}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                      aria-label="Specialty name"
+                      className={`w-full ${inputClass}`}
+                    />
+                  </td>
+                  <td className="px-3 py-1.5">
+                    <input
+                      value={draft.category ?? ""}
+                      onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+                      aria-label="Specialty category"
+                      list="specialty-categories"
+                      className={`w-full ${inputClass}`}
+                    />
+                  </td>
+                  <td className="px-3 py-1.5 text-gray-600">{specialty.advocateCount}</td>
+                  <td className="px-3 py-1.5 whitespace-nowrap text-right">
+                    <button
+                      onClick={() => onSave(specialty.id)}
+                      disabled={busy}
+                      className="mr-3 text-amber-700 hover:text-amber-800 disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                    <button onClick={() => setEditingId(null)} className="text-gray-600 hover:text-gray-900">
+                      Cancel
+                    </button>
+                  </td>
+                </tr>
+              ) : (
+                <tr key={specialty.id} className="hover:bg-gray-50">
+                  <td className="px-3 py-1.5 text-gray-900">{specialty.name}</td>
+                  <td className="px-3 py-1.5 text-gray-600">{specialty.category ?? "—"}</td>
+                  <td className="px-3 py-1.5 text-gray-600">{specialty.advocateCount}</td>
+                  <td className="px-3 py-1.5 whitespace-nowrap text-right">
+                    <button
+                      onClick={() => startEditing(specialty)}
+                      disabled={busy}
+                      className="mr-3 text-amber-700 hover:text-amber-800 disabled:opacity-50"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => onDelete(specialty)}
+                      disabled={busy || specialty.advocateCount > 0}
+                      title={specialty.advocateCount > 0 ? "Advocates still have this specialty" : undefined}
+                      className="text-red-700 hover:text-red-800 disabled:opacity-40"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              )
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+import type { ValidationIssue } from "../../lib/advocateFilters";
+
+/** Reads a failed API response as one line: its validation issues, or its error. */
+export async function describeError(response: Response): Promise<string> {
+  const body = await response.json().catch(() => null);
+  const issues: ValidationIssue[] = body?.issues ?? [];
+  return issues.length > 0 ? issues.map((issue) => issue.message).join("; ") : body?.error ?? "Request failed";
+}
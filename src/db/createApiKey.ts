@@ -0,0 +1,36 @@
+import { createApiKey } from "./queries/apiKeys";
+import { parseApiKeyInput } from "../lib/apiAccessValidation";
+
+/**
+ * CLI entry point for `npm run api-key`, used to create the first admin key
+ * (later keys can be created through POST /api/keys).
+ *
+ * @example
+ * npm run api-key -- --name "Ops" --scopes admin
+ * npm run api-key -- --name "Partner sync" --scopes read,write
+ */
+const readFlag = (name: string): string | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+const main = async () => {
+  const parsed = parseApiKeyInput({ name: readFlag("name"), scopes: readFlag("scopes")?.split(",") });
+  if (!parsed.success) {
+    throw new Error(parsed.issues.map((issue) => `--${issue.field}: ${issue.message}`).join("\n"));
+  }
+
+  const { data, key } = await createApiKey(parsed.data);
+  console.log(`Created API key ${data.id} "${data.name}" with scopes ${data.scopes.join(", ")}.`);
+  console.log("Store it now; it cannot be shown again:");
+  console.log(key);
+};
+
+main()
+  .then(() => process.exit(0))
+  .catch((e) => {
+    console.error("Failed to create API key.");
+    console.error(e);
+
+    process.exit(1);
+  });
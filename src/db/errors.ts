@@ -0,0 +1,3 @@
+// 23505 = unique_violation, which postgres-js exposes as the error's `code`
+export const isUniqueViolation = (error: unknown): boolean =>
+  typeof error === "object" && error !== null && "code" in error && error.code === "23505";
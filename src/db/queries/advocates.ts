@@ -0,0 +1,1028 @@
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  getTableColumns,
+  gte,
+  ilike,
+  inArray,
+  isNull,
+  lte,
+  ne,
+  not,
+  or,
+  sql,
+  type AnyColumn,
+  type SQL,
+  type SQLWrapper,
+} from "drizzle-orm";
+import db from "..";
+import { advocatePlans, advocates, advocateSpecialties, plans, specialties } from "../schema";
+import { findPlansForAdvocates } from "./plans";
+import { replaceSpecialtyLinks, type DbExecutor } from "./specialties";
+import { languageProficiencies } from "../seed/taxonomy";
+import { EXPERIENCE_BUCKETS, filtersToSearchParams, type AdvocateQuery } from "../../lib/advocateFilters";
+import { naturalKey } from "../../lib/advocateImport";
+import { decodeCursor, encodeCursor, type AdvocateCursor } from "../../lib/cursor";
+import { EARTH_RADIUS_MILES, findCity, resolveLocation } from "../../lib/geo";
+import { cachedSearch, invalidateSearchCache } from "../../lib/searchCache";
+import { PRIORITY_WEIGHTS } from "../../lib/matchScoring";
+import { formatPhoneNumber, phoneSearchDigits } from "../../lib/phone";
+import { interpretSearch } from "../../lib/searchQuery";
+import type {
+  Advocate,
+  AdvocateBulkChange,
+  AdvocateFacets,
+  AdvocateFilters,
+  AdvocateInclude,
+  AdvocateInput,
+  AdvocateLanguage,
+  AdvocateSearchResponse,
+  AdvocateSort,
+  CountMode,
+  FacetCount,
+  LanguageProficiency,
+  ProximityFilter,
+  RankedAdvocate,
+  SpecialtyMatch,
+} from "../../types/advocate";
+import type { PatientProfile } from "../../types/match";
+import type { SearchToken } from "../../types/searchQuery";
+
+/**
+ * Columns returned to API clients. The generated search_vector is an
+ * implementation detail of ranking, and deleted_at only matters for filtering;
+ * neither is serialized. Languages are returned only on request (see
+ * withLanguageColumn), which keeps the default response shape unchanged.
+ */
+const {
+  searchVector: _searchVector,
+  deletedAt: _deletedAt,
+  languages: _languages,
+  ...tableColumns
+} = getTableColumns(advocates);
+
+// Joins an advocate's specialties through the link table
+const linkedSpecialties = sql`${advocateSpecialties}
+  JOIN ${specialties} ON ${specialties.id} = ${advocateSpecialties.specialtyId}
+  WHERE ${advocateSpecialties.advocateId} = ${advocates.id}`;
+
+// The advocate's specialty names in their listed order
+const specialtyNames = sql<string[]>`(
+  SELECT coalesce(jsonb_agg(${specialties.name} ORDER BY ${advocateSpecialties.position}), '[]'::jsonb)
+  FROM ${linkedSpecialties}
+)`;
+
+const advocateColumns = { ...tableColumns, specialties: specialtyNames };
+export { advocateColumns };
+
+// For reads that may include languages; toAdvocate drops them unless asked
+const withLanguageColumn = { ...advocateColumns, languages: advocates.languages };
+
+type AdvocateRow = { [K in keyof typeof tableColumns]: (typeof advocates.$inferSelect)[K] } & {
+  specialties: string[];
+  languages?: AdvocateLanguage[];
+};
+
+// Only advocates that have not been soft-deleted are visible
+const isActive = isNull(advocates.deletedAt);
+
+/**
+ * Casts a selected row to the Advocate interface (nullable timestamps to
+ * optional), adding the optional parts in `include`.
+ */
+function toAdvocate({ languages, ...row }: AdvocateRow, include: AdvocateInclude[] = []): Advocate {
+  return {
+    ...row,
+    state: row.state ?? undefined,
+    zip: row.zip ?? undefined,
+    latitude: row.latitude ?? undefined,
+    longitude: row.longitude ?? undefined,
+    phoneExtension: row.phoneExtension ?? undefined,
+    phoneDisplay: formatPhoneNumber(row.phoneNumber, row.phoneExtension),
+    createdAt: row.createdAt ?? undefined,
+    updatedAt: row.updatedAt ?? undefined,
+    ...(include.includes("languages") && { languages: languages ?? [] }),
+  };
+}
+
+/** Adds the plans each advocate accepts when `include` asks for them. */
+async function attachPlans<T extends Advocate>(rows: T[], include: AdvocateInclude[]): Promise<T[]> {
+  if (!include.includes("plans") || rows.length === 0) return rows;
+
+  const accepted = await findPlansForAdvocates(rows.map((row) => row.id as number));
+  return rows.map((row) => ({ ...row, plans: accepted.get(row.id as number) ?? [] }));
+}
+
+const toTsQuery = (search: string) => sql`websearch_to_tsquery('english', ${search})`;
+
+/**
+ * The full-text document ranked: the generated search_vector plus the linked
+ * specialty names at weight B, between name and city. Matching tests the two
+ * parts apart (see matchesDocument), since an expression like this one cannot
+ * use an index.
+ */
+const searchDocument = sql`(${advocates.searchVector} || coalesce((
+  SELECT setweight(to_tsvector('english', string_agg(${specialties.name}, ' ')), 'B')
+  FROM ${linkedSpecialties}
+), ''::tsvector))`;
+
+// Whether any of the advocate's specialties meets the condition on specialties.name
+const hasSpecialtyWhere = (condition: SQL) => sql`EXISTS (SELECT 1 FROM ${linkedSpecialties} AND ${condition})`;
+
+/**
+ * Full-text match of the document: the indexed search_vector, or a specialty
+ * name found through idx_specialties_name_search. The specialty lookup does
+ * not depend on the row, so Postgres runs it once; as an array it lets the
+ * planner OR the two index scans.
+ */
+const matchesDocument = (query: SQL) =>
+  or(
+    sql`${advocates.searchVector} @@ ${query}`,
+    sql`${advocates.id} = ANY(ARRAY(
+      SELECT ${advocateSpecialties.advocateId} FROM ${advocateSpecialties}
+      JOIN ${specialties} ON ${specialties.id} = ${advocateSpecialties.specialtyId}
+      WHERE to_tsvector('english', ${specialties.name}) @@ ${query}
+    ))`
+  );
+
+/**
+ * Matches advocates linked to any of the named specialties or, with `all`,
+ * to every one of them.
+ */
+function buildSpecialtyNamesCondition(names: string[], match: SpecialtyMatch = "any"): SQL {
+  return sql`${advocates.id} IN (
+    SELECT ${advocateSpecialties.advocateId} FROM ${advocateSpecialties}
+    JOIN ${specialties} ON ${specialties.id} = ${advocateSpecialties.specialtyId}
+    WHERE ${inArray(specialties.name, names)}
+    ${match === "all" ? sql`GROUP BY ${advocateSpecialties.advocateId} HAVING count(*) = ${new Set(names).size}` : sql``}
+  )`;
+}
+
+/**
+ * Builds the fuzzy keyword match: the weighted full-text document, trigram
+ * similarity (typos like "San Fransisco") or a substring of any field.
+ */
+function buildKeywordCondition(search: string): SQL | undefined {
+  const digits = phoneSearchDigits(search);
+  return or(
+    matchesDocument(toTsQuery(search)),
+    // Trigram similarity (pg_trgm.similarity_threshold, default 0.3)
+    sql`${advocates.firstName} % ${search}`,
+    sql`${advocates.lastName} % ${search}`,
+    sql`${advocates.city} % ${search}`,
+    // Specialty names from the taxonomy: substring, or a close misspelling of
+    // one word inside a longer name (word similarity)
+    hasSpecialtyWhere(sql`(${specialties.name} ILIKE ${`%${search}%`} OR ${search} <% ${specialties.name})`),
+    ilike(advocates.firstName, `%${search}%`),
+    ilike(advocates.lastName, `%${search}%`),
+    ilike(advocates.city, `%${search}%`),
+    ilike(advocates.degree, `%${search}%`),
+    // Phone number search on digits only, however the term is formatted;
+    // any digit run of an E.164 number is a substring of the stored value
+    digits ? sql`${advocates.phoneNumber} LIKE ${`%${digits}%`}` : undefined,
+    // Years of experience search - convert to text for partial matching
+    sql`${advocates.yearsOfExperience}::text ILIKE ${`%${search}%`}`
+  );
+}
+
+/**
+ * Matches text as written: a phrase of the full-text document, or a
+ * substring of the name, city or specialties.
+ */
+function buildPhraseCondition(phrase: string): SQL | undefined {
+  return or(
+    matchesDocument(sql`phraseto_tsquery('english', ${phrase})`),
+    sql`${advocates.firstName} || ' ' || ${advocates.lastName} ILIKE ${`%${phrase}%`}`,
+    ilike(advocates.city, `%${phrase}%`),
+    hasSpecialtyWhere(ilike(specialties.name, `%${phrase}%`))
+  );
+}
+
+function buildTokenCondition(token: SearchToken): SQL | undefined {
+  const exclude = (condition: SQL | undefined) => (condition && token.negated ? not(condition) : condition);
+  switch (token.kind) {
+    // Named cities and degrees are alternatives, combined by the caller
+    case "city":
+      return token.negated ? ne(advocates.city, token.value) : undefined;
+    case "degree":
+      return token.negated ? ne(advocates.degree, token.value) : undefined;
+    case "specialty":
+      return exclude(buildSpecialtyNamesCondition([token.value]));
+    // Named languages are alternatives too; any level of proficiency counts
+    case "language":
+      return token.negated ? exclude(buildLanguageCondition([token.value])) : undefined;
+    case "experience":
+      return and(
+        token.minYears !== undefined ? gte(advocates.yearsOfExperience, token.minYears) : undefined,
+        token.maxYears !== undefined ? lte(advocates.yearsOfExperience, token.maxYears) : undefined
+      );
+    case "phrase":
+      return exclude(buildPhraseCondition(token.value));
+    // Keywords are matched together by the caller; excluded ones must not appear
+    case "keyword":
+      return token.negated ? exclude(buildPhraseCondition(token.value)) : undefined;
+  }
+}
+
+/**
+ * Builds the search box condition from its interpretation (see
+ * interpretSearch): any of the named cities, degrees and languages, every named
+ * specialty, the experience bounds and quoted phrases, none of the negated
+ * terms, and a fuzzy match of the remaining keywords.
+ */
+function buildSearchCondition(search: string): SQL | undefined {
+  const { tokens } = interpretSearch(search);
+  const named = (kind: SearchToken["kind"]) =>
+    tokens.filter((token) => token.kind === kind && !token.negated).map((token) => token.value);
+  const cities = named("city");
+  const degrees = named("degree");
+  const languages = named("language");
+  const keywords = named("keyword").join(" ");
+
+  return and(
+    cities.length > 0 ? inArray(advocates.city, cities) : undefined,
+    degrees.length > 0 ? inArray(advocates.degree, degrees) : undefined,
+    languages.length > 0 ? buildLanguageCondition(languages) : undefined,
+    ...tokens.map(buildTokenCondition),
+    keywords ? buildKeywordCondition(keywords) : undefined
+  );
+}
+
+/**
+ * Builds the per-row relevance score for a free-text search: the weighted
+ * ts_rank of the full-text document plus the best trigram similarity, so exact
+ * word matches rank first and close misspellings still rank above substrings.
+ * Returns undefined when there is nothing to rank by.
+ */
+export function buildRelevance(filters: AdvocateFilters): SQL<number> | undefined {
+  const search = filters.search ? interpretSearch(filters.search).keywords : "";
+  if (!search) return undefined;
+
+  return sql<number>`(
+    ts_rank(${searchDocument}, ${toTsQuery(search)}) +
+    greatest(
+      similarity(${advocates.firstName} || ' ' || ${advocates.lastName}, ${search}),
+      similarity(${advocates.city}, ${search}),
+      (SELECT max(word_similarity(${search}, ${specialties.name})) FROM ${linkedSpecialties})
+    )
+  )`;
+}
+
+/**
+ * Builds the great-circle (haversine) distance in miles from the `near` point.
+ * Returns undefined when the search is not a proximity search.
+ */
+export function buildDistance(near: ProximityFilter | undefined): SQL<number> | undefined {
+  if (!near) return undefined;
+
+  // Parameters are cast so Postgres does not infer integer from the context
+  const latitude = sql`${near.latitude}::double precision`;
+  const longitude = sql`${near.longitude}::double precision`;
+  return sql<number>`(
+    ${sql.raw(String(EARTH_RADIUS_MILES))} * 2 * asin(sqrt(
+      power(sin(radians(${advocates.latitude} - ${latitude}) / 2), 2) +
+      cos(radians(${latitude})) * cos(radians(${advocates.latitude})) *
+      power(sin(radians(${advocates.longitude} - ${longitude}) / 2), 2)
+    ))
+  )`;
+}
+
+/**
+ * Builds the proximity filter. A bounding box on (latitude, longitude) lets the
+ * location index narrow the candidates before the exact distance check.
+ */
+function buildProximityCondition(near: ProximityFilter): SQL | undefined {
+  // One degree of latitude is ~69 miles; longitude degrees shrink with cos(lat)
+  const latDelta = near.radiusMiles / 69;
+  const lngDelta = near.radiusMiles / (69 * Math.max(Math.cos((near.latitude * Math.PI) / 180), 0.01));
+
+  return and(
+    sql`${advocates.latitude} BETWEEN ${near.latitude - latDelta} AND ${near.latitude + latDelta}`,
+    sql`${advocates.longitude} BETWEEN ${near.longitude - lngDelta} AND ${near.longitude + lngDelta}`,
+    sql`${buildDistance(near)} <= ${near.radiusMiles}`
+  );
+}
+
+/**
+ * Resolves the ORDER BY expression for a sort field, with the Postgres type
+ * used to cast a cursor's text value back for keyset comparison.
+ * createdAt is coalesced so nullable rows still have a position.
+ */
+function buildSortKey(
+  sort: AdvocateSort,
+  relevance: SQL<number> | undefined,
+  distance: SQL<number> | undefined
+): { expression: SQL | AnyColumn; type: string } | undefined {
+  switch (sort.field) {
+    case "lastName":
+      return { expression: advocates.lastName, type: "text" };
+    case "city":
+      return { expression: advocates.city, type: "text" };
+    case "yearsOfExperience":
+      return { expression: advocates.yearsOfExperience, type: "integer" };
+    case "createdAt":
+      return {
+        expression: sql`coalesce(${advocates.createdAt}, 'epoch'::timestamp)`,
+        type: "timestamp",
+      };
+    case "relevance":
+      return relevance ? { expression: relevance, type: "real" } : undefined;
+    case "distance":
+      return distance ? { expression: distance, type: "double precision" } : undefined;
+  }
+}
+
+/**
+ * Builds the specialty filter from the link table, which the reverse lookup
+ * index on advocate_specialties serves.
+ */
+function buildSpecialtyCondition(filters: AdvocateFilters): SQL | undefined {
+  if (filters.specialties.length === 0) return undefined;
+  return buildSpecialtyNamesCondition(filters.specialties, filters.specialtyMatch);
+}
+
+/**
+ * Matches advocates who speak any of the languages at `proficiency` or
+ * better. Each alternative is a JSONB containment (`@>`) test of one
+ * { language, proficiency } element, which the GIN index on `languages` can
+ * serve; without a proficiency, the element only names the language.
+ */
+function buildLanguageCondition(languages: string[], proficiency?: LanguageProficiency): SQL | undefined {
+  const levels = proficiency ? languageProficiencies.slice(0, languageProficiencies.indexOf(proficiency) + 1) : [undefined];
+  const elements = languages.flatMap((language) =>
+    levels.map((level) => (level ? { language, proficiency: level } : { language }))
+  );
+
+  return or(...elements.map((element) => sql`${advocates.languages} @> ${JSON.stringify([element])}::jsonb`));
+}
+
+/** Matches advocates who accept any of the plans, given by catalog slug. */
+function buildPlanCondition(slugs: string[]): SQL {
+  return sql`EXISTS (
+    SELECT 1 FROM ${advocatePlans}
+    JOIN ${plans} ON ${plans.id} = ${advocatePlans.planId}
+    WHERE ${advocatePlans.advocateId} = ${advocates.id} AND ${inArray(plans.slug, slugs)}
+  )`;
+}
+
+/**
+ * Composes all structured filters into a single WHERE condition.
+ * Each populated filter is ANDed together with the active-advocate check.
+ */
+export function buildAdvocateConditions(filters: AdvocateFilters): SQL | undefined {
+  const conditions: (SQL | undefined)[] = [
+    isActive,
+    filters.search ? buildSearchCondition(filters.search) : undefined,
+    filters.cities.length > 0 ? inArray(advocates.city, filters.cities) : undefined,
+    filters.degrees.length > 0 ? inArray(advocates.degree, filters.degrees) : undefined,
+    buildSpecialtyCondition(filters),
+    filters.languages?.length ? buildLanguageCondition(filters.languages, filters.proficiency) : undefined,
+    filters.plans?.length ? buildPlanCondition(filters.plans) : undefined,
+    filters.minYears !== undefined ? gte(advocates.yearsOfExperience, filters.minYears) : undefined,
+    filters.maxYears !== undefined ? lte(advocates.yearsOfExperience, filters.maxYears) : undefined,
+    filters.near ? buildProximityCondition(filters.near) : undefined,
+  ];
+
+  const present = conditions.filter((condition): condition is SQL => condition !== undefined);
+  return present.length > 0 ? and(...present) : undefined;
+}
+
+interface SearchOptions {
+  filters: AdvocateFilters;
+  sort: AdvocateSort;
+  limit: number;
+  offset?: number;
+  cursor?: AdvocateCursor;
+  include?: AdvocateInclude[];
+}
+
+interface SearchPage {
+  data: RankedAdvocate[];
+  nextCursor: string | null;
+}
+
+/**
+ * Fetches one page of advocates matching the given conditions.
+ *
+ * Rows are ordered by the sort key with id as a tie-breaker, so the order is
+ * total and stable across requests. With a cursor, the page starts strictly
+ * after the cursor's (sort key, id) position (keyset pagination), which stays
+ * fast on deep pages; otherwise `offset` is used. One extra row is fetched to
+ * decide whether a next page exists.
+ */
+export async function searchAdvocates(
+  conditions: SQL | undefined,
+  { filters, sort, limit, offset = 0, cursor, include = [] }: SearchOptions
+): Promise<SearchPage> {
+  const relevance = buildRelevance(filters);
+  const distance = buildDistance(filters.near);
+  const key = buildSortKey(sort, relevance, distance);
+  const direction = sort.order === "asc" ? asc : desc;
+  const comparator = sort.order === "asc" ? sql`>` : sql`<`;
+
+  // Row comparison keeps (key, id) ordering consistent with ORDER BY
+  const keyset = cursor
+    ? key && cursor.value !== null
+      ? sql`(${key.expression}, ${advocates.id}) ${comparator} (CAST(${cursor.value} AS ${sql.raw(key.type)}), ${cursor.id})`
+      : sql`${advocates.id} ${comparator} ${cursor.id}`
+    : undefined;
+
+  const rows = await db
+    .select({
+      ...withLanguageColumn,
+      relevance: relevance ?? sql<null>`NULL`,
+      distanceMiles: distance ?? sql<null>`NULL`,
+      // Sort key as text so the cursor round-trips without precision loss
+      sortValue: key ? sql<string>`(${key.expression})::text` : sql<null>`NULL`,
+    })
+    .from(advocates)
+    .where(and(conditions, keyset))
+    .orderBy(...(key ? [direction(key.expression)] : []), direction(advocates.id))
+    .limit(limit + 1)
+    .offset(cursor ? 0 : offset);
+
+  const pageRows = rows.slice(0, limit);
+  const last = pageRows[pageRows.length - 1];
+  const nextCursor =
+    rows.length > limit && last
+      ? encodeCursor({ field: sort.field, order: sort.order, value: last.sortValue, id: last.id })
+      : null;
+
+  // Cast types to match Advocate interface
+  const ranked: RankedAdvocate[] = pageRows.map(
+    ({ relevance: score, distanceMiles, sortValue: _sortValue, ...advocate }) => ({
+      ...toAdvocate(advocate, include),
+      ...(score !== null && { relevance: Number(score) }),
+      ...(distanceMiles !== null && { distanceMiles: Math.round(Number(distanceMiles) * 10) / 10 }),
+    })
+  );
+  const data = await attachPlans(ranked, include);
+
+  return { data, nextCursor };
+}
+
+// With count=approximate, unfiltered searches over at least this many rows use an estimate
+export const APPROXIMATE_COUNT_MIN_ROWS = 100_000;
+
+/**
+ * Counts the advocates matching `conditions`. With the approximate mode, an
+ * unfiltered search reads the planner's row estimate for the table (kept
+ * current by autovacuum's ANALYZE) instead of scanning it, as long as the
+ * estimate is large enough that the difference does not matter.
+ */
+async function countAdvocates(
+  conditions: SQL | undefined,
+  { unfiltered, mode }: { unfiltered: boolean; mode: CountMode }
+): Promise<{ total: number; approximate: boolean }> {
+  if (mode === "approximate" && unfiltered) {
+    const [row] = await db
+      .select({ estimate: sql<string>`reltuples::bigint` })
+      .from(sql`pg_class`)
+      .where(sql`oid = 'advocates'::regclass`);
+    const estimate = Number(row?.estimate ?? -1);
+    if (estimate >= APPROXIMATE_COUNT_MIN_ROWS) return { total: estimate, approximate: true };
+  }
+
+  const [{ total }] = await db
+    .select({ total: count() })
+    .from(advocates)
+    .where(conditions);
+  return { total: Number(total), approximate: false };
+}
+
+// Cached pages come back from JSON with dates as ISO strings
+const reviveDates = (advocate: RankedAdvocate): RankedAdvocate => ({
+  ...advocate,
+  createdAt: advocate.createdAt && new Date(advocate.createdAt),
+  updatedAt: advocate.updatedAt && new Date(advocate.updatedAt),
+});
+
+/**
+ * Runs a parsed search end to end: total count, the requested page (keyset
+ * when a cursor is given, offset otherwise) and facet counts, all over the
+ * same conditions. Shared by GET /api/advocates and the server-rendered home
+ * page so both always agree.
+ *
+ * The count, facets and page are cached separately (see cachedSearch), so
+ * paging through a search reuses its count and facets; every advocate write
+ * invalidates them.
+ */
+export async function runAdvocateSearch({
+  filters,
+  sort,
+  page,
+  limit,
+  cursor,
+  include,
+  count: countMode,
+}: AdvocateQuery): Promise<AdvocateSearchResponse> {
+  const conditions = buildAdvocateConditions(filters);
+  const filterKey = filtersToSearchParams(filters).toString();
+  const includeKey = [...include].sort().join(",");
+  const pageKey = cursor ? `cursor=${encodeCursor(cursor)}` : `page=${page}`;
+
+  const [counted, pageOfResults, facets] = await Promise.all([
+    cachedSearch(`count:${countMode}:${filterKey}`, () =>
+      countAdvocates(conditions, { unfiltered: filterKey === "", mode: countMode })
+    ),
+    cachedSearch(`page:${filterKey}|${sort.field}.${sort.order}|${limit}|${pageKey}|${includeKey}`, () =>
+      searchAdvocates(conditions, { filters, sort, limit, offset: (page - 1) * limit, cursor, include })
+    ),
+    cachedSearch(`facets:${filterKey}|${includeKey}`, () => getAdvocateFacets(conditions, include)),
+  ]);
+
+  return {
+    data: pageOfResults.data.map(reviveDates),
+    total: counted.total,
+    ...(counted.approximate && { totalIsApproximate: true }),
+    page: cursor ? null : page,
+    limit,
+    totalPages: Math.ceil(counted.total / limit),
+    nextCursor: pageOfResults.nextCursor,
+    filters,
+    sort,
+    facets,
+    interpretation: filters.search ? interpretSearch(filters.search) : null,
+  };
+}
+
+// Rows fetched per query while streaming an export
+const EXPORT_BATCH_SIZE = 1000;
+
+/**
+ * Yields every advocate matching a search, in the search's order, one batch
+ * at a time. Batches are fetched by keyset pagination, so memory stays flat
+ * and deep batches stay fast however many rows match.
+ */
+export async function* iterateAdvocates(
+  { filters, sort }: Pick<AdvocateQuery, "filters" | "sort">,
+  batchSize = EXPORT_BATCH_SIZE
+): AsyncGenerator<RankedAdvocate[]> {
+  const conditions = buildAdvocateConditions(filters);
+  let cursor: AdvocateCursor | undefined;
+
+  do {
+    const { data, nextCursor } = await searchAdvocates(conditions, { filters, sort, limit: batchSize, cursor });
+    if (data.length > 0) yield data;
+    cursor = nextCursor ? (decodeCursor(nextCursor) ?? undefined) : undefined;
+  } while (cursor);
+}
+
+// Upper bound on advocates scored per match request
+const MAX_MATCH_CANDIDATES = 500;
+
+/**
+ * Loads the advocates worth scoring for a match request.
+ *
+ * Required specialties are hard filters. A location preference narrows the
+ * pool to twice the requested radius (where the location score reaches zero)
+ * or, for a city, to the city's state. The pool is pre-ordered by weighted
+ * specialty overlap and experience, so the cap keeps the strongest candidates.
+ */
+export async function findMatchCandidates(profile: PatientProfile): Promise<Advocate[]> {
+  const required = profile.specialties.filter((needed) => needed.priority === "required");
+  const { city, near } = profile.location ?? {};
+  const state = city ? findCity(city)?.state : undefined;
+
+  const location = near
+    ? buildProximityCondition({ ...near, radiusMiles: near.radiusMiles * 2 })
+    : city
+      ? or(ilike(advocates.city, city), state ? eq(advocates.state, state) : undefined)
+      : undefined;
+
+  const overlap = profile.specialties.map(
+    (needed) =>
+      sql`(CASE WHEN ${buildSpecialtyNamesCondition([needed.name])} THEN ${PRIORITY_WEIGHTS[needed.priority]}::integer ELSE 0 END)`
+  );
+
+  const rows = await db
+    .select(advocateColumns)
+    .from(advocates)
+    .where(
+      and(
+        isActive,
+        required.length > 0
+          ? buildSpecialtyNamesCondition(required.map((needed) => needed.name), "all")
+          : undefined,
+        location
+      )
+    )
+    .orderBy(
+      ...(overlap.length > 0 ? [desc(sql.join(overlap, sql` + `))] : []),
+      desc(advocates.yearsOfExperience),
+      asc(advocates.id)
+    )
+    .limit(MAX_MATCH_CANDIDATES);
+
+  return rows.map((row) => toAdvocate(row));
+}
+
+/**
+ * Counts advocates per value of a plain text column within the given conditions.
+ */
+async function countByColumn(
+  column: typeof advocates.city | typeof advocates.degree,
+  conditions: SQL | undefined
+): Promise<FacetCount[]> {
+  const rows = await db
+    .select({ value: column, count: count() })
+    .from(advocates)
+    .where(conditions)
+    .groupBy(column)
+    .orderBy(desc(count()), column);
+
+  return rows.map((row) => ({ value: row.value, count: Number(row.count) }));
+}
+
+/**
+ * Counts advocates per specialty through the advocate_specialties link table.
+ */
+async function countSpecialties(conditions: SQL | undefined): Promise<FacetCount[]> {
+  const rows = await db
+    .select({ value: specialties.name, count: count() })
+    .from(advocateSpecialties)
+    .innerJoin(advocates, eq(advocates.id, advocateSpecialties.advocateId))
+    .innerJoin(specialties, eq(specialties.id, advocateSpecialties.specialtyId))
+    .where(conditions)
+    .groupBy(specialties.name)
+    .orderBy(desc(count()), specialties.name);
+
+  return rows.map((row) => ({ value: row.value, count: Number(row.count) }));
+}
+
+/**
+ * Counts advocates per spoken language, at any level of proficiency.
+ */
+async function countLanguages(conditions: SQL | undefined): Promise<FacetCount[]> {
+  const language = sql<string>`spoken.entry->>'language'`;
+  const rows = await db
+    .select({ value: language, count: count() })
+    .from(advocates)
+    .innerJoin(sql`jsonb_array_elements(${advocates.languages}) AS spoken(entry)`, sql`true`)
+    .where(conditions)
+    .groupBy(language)
+    .orderBy(desc(count()), language);
+
+  return rows.map((row) => ({ value: row.value, count: Number(row.count) }));
+}
+
+/**
+ * Computes facet counts for city, degree, specialty and experience range,
+ * plus spoken language when `include` asks for languages.
+ * Experience is grouped by exact years in SQL (a small set of values) and
+ * folded into EXPERIENCE_BUCKETS here so the bucket boundaries live in one place.
+ */
+export async function getAdvocateFacets(
+  conditions: SQL | undefined,
+  include: AdvocateInclude[] = []
+): Promise<AdvocateFacets> {
+  const [cities, degrees, specialtyCounts, years, languages] = await Promise.all([
+    countByColumn(advocates.city, conditions),
+    countByColumn(advocates.degree, conditions),
+    countSpecialties(conditions),
+    db
+      .select({ years: advocates.yearsOfExperience, count: count() })
+      .from(advocates)
+      .where(conditions)
+      .groupBy(advocates.yearsOfExperience),
+    include.includes("languages") ? countLanguages(conditions) : undefined,
+  ]);
+
+  const experience = EXPERIENCE_BUCKETS.map((bucket) => ({
+    ...bucket,
+    count: years
+      .filter(
+        (row) =>
+          row.years >= bucket.minYears &&
+          (bucket.maxYears === undefined || row.years <= bucket.maxYears)
+      )
+      .reduce((sum, row) => sum + Number(row.count), 0),
+  }));
+
+  return { cities, degrees, specialties: specialtyCounts, experience, ...(languages && { languages }) };
+}
+
+/**
+ * Finds an active advocate by id, with the optional parts in `include`;
+ * soft-deleted advocates are treated as missing.
+ */
+export async function findAdvocateById(id: number, include: AdvocateInclude[] = []): Promise<Advocate | null> {
+  const [row] = await db
+    .select(withLanguageColumn)
+    .from(advocates)
+    .where(and(eq(advocates.id, id), isActive));
+
+  if (!row) return null;
+
+  const [advocate] = await attachPlans([toAdvocate(row, include)], include);
+  return advocate;
+}
+
+/** Finds the active advocates among `ids`, keyed by id; missing and soft-deleted ids are left out. */
+export async function findAdvocatesByIds(ids: number[]): Promise<Map<number, Advocate>> {
+  const found = new Map<number, Advocate>();
+  if (ids.length === 0) return found;
+
+  const rows = await db
+    .select(advocateColumns)
+    .from(advocates)
+    .where(and(isActive, inArray(advocates.id, ids)));
+
+  rows.forEach((row) => found.set(row.id, toAdvocate(row)));
+  return found;
+}
+
+/**
+ * Finds an active advocate with the same name and phone number, which is how
+ * the directory identifies a person. `excludeId` skips the advocate being edited.
+ */
+export async function findDuplicateAdvocate(
+  { firstName, lastName, phoneNumber }: Pick<AdvocateInput, "firstName" | "lastName" | "phoneNumber">,
+  excludeId?: number
+): Promise<Advocate | null> {
+  const [row] = await db
+    .select(advocateColumns)
+    .from(advocates)
+    .where(
+      and(
+        isActive,
+        sql`lower(${advocates.firstName}) = lower(${firstName})`,
+        sql`lower(${advocates.lastName}) = lower(${lastName})`,
+        eq(advocates.phoneNumber, phoneNumber),
+        excludeId !== undefined ? ne(advocates.id, excludeId) : undefined
+      )
+    )
+    .limit(1);
+
+  return row ? toAdvocate(row) : null;
+}
+
+/**
+ * Finds the active advocates matching any of the given name + phone number
+ * pairs (names case-insensitive), keyed by naturalKey.
+ */
+export async function findAdvocatesByNaturalKeys(
+  executor: DbExecutor,
+  keys: Pick<AdvocateInput, "firstName" | "lastName" | "phoneNumber">[]
+): Promise<Map<string, Advocate & { id: number }>> {
+  const found = new Map<string, Advocate & { id: number }>();
+  if (keys.length === 0) return found;
+
+  // Phone numbers are nearly unique, so narrow by them and compare names here
+  const wanted = new Set(keys.map(naturalKey));
+  const rows = await executor
+    .select(advocateColumns)
+    .from(advocates)
+    .where(and(isActive, inArray(advocates.phoneNumber, Array.from(new Set(keys.map((key) => key.phoneNumber))))));
+
+  for (const row of rows) {
+    const key = naturalKey(row);
+    if (wanted.has(key)) found.set(key, { ...toAdvocate(row), id: row.id });
+  }
+  return found;
+}
+
+export interface SimilarAdvocate extends Advocate {
+  sharedSpecialties: number;
+}
+
+/**
+ * Finds active advocates similar to the given one: each shared specialty
+ * counts one point and practicing in the same city counts one more.
+ * Ties go to the more experienced advocate.
+ */
+export async function findSimilarAdvocates(advocate: Advocate & { id: number }, limit = 4): Promise<SimilarAdvocate[]> {
+  const shared = sql<number>`(
+    SELECT count(*)::integer FROM ${advocateSpecialties} AS candidate
+    WHERE candidate.advocate_id = ${advocates.id}
+      AND candidate.specialty_id IN (
+        SELECT ${advocateSpecialties.specialtyId} FROM ${advocateSpecialties}
+        WHERE ${advocateSpecialties.advocateId} = ${advocate.id}
+      )
+  )`;
+  const sameCity = sql<number>`(CASE WHEN ${advocates.city} = ${advocate.city} THEN 1 ELSE 0 END)`;
+
+  const rows = await db
+    .select({ ...advocateColumns, sharedSpecialties: shared })
+    .from(advocates)
+    .where(
+      and(
+        isActive,
+        ne(advocates.id, advocate.id),
+        or(eq(advocates.city, advocate.city), sql`${shared} > 0`)
+      )
+    )
+    .orderBy(desc(sql`${shared} + ${sameCity}`), desc(advocates.yearsOfExperience), asc(advocates.id))
+    .limit(limit);
+
+  return rows.map(({ sharedSpecialties, ...row }) => ({
+    ...toAdvocate(row),
+    sharedSpecialties: Number(sharedSpecialties),
+  }));
+}
+
+/**
+ * The advocates row for an input: adds the state and coordinates derived from
+ * city and ZIP, and leaves out specialties, which go to the link table.
+ */
+const toAdvocateValues = ({ specialties: _specialties, ...input }: AdvocateInput) => ({
+  ...input,
+  ...resolveLocation(input.city, input.zip),
+});
+
+// A write that sets languages returns them, as if the client had asked for them
+const includedBy = (input: Partial<AdvocateInput>): AdvocateInclude[] => (input.languages ? ["languages"] : []);
+
+/**
+ * Inserts an advocate and links its specialties in one transaction.
+ * `input.specialties` must already be canonical names (see resolveSpecialtyNames).
+ */
+export async function createAdvocate(input: AdvocateInput): Promise<Advocate> {
+  const advocate = await db.transaction(async (tx) => {
+    const [row] = await tx.insert(advocates).values(toAdvocateValues(input)).returning(withLanguageColumn);
+    await replaceSpecialtyLinks(tx, [{ advocateId: row.id, names: input.specialties }]);
+    return toAdvocate({ ...row, specialties: input.specialties }, includedBy(input));
+  });
+
+  await invalidateSearchCache();
+  return advocate;
+}
+
+/**
+ * Applies a partial update to an active advocate.
+ * Changing city or ZIP re-derives the state and coordinates.
+ * Returns null when the advocate does not exist or was deleted.
+ */
+export async function updateAdvocate(id: number, changes: Partial<AdvocateInput>): Promise<Advocate | null> {
+  const { specialties: specialtyNames, ...columns } = changes;
+  const advocate = await db.transaction(async (tx) => {
+    let location = {};
+    if (changes.city !== undefined || changes.zip !== undefined) {
+      const [current] = await tx
+        .select({ city: advocates.city, zip: advocates.zip })
+        .from(advocates)
+        .where(and(eq(advocates.id, id), isActive));
+      if (current) {
+        location = resolveLocation(changes.city ?? current.city, changes.zip ?? current.zip);
+      }
+    }
+
+    const [row] = await tx
+      .update(advocates)
+      .set({ ...columns, ...location, updatedAt: sql`CURRENT_TIMESTAMP` })
+      .where(and(eq(advocates.id, id), isActive))
+      .returning(withLanguageColumn);
+    if (!row) return null;
+
+    if (specialtyNames) {
+      await replaceSpecialtyLinks(tx, [{ advocateId: row.id, names: specialtyNames }]);
+    }
+    // RETURNING read the links as they were before this update
+    return toAdvocate({ ...row, specialties: specialtyNames ?? row.specialties }, includedBy(changes));
+  });
+
+  if (advocate) await invalidateSearchCache();
+  return advocate;
+}
+
+/**
+ * Soft-deletes an advocate so its row and history are preserved.
+ * Returns false when the advocate does not exist or was already deleted.
+ */
+export async function softDeleteAdvocate(id: number): Promise<boolean> {
+  const rows = await db
+    .update(advocates)
+    .set({ deletedAt: sql`CURRENT_TIMESTAMP` })
+    .where(and(eq(advocates.id, id), isActive))
+    .returning({ id: advocates.id });
+
+  if (rows.length > 0) await invalidateSearchCache();
+  return rows.length > 0;
+}
+
+/**
+ * Applies one change to many active advocates in a single transaction and
+ * returns the ids that actually changed: deleted advocates, and those who
+ * already have the specialty being added, are left untouched.
+ * `addSpecialty` must already be a canonical name (see resolveSpecialtyNames).
+ */
+export async function bulkUpdateAdvocates(ids: number[], change: AdvocateBulkChange): Promise<number[]> {
+  const selected = and(inArray(advocates.id, ids), isActive);
+
+  const changed = await db.transaction(async (tx) => {
+    switch (change.action) {
+      case "deactivate": {
+        const rows = await tx
+          .update(advocates)
+          .set({ deletedAt: sql`CURRENT_TIMESTAMP` })
+          .where(selected)
+          .returning({ id: advocates.id });
+        return rows.map((row) => row.id);
+      }
+      case "addSpecialty": {
+        const [specialty] = await tx
+          .select({ id: specialties.id })
+          .from(specialties)
+          .where(eq(specialties.name, change.specialty));
+        if (!specialty) return [];
+
+        // Appended after each advocate's current specialties
+        const rows = await tx
+          .select({
+            id: advocates.id,
+            position: sql<number>`(
+              SELECT coalesce(max(${advocateSpecialties.position}) + 1, 0)::integer FROM ${advocateSpecialties}
+              WHERE ${advocateSpecialties.advocateId} = ${advocates.id}
+            )`,
+          })
+          .from(advocates)
+          .where(and(selected, not(buildSpecialtyNamesCondition([change.specialty]))))
+          .for("update");
+        if (rows.length === 0) return [];
+
+        const changed = rows.map((row) => row.id);
+        await tx
+          .insert(advocateSpecialties)
+          .values(rows.map((row) => ({ advocateId: row.id, specialtyId: specialty.id, position: row.position })));
+        await tx
+          .update(advocates)
+          .set({ updatedAt: sql`CURRENT_TIMESTAMP` })
+          .where(inArray(advocates.id, changed));
+        return changed;
+      }
+      case "setCity": {
+        // ZIPs belong to the old city, so they are cleared rather than kept mismatched
+        const rows = await tx
+          .update(advocates)
+          .set({ city: change.city, ...resolveLocation(change.city, null), updatedAt: sql`CURRENT_TIMESTAMP` })
+          .where(selected)
+          .returning({ id: advocates.id });
+        return rows.map((row) => row.id);
+      }
+    }
+  });
+
+  if (changed.length > 0) await invalidateSearchCache();
+  return changed;
+}
+
+export interface UpsertSummary {
+  inserted: number;
+  updated: number;
+  /** Each row's advocate id, keyed by naturalKey */
+  ids: Map<string, number>;
+}
+
+/**
+ * Inserts advocates, or updates the active advocate with the same natural key
+ * (first and last name case-insensitive, phone number), then re-links their
+ * specialties.
+ * Runs on the given executor so callers control the transaction and batching,
+ * and invalidate the search cache once it commits. Rows within one call must
+ * have distinct natural keys.
+ */
+export async function upsertAdvocates(executor: DbExecutor, rows: AdvocateInput[]): Promise<UpsertSummary> {
+  if (rows.length === 0) return { inserted: 0, updated: 0, ids: new Map() };
+
+  // drizzle's onConflictDoUpdate only targets plain columns, so the clause
+  // naming the natural-key index's expressions is appended to the built insert
+  const results = await executor.execute<{
+    id: number;
+    firstName: string;
+    lastName: string;
+    phoneNumber: string;
+    inserted: boolean;
+  }>(sql`
+    ${(executor.insert(advocates).values(rows.map(toAdvocateValues)) as SQLWrapper).getSQL()}
+    ON CONFLICT (lower(first_name), lower(last_name), phone_number) WHERE deleted_at IS NULL
+    DO UPDATE SET
+      city = excluded.city,
+      state = excluded.state,
+      zip = excluded.zip,
+      latitude = excluded.latitude,
+      longitude = excluded.longitude,
+      degree = excluded.degree,
+      -- Rows that list no languages (e.g. a CSV without the column) keep the current ones
+      languages = CASE WHEN excluded.languages = '[]'::jsonb THEN ${advocates.languages} ELSE excluded.languages END,
+      years_of_experience = excluded.years_of_experience,
+      phone_extension = excluded.phone_extension,
+      updated_at = CURRENT_TIMESTAMP
+    -- xmax is 0 only for freshly inserted row versions
+    RETURNING id, first_name AS "firstName", last_name AS "lastName", phone_number AS "phoneNumber", (xmax = 0) AS inserted
+  `);
+
+  // RETURNING does not follow the order of the values, so rows are matched by natural key
+  const specialtiesByKey = new Map(rows.map((row) => [naturalKey(row), row.specialties]));
+  await replaceSpecialtyLinks(
+    executor,
+    results.map((result) => ({ advocateId: result.id, names: specialtiesByKey.get(naturalKey(result)) ?? [] }))
+  );
+
+  const ids = new Map(results.map((result) => [naturalKey(result), result.id]));
+
+  const inserted = results.filter((result) => result.inserted).length;
+  return { inserted, updated: results.length - inserted, ids };
+}
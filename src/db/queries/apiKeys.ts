@@ -0,0 +1,84 @@
+import { createHash, randomBytes } from "crypto";
+import { and, asc, eq, isNull, lt, or, sql } from "drizzle-orm";
+import db from "..";
+import { apiKeys } from "../schema";
+import type { ApiKey, ApiKeyInput, CreatedApiKey } from "../../types/apiAccess";
+
+const KEY_PREFIX = "sk_";
+// Characters of the key kept in the clear, after "sk_"
+const VISIBLE_KEY_CHARACTERS = 8;
+
+const hashKey = (key: string) => createHash("sha256").update(key).digest("hex");
+
+function toApiKey(row: typeof apiKeys.$inferSelect): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    scopes: row.scopes,
+    createdAt: row.createdAt ?? undefined,
+    lastUsedAt: row.lastUsedAt ?? undefined,
+    revokedAt: row.revokedAt ?? undefined,
+  };
+}
+
+/**
+ * Creates an API key. The returned `key` is the only copy of the secret:
+ * only its hash is stored, so a lost key must be replaced, not recovered.
+ */
+export async function createApiKey({ name, scopes }: ApiKeyInput): Promise<CreatedApiKey> {
+  const key = `${KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  const [row] = await db
+    .insert(apiKeys)
+    .values({
+      name,
+      scopes,
+      prefix: key.slice(0, KEY_PREFIX.length + VISIBLE_KEY_CHARACTERS),
+      keyHash: hashKey(key),
+    })
+    .returning();
+
+  return { data: toApiKey(row), key };
+}
+
+/**
+ * Finds the active key for a presented secret, or null when it is unknown or
+ * revoked. Records when the key was last used, at most once a minute.
+ */
+export async function findApiKeyBySecret(key: string): Promise<ApiKey | null> {
+  const [row] = await db
+    .select()
+    .from(apiKeys)
+    .where(and(eq(apiKeys.keyHash, hashKey(key)), isNull(apiKeys.revokedAt)))
+    .limit(1);
+  if (!row) return null;
+
+  await db
+    .update(apiKeys)
+    .set({ lastUsedAt: sql`CURRENT_TIMESTAMP` })
+    .where(
+      and(
+        eq(apiKeys.id, row.id),
+        or(isNull(apiKeys.lastUsedAt), lt(apiKeys.lastUsedAt, sql`CURRENT_TIMESTAMP - interval '1 minute'`))
+      )
+    );
+
+  return toApiKey(row);
+}
+
+/** Lists every key, revoked ones included, oldest first. */
+export async function listApiKeys(): Promise<ApiKey[]> {
+  const rows = await db.select().from(apiKeys).orderBy(asc(apiKeys.id));
+  return rows.map(toApiKey);
+}
+
+/** Revokes a key; returns null when no active key has this id. */
+export async function revokeApiKey(id: number): Promise<ApiKey | null> {
+  const [row] = await db
+    .update(apiKeys)
+    .set({ revokedAt: sql`CURRENT_TIMESTAMP` })
+    .where(and(eq(apiKeys.id, id), isNull(apiKeys.revokedAt)))
+    .returning();
+
+  return row ? toApiKey(row) : null;
+}
@@ -0,0 +1,44 @@
+import { and, desc, eq, lt, sql } from "drizzle-orm";
+import db from "..";
+import { auditLog } from "../schema";
+import type { AuditEntry, AuditQuery } from "../../types/apiAccess";
+
+export type AuditInput = Omit<AuditEntry, "id" | "occurredAt">;
+
+function toAuditEntry(row: typeof auditLog.$inferSelect): AuditEntry {
+  return { ...row, apiKeyId: row.apiKeyId ?? undefined, changes: row.changes ?? undefined };
+}
+
+/** Appends one entry to the audit log. */
+export async function recordAudit(entry: AuditInput): Promise<void> {
+  await db.insert(auditLog).values(entry);
+}
+
+/**
+ * Lists audit entries newest first, optionally for one advocate, actor or
+ * action. Pages by id: pass `nextBefore` back as `before`.
+ */
+export async function listAuditEntries({
+  advocateId,
+  actor,
+  action,
+  before,
+  limit,
+}: AuditQuery): Promise<{ data: AuditEntry[]; nextBefore: number | null }> {
+  const rows = await db
+    .select()
+    .from(auditLog)
+    .where(
+      and(
+        advocateId !== undefined ? sql`${auditLog.advocateIds} @> ${JSON.stringify([advocateId])}::jsonb` : undefined,
+        actor !== undefined ? eq(auditLog.actor, actor) : undefined,
+        action !== undefined ? eq(auditLog.action, action) : undefined,
+        before !== undefined ? lt(auditLog.id, before) : undefined
+      )
+    )
+    .orderBy(desc(auditLog.id))
+    .limit(limit + 1);
+
+  const data = rows.slice(0, limit).map(toAuditEntry);
+  return { data, nextBefore: rows.length > limit ? data[data.length - 1].id : null };
+}
@@ -0,0 +1,221 @@
+import { createHash, randomBytes } from "crypto";
+import { and, asc, eq, gt, inArray, isNull, lt, ne, notExists, sql } from "drizzle-orm";
+import db from "..";
+import { advocates, availabilityWindows, bookings } from "../schema";
+import { isUniqueViolation } from "../errors";
+import type { DbExecutor } from "./specialties";
+import { findCity } from "../../lib/geo";
+import type {
+  AvailabilityInput,
+  AvailabilityWindow,
+  Booking,
+  BookingRequest,
+  CreatedBooking,
+  BookingStatus,
+  Slot,
+} from "../../types/booking";
+
+// Seeded advocates work weekdays, 9 to 5 local time
+const DEFAULT_WEEKDAYS = [1, 2, 3, 4, 5];
+const DEFAULT_HOURS = { startTime: "09:00", endTime: "17:00" };
+
+type BookingRow = typeof bookings.$inferSelect;
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+/**
+ * Casts a selected row to the AvailabilityWindow interface
+ * (Postgres `time` comes back as "HH:MM:SS").
+ */
+function toWindow(row: typeof availabilityWindows.$inferSelect): AvailabilityWindow {
+  return {
+    id: row.id,
+    dayOfWeek: row.dayOfWeek,
+    startTime: row.startTime.slice(0, 5),
+    endTime: row.endTime.slice(0, 5),
+    timezone: row.timezone,
+    slotMinutes: row.slotMinutes,
+  };
+}
+
+function toBooking({ tokenHash: _tokenHash, ...row }: BookingRow): Booking {
+  return {
+    ...row,
+    note: row.note ?? undefined,
+    createdAt: row.createdAt ?? undefined,
+    updatedAt: row.updatedAt ?? undefined,
+  };
+}
+
+/** Lists an advocate's weekly windows ordered by day and start time. */
+export async function listAvailability(advocateId: number): Promise<AvailabilityWindow[]> {
+  const rows = await db
+    .select()
+    .from(availabilityWindows)
+    .where(eq(availabilityWindows.advocateId, advocateId))
+    .orderBy(asc(availabilityWindows.dayOfWeek), asc(availabilityWindows.startTime));
+
+  return rows.map(toWindow);
+}
+
+/**
+ * Replaces an advocate's weekly schedule in one transaction.
+ * Existing bookings are kept even if they no longer fall inside a window.
+ */
+export async function replaceAvailability(
+  advocateId: number,
+  { timezone, slotMinutes, windows }: AvailabilityInput
+): Promise<AvailabilityWindow[]> {
+  return db.transaction(async (tx) => {
+    await tx.delete(availabilityWindows).where(eq(availabilityWindows.advocateId, advocateId));
+    if (windows.length === 0) return [];
+
+    const rows = await tx
+      .insert(availabilityWindows)
+      .values(windows.map((window) => ({ ...window, advocateId, timezone, slotMinutes })))
+      .returning();
+
+    return rows
+      .map(toWindow)
+      .sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.startTime.localeCompare(b.startTime));
+  });
+}
+
+/**
+ * Gives advocates without a schedule the default weekday hours in their
+ * city's time zone, so seeded data is bookable. Advocates in cities outside
+ * the gazetteer, or with a schedule already, are left alone.
+ */
+export async function seedDefaultAvailability(executor: DbExecutor, advocateIds: number[]): Promise<void> {
+  if (advocateIds.length === 0) return;
+
+  const rows = await executor
+    .select({ id: advocates.id, city: advocates.city })
+    .from(advocates)
+    .where(
+      and(
+        inArray(advocates.id, advocateIds),
+        notExists(
+          executor
+            .select({ id: availabilityWindows.id })
+            .from(availabilityWindows)
+            .where(eq(availabilityWindows.advocateId, advocates.id))
+        )
+      )
+    );
+
+  const windows = rows.flatMap(({ id, city }) => {
+    const timezone = findCity(city)?.timezone;
+    if (!timezone) return [];
+    return DEFAULT_WEEKDAYS.map((dayOfWeek) => ({ advocateId: id, dayOfWeek, timezone, ...DEFAULT_HOURS }));
+  });
+
+  if (windows.length > 0) {
+    await executor.insert(availabilityWindows).values(windows);
+  }
+}
+
+/**
+ * Returns the start times (ISO strings) of an advocate's requested or
+ * confirmed bookings that overlap [from, to).
+ */
+export async function listBookedStarts(advocateId: number, from: Date, to: Date): Promise<Set<string>> {
+  const rows = await db
+    .select({ startsAt: bookings.startsAt })
+    .from(bookings)
+    .where(
+      and(
+        eq(bookings.advocateId, advocateId),
+        ne(bookings.status, "cancelled"),
+        lt(bookings.startsAt, to),
+        gt(bookings.endsAt, from)
+      )
+    );
+
+  return new Set(rows.map((row) => row.startsAt.toISOString()));
+}
+
+/**
+ * Books a slot for a patient with status "requested".
+ *
+ * Runs in a transaction that locks the advocate row, so concurrent requests
+ * for the same advocate are serialized and the overlap check cannot race.
+ * The partial unique index on (advocate_id, starts_at) is a second guard.
+ * Returns the booking with the patient's token, or null when the slot is
+ * already taken.
+ */
+export async function createBooking(
+  advocateId: number,
+  request: BookingRequest,
+  slot: Slot
+): Promise<CreatedBooking | null> {
+  const startsAt = new Date(slot.startsAt);
+  const endsAt = new Date(slot.endsAt);
+  const token = randomBytes(32).toString("base64url");
+
+  try {
+    return await db.transaction(async (tx) => {
+      await tx
+        .select({ id: advocates.id })
+        .from(advocates)
+        .where(and(eq(advocates.id, advocateId), isNull(advocates.deletedAt)))
+        .for("update");
+
+      const [conflict] = await tx
+        .select({ id: bookings.id })
+        .from(bookings)
+        .where(
+          and(
+            eq(bookings.advocateId, advocateId),
+            ne(bookings.status, "cancelled"),
+            lt(bookings.startsAt, endsAt),
+            gt(bookings.endsAt, startsAt)
+          )
+        )
+        .limit(1);
+      if (conflict) return null;
+
+      const [row] = await tx
+        .insert(bookings)
+        .values({ ...request, advocateId, startsAt, endsAt, tokenHash: hashToken(token) })
+        .returning();
+      return { data: toBooking(row), token };
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) return null;
+    throw error;
+  }
+}
+
+export async function findBookingById(id: number): Promise<Booking | null> {
+  const [row] = await db.select().from(bookings).where(eq(bookings.id, id));
+  return row ? toBooking(row) : null;
+}
+
+/** Finds a booking by id and the patient's token; a wrong token finds nothing. */
+export async function findBookingByToken(id: number, token: string): Promise<Booking | null> {
+  const [row] = await db
+    .select()
+    .from(bookings)
+    .where(and(eq(bookings.id, id), eq(bookings.tokenHash, hashToken(token))));
+  return row ? toBooking(row) : null;
+}
+
+/**
+ * Moves a booking from one status to another. The current status is part of
+ * the WHERE clause, so a concurrent change (e.g. cancelled while being
+ * confirmed) makes this return null instead of overwriting it.
+ */
+export async function updateBookingStatus(
+  id: number,
+  from: BookingStatus,
+  to: BookingStatus
+): Promise<Booking | null> {
+  const [row] = await db
+    .update(bookings)
+    .set({ status: to, updatedAt: sql`CURRENT_TIMESTAMP` })
+    .where(and(eq(bookings.id, id), eq(bookings.status, from)))
+    .returning();
+
+  return row ? toBooking(row) : null;
+}
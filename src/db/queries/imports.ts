@@ -0,0 +1,159 @@
+import db from "..";
+import { findAdvocatesByNaturalKeys, upsertAdvocates } from "./advocates";
+import { mapSpecialtyNames, type DbExecutor } from "./specialties";
+import { naturalKey, type ImportFile } from "../../lib/advocateImport";
+import { parseAdvocateInput } from "../../lib/advocateValidation";
+import { findZip, resolveLocation } from "../../lib/geo";
+import { invalidateSearchCache } from "../../lib/searchCache";
+import type { AdvocateInput } from "../../types/advocate";
+import type { ImportReport, ImportRowResult } from "../../types/import";
+
+// Rows per INSERT statement, to stay well under Postgres' parameter limit
+const IMPORT_BATCH_SIZE = 1000;
+
+interface PlannedRow {
+  result: ImportRowResult;
+  /** Present only while the row has no errors */
+  input?: AdvocateInput;
+}
+
+/**
+ * Maps a row's specialties to canonical names, reporting unknown ones as
+ * errors and renamed ones as warnings.
+ */
+function applySpecialties(planned: PlannedRow & { input: AdvocateInput }, mapped: Map<string, string>): void {
+  const { input, result } = planned;
+  const unknown = input.specialties.filter((value) => !mapped.has(value));
+  if (unknown.length > 0) {
+    result.errors.push({ field: "specialties", message: `Unknown specialties: ${unknown.join(", ")}` });
+  }
+
+  const names: string[] = [];
+  for (const value of input.specialties) {
+    const name = mapped.get(value);
+    if (name === undefined) continue;
+    if (name !== value) {
+      result.warnings.push({ field: "specialties", message: `"${value}" imported as "${name}"` });
+    }
+    if (!names.includes(name)) names.push(name);
+  }
+  planned.input = { ...input, specialties: names };
+}
+
+/** Warns about rows that will not get a usable location for proximity search. */
+function checkLocation({ input, result }: PlannedRow & { input: AdvocateInput }): void {
+  const zipMatch = input.zip ? findZip(input.zip) : undefined;
+  if (zipMatch && zipMatch.city.toLowerCase() !== input.city.toLowerCase()) {
+    result.warnings.push({
+      field: "zip",
+      message: `ZIP ${input.zip} is in ${zipMatch.city}, not ${input.city}; the city's location is used`,
+    });
+  }
+  if (resolveLocation(input.city, input.zip).latitude === null) {
+    result.warnings.push({
+      field: "city",
+      message: `${input.city} is not in the gazetteer, so this advocate will not appear in proximity searches`,
+    });
+  }
+}
+
+/**
+ * Validates every record and decides what to do with it. Rows that repeat
+ * an earlier row's name and phone number are skipped; rows matching an
+ * active advocate become updates of that advocate.
+ */
+async function planImport(executor: DbExecutor, file: ImportFile): Promise<PlannedRow[]> {
+  const planned: PlannedRow[] = file.records.map(({ row, values }) => {
+    if (typeof values !== "object" || values === null || Array.isArray(values)) {
+      return { result: { row, action: "skip", errors: [{ field: "row", message: "Row must be an object" }], warnings: [] } };
+    }
+    const parsed = parseAdvocateInput(values);
+    return parsed.success
+      ? { result: { row, action: "insert", errors: [], warnings: [] }, input: parsed.data }
+      : { result: { row, action: "skip", errors: parsed.issues, warnings: [] } };
+  });
+  const valid = () => planned.filter((item): item is PlannedRow & { input: AdvocateInput } => !!item.input);
+  const dropInvalid = () => {
+    for (const item of planned) {
+      if (item.result.errors.length > 0) {
+        item.result.action = "skip";
+        delete item.input;
+      }
+    }
+  };
+
+  // Resolve each distinct specialty once rather than once per row
+  const values = Array.from(new Set(valid().flatMap(({ input }) => input.specialties)));
+  const mapped = await mapSpecialtyNames(values, executor);
+  for (const item of valid()) {
+    applySpecialties(item, mapped);
+    checkLocation(item);
+  }
+  dropInvalid();
+
+  const firstRows = new Map<string, number>();
+  for (const { input, result } of valid()) {
+    const key = naturalKey(input);
+    const firstRow = firstRows.get(key);
+    if (firstRow === undefined) {
+      firstRows.set(key, result.row);
+    } else {
+      result.errors.push({ field: "phoneNumber", message: `Same name and phone number as row ${firstRow}` });
+    }
+  }
+  dropInvalid();
+
+  const existing = await findAdvocatesByNaturalKeys(executor, valid().map(({ input }) => input));
+  for (const item of valid()) {
+    const match = existing.get(naturalKey(item.input));
+    if (!match) continue;
+    item.result.action = "update";
+    item.result.id = match.id;
+    // The upsert leaves names alone, so the stored spelling is what the row keeps
+    if (match.firstName !== item.input.firstName || match.lastName !== item.input.lastName) {
+      item.result.warnings.push({
+        field: "name",
+        message: `Matches ${match.firstName} ${match.lastName} (#${match.id}); the existing name is kept`,
+      });
+      item.input = { ...item.input, firstName: match.firstName, lastName: match.lastName };
+    }
+  }
+
+  return planned;
+}
+
+/**
+ * Imports a roster of advocates. Every row is validated, its specialties
+ * mapped to the taxonomy and its name + phone number checked against the
+ * file and the directory; rows with errors are skipped.
+ *
+ * With `dryRun`, nothing is written and the report says what would happen.
+ * Otherwise all valid rows are upserted in a single transaction, so a
+ * failure part-way leaves the directory unchanged.
+ */
+export async function importAdvocates(file: ImportFile, { dryRun }: { dryRun: boolean }): Promise<ImportReport> {
+  const run = async (executor: DbExecutor): Promise<PlannedRow[]> => {
+    const planned = await planImport(executor, file);
+    if (dryRun) return planned;
+
+    const writable = planned.filter((item): item is PlannedRow & { input: AdvocateInput } => !!item.input);
+    for (let start = 0; start < writable.length; start += IMPORT_BATCH_SIZE) {
+      const batch = writable.slice(start, start + IMPORT_BATCH_SIZE);
+      const { ids } = await upsertAdvocates(executor, batch.map(({ input }) => input));
+      for (const { input, result } of batch) result.id = ids.get(naturalKey(input));
+    }
+    return planned;
+  };
+
+  const planned = dryRun ? await run(db) : await db.transaction(run);
+  if (!dryRun) await invalidateSearchCache();
+  const rows = planned.map(({ result }) => result);
+  const countOf = (action: ImportRowResult["action"]) => rows.filter((row) => row.action === action).length;
+
+  return {
+    dryRun,
+    summary: { total: rows.length, inserted: countOf("insert"), updated: countOf("update"), skipped: countOf("skip") },
+    warnings: file.warnings,
+    rows,
+  };
+}
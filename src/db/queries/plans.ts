@@ -0,0 +1,134 @@
+import { and, asc, count, eq, inArray, isNull, notExists, or, sql } from "drizzle-orm";
+import db from "..";
+import { advocatePlans, advocates, plans } from "../schema";
+import { planTypes, plans as canonicalPlans } from "../seed/plans";
+import type { DbExecutor } from "./specialties";
+import { invalidateSearchCache } from "../../lib/searchCache";
+import type { Plan, PlanWithCount } from "../../types/plan";
+
+const planColumns = {
+  id: plans.id,
+  slug: plans.slug,
+  name: plans.name,
+  payer: plans.payer,
+  type: plans.type,
+};
+
+// Catalog order: by plan type as listed in planTypes, then by name
+const catalogOrder = [
+  sql`array_position(${sql.raw(`ARRAY[${planTypes.map(({ type }) => `'${type}'`).join(", ")}]`)}, ${plans.type})`,
+  asc(plans.name),
+];
+
+/** Lists the payer catalog with how many active advocates accept each plan. */
+export async function listPlans(): Promise<PlanWithCount[]> {
+  const rows = await db
+    .select({ ...planColumns, advocateCount: count(advocates.id) })
+    .from(plans)
+    .leftJoin(advocatePlans, eq(advocatePlans.planId, plans.id))
+    .leftJoin(advocates, and(eq(advocates.id, advocatePlans.advocateId), isNull(advocates.deletedAt)))
+    .groupBy(plans.id)
+    .orderBy(...catalogOrder);
+
+  return rows.map((row) => ({ ...row, advocateCount: Number(row.advocateCount) }));
+}
+
+/** Lists the plans each advocate accepts, keyed by advocate id, in catalog order. */
+export async function findPlansForAdvocates(advocateIds: number[]): Promise<Map<number, Plan[]>> {
+  const found = new Map<number, Plan[]>(advocateIds.map((id) => [id, []]));
+  if (advocateIds.length === 0) return found;
+
+  const rows = await db
+    .select({ advocateId: advocatePlans.advocateId, ...planColumns })
+    .from(advocatePlans)
+    .innerJoin(plans, eq(plans.id, advocatePlans.planId))
+    .where(inArray(advocatePlans.advocateId, advocateIds))
+    .orderBy(...catalogOrder);
+
+  for (const { advocateId, ...plan } of rows) {
+    found.get(advocateId)?.push(plan);
+  }
+  return found;
+}
+
+/**
+ * Looks up user-supplied plan slugs or names (case-insensitive) in the
+ * catalog. Anything that is not in it is returned in `unknown` so callers
+ * can reject it.
+ */
+export async function resolvePlans(values: string[]): Promise<{ plans: Plan[]; unknown: string[] }> {
+  if (values.length === 0) return { plans: [], unknown: [] };
+
+  const lowered = values.map((value) => value.toLowerCase());
+  const rows = await db
+    .select(planColumns)
+    .from(plans)
+    .where(or(inArray(plans.slug, lowered), inArray(sql`lower(${plans.name})`, lowered)));
+
+  const resolved: Plan[] = [];
+  const unknown: string[] = [];
+  for (const value of values) {
+    const match = rows.find((row) => row.slug === value.toLowerCase() || row.name.toLowerCase() === value.toLowerCase());
+    if (!match) unknown.push(value);
+    else if (!resolved.some((plan) => plan.id === match.id)) resolved.push(match);
+  }
+  return { plans: resolved, unknown };
+}
+
+/** Replaces the plans an advocate accepts and returns them in catalog order. */
+export async function replaceAdvocatePlans(advocateId: number, planIds: number[]): Promise<Plan[]> {
+  await db.transaction(async (tx) => {
+    await tx.delete(advocatePlans).where(eq(advocatePlans.advocateId, advocateId));
+    if (planIds.length > 0) {
+      await tx.insert(advocatePlans).values(planIds.map((planId) => ({ advocateId, planId })));
+    }
+  });
+  await invalidateSearchCache();
+
+  return (await findPlansForAdvocates([advocateId])).get(advocateId) ?? [];
+}
+
+/**
+ * Inserts the canonical catalog from src/db/seed/plans.ts.
+ * Existing plans (matched on slug) keep their current name, payer and type.
+ */
+export async function seedPlans(executor: DbExecutor = db): Promise<void> {
+  await executor.insert(plans).values(canonicalPlans).onConflictDoNothing();
+}
+
+/**
+ * Gives advocates who accept no plans a default mix, so seeded data can be
+ * filtered by plan: everyone takes Original Medicare, and the advocate id
+ * picks which of the other plans they also accept. Advocates with plans
+ * already are left alone.
+ */
+export async function seedDefaultPlans(executor: DbExecutor, advocateIds: number[]): Promise<void> {
+  if (advocateIds.length === 0) return;
+
+  const catalog = await executor.select({ id: plans.id, type: plans.type }).from(plans).orderBy(asc(plans.id));
+  const rows = await executor
+    .select({ id: advocates.id })
+    .from(advocates)
+    .where(
+      and(
+        inArray(advocates.id, advocateIds),
+        notExists(
+          executor
+            .select({ planId: advocatePlans.planId })
+            .from(advocatePlans)
+            .where(eq(advocatePlans.advocateId, advocates.id))
+        )
+      )
+    );
+
+  // Each advocate accepts roughly half of the other plans
+  const links = rows.flatMap(({ id }) =>
+    catalog
+      .filter((plan, index) => plan.type === "original_medicare" || (id * 7 + index * 3) % 5 < 2)
+      .map((plan) => ({ advocateId: id, planId: plan.id }))
+  );
+
+  if (links.length > 0) {
+    await executor.insert(advocatePlans).values(links);
+  }
+}
@@ -0,0 +1,140 @@
+import { and, asc, eq, gt, ne, sql } from "drizzle-orm";
+import db from "..";
+import { advocates, savedSearches } from "../schema";
+import { buildAdvocateConditions } from "./advocates";
+import { parseAdvocateQuery } from "../../lib/contractValidation";
+import type { SavedSearch, SavedSearchInput } from "../../types/savedSearch";
+
+type SavedSearchRow = typeof savedSearches.$inferSelect;
+
+/** A search counts advocates as new from when it was last viewed, or from when it was saved. */
+export const newSince = ({ lastViewedAt, createdAt }: { lastViewedAt: Date | null; createdAt?: Date | null }) =>
+  lastViewedAt ?? createdAt ?? new Date(0);
+
+/**
+ * Counts, for each row, the active advocates matching its query that were
+ * added since it was last viewed. Every count is a filtered aggregate of one
+ * query, so a key's whole list takes a single pass over the table. A query
+ * that no longer parses (say, a ZIP code dropped from the geocoder) matches
+ * nothing.
+ */
+async function countNewMatches(rows: SavedSearchRow[]): Promise<number[]> {
+  const counts = rows.map((row) => {
+    const parsed = parseAdvocateQuery(new URLSearchParams(row.query));
+    if (!parsed.success) return null;
+
+    const isNewMatch = and(buildAdvocateConditions(parsed.data.filters), gt(advocates.createdAt, newSince(row)));
+    return sql<number>`count(*) filter (where ${isNewMatch})`.mapWith(Number);
+  });
+
+  const columns = Object.fromEntries(counts.flatMap((total, index) => (total ? [[`search${index}`, total]] : [])));
+  if (Object.keys(columns).length === 0) return rows.map(() => 0);
+
+  const [totals] = await db.select(columns).from(advocates);
+  return counts.map((_, index) => totals[`search${index}`] ?? 0);
+}
+
+async function toSavedSearches(rows: SavedSearchRow[]): Promise<SavedSearch[]> {
+  const newMatches = await countNewMatches(rows);
+  return rows.map((row, index) => ({
+    id: row.id,
+    name: row.name,
+    query: row.query,
+    createdAt: row.createdAt ?? undefined,
+    updatedAt: row.updatedAt ?? undefined,
+    lastViewedAt: row.lastViewedAt,
+    newMatches: newMatches[index],
+  }));
+}
+
+const toSavedSearch = async (row: SavedSearchRow): Promise<SavedSearch> => (await toSavedSearches([row]))[0];
+
+const ownedBy = (id: number, apiKeyId: number) =>
+  and(eq(savedSearches.id, id), eq(savedSearches.apiKeyId, apiKeyId));
+
+/** Lists a key's saved searches by name, each with its count of new matches. */
+export async function listSavedSearches(apiKeyId: number): Promise<SavedSearch[]> {
+  const rows = await db
+    .select()
+    .from(savedSearches)
+    .where(eq(savedSearches.apiKeyId, apiKeyId))
+    .orderBy(asc(sql`lower(${savedSearches.name})`));
+
+  return toSavedSearches(rows);
+}
+
+/** Finds one of a key's saved searches; other keys' searches are treated as missing. */
+export async function findSavedSearch(id: number, apiKeyId: number): Promise<SavedSearch | null> {
+  const [row] = await db.select().from(savedSearches).where(ownedBy(id, apiKeyId));
+  return row ? toSavedSearch(row) : null;
+}
+
+/** Finds another of the key's saved searches with this name, ignoring case. */
+export async function findConflictingSavedSearch(
+  apiKeyId: number,
+  name: string,
+  exceptId?: number
+): Promise<SavedSearch | null> {
+  const [row] = await db
+    .select()
+    .from(savedSearches)
+    .where(
+      and(
+        eq(savedSearches.apiKeyId, apiKeyId),
+        eq(sql`lower(${savedSearches.name})`, name.toLowerCase()),
+        exceptId === undefined ? undefined : ne(savedSearches.id, exceptId)
+      )
+    )
+    .limit(1);
+
+  return row ? toSavedSearch(row) : null;
+}
+
+export async function createSavedSearch(apiKeyId: number, input: SavedSearchInput): Promise<SavedSearch> {
+  const [row] = await db
+    .insert(savedSearches)
+    .values({ apiKeyId, ...input })
+    .returning();
+
+  return toSavedSearch(row);
+}
+
+/** Renames a saved search or replaces its query; returns null when the key has no such search. */
+export async function updateSavedSearch(
+  id: number,
+  apiKeyId: number,
+  changes: Partial<SavedSearchInput>
+): Promise<SavedSearch | null> {
+  const [row] = await db
+    .update(savedSearches)
+    .set({ ...changes, updatedAt: sql`CURRENT_TIMESTAMP` })
+    .where(ownedBy(id, apiKeyId))
+    .returning();
+
+  return row ? toSavedSearch(row) : null;
+}
+
+export async function removeSavedSearch(id: number, apiKeyId: number): Promise<boolean> {
+  const rows = await db.delete(savedSearches).where(ownedBy(id, apiKeyId)).returning({ id: savedSearches.id });
+  return rows.length > 0;
+}
+
+/**
+ * Records that a saved search is being viewed now and returns it as it was
+ * before, so the caller can still tell which results are new. Null when the
+ * key has no such search.
+ */
+export async function viewSavedSearch(id: number, apiKeyId: number): Promise<SavedSearch | null> {
+  const previous = await db.transaction(async (tx) => {
+    const [row] = await tx.select().from(savedSearches).where(ownedBy(id, apiKeyId)).for("update");
+    if (!row) return null;
+
+    await tx
+      .update(savedSearches)
+      .set({ lastViewedAt: sql`CURRENT_TIMESTAMP` })
+      .where(eq(savedSearches.id, id));
+    return row;
+  });
+
+  return previous ? toSavedSearch(previous) : null;
+}
@@ -0,0 +1,130 @@
+import { and, asc, avg, count, desc, eq, gte, max, ne, sql, type SQL } from "drizzle-orm";
+import db from "..";
+import { searchConnects, searchEvents } from "../schema";
+import type { SearchEvent, SearchReport, SearchReportQuery } from "../../types/searchAnalytics";
+
+/** Appends one search to the log and returns its id. */
+export async function recordSearchEvent(event: SearchEvent): Promise<number> {
+  const [row] = await db.insert(searchEvents).values(event).returning({ id: searchEvents.id });
+  return row.id;
+}
+
+/**
+ * Records a click on "Connect" for an advocate in a search's results.
+ * Repeat clicks for the same advocate count once. False when there is no
+ * such search.
+ */
+export async function recordSearchConnect(searchEventId: number, advocateId: number): Promise<boolean> {
+  const [event] = await db
+    .select({ id: searchEvents.id })
+    .from(searchEvents)
+    .where(eq(searchEvents.id, searchEventId));
+  if (!event) return false;
+
+  await db.insert(searchConnects).values({ searchEventId, advocateId }).onConflictDoNothing();
+  return true;
+}
+
+// Whether anyone clicked "Connect" on this search's results
+const connected = sql`EXISTS (
+  SELECT 1 FROM ${searchConnects} WHERE ${searchConnects.searchEventId} = ${searchEvents.id}
+)`;
+const connectedCount = sql<string>`count(*) FILTER (WHERE ${connected})`;
+
+const rate = (part: number | string, whole: number) => (whole > 0 ? Math.round((Number(part) / whole) * 1000) / 1000 : 0);
+const toNumber = (value: string | null) => (value === null ? null : Math.round(Number(value) * 10) / 10);
+
+/**
+ * Summarizes the search log over the last `days` days: totals, latency
+ * percentiles and click-through, the most frequent queries, the query and
+ * filter combinations that found nobody, and the slowest ones.
+ */
+export async function getSearchReport({ days, source, limit }: SearchReportQuery): Promise<SearchReport> {
+  const to = new Date();
+  const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+  const inWindow: SQL | undefined = and(
+    gte(searchEvents.occurredAt, from),
+    source ? eq(searchEvents.source, source) : undefined
+  );
+
+  const total = count();
+  const [summary, topQueries, zeroResultQueries, slowQueries] = await Promise.all([
+    db
+      .select({
+        searches: total,
+        zeroResultSearches: sql<string>`count(*) FILTER (WHERE ${searchEvents.resultCount} = 0)`,
+        p50LatencyMs: sql<string | null>`percentile_cont(0.5) WITHIN GROUP (ORDER BY ${searchEvents.latencyMs})`,
+        p95LatencyMs: sql<string | null>`percentile_cont(0.95) WITHIN GROUP (ORDER BY ${searchEvents.latencyMs})`,
+        connected: connectedCount,
+      })
+      .from(searchEvents)
+      .where(inWindow),
+    db
+      .select({
+        query: searchEvents.query,
+        searches: total,
+        averageResults: avg(searchEvents.resultCount),
+        maxPage: max(searchEvents.page),
+        connected: connectedCount,
+      })
+      .from(searchEvents)
+      .where(and(inWindow, ne(searchEvents.query, "")))
+      .groupBy(searchEvents.query)
+      .orderBy(desc(total), asc(searchEvents.query))
+      .limit(limit),
+    db
+      .select({
+        query: searchEvents.query,
+        filters: searchEvents.filters,
+        searches: total,
+        lastSearchedAt: max(searchEvents.occurredAt),
+      })
+      .from(searchEvents)
+      .where(and(inWindow, eq(searchEvents.resultCount, 0)))
+      .groupBy(searchEvents.query, searchEvents.filters)
+      .orderBy(desc(total), desc(max(searchEvents.occurredAt)))
+      .limit(limit),
+    db
+      .select({
+        query: searchEvents.query,
+        filters: searchEvents.filters,
+        searches: total,
+        averageLatencyMs: avg(searchEvents.latencyMs),
+        maxLatencyMs: max(searchEvents.latencyMs),
+      })
+      .from(searchEvents)
+      .where(inWindow)
+      .groupBy(searchEvents.query, searchEvents.filters)
+      .orderBy(desc(avg(searchEvents.latencyMs)), desc(total))
+      .limit(limit),
+  ]);
+
+  const [{ searches, zeroResultSearches, p50LatencyMs, p95LatencyMs, connected: connectedSearches }] = summary;
+  return {
+    from,
+    to,
+    summary: {
+      searches,
+      zeroResultSearches: Number(zeroResultSearches),
+      p50LatencyMs: toNumber(p50LatencyMs),
+      p95LatencyMs: toNumber(p95LatencyMs),
+      connectRate: rate(connectedSearches, searches),
+    },
+    topQueries: topQueries.map((row) => ({
+      query: row.query,
+      searches: row.searches,
+      averageResults: toNumber(row.averageResults) ?? 0,
+      maxPage: row.maxPage,
+      connectRate: rate(row.connected, row.searches),
+    })),
+    zeroResultQueries: zeroResultQueries.map((row) => ({
+      ...row,
+      lastSearchedAt: row.lastSearchedAt as Date,
+    })),
+    slowQueries: slowQueries.map((row) => ({
+      ...row,
+      averageLatencyMs: toNumber(row.averageLatencyMs) ?? 0,
+      maxLatencyMs: row.maxLatencyMs ?? 0,
+    })),
+  };
+}
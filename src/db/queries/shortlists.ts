@@ -0,0 +1,192 @@
+import { and, asc, count, eq, ne, sql } from "drizzle-orm";
+import db from "..";
+import { shortlistEntries, shortlists } from "../schema";
+import { findAdvocatesByIds } from "./advocates";
+import type { Shortlist, ShortlistAdditions, ShortlistEntry, ShortlistWithEntries } from "../../types/shortlist";
+
+const shortlistColumns = {
+  id: shortlists.id,
+  name: shortlists.name,
+  createdAt: shortlists.createdAt,
+  updatedAt: shortlists.updatedAt,
+  advocateCount: count(shortlistEntries.advocateId),
+};
+
+type ShortlistRow = Pick<typeof shortlists.$inferSelect, "id" | "name" | "createdAt" | "updatedAt"> & {
+  advocateCount: number;
+};
+
+function toShortlist(row: ShortlistRow): Shortlist {
+  return {
+    ...row,
+    advocateCount: Number(row.advocateCount),
+    createdAt: row.createdAt ?? undefined,
+    updatedAt: row.updatedAt ?? undefined,
+  };
+}
+
+const ownedBy = (id: number, apiKeyId: number) => and(eq(shortlists.id, id), eq(shortlists.apiKeyId, apiKeyId));
+
+/** Lists a key's shortlists by name with how many advocates each holds. */
+export async function listShortlists(apiKeyId: number): Promise<Shortlist[]> {
+  const rows = await db
+    .select(shortlistColumns)
+    .from(shortlists)
+    .leftJoin(shortlistEntries, eq(shortlistEntries.shortlistId, shortlists.id))
+    .where(eq(shortlists.apiKeyId, apiKeyId))
+    .groupBy(shortlists.id)
+    .orderBy(asc(sql`lower(${shortlists.name})`));
+
+  return rows.map(toShortlist);
+}
+
+async function findShortlist(id: number, apiKeyId: number): Promise<Shortlist | null> {
+  const [row] = await db
+    .select(shortlistColumns)
+    .from(shortlists)
+    .leftJoin(shortlistEntries, eq(shortlistEntries.shortlistId, shortlists.id))
+    .where(ownedBy(id, apiKeyId))
+    .groupBy(shortlists.id);
+
+  return row ? toShortlist(row) : null;
+}
+
+/**
+ * Finds one of a key's shortlists with its entries in the order they were
+ * added. Other keys' shortlists are treated as missing.
+ */
+export async function findShortlistWithEntries(id: number, apiKeyId: number): Promise<ShortlistWithEntries | null> {
+  const shortlist = await findShortlist(id, apiKeyId);
+  if (!shortlist) return null;
+
+  const rows = await db
+    .select({
+      advocateId: shortlistEntries.advocateId,
+      note: shortlistEntries.note,
+      addedAt: shortlistEntries.addedAt,
+    })
+    .from(shortlistEntries)
+    .where(eq(shortlistEntries.shortlistId, id))
+    .orderBy(asc(shortlistEntries.addedAt), asc(shortlistEntries.advocateId));
+
+  const active = await findAdvocatesByIds(rows.map((row) => row.advocateId));
+  const entries: ShortlistEntry[] = rows.map((row) => ({
+    advocateId: row.advocateId,
+    note: row.note,
+    addedAt: row.addedAt ?? undefined,
+    advocate: active.get(row.advocateId) ?? null,
+  }));
+
+  return { ...shortlist, entries };
+}
+
+/** Finds another of the key's shortlists with this name, ignoring case. */
+export async function findConflictingShortlist(apiKeyId: number, name: string, exceptId?: number): Promise<Shortlist | null> {
+  const [row] = await db
+    .select({ id: shortlists.id })
+    .from(shortlists)
+    .where(
+      and(
+        eq(shortlists.apiKeyId, apiKeyId),
+        eq(sql`lower(${shortlists.name})`, name.toLowerCase()),
+        exceptId === undefined ? undefined : ne(shortlists.id, exceptId)
+      )
+    )
+    .limit(1);
+
+  return row ? findShortlist(row.id, apiKeyId) : null;
+}
+
+/** Creates a shortlist, optionally already holding some advocates. */
+export async function createShortlist(apiKeyId: number, name: string, advocateIds: number[] = []): Promise<ShortlistWithEntries> {
+  const id = await db.transaction(async (tx) => {
+    const [row] = await tx.insert(shortlists).values({ apiKeyId, name }).returning({ id: shortlists.id });
+    if (advocateIds.length > 0) {
+      await tx.insert(shortlistEntries).values(advocateIds.map((advocateId) => ({ shortlistId: row.id, advocateId })));
+    }
+    return row.id;
+  });
+
+  return (await findShortlistWithEntries(id, apiKeyId)) as ShortlistWithEntries;
+}
+
+export async function renameShortlist(id: number, apiKeyId: number, name: string): Promise<Shortlist | null> {
+  const [row] = await db
+    .update(shortlists)
+    .set({ name, updatedAt: sql`CURRENT_TIMESTAMP` })
+    .where(ownedBy(id, apiKeyId))
+    .returning({ id: shortlists.id });
+
+  return row ? findShortlist(row.id, apiKeyId) : null;
+}
+
+export async function removeShortlist(id: number, apiKeyId: number): Promise<boolean> {
+  const rows = await db.delete(shortlists).where(ownedBy(id, apiKeyId)).returning({ id: shortlists.id });
+  return rows.length > 0;
+}
+
+/**
+ * Adds advocates to a shortlist. Advocates already on it keep their place;
+ * their note is replaced only when `note` is given. Returns null when the key
+ * has no such shortlist.
+ */
+export async function addToShortlist(
+  id: number,
+  apiKeyId: number,
+  { advocateIds, note }: ShortlistAdditions
+): Promise<ShortlistWithEntries | null> {
+  const touched = await db.transaction(async (tx) => {
+    const [row] = await tx
+      .update(shortlists)
+      .set({ updatedAt: sql`CURRENT_TIMESTAMP` })
+      .where(ownedBy(id, apiKeyId))
+      .returning({ id: shortlists.id });
+    if (!row) return false;
+
+    const insert = tx
+      .insert(shortlistEntries)
+      .values(advocateIds.map((advocateId) => ({ shortlistId: id, advocateId, note: note ?? null })));
+    await (note === undefined
+      ? insert.onConflictDoNothing()
+      : insert.onConflictDoUpdate({
+          target: [shortlistEntries.shortlistId, shortlistEntries.advocateId],
+          set: { note: note ?? null },
+        }));
+    return true;
+  });
+
+  return touched ? findShortlistWithEntries(id, apiKeyId) : null;
+}
+
+/** Sets the note on one entry; null when the shortlist or entry is missing. */
+export async function updateShortlistNote(
+  id: number,
+  apiKeyId: number,
+  advocateId: number,
+  note: string | null
+): Promise<ShortlistEntry | null> {
+  const shortlist = await findShortlist(id, apiKeyId);
+  if (!shortlist) return null;
+
+  const [row] = await db
+    .update(shortlistEntries)
+    .set({ note })
+    .where(and(eq(shortlistEntries.shortlistId, id), eq(shortlistEntries.advocateId, advocateId)))
+    .returning();
+  if (!row) return null;
+
+  const active = await findAdvocatesByIds([advocateId]);
+  return { advocateId, note: row.note, addedAt: row.addedAt ?? undefined, advocate: active.get(advocateId) ?? null };
+}
+
+/** Takes an advocate off a shortlist; false when the shortlist or entry is missing. */
+export async function removeFromShortlist(id: number, apiKeyId: number, advocateId: number): Promise<boolean> {
+  const shortlist = await findShortlist(id, apiKeyId);
+  if (!shortlist) return false;
+
+  const rows = await db
+    .delete(shortlistEntries)
+    .where(and(eq(shortlistEntries.shortlistId, id), eq(shortlistEntries.advocateId, advocateId)))
+    .returning({ advocateId: shortlistEntries.advocateId });
+  return rows.length > 0;
+}
@@ -0,0 +1,212 @@
+import { and, asc, count, eq, inArray, isNull, ne, or, sql } from "drizzle-orm";
+import db from "..";
+import { advocates, advocateSpecialties, specialties } from "../schema";
+import { specialtyCategories, specialties as canonicalSpecialties } from "../seed/taxonomy";
+import { invalidateSearchCache } from "../../lib/searchCache";
+import { slugify } from "../../lib/slugify";
+import type { Specialty, SpecialtyInput, SpecialtyWithCount } from "../../types/specialty";
+
+/** The root database or an open transaction; both expose the same query builder. */
+export type DbExecutor = typeof db;
+
+/**
+ * Lists the taxonomy grouped by category, with how many active advocates
+ * offer each specialty.
+ */
+export async function listSpecialties(): Promise<SpecialtyWithCount[]> {
+  const rows = await db
+    .select({
+      id: specialties.id,
+      slug: specialties.slug,
+      name: specialties.name,
+      category: specialties.category,
+      advocateCount: count(advocates.id),
+    })
+    .from(specialties)
+    .leftJoin(advocateSpecialties, eq(advocateSpecialties.specialtyId, specialties.id))
+    .leftJoin(
+      advocates,
+      and(eq(advocates.id, advocateSpecialties.advocateId), isNull(advocates.deletedAt))
+    )
+    .groupBy(specialties.id)
+    .orderBy(sql`${specialties.category} NULLS LAST`, asc(specialties.name));
+
+  return rows.map((row) => ({ ...row, advocateCount: Number(row.advocateCount) }));
+}
+
+/** Lists one advocate's specialties with their categories, ordered like listSpecialties. */
+export async function listAdvocateSpecialties(advocateId: number): Promise<Specialty[]> {
+  return db
+    .select({
+      id: specialties.id,
+      slug: specialties.slug,
+      name: specialties.name,
+      category: specialties.category,
+    })
+    .from(advocateSpecialties)
+    .innerJoin(specialties, eq(specialties.id, advocateSpecialties.specialtyId))
+    .where(eq(advocateSpecialties.advocateId, advocateId))
+    .orderBy(sql`${specialties.category} NULLS LAST`, asc(specialties.name));
+}
+
+/**
+ * Looks up user-supplied specialty names or slugs (case-insensitive) in the
+ * taxonomy. Returns a map from each input value to its canonical display
+ * name; values that are not in the taxonomy are missing from the map.
+ */
+export async function mapSpecialtyNames(values: string[], executor: DbExecutor = db): Promise<Map<string, string>> {
+  const mapped = new Map<string, string>();
+  if (values.length === 0) return mapped;
+
+  const lowered = values.map((value) => value.toLowerCase());
+  const rows = await executor
+    .select({ slug: specialties.slug, name: specialties.name })
+    .from(specialties)
+    .where(
+      or(
+        inArray(sql`lower(${specialties.name})`, lowered),
+        inArray(specialties.slug, values.map(slugify))
+      )
+    );
+
+  for (const value of values) {
+    const match = rows.find(
+      (row) => row.name.toLowerCase() === value.toLowerCase() || row.slug === slugify(value)
+    );
+    if (match) mapped.set(value, match.name);
+  }
+
+  return mapped;
+}
+
+/**
+ * Maps user-supplied specialty names or slugs (case-insensitive) to their
+ * canonical display names. Anything that is not in the taxonomy is returned
+ * in `unknown` so callers can reject it.
+ */
+export async function resolveSpecialtyNames(
+  values: string[]
+): Promise<{ names: string[]; unknown: string[] }> {
+  const mapped = await mapSpecialtyNames(values);
+
+  const names: string[] = [];
+  const unknown: string[] = [];
+  for (const value of values) {
+    const name = mapped.get(value);
+    if (name === undefined) unknown.push(value);
+    else if (!names.includes(name)) names.push(name);
+  }
+
+  return { names, unknown };
+}
+
+/**
+ * Finds the specialty a new or renamed one would clash with: the same name
+ * (ignoring case) or, for new specialties, the same slug.
+ */
+export async function findConflictingSpecialty(name: string, exceptId?: number): Promise<Specialty | null> {
+  const [row] = await db
+    .select({ id: specialties.id, slug: specialties.slug, name: specialties.name, category: specialties.category })
+    .from(specialties)
+    .where(
+      and(
+        exceptId === undefined
+          ? or(eq(sql`lower(${specialties.name})`, name.toLowerCase()), eq(specialties.slug, slugify(name)))
+          : eq(sql`lower(${specialties.name})`, name.toLowerCase()),
+        exceptId === undefined ? undefined : ne(specialties.id, exceptId)
+      )
+    )
+    .limit(1);
+
+  return row ?? null;
+}
+
+/** Adds a specialty to the taxonomy; its slug is derived from the name and never changes. */
+export async function createSpecialty({ name, category }: SpecialtyInput): Promise<Specialty> {
+  const [row] = await db
+    .insert(specialties)
+    .values({ slug: slugify(name), name, category: category ?? null })
+    .returning({ id: specialties.id, slug: specialties.slug, name: specialties.name, category: specialties.category });
+
+  return row;
+}
+
+/**
+ * Renames or recategorizes a specialty. Advocates link to it by id, so a
+ * rename needs no other writes. Returns null when the id is unknown.
+ */
+export async function updateSpecialty(id: number, changes: Partial<SpecialtyInput>): Promise<Specialty | null> {
+  const [updated] = await db
+    .update(specialties)
+    .set(changes)
+    .where(eq(specialties.id, id))
+    .returning({ id: specialties.id, slug: specialties.slug, name: specialties.name, category: specialties.category });
+
+  // Facets and specialty matches read the new name
+  if (updated) await invalidateSearchCache();
+  return updated ?? null;
+}
+
+/**
+ * Removes a specialty nobody offers. Returns "deleted", "not_found", or
+ * "in_use" when advocates (deleted ones included) still link to it.
+ */
+export async function removeSpecialty(id: number): Promise<"deleted" | "not_found" | "in_use"> {
+  return db.transaction(async (tx) => {
+    const [link] = await tx
+      .select({ advocateId: advocateSpecialties.advocateId })
+      .from(advocateSpecialties)
+      .where(eq(advocateSpecialties.specialtyId, id))
+      .limit(1);
+    if (link) return "in_use";
+
+    const rows = await tx.delete(specialties).where(eq(specialties.id, id)).returning({ id: specialties.id });
+    return rows.length > 0 ? "deleted" : "not_found";
+  });
+}
+
+/**
+ * Replaces the specialties of the given advocates with the named ones, in
+ * order. Names must already be canonical (see resolveSpecialtyNames); call
+ * inside the transaction that writes the advocates.
+ */
+export async function replaceSpecialtyLinks(
+  executor: DbExecutor,
+  links: { advocateId: number; names: string[] }[]
+): Promise<void> {
+  if (links.length === 0) return;
+
+  await executor
+    .delete(advocateSpecialties)
+    .where(inArray(advocateSpecialties.advocateId, links.map((link) => link.advocateId)));
+
+  const rows = links.flatMap(({ advocateId, names }) =>
+    names.map((name, position) => ({ advocate_id: advocateId, name, position }))
+  );
+  if (rows.length === 0) return;
+
+  await executor.execute(sql`
+    INSERT INTO ${advocateSpecialties} (advocate_id, specialty_id, position)
+    SELECT link.advocate_id, ${specialties.id}, link.position
+    FROM jsonb_to_recordset(${JSON.stringify(rows)}::jsonb) AS link(advocate_id integer, name text, position integer)
+    JOIN ${specialties} ON ${specialties.name} = link.name
+    ON CONFLICT DO NOTHING
+  `);
+}
+
+/**
+ * Inserts the canonical taxonomy from src/db/seed/taxonomy.ts.
+ * Existing specialties (matched on slug) keep their current name and category.
+ */
+export async function seedSpecialties(executor: DbExecutor = db): Promise<void> {
+  await executor
+    .insert(specialties)
+    .values(
+      canonicalSpecialties.map((name) => ({
+        slug: slugify(name),
+        name,
+        category: specialtyCategories[name] ?? null,
+      }))
+    )
+    .onConflictDoNothing();
+}
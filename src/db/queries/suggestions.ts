@@ -0,0 +1,96 @@
+import { and, asc, count, desc, eq, isNull, min, or, sql, type AnyColumn, type SQL } from "drizzle-orm";
+import db from "..";
+import { advocates, advocateSpecialties, specialties } from "../schema";
+import type { AdvocateSuggestions, Suggestion } from "../../types/advocate";
+
+// Only advocates that have not been soft-deleted are suggested
+const isActive = isNull(advocates.deletedAt);
+
+// Escapes LIKE wildcards so "50%" is matched literally
+const likePrefix = (prefix: string) => `${prefix.toLowerCase().replace(/[\\%_]/g, "\\$&")}%`;
+
+// Served by the lower(...) text_pattern_ops indexes
+const startsWith = (column: AnyColumn, prefix: string): SQL => sql`lower(${column}) LIKE ${likePrefix(prefix)}`;
+
+/**
+ * Advocate names starting with the prefix. "jan" matches first or last
+ * names; "jane d" matches first name "Jane…" and last name "D…".
+ */
+async function suggestNames(prefix: string, limit: number): Promise<Suggestion[]> {
+  const [first, ...rest] = prefix.split(/\s+/);
+  const condition =
+    rest.length > 0
+      ? and(startsWith(advocates.firstName, first), startsWith(advocates.lastName, rest.join(" ")))
+      : or(startsWith(advocates.firstName, prefix), startsWith(advocates.lastName, prefix));
+
+  const total = count();
+  const rows = await db
+    .select({ firstName: advocates.firstName, lastName: advocates.lastName, count: total, id: min(advocates.id) })
+    .from(advocates)
+    .where(and(isActive, condition))
+    .groupBy(advocates.firstName, advocates.lastName)
+    .orderBy(desc(total), asc(advocates.lastName), asc(advocates.firstName))
+    .limit(limit);
+
+  return rows.map((row) => ({
+    value: `${row.firstName} ${row.lastName}`,
+    count: Number(row.count),
+    ...(Number(row.count) === 1 && row.id !== null && { advocateId: row.id }),
+  }));
+}
+
+/** Distinct values of a column starting with the prefix, most common first. */
+async function suggestValues(
+  column: typeof advocates.city | typeof advocates.degree,
+  prefix: string,
+  limit: number
+): Promise<Suggestion[]> {
+  const total = count();
+  const rows = await db
+    .select({ value: column, count: total })
+    .from(advocates)
+    .where(and(isActive, startsWith(column, prefix)))
+    .groupBy(column)
+    .orderBy(desc(total), asc(column))
+    .limit(limit);
+
+  return rows.map((row) => ({ value: row.value, count: Number(row.count) }));
+}
+
+/**
+ * Canonical specialties with a word starting with the prefix, so "anx"
+ * finds "General Mental Health (anxiety, …)". The taxonomy is small enough
+ * to scan; specialties no active advocate has are left out.
+ */
+async function suggestSpecialties(prefix: string, limit: number): Promise<Suggestion[]> {
+  const wordStart = `(^|[^a-z0-9])${prefix.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`;
+
+  const total = count(advocates.id);
+  const rows = await db
+    .select({ value: specialties.name, count: total })
+    .from(specialties)
+    .innerJoin(advocateSpecialties, eq(advocateSpecialties.specialtyId, specialties.id))
+    .innerJoin(advocates, and(eq(advocates.id, advocateSpecialties.advocateId), isActive))
+    .where(sql`lower(${specialties.name}) ~ ${wordStart}`)
+    .groupBy(specialties.id)
+    .orderBy(desc(total), asc(specialties.name))
+    .limit(limit);
+
+  return rows.map((row) => ({ value: row.value, count: Number(row.count) }));
+}
+
+/**
+ * Typeahead completions for a search prefix: up to `limit` advocate names,
+ * cities, degrees and specialties, each with how many active advocates it
+ * matches.
+ */
+export async function suggestCompletions(prefix: string, limit: number): Promise<AdvocateSuggestions> {
+  const [names, cities, degrees, specialtyNames] = await Promise.all([
+    suggestNames(prefix, limit),
+    suggestValues(advocates.city, prefix, limit),
+    suggestValues(advocates.degree, prefix, limit),
+    suggestSpecialties(prefix, limit),
+  ]);
+
+  return { query: prefix, names, cities, degrees, specialties: specialtyNames };
+}
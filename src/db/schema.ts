@@ -1,14 +1,29 @@
 import { sql } from "drizzle-orm";
 import {
+  customType,
   pgTable,
   integer,
   text,
   jsonb,
   serial,
   timestamp,
-  bigint,
+  doublePrecision,
   index,
+  primaryKey,
+  smallint,
+  time,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
+import type { AdvocateLanguage } from "../types/advocate";
+import type { ApiScope } from "../types/apiAccess";
+import type { LoggedSearchFilters } from "../types/searchAnalytics";
+
+// Postgres full-text search document; Drizzle has no built-in tsvector type
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
 
 const advocates = pgTable(
   "advocates",
@@ -17,23 +32,343 @@ const advocates = pgTable(
     firstName: text("first_name").notNull(),
     lastName: text("last_name").notNull(),
     city: text("city").notNull(),
+    // Derived from city/ZIP via the bundled gazetteer (src/db/seed/gazetteer.ts);
+    // null when the city is unknown, which excludes the advocate from proximity search
+    state: text("state"),
+    zip: text("zip"),
+    latitude: doublePrecision("latitude"),
+    longitude: doublePrecision("longitude"),
     degree: text("degree").notNull(),
-    specialties: jsonb("specialties").default([]).notNull(),
+    // Specialties are not stored here: advocate_specialties is the only record
+    // of who offers what, so renaming a specialty touches no advocate rows
+    // [{ language, proficiency }], languages from the list in src/db/seed/taxonomy.ts
+    languages: jsonb("languages").$type<AdvocateLanguage[]>().default([]).notNull(),
     yearsOfExperience: integer("years_of_experience").notNull(),
-    phoneNumber: bigint("phone_number", { mode: "number" }).notNull(),
+    // E.164 ("+15559873456"); the extension is kept apart so the number stays dialable
+    phoneNumber: text("phone_number").notNull(),
+    phoneExtension: text("phone_extension"),
     createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: timestamp("updated_at"),
+    // Soft delete: deactivated advocates keep their row (and history) but are
+    // excluded from every read path
+    deletedAt: timestamp("deleted_at"),
+    // Weighted full-text document maintained by Postgres:
+    // name (A) > city (C) > degree (D). Searches also match the linked specialty
+    // names, and rank them at weight B (see searchDocument in src/db/queries/advocates.ts).
+    searchVector: tsvector("search_vector").generatedAlwaysAs(
+      sql`setweight(to_tsvector('english', first_name || ' ' || last_name), 'A') ||
+        setweight(to_tsvector('english', city), 'C') ||
+        setweight(to_tsvector('english', degree), 'D')`
+    ),
   },
   (table) => ({
-    // B-tree indexes for text field searches (firstName, lastName, city, degree)
-    // These optimize ILIKE queries with 100K+ records
+    // B-tree indexes for exact matches, grouping and sorting (firstName, lastName, city, degree)
     firstNameIdx: index("idx_advocates_first_name").on(table.firstName),
     lastNameIdx: index("idx_advocates_last_name").on(table.lastName),
     cityIdx: index("idx_advocates_city").on(table.city),
     degreeIdx: index("idx_advocates_degree").on(table.degree),
-    // Note: GIN index for specialties JSONB column is created via SQL
-    // (Drizzle doesn't support USING GIN syntax in schema yet)
-    // Run: CREATE INDEX idx_advocates_specialties_gin ON advocates USING GIN(specialties);
+    // Bounding-box prefilter for proximity search (exact distance is computed after)
+    locationIdx: index("idx_advocates_location").on(table.latitude, table.longitude),
+    // Natural key: one active advocate per name (case-insensitive, like
+    // naturalKey) + phone number. Seeding and imports upsert against it;
+    // deleted rows are exempt.
+    naturalKeyIdx: uniqueIndex("idx_advocates_natural_key")
+      .on(sql`lower(${table.firstName})`, sql`lower(${table.lastName})`, table.phoneNumber)
+      .where(sql`deleted_at IS NULL`),
+    // GIN index for JSONB containment (@>) on languages
+    languagesIdx: index("idx_advocates_languages_gin").using("gin", table.languages),
+    // GIN index for the weighted full-text document
+    searchVectorIdx: index("idx_advocates_search_vector").using("gin", table.searchVector),
+    // Trigram indexes serve leading-wildcard ILIKE and similarity (%) matching
+    // Requires the pg_trgm extension (see drizzle/0001_enable_pg_trgm.sql)
+    firstNameTrgmIdx: index("idx_advocates_first_name_trgm").using("gin", table.firstName.op("gin_trgm_ops")),
+    lastNameTrgmIdx: index("idx_advocates_last_name_trgm").using("gin", table.lastName.op("gin_trgm_ops")),
+    // Serves digit-substring phone search (LIKE '%555987%')
+    phoneNumberTrgmIdx: index("idx_advocates_phone_number_trgm").using("gin", table.phoneNumber.op("gin_trgm_ops")),
+    cityTrgmIdx: index("idx_advocates_city_trgm").using("gin", table.city.op("gin_trgm_ops")),
+    // Case-insensitive prefix indexes for typeahead (lower(col) LIKE 'fo%')
+    firstNamePrefixIdx: index("idx_advocates_first_name_prefix").on(sql`lower(${table.firstName}) text_pattern_ops`),
+    lastNamePrefixIdx: index("idx_advocates_last_name_prefix").on(sql`lower(${table.lastName}) text_pattern_ops`),
+    cityPrefixIdx: index("idx_advocates_city_prefix").on(sql`lower(${table.city}) text_pattern_ops`),
+    degreePrefixIdx: index("idx_advocates_degree_prefix").on(sql`lower(${table.degree}) text_pattern_ops`),
+  })
+);
+
+// Managed specialty taxonomy. Slugs are stable identifiers; names can be
+// renamed without touching advocate rows.
+const specialties = pgTable(
+  "specialties",
+  {
+    id: serial("id").primaryKey(),
+    slug: text("slug").notNull(),
+    name: text("name").notNull(),
+    category: text("category"),
+    createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    slugIdx: uniqueIndex("idx_specialties_slug").on(table.slug),
+    nameIdx: uniqueIndex("idx_specialties_name").on(table.name),
+    // Full-text lookup of specialty names for keyword searches (see matchesDocument)
+    nameSearchIdx: index("idx_specialties_name_search").using("gin", sql`to_tsvector('english', ${table.name})`),
+  })
+);
+
+const advocateSpecialties = pgTable(
+  "advocate_specialties",
+  {
+    advocateId: integer("advocate_id")
+      .notNull()
+      .references(() => advocates.id, { onDelete: "cascade" }),
+    specialtyId: integer("specialty_id")
+      .notNull()
+      .references(() => specialties.id, { onDelete: "restrict" }),
+    // Order of the specialty in the advocate's list, as entered
+    position: integer("position").default(0).notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.advocateId, table.specialtyId] }),
+    // Reverse lookup: "which advocates have this specialty"
+    specialtyIdx: index("idx_advocate_specialties_specialty").on(table.specialtyId),
+  })
+);
+
+// Payer catalog: which insurance plans exist. Which advocates accept them
+// lives in advocate_plans.
+const plans = pgTable(
+  "plans",
+  {
+    id: serial("id").primaryKey(),
+    slug: text("slug").notNull(),
+    name: text("name").notNull(),
+    payer: text("payer").notNull(),
+    type: text("type", {
+      enum: ["original_medicare", "medicare_advantage", "medigap", "medicaid", "dual_eligible"],
+    }).notNull(),
+    createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    slugIdx: uniqueIndex("idx_plans_slug").on(table.slug),
+  })
+);
+
+const advocatePlans = pgTable(
+  "advocate_plans",
+  {
+    advocateId: integer("advocate_id")
+      .notNull()
+      .references(() => advocates.id, { onDelete: "cascade" }),
+    planId: integer("plan_id")
+      .notNull()
+      .references(() => plans.id, { onDelete: "restrict" }),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.advocateId, table.planId] }),
+    // Reverse lookup for the "accepts my plan" filter
+    planIdx: index("idx_advocate_plans_plan").on(table.planId),
+  })
+);
+
+// Recurring weekly availability. Times are wall-clock in `timezone`; concrete
+// slots are expanded on read (see src/lib/availability.ts).
+const availabilityWindows = pgTable(
+  "availability_windows",
+  {
+    id: serial("id").primaryKey(),
+    advocateId: integer("advocate_id")
+      .notNull()
+      .references(() => advocates.id, { onDelete: "cascade" }),
+    // 0 = Sunday ... 6 = Saturday
+    dayOfWeek: smallint("day_of_week").notNull(),
+    startTime: time("start_time").notNull(),
+    endTime: time("end_time").notNull(),
+    timezone: text("timezone").notNull(),
+    slotMinutes: integer("slot_minutes").default(30).notNull(),
+    createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    advocateIdx: index("idx_availability_windows_advocate").on(table.advocateId, table.dayOfWeek),
+  })
+);
+
+const bookings = pgTable(
+  "bookings",
+  {
+    id: serial("id").primaryKey(),
+    // Bookings are history: advocates are soft-deleted, never removed under them
+    advocateId: integer("advocate_id")
+      .notNull()
+      .references(() => advocates.id, { onDelete: "restrict" }),
+    // Instants, unlike the wall-clock advocate timestamps: patients and
+    // advocates may be in different zones
+    startsAt: timestamp("starts_at", { withTimezone: true }).notNull(),
+    endsAt: timestamp("ends_at", { withTimezone: true }).notNull(),
+    status: text("status", { enum: ["requested", "confirmed", "cancelled"] }).default("requested").notNull(),
+    patientName: text("patient_name").notNull(),
+    patientEmail: text("patient_email").notNull(),
+    note: text("note"),
+    // SHA-256 of the token the patient received when booking, which lets them
+    // view or cancel this booking without an API key. Null for older bookings.
+    tokenHash: text("token_hash"),
+    createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: timestamp("updated_at"),
+  },
+  (table) => ({
+    // Backstop against double-booking: one live booking per advocate and start
+    // time. Cancelled bookings release the slot.
+    activeSlotIdx: uniqueIndex("idx_bookings_active_slot")
+      .on(table.advocateId, table.startsAt)
+      .where(sql`status <> 'cancelled'`),
+  })
+);
+
+// Credentials for programmatic clients. Only a SHA-256 hash of each key is
+// stored; the key itself is shown once, when it is created.
+const apiKeys = pgTable(
+  "api_keys",
+  {
+    id: serial("id").primaryKey(),
+    name: text("name").notNull(),
+    prefix: text("prefix").notNull(),
+    keyHash: text("key_hash").notNull(),
+    scopes: jsonb("scopes").$type<ApiScope[]>().default([]).notNull(),
+    createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+    lastUsedAt: timestamp("last_used_at"),
+    // Revoked keys are kept so audit entries still name them
+    revokedAt: timestamp("revoked_at"),
+  },
+  (table) => ({
+    keyHashIdx: uniqueIndex("idx_api_keys_key_hash").on(table.keyHash),
+  })
+);
+
+// Who read or changed which advocates. Append-only: a trigger rejects
+// UPDATE, DELETE and TRUNCATE (see drizzle/0012_api_access.sql).
+const auditLog = pgTable(
+  "audit_log",
+  {
+    id: serial("id").primaryKey(),
+    occurredAt: timestamp("occurred_at", { withTimezone: true }).defaultNow().notNull(),
+    actor: text("actor").notNull(),
+    apiKeyId: integer("api_key_id").references(() => apiKeys.id, { onDelete: "restrict" }),
+    action: text("action", {
+      enum: ["read", "export", "create", "update", "delete", "bulk", "import", "seed"],
+    }).notNull(),
+    method: text("method").notNull(),
+    path: text("path").notNull(),
+    status: integer("status").notNull(),
+    advocateIds: jsonb("advocate_ids").$type<number[]>().default([]).notNull(),
+    // Request body of a change, so per-advocate history shows what was set
+    changes: jsonb("changes").$type<Record<string, unknown>>(),
+  },
+  (table) => ({
+    occurredAtIdx: index("idx_audit_log_occurred_at").on(table.occurredAt),
+    actorIdx: index("idx_audit_log_actor").on(table.actor),
+    // "Who touched advocate 42": containment (@>) on the id list
+    advocateIdsIdx: index("idx_audit_log_advocate_ids_gin").using("gin", table.advocateIds),
+  })
+);
+
+// Coordinators' saved searches and shortlists belong to the API key that created them
+const savedSearches = pgTable(
+  "saved_searches",
+  {
+    id: serial("id").primaryKey(),
+    apiKeyId: integer("api_key_id")
+      .notNull()
+      .references(() => apiKeys.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    query: text("query").default("").notNull(),
+    createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`),
+    lastViewedAt: timestamp("last_viewed_at"),
+  },
+  (table) => ({
+    ownerNameIdx: uniqueIndex("idx_saved_searches_owner_name").on(table.apiKeyId, table.name),
+  })
+);
+
+const shortlists = pgTable(
+  "shortlists",
+  {
+    id: serial("id").primaryKey(),
+    apiKeyId: integer("api_key_id")
+      .notNull()
+      .references(() => apiKeys.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    createdAt: timestamp("created_at").default(sql`CURRENT_TIMESTAMP`),
+    updatedAt: timestamp("updated_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    ownerNameIdx: uniqueIndex("idx_shortlists_owner_name").on(table.apiKeyId, table.name),
+  })
+);
+
+const shortlistEntries = pgTable(
+  "shortlist_entries",
+  {
+    shortlistId: integer("shortlist_id")
+      .notNull()
+      .references(() => shortlists.id, { onDelete: "cascade" }),
+    advocateId: integer("advocate_id")
+      .notNull()
+      .references(() => advocates.id, { onDelete: "cascade" }),
+    note: text("note"),
+    addedAt: timestamp("added_at").default(sql`CURRENT_TIMESTAMP`),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.shortlistId, table.advocateId] }),
+  })
+);
+
+// Search analytics: one row per search, with no IP, key or other trace of who searched
+const searchEvents = pgTable(
+  "search_events",
+  {
+    id: serial("id").primaryKey(),
+    occurredAt: timestamp("occurred_at", { withTimezone: true }).defaultNow().notNull(),
+    source: text("source", { enum: ["web", "api"] }).notNull(),
+    query: text("query").default("").notNull(),
+    filters: jsonb("filters").$type<LoggedSearchFilters>().notNull(),
+    resultCount: integer("result_count").notNull(),
+    latencyMs: integer("latency_ms").notNull(),
+    // Null when paging by cursor
+    page: integer("page"),
+  },
+  (table) => ({
+    occurredAtIdx: index("idx_search_events_occurred_at").on(table.occurredAt),
+  })
+);
+
+// Clicks on "Connect with Advocate" from a search's results, once per advocate
+const searchConnects = pgTable(
+  "search_connects",
+  {
+    searchEventId: integer("search_event_id")
+      .notNull()
+      .references(() => searchEvents.id, { onDelete: "cascade" }),
+    advocateId: integer("advocate_id")
+      .notNull()
+      .references(() => advocates.id, { onDelete: "cascade" }),
+    occurredAt: timestamp("occurred_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.searchEventId, table.advocateId] }),
   })
 );
 
-export { advocates };
+export {
+  advocates,
+  specialties,
+  advocateSpecialties,
+  plans,
+  advocatePlans,
+  availabilityWindows,
+  bookings,
+  apiKeys,
+  auditLog,
+  savedSearches,
+  shortlists,
+  shortlistEntries,
+  searchEvents,
+  searchConnects,
+};
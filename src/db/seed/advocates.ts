@@ -1,35 +1,7 @@
 import db from "..";
 import { advocates } from "../schema";
 import type { Advocate } from "../../types/advocate";
-
-const specialties = [
-  "Bipolar",
-  "LGBTQ",
-  "Medication/Prescribing",
-  "Suicide History/Attempts",
-  "General Mental Health (anxiety, depression, stress, grief, life transitions)",
-  "Men's issues",
-  "Relationship Issues (family, friends, couple, etc)",
-  "Trauma & PTSD",
-  "Personality disorders",
-  "Personal growth",
-  "Substance use/abuse",
-  "Pediatrics",
-  "Women's issues (post-partum, infertility, family planning)",
-  "Chronic pain",
-  "Weight loss & nutrition",
-  "Eating disorders",
-  "Diabetic Diet and nutrition",
-  "Coaching (leadership, career, academic and wellness)",
-  "Life coaching",
-  "Obsessive-compulsive disorders",
-  "Neuropsychological evaluations & testing (ADHD testing)",
-  "Attention and Hyperactivity (ADHD)",
-  "Sleep issues",
-  "Schizophrenia and psychotic disorders",
-  "Learning disorders",
-  "Domestic abuse",
-];
+import { specialties } from "./taxonomy";
 
 const randomSpecialty = () => {
   const random1 = Math.floor(Math.random() * 24);
@@ -45,8 +17,9 @@ const advocateData: Advocate[] = [
     city: "New York",
     degree: "MD",
     specialties: specialties.slice(...randomSpecialty()),
+    languages: [{ language: "English", proficiency: "native" }],
     yearsOfExperience: 10,
-    phoneNumber: 5551234567,
+    phoneNumber: "+15551234567",
   },
   {
     firstName: "Jane",
@@ -54,8 +27,12 @@ const advocateData: Advocate[] = [
     city: "Los Angeles",
     degree: "PhD",
     specialties: specialties.slice(...randomSpecialty()),
+    languages: [
+      { language: "English", proficiency: "native" },
+      { language: "Spanish", proficiency: "fluent" },
+    ],
     yearsOfExperience: 8,
-    phoneNumber: 5559876543,
+    phoneNumber: "+15559876543",
   },
   {
     firstName: "Alice",
@@ -63,8 +40,9 @@ const advocateData: Advocate[] = [
     city: "Chicago",
     degree: "MSW",
     specialties: specialties.slice(...randomSpecialty()),
+    languages: [{ language: "English", proficiency: "native" }],
     yearsOfExperience: 5,
-    phoneNumber: 5554567890,
+    phoneNumber: "+15554567890",
   },
   {
     firstName: "Michael",
@@ -72,8 +50,12 @@ const advocateData: Advocate[] = [
     city: "Houston",
     degree: "MD",
     specialties: specialties.slice(...randomSpecialty()),
+    languages: [
+      { language: "English", proficiency: "native" },
+      { language: "Spanish", proficiency: "conversational" },
+    ],
     yearsOfExperience: 12,
-    phoneNumber: 5556543210,
+    phoneNumber: "+15556543210",
   },
   {
     firstName: "Emily",
@@ -81,8 +63,9 @@ const advocateData: Advocate[] = [
     city: "Phoenix",
     degree: "PhD",
     specialties: specialties.slice(...randomSpecialty()),
+    languages: [{ language: "English", proficiency: "native" }],
     yearsOfExperience: 7,
-    phoneNumber: 5553210987,
+    phoneNumber: "+15553210987",
   },
   {
     firstName: "Chris",
@@ -90,8 +73,12 @@ const advocateData: Advocate[] = [
     city: "Philadelphia",
     degree: "MSW",
     specialties: specialties.slice(...randomSpecialty()),
+    languages: [
+      { language: "Spanish", proficiency: "native" },
+      { language: "English", proficiency: "fluent" },
+    ],
     yearsOfExperience: 9,
-    phoneNumber: 5557890123,
+    phoneNumber: "+15557890123",
   },
   {
     firstName: "Jessica",
@@ -99,8 +86,12 @@ const advocateData: Advocate[] = [
     city: "San Antonio",
     degree: "MD",
     specialties: specialties.slice(...randomSpecialty()),
+    languages: [
+      { language: "English", proficiency: "native" },
+      { language: "French", proficiency: "conversational" },
+    ],
     yearsOfExperience: 11,
-    phoneNumber: 5554561234,
+    phoneNumber: "+15554561234",
   },
   {
     firstName: "David",
@@ -108,8 +99,9 @@ const advocateData: Advocate[] = [
     city: "San Diego",
     degree: "PhD",
     specialties: specialties.slice(...randomSpecialty()),
+    languages: [{ language: "English", proficiency: "native" }],
     yearsOfExperience: 6,
-    phoneNumber: 5557896543,
+    phoneNumber: "+15557896543",
   },
   {
     firstName: "Laura",
@@ -117,8 +109,12 @@ const advocateData: Advocate[] = [
     city: "Dallas",
     degree: "MSW",
     specialties: specialties.slice(...randomSpecialty()),
+    languages: [
+      { language: "English", proficiency: "native" },
+      { language: "American Sign Language", proficiency: "fluent" },
+    ],
     yearsOfExperience: 4,
-    phoneNumber: 5550123456,
+    phoneNumber: "+15550123456",
   },
   {
     firstName: "Daniel",
@@ -126,8 +122,12 @@ const advocateData: Advocate[] = [
     city: "San Jose",
     degree: "MD",
     specialties: specialties.slice(...randomSpecialty()),
+    languages: [
+      { language: "English", proficiency: "native" },
+      { language: "Mandarin", proficiency: "conversational" },
+    ],
     yearsOfExperience: 13,
-    phoneNumber: 5553217654,
+    phoneNumber: "+15553217654",
   },
   {
     firstName: "Sarah",
@@ -135,8 +135,12 @@ const advocateData: Advocate[] = [
     city: "Austin",
     degree: "PhD",
     specialties: specialties.slice(...randomSpecialty()),
+    languages: [
+      { language: "English", proficiency: "native" },
+      { language: "Korean", proficiency: "fluent" },
+    ],
     yearsOfExperience: 10,
-    phoneNumber: 5551238765,
+    phoneNumber: "+15551238765",
   },
   {
     firstName: "James",
@@ -144,8 +148,9 @@ const advocateData: Advocate[] = [
     city: "Jacksonville",
     degree: "MSW",
     specialties: specialties.slice(...randomSpecialty()),
+    languages: [{ language: "English", proficiency: "native" }],
     yearsOfExperience: 5,
-    phoneNumber: 5556540987,
+    phoneNumber: "+15556540987",
   },
   {
     firstName: "Megan",
@@ -153,8 +158,12 @@ const advocateData: Advocate[] = [
     city: "San Francisco",
     degree: "MD",
     specialties: specialties.slice(...randomSpecialty()),
+    languages: [
+      { language: "English", proficiency: "native" },
+      { language: "Cantonese", proficiency: "native" },
+    ],
     yearsOfExperience: 14,
-    phoneNumber: 5559873456,
+    phoneNumber: "+15559873456",
   },
   {
     firstName: "Joshua",
@@ -162,8 +171,9 @@ const advocateData: Advocate[] = [
     city: "Columbus",
     degree: "PhD",
     specialties: specialties.slice(...randomSpecialty()),
+    languages: [{ language: "English", proficiency: "native" }],
     yearsOfExperience: 9,
-    phoneNumber: 5556781234,
+    phoneNumber: "+15556781234",
   },
   {
     firstName: "Amanda",
@@ -171,8 +181,12 @@ const advocateData: Advocate[] = [
     city: "Fort Worth",
     degree: "MSW",
     specialties: specialties.slice(...randomSpecialty()),
+    languages: [
+      { language: "English", proficiency: "native" },
+      { language: "Vietnamese", proficiency: "conversational" },
+    ],
     yearsOfExperience: 3,
-    phoneNumber: 5559872345,
+    phoneNumber: "+15559872345",
   },
 ];
 
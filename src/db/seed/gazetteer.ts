@@ -0,0 +1,250 @@
+/**
+ * Offline city/ZIP gazetteer for the cities advocates practice in.
+ * Coordinates are approximate centroids, which is plenty for "within N miles"
+ * searches, and keep proximity search free of external geocoding services.
+ * Kept free of database imports so it can be shared by the API, seeding and the UI.
+ */
+export interface GazetteerZip {
+  zip: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface GazetteerCity {
+  city: string;
+  state: string;
+  /** IANA zone used for the default availability of seeded advocates */
+  timezone: string;
+  latitude: number;
+  longitude: number;
+  zips: GazetteerZip[];
+}
+
+const gazetteer: GazetteerCity[] = [
+  {
+    city: "New York",
+    state: "NY",
+    timezone: "America/New_York",
+    latitude: 40.7128,
+    longitude: -74.006,
+    zips: [
+      { zip: "10001", latitude: 40.7506, longitude: -73.9972 },
+      { zip: "10002", latitude: 40.7157, longitude: -73.9863 },
+      { zip: "10025", latitude: 40.7985, longitude: -73.9686 },
+      { zip: "10036", latitude: 40.7603, longitude: -73.9897 },
+    ],
+  },
+  {
+    city: "Los Angeles",
+    state: "CA",
+    timezone: "America/Los_Angeles",
+    latitude: 34.0522,
+    longitude: -118.2437,
+    zips: [
+      { zip: "90012", latitude: 34.0614, longitude: -118.2385 },
+      { zip: "90028", latitude: 34.1004, longitude: -118.3254 },
+      { zip: "90045", latitude: 33.9551, longitude: -118.4018 },
+    ],
+  },
+  {
+    city: "Chicago",
+    state: "IL",
+    timezone: "America/Chicago",
+    latitude: 41.8781,
+    longitude: -87.6298,
+    zips: [
+      { zip: "60601", latitude: 41.8858, longitude: -87.6229 },
+      { zip: "60614", latitude: 41.9227, longitude: -87.6533 },
+      { zip: "60637", latitude: 41.7807, longitude: -87.5992 },
+    ],
+  },
+  {
+    city: "Houston",
+    state: "TX",
+    timezone: "America/Chicago",
+    latitude: 29.7604,
+    longitude: -95.3698,
+    zips: [
+      { zip: "77002", latitude: 29.7563, longitude: -95.365 },
+      { zip: "77030", latitude: 29.7072, longitude: -95.401 },
+    ],
+  },
+  {
+    city: "Phoenix",
+    state: "AZ",
+    timezone: "America/Phoenix",
+    latitude: 33.4484,
+    longitude: -112.074,
+    zips: [
+      { zip: "85004", latitude: 33.4511, longitude: -112.0706 },
+      { zip: "85016", latitude: 33.5056, longitude: -112.0309 },
+    ],
+  },
+  {
+    city: "Philadelphia",
+    state: "PA",
+    timezone: "America/New_York",
+    latitude: 39.9526,
+    longitude: -75.1652,
+    zips: [
+      { zip: "19103", latitude: 39.9529, longitude: -75.1745 },
+      { zip: "19107", latitude: 39.9487, longitude: -75.1593 },
+    ],
+  },
+  {
+    city: "San Antonio",
+    state: "TX",
+    timezone: "America/Chicago",
+    latitude: 29.4241,
+    longitude: -98.4936,
+    zips: [
+      { zip: "78205", latitude: 29.4237, longitude: -98.4857 },
+      { zip: "78212", latitude: 29.4636, longitude: -98.4951 },
+    ],
+  },
+  {
+    city: "San Diego",
+    state: "CA",
+    timezone: "America/Los_Angeles",
+    latitude: 32.7157,
+    longitude: -117.1611,
+    zips: [
+      { zip: "92101", latitude: 32.7194, longitude: -117.1628 },
+      { zip: "92103", latitude: 32.7477, longitude: -117.1669 },
+    ],
+  },
+  {
+    city: "Dallas",
+    state: "TX",
+    timezone: "America/Chicago",
+    latitude: 32.7767,
+    longitude: -96.797,
+    zips: [
+      { zip: "75201", latitude: 32.7878, longitude: -96.7995 },
+      { zip: "75204", latitude: 32.803, longitude: -96.7854 },
+    ],
+  },
+  {
+    city: "San Jose",
+    state: "CA",
+    timezone: "America/Los_Angeles",
+    latitude: 37.3382,
+    longitude: -121.8863,
+    zips: [
+      { zip: "95113", latitude: 37.3334, longitude: -121.891 },
+      { zip: "95126", latitude: 37.3264, longitude: -121.918 },
+    ],
+  },
+  {
+    city: "Austin",
+    state: "TX",
+    timezone: "America/Chicago",
+    latitude: 30.2672,
+    longitude: -97.7431,
+    zips: [
+      { zip: "78701", latitude: 30.2711, longitude: -97.7437 },
+      { zip: "78705", latitude: 30.2923, longitude: -97.739 },
+    ],
+  },
+  {
+    city: "Jacksonville",
+    state: "FL",
+    timezone: "America/New_York",
+    latitude: 30.3322,
+    longitude: -81.6557,
+    zips: [
+      { zip: "32202", latitude: 30.3256, longitude: -81.6519 },
+      { zip: "32207", latitude: 30.2896, longitude: -81.6397 },
+    ],
+  },
+  {
+    city: "San Francisco",
+    state: "CA",
+    timezone: "America/Los_Angeles",
+    latitude: 37.7749,
+    longitude: -122.4194,
+    zips: [
+      { zip: "94102", latitude: 37.7796, longitude: -122.4193 },
+      { zip: "94110", latitude: 37.7485, longitude: -122.4184 },
+    ],
+  },
+  {
+    city: "Columbus",
+    state: "OH",
+    timezone: "America/New_York",
+    latitude: 39.9612,
+    longitude: -82.9988,
+    zips: [
+      { zip: "43215", latitude: 39.965, longitude: -83.0045 },
+      { zip: "43201", latitude: 39.9904, longitude: -83.001 },
+    ],
+  },
+  {
+    city: "Fort Worth",
+    state: "TX",
+    timezone: "America/Chicago",
+    latitude: 32.7555,
+    longitude: -97.3308,
+    zips: [
+      { zip: "76102", latitude: 32.7554, longitude: -97.3307 },
+      { zip: "76104", latitude: 32.7257, longitude: -97.3186 },
+    ],
+  },
+  {
+    city: "Seattle",
+    state: "WA",
+    timezone: "America/Los_Angeles",
+    latitude: 47.6062,
+    longitude: -122.3321,
+    zips: [
+      { zip: "98101", latitude: 47.6114, longitude: -122.3344 },
+      { zip: "98122", latitude: 47.6116, longitude: -122.305 },
+    ],
+  },
+  {
+    city: "Denver",
+    state: "CO",
+    timezone: "America/Denver",
+    latitude: 39.7392,
+    longitude: -104.9903,
+    zips: [
+      { zip: "80202", latitude: 39.7527, longitude: -104.999 },
+      { zip: "80206", latitude: 39.7325, longitude: -104.953 },
+    ],
+  },
+  {
+    city: "Boston",
+    state: "MA",
+    timezone: "America/New_York",
+    latitude: 42.3601,
+    longitude: -71.0589,
+    zips: [
+      { zip: "02108", latitude: 42.3576, longitude: -71.0636 },
+      { zip: "02115", latitude: 42.3427, longitude: -71.0922 },
+    ],
+  },
+  {
+    city: "Miami",
+    state: "FL",
+    timezone: "America/New_York",
+    latitude: 25.7617,
+    longitude: -80.1918,
+    zips: [
+      { zip: "33130", latitude: 25.7677, longitude: -80.2048 },
+      { zip: "33131", latitude: 25.7636, longitude: -80.189 },
+    ],
+  },
+  {
+    city: "Atlanta",
+    state: "GA",
+    timezone: "America/New_York",
+    latitude: 33.749,
+    longitude: -84.388,
+    zips: [
+      { zip: "30303", latitude: 33.7527, longitude: -84.3918 },
+      { zip: "30308", latitude: 33.7717, longitude: -84.3775 },
+    ],
+  },
+];
+
+export { gazetteer };
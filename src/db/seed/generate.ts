@@ -0,0 +1,170 @@
+import type { AdvocateInput, AdvocateLanguage, LanguageProficiency } from "../../types/advocate";
+import { gazetteer } from "./gazetteer";
+import { degrees, languageProficiencies, specialties } from "./taxonomy";
+
+/**
+ * Cities with relative weights (roughly metro population) and an area code
+ * for generated phone numbers.
+ */
+const cities: { name: string; weight: number; areaCode: number }[] = [
+  { name: "New York", weight: 20, areaCode: 212 },
+  { name: "Los Angeles", weight: 13, areaCode: 213 },
+  { name: "Chicago", weight: 9, areaCode: 312 },
+  { name: "Houston", weight: 7, areaCode: 713 },
+  { name: "Phoenix", weight: 5, areaCode: 602 },
+  { name: "Philadelphia", weight: 6, areaCode: 215 },
+  { name: "San Antonio", weight: 4, areaCode: 210 },
+  { name: "San Diego", weight: 4, areaCode: 619 },
+  { name: "Dallas", weight: 6, areaCode: 214 },
+  { name: "San Jose", weight: 3, areaCode: 408 },
+  { name: "Austin", weight: 4, areaCode: 512 },
+  { name: "Jacksonville", weight: 2, areaCode: 904 },
+  { name: "San Francisco", weight: 5, areaCode: 415 },
+  { name: "Columbus", weight: 2, areaCode: 614 },
+  { name: "Fort Worth", weight: 3, areaCode: 817 },
+  { name: "Seattle", weight: 4, areaCode: 206 },
+  { name: "Denver", weight: 3, areaCode: 303 },
+  { name: "Boston", weight: 5, areaCode: 617 },
+  { name: "Miami", weight: 6, areaCode: 305 },
+  { name: "Atlanta", weight: 6, areaCode: 404 },
+];
+
+// Social workers outnumber psychologists, who outnumber physicians
+const degreeWeights: Record<string, number> = { MSW: 45, PhD: 30, MD: 25 };
+
+// Second languages with relative weights, roughly following US Census
+// "language spoken at home" counts
+const secondLanguageWeights: Record<string, number> = {
+  Spanish: 40,
+  Mandarin: 6,
+  Cantonese: 4,
+  Vietnamese: 5,
+  Tagalog: 5,
+  Korean: 3,
+  Russian: 3,
+  Arabic: 3,
+  "Haitian Creole": 2,
+  French: 3,
+  Portuguese: 2,
+  Hindi: 3,
+  Polish: 1,
+  Japanese: 1,
+  "American Sign Language": 2,
+};
+
+const proficiencyWeights: Record<LanguageProficiency, number> = { native: 40, fluent: 40, conversational: 20 };
+
+const firstNames = [
+  "James", "Mary", "Robert", "Patricia", "John", "Jennifer", "Michael", "Linda",
+  "David", "Elizabeth", "William", "Barbara", "Richard", "Susan", "Joseph", "Jessica",
+  "Thomas", "Sarah", "Carlos", "Karen", "Daniel", "Lisa", "Matthew", "Nancy",
+  "Anthony", "Betty", "Mark", "Sandra", "Luis", "Ashley", "Wei", "Kimberly",
+  "Andrew", "Emily", "Joshua", "Maria", "Kevin", "Michelle", "Brian", "Amanda",
+  "Nguyen", "Priya", "Omar", "Aisha", "Hiroshi", "Sofia", "Mateo", "Fatima",
+];
+
+const lastNames = [
+  "Smith", "Johnson", "Williams", "Brown", "Jones", "Garcia", "Miller", "Davis",
+  "Rodriguez", "Martinez", "Hernandez", "Lopez", "Gonzalez", "Wilson", "Anderson", "Thomas",
+  "Taylor", "Moore", "Jackson", "Martin", "Lee", "Perez", "Thompson", "White",
+  "Harris", "Sanchez", "Clark", "Ramirez", "Lewis", "Robinson", "Walker", "Young",
+  "Allen", "King", "Wright", "Scott", "Torres", "Nguyen", "Hill", "Flores",
+  "Green", "Adams", "Nelson", "Baker", "Hall", "Rivera", "Campbell", "Mitchell",
+  "Patel", "Chen", "Kim", "Singh", "Okafor", "Cohen",
+];
+
+/**
+ * Small, fast seeded PRNG (mulberry32). The same seed always yields the same
+ * sequence, which keeps generated datasets reproducible across machines.
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pickWeighted<T>(random: () => number, items: T[], weightOf: (item: T) => number): T {
+  const total = items.reduce((sum, item) => sum + weightOf(item), 0);
+  let target = random() * total;
+  for (const item of items) {
+    target -= weightOf(item);
+    if (target < 0) return item;
+  }
+  return items[items.length - 1];
+}
+
+const pick = <T>(random: () => number, items: T[]): T => items[Math.floor(random() * items.length)];
+
+/**
+ * Everyone speaks English, mostly natively; about a third also speak a
+ * second language and a few a third.
+ */
+function pickLanguages(random: () => number): AdvocateLanguage[] {
+  const spoken: AdvocateLanguage[] = [{ language: "English", proficiency: random() < 0.85 ? "native" : "fluent" }];
+  const extra = random() < 0.35 ? (random() < 0.15 ? 2 : 1) : 0;
+  const others = Object.keys(secondLanguageWeights);
+
+  while (spoken.length < 1 + extra) {
+    const language = pickWeighted(random, others, (name) => secondLanguageWeights[name]);
+    if (spoken.some((entry) => entry.language === language)) continue;
+    const proficiency = pickWeighted(random, languageProficiencies, (level) => proficiencyWeights[level]);
+    spoken.push({ language, proficiency });
+  }
+  return spoken;
+}
+
+/**
+ * Generates `count` deterministic synthetic advocates for local benchmarking.
+ *
+ * Cities and degrees follow the weighted distributions above, specialties are
+ * 1-5 distinct entries from the canonical list, and experience skews toward
+ * early-career advocates. Languages come from a second generator seeded
+ * alongside the first, so adding them did not change the other fields. Phone numbers are derived from the row index, so
+ * every generated advocate has a distinct natural key (up to 8 million rows)
+ * and re-running with the same seed upserts rather than duplicates.
+ *
+ * @example
+ * const rows = generateAdvocates(100_000, 42);
+ */
+export function generateAdvocates(count: number, seed: number): AdvocateInput[] {
+  const random = createRandom(seed);
+  const languageRandom = createRandom(seed ^ 0x5eed1a6e);
+  const rows: AdvocateInput[] = [];
+
+  for (let index = 0; index < count; index++) {
+    const city = pickWeighted(random, cities, (c) => c.weight);
+    const specialtyCount = 1 + Math.floor(random() * 5);
+    const chosen = new Set<string>();
+    while (chosen.size < specialtyCount) {
+      chosen.add(pick(random, specialties));
+    }
+
+    // 7919 is prime, so index -> local number is a bijection modulo 8,000,000;
+    // offsetting by 2,000,000 keeps exchanges in the valid 200-999 range
+    const localNumber = 2_000_000 + ((index * 7919 + seed) % 8_000_000);
+
+    // ZIP is chosen by index rather than drawn, so adding it did not shift the
+    // random sequence (and natural keys) of previously generated datasets
+    const zips = gazetteer.find((entry) => entry.city === city.name)?.zips ?? [];
+    const zip = zips.length > 0 ? zips[index % zips.length].zip : undefined;
+
+    rows.push({
+      firstName: pick(random, firstNames),
+      lastName: pick(random, lastNames),
+      city: city.name,
+      ...(zip && { zip }),
+      degree: pickWeighted(random, degrees, (degree) => degreeWeights[degree] ?? 1),
+      specialties: Array.from(chosen),
+      languages: pickLanguages(languageRandom),
+      yearsOfExperience: 1 + Math.floor(Math.pow(random(), 1.6) * 30),
+      phoneNumber: `+1${city.areaCode * 10_000_000 + localNumber}`,
+    });
+  }
+
+  return rows;
+}
@@ -0,0 +1,44 @@
+import { isSeedingEnabled, MAX_GENERATED_ADVOCATES, runSeed } from "./runSeed";
+
+/**
+ * CLI entry point for `npm run seed`.
+ *
+ * @example
+ * npm run seed                                # fixed sample advocates
+ * npm run seed -- --count 100000 --seed 42    # 100K synthetic advocates
+ */
+const readFlag = (name: string, min = 0): number | undefined => {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1) return undefined;
+  const value = Number(process.argv[index + 1]);
+  if (!Number.isInteger(value) || value < min) {
+    throw new Error(`--${name} must be ${min === 0 ? "a non-negative integer" : `an integer of at least ${min}`}`);
+  }
+  return value;
+};
+
+const main = async () => {
+  if (!isSeedingEnabled()) {
+    throw new Error("Seeding is disabled outside development. Set ALLOW_SEED=true to override.");
+  }
+
+  const count = readFlag("count");
+  if (count !== undefined && count > MAX_GENERATED_ADVOCATES) {
+    throw new Error(`--count must be at most ${MAX_GENERATED_ADVOCATES}`);
+  }
+
+  const started = Date.now();
+  const summary = await runSeed({ count, seed: readFlag("seed"), batchSize: readFlag("batch-size", 1) });
+  console.log(
+    `Seeded advocates: ${summary.inserted} inserted, ${summary.updated} updated in ${summary.batches} batches (${Date.now() - started}ms)`
+  );
+};
+
+main()
+  .then(() => process.exit(0))
+  .catch((e) => {
+    console.error("Failed to seed database.");
+    console.error(e);
+
+    process.exit(1);
+  });
@@ -0,0 +1,36 @@
+import type { PlanType } from "../../types/plan";
+
+/**
+ * Plan types in display order, with their labels.
+ * Kept free of database imports so it can be shared by queries and the UI.
+ */
+const planTypes: { type: PlanType; label: string }[] = [
+  { type: "original_medicare", label: "Original Medicare" },
+  { type: "medicare_advantage", label: "Medicare Advantage" },
+  { type: "medigap", label: "Medigap" },
+  { type: "medicaid", label: "Medicaid" },
+  { type: "dual_eligible", label: "Dual eligible (D-SNP)" },
+];
+
+/**
+ * Canonical payer catalog; seeds the `plans` table. Slugs are stable
+ * identifiers, so a plan can be renamed without breaking saved searches.
+ */
+const plans: { slug: string; name: string; payer: string; type: PlanType }[] = [
+  { slug: "original-medicare", name: "Original Medicare (Parts A & B)", payer: "Medicare", type: "original_medicare" },
+  { slug: "aarp-medicare-advantage", name: "AARP Medicare Advantage", payer: "UnitedHealthcare", type: "medicare_advantage" },
+  { slug: "humana-gold-plus-hmo", name: "Humana Gold Plus HMO", payer: "Humana", type: "medicare_advantage" },
+  { slug: "humana-choice-ppo", name: "Humana Choice PPO", payer: "Humana", type: "medicare_advantage" },
+  { slug: "aetna-medicare-ppo", name: "Aetna Medicare PPO", payer: "Aetna", type: "medicare_advantage" },
+  { slug: "kaiser-senior-advantage", name: "Kaiser Permanente Senior Advantage", payer: "Kaiser Permanente", type: "medicare_advantage" },
+  { slug: "anthem-medicare-advantage", name: "Anthem Medicare Advantage", payer: "Anthem", type: "medicare_advantage" },
+  { slug: "wellcare-medicare-advantage", name: "Wellcare Medicare Advantage", payer: "Wellcare", type: "medicare_advantage" },
+  { slug: "medigap-plan-g", name: "Medigap Plan G", payer: "Medicare Supplement", type: "medigap" },
+  { slug: "medigap-plan-n", name: "Medigap Plan N", payer: "Medicare Supplement", type: "medigap" },
+  { slug: "medigap-plan-f", name: "Medigap Plan F", payer: "Medicare Supplement", type: "medigap" },
+  { slug: "medicaid", name: "Medicaid", payer: "State Medicaid", type: "medicaid" },
+  { slug: "unitedhealthcare-dual-complete", name: "UnitedHealthcare Dual Complete", payer: "UnitedHealthcare", type: "dual_eligible" },
+  { slug: "humana-dual-snp", name: "Humana Gold Plus SNP-DE", payer: "Humana", type: "dual_eligible" },
+];
+
+export { planTypes, plans };
@@ -0,0 +1,77 @@
+import db from "..";
+import { upsertAdvocates } from "../queries/advocates";
+import { seedDefaultAvailability } from "../queries/bookings";
+import { seedDefaultPlans, seedPlans } from "../queries/plans";
+import { seedSpecialties } from "../queries/specialties";
+import { advocateData } from "./advocates";
+import { generateAdvocates } from "./generate";
+import { invalidateSearchCache } from "../../lib/searchCache";
+
+export const DEFAULT_BATCH_SIZE = 1000;
+export const MAX_GENERATED_ADVOCATES = 1_000_000;
+
+export interface SeedOptions {
+  /** Generate this many synthetic advocates instead of the fixed sample data */
+  count?: number;
+  /** PRNG seed for synthetic data; the same seed reproduces the same rows */
+  seed?: number;
+  batchSize?: number;
+}
+
+export interface SeedSummary {
+  inserted: number;
+  updated: number;
+  batches: number;
+}
+
+/**
+ * Seeding writes bulk data, so it only runs in development unless
+ * ALLOW_SEED=true is set explicitly (e.g. for a staging benchmark).
+ * A missing NODE_ENV (plain `node` scripts) counts as development.
+ */
+export function isSeedingEnabled(): boolean {
+  return (process.env.NODE_ENV ?? "development") === "development" || process.env.ALLOW_SEED === "true";
+}
+
+/**
+ * Seeds the specialty taxonomy, the plan catalog and advocates, and gives
+ * advocates without a schedule default weekday availability and advocates
+ * without plans a default set of accepted plans.
+ *
+ * Advocates are upserted on their natural key, so running this repeatedly
+ * never creates duplicates. Each batch commits in its own transaction to keep
+ * statements and memory bounded on large synthetic runs.
+ */
+export async function runSeed({
+  count,
+  seed = 1,
+  batchSize = DEFAULT_BATCH_SIZE,
+}: SeedOptions = {}): Promise<SeedSummary> {
+  // A batch of zero would never advance through the rows
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error("batchSize must be an integer of at least 1");
+  }
+
+  await seedSpecialties();
+  await seedPlans();
+
+  const rows = count === undefined ? advocateData : generateAdvocates(count, seed);
+  const summary: SeedSummary = { inserted: 0, updated: 0, batches: 0 };
+
+  for (let start = 0; start < rows.length; start += batchSize) {
+    const batch = rows.slice(start, start + batchSize);
+    const result = await db.transaction(async (tx) => {
+      const upserted = await upsertAdvocates(tx, batch);
+      const ids = Array.from(upserted.ids.values());
+      await seedDefaultAvailability(tx, ids);
+      await seedDefaultPlans(tx, ids);
+      return upserted;
+    });
+    summary.inserted += result.inserted;
+    summary.updated += result.updated;
+    summary.batches += 1;
+  }
+
+  await invalidateSearchCache();
+  return summary;
+}
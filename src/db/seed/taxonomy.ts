@@ -0,0 +1,93 @@
+import type { LanguageProficiency } from "../../types/advocate";
+
+/**
+ * Canonical advocate taxonomy. Degrees and languages are validated against
+ * these lists; specialties seed the managed `specialties` table, which is
+ * authoritative once the database is set up.
+ * Kept free of database imports so it can be shared by validation and the UI.
+ */
+const specialties = [
+  "Bipolar",
+  "LGBTQ",
+  "Medication/Prescribing",
+  "Suicide History/Attempts",
+  "General Mental Health (anxiety, depression, stress, grief, life transitions)",
+  "Men's issues",
+  "Relationship Issues (family, friends, couple, etc)",
+  "Trauma & PTSD",
+  "Personality disorders",
+  "Personal growth",
+  "Substance use/abuse",
+  "Pediatrics",
+  "Women's issues (post-partum, infertility, family planning)",
+  "Chronic pain",
+  "Weight loss & nutrition",
+  "Eating disorders",
+  "Diabetic Diet and nutrition",
+  "Coaching (leadership, career, academic and wellness)",
+  "Life coaching",
+  "Obsessive-compulsive disorders",
+  "Neuropsychological evaluations & testing (ADHD testing)",
+  "Attention and Hyperactivity (ADHD)",
+  "Sleep issues",
+  "Schizophrenia and psychotic disorders",
+  "Learning disorders",
+  "Domestic abuse",
+];
+
+// Category grouping used when seeding the specialties table
+const specialtyCategories: Record<string, string> = {
+  Bipolar: "Mental health",
+  LGBTQ: "Identity & relationships",
+  "Medication/Prescribing": "Clinical services",
+  "Suicide History/Attempts": "Crisis & safety",
+  "General Mental Health (anxiety, depression, stress, grief, life transitions)": "Mental health",
+  "Men's issues": "Identity & relationships",
+  "Relationship Issues (family, friends, couple, etc)": "Identity & relationships",
+  "Trauma & PTSD": "Mental health",
+  "Personality disorders": "Mental health",
+  "Personal growth": "Coaching & growth",
+  "Substance use/abuse": "Mental health",
+  Pediatrics: "Clinical services",
+  "Women's issues (post-partum, infertility, family planning)": "Identity & relationships",
+  "Chronic pain": "Physical health & nutrition",
+  "Weight loss & nutrition": "Physical health & nutrition",
+  "Eating disorders": "Mental health",
+  "Diabetic Diet and nutrition": "Physical health & nutrition",
+  "Coaching (leadership, career, academic and wellness)": "Coaching & growth",
+  "Life coaching": "Coaching & growth",
+  "Obsessive-compulsive disorders": "Mental health",
+  "Neuropsychological evaluations & testing (ADHD testing)": "Learning & attention",
+  "Attention and Hyperactivity (ADHD)": "Learning & attention",
+  "Sleep issues": "Physical health & nutrition",
+  "Schizophrenia and psychotic disorders": "Mental health",
+  "Learning disorders": "Learning & attention",
+  "Domestic abuse": "Crisis & safety",
+};
+
+const degrees = ["MD", "PhD", "MSW"];
+
+// Languages most requested by Medicare patients, after English
+const languages = [
+  "English",
+  "Spanish",
+  "Mandarin",
+  "Cantonese",
+  "Vietnamese",
+  "Tagalog",
+  "Korean",
+  "Russian",
+  "Arabic",
+  "Haitian Creole",
+  "French",
+  "Portuguese",
+  "Hindi",
+  "Polish",
+  "Japanese",
+  "American Sign Language",
+];
+
+// Strongest first, so a minimum proficiency accepts itself and everything before it
+const languageProficiencies: LanguageProficiency[] = ["native", "fluent", "conversational"];
+
+export { specialties, specialtyCategories, degrees, languages, languageProficiencies };
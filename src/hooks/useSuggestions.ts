@@ -0,0 +1,45 @@
+import { useEffect, useRef, useState } from "react";
+import { useDebounce } from "./useDebounce";
+import { advocatesClient } from "../lib/apiClient";
+import type { AdvocateSuggestions } from "../types/advocate";
+
+/**
+ * Fetches typeahead suggestions for the text being typed. Requests wait for
+ * a short pause in typing, a newer request aborts the one in flight, and
+ * answers are remembered so backspacing over a prefix costs nothing.
+ *
+ * @param term - Current contents of the search box
+ * @param enabled - Whether suggestions are wanted at all (e.g. the list is open)
+ * @returns Suggestions for the settled term, or null while there are none
+ */
+export function useSuggestions(term: string, enabled: boolean = true): AdvocateSuggestions | null {
+  const prefix = useDebounce(term.trim().toLowerCase(), 150);
+  const cache = useRef(new Map<string, AdvocateSuggestions>());
+  const [suggestions, setSuggestions] = useState<AdvocateSuggestions | null>(null);
+
+  useEffect(() => {
+    if (!enabled || prefix === "") {
+      setSuggestions(null);
+      return;
+    }
+    const cached = cache.current.get(prefix);
+    if (cached) {
+      setSuggestions(cached);
+      return;
+    }
+
+    const controller = new AbortController();
+    advocatesClient
+      .suggestAdvocates({ q: prefix }, { signal: controller.signal })
+      .then((result) => {
+        if (result.success) cache.current.set(prefix, result.data);
+        setSuggestions(result.success ? result.data : null);
+      })
+      // Aborted or failed lookups just leave the list empty
+      .catch(() => undefined);
+
+    return () => controller.abort();
+  }, [prefix, enabled]);
+
+  return suggestions;
+}
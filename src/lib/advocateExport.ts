@@ -0,0 +1,100 @@
+import type { Advocate } from "../types/advocate";
+
+export type ExportFormat = "csv" | "ndjson" | "vcard";
+
+interface ExportFormatter {
+  contentType: string;
+  extension: string;
+  /** Written once before the first advocate */
+  header?: string;
+  format: (advocate: Advocate) => string;
+}
+
+// Same columns bulk import reads, so an export can be edited and re-imported
+const CSV_COLUMNS: (keyof Advocate)[] = [
+  "id",
+  "firstName",
+  "lastName",
+  "city",
+  "state",
+  "zip",
+  "degree",
+  "specialties",
+  "yearsOfExperience",
+  "phoneNumber",
+  "phoneExtension",
+];
+
+/**
+ * Quotes a CSV cell when needed. Cells that a spreadsheet would run as a
+ * formula (=, +, -, @, or a leading tab or carriage return) are prefixed with an apostrophe; plain signed numbers
+ * such as E.164 phone numbers are harmless and left alone.
+ */
+function csvCell(value: unknown): string {
+  let text = Array.isArray(value) ? value.join("; ") : value === undefined || value === null ? "" : String(value);
+  if (/^[=+\-@\t\r]/.test(text) && !/^[+-]\d+$/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const csvLine = (cells: unknown[]) => `${cells.map(csvCell).join(",")}\r\n`;
+
+// vCard text values escape backslashes, commas, semicolons and newlines
+const vcardText = (value: string) => value.replace(/[\\,;]/g, (char) => `\\${char}`).replace(/\r?\n/g, "\\n");
+
+const utf8 = new TextEncoder();
+
+/**
+ * Folds a vCard content line to 75 octets of UTF-8, never splitting a
+ * character; continuation lines start with a space, which counts toward them.
+ */
+function foldLine(line: string): string {
+  const parts = [""];
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8.encode(char).length;
+    if (octets + size > 75) {
+      parts.push("");
+      octets = 1;
+    }
+    parts[parts.length - 1] += char;
+    octets += size;
+  }
+  return parts.join("\r\n ");
+}
+
+function toVCard(advocate: Advocate): string {
+  const lines = [
+    "BEGIN:VCARD",
+    "VERSION:3.0",
+    `N:${vcardText(advocate.lastName)};${vcardText(advocate.firstName)};;;`,
+    `FN:${vcardText(`${advocate.firstName} ${advocate.lastName}, ${advocate.degree}`)}`,
+    `TITLE:${vcardText(`Patient advocate (${advocate.degree})`)}`,
+    `TEL;TYPE=WORK,VOICE:${advocate.phoneNumber}${advocate.phoneExtension ? ` x${advocate.phoneExtension}` : ""}`,
+    `ADR;TYPE=WORK:;;;${vcardText(advocate.city)};${vcardText(advocate.state ?? "")};${advocate.zip ?? ""};USA`,
+    ...(advocate.specialties.length > 0 ? [`CATEGORIES:${advocate.specialties.map(vcardText).join(",")}`] : []),
+    `NOTE:${vcardText(`${advocate.yearsOfExperience} years of experience`)}`,
+    ...(advocate.id !== undefined ? [`UID:advocate-${advocate.id}`] : []),
+    "END:VCARD",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatter> = {
+  csv: {
+    contentType: "text/csv; charset=utf-8",
+    extension: "csv",
+    header: csvLine(CSV_COLUMNS),
+    format: (advocate) => csvLine(CSV_COLUMNS.map((column) => advocate[column])),
+  },
+  ndjson: {
+    contentType: "application/x-ndjson",
+    extension: "ndjson",
+    format: (advocate) => `${JSON.stringify(advocate)}\n`,
+  },
+  vcard: {
+    contentType: "text/vcard; charset=utf-8",
+    extension: "vcf",
+    format: toVCard,
+  },
+};
+
@@ -0,0 +1,252 @@
+import { plans } from "../db/seed/plans";
+import { languages } from "../db/seed/taxonomy";
+import { decodeCursor, isValidCursorPosition, type AdvocateCursor } from "./cursor";
+import { parseNear } from "./geo";
+import { interpretSearch } from "./searchQuery";
+import type { AdvocateSearchParams } from "./apiContract";
+import type {
+  AdvocateFilters,
+  AdvocateInclude,
+  AdvocateSort,
+  AdvocateSortField,
+  CountMode,
+  SortOrder,
+} from "../types/advocate";
+
+export const DEFAULT_LIMIT = 20;
+export const MAX_LIMIT = 100;
+// Deeper offset pages get slow; use the cursor beyond this
+export const MAX_PAGE = 10_000;
+export const MAX_SEARCH_LENGTH = 200;
+export const MAX_VALUES_PER_FILTER = 25;
+// Longer than any career, and well inside the integer column
+export const MAX_YEARS_OF_EXPERIENCE = 100;
+
+export const SORT_FIELDS: AdvocateSortField[] = [
+  "lastName",
+  "city",
+  "yearsOfExperience",
+  "createdAt",
+  "relevance",
+  "distance",
+];
+
+// Direction used when `order` is omitted
+const DEFAULT_ORDER: Record<AdvocateSortField, SortOrder> = {
+  lastName: "asc",
+  city: "asc",
+  yearsOfExperience: "desc",
+  createdAt: "desc",
+  relevance: "desc",
+  distance: "asc",
+};
+
+export const INCLUDES: AdvocateInclude[] = ["languages", "plans"];
+
+export const DEFAULT_RADIUS_MILES = 25;
+export const MAX_RADIUS_MILES = 500;
+
+/**
+ * Years-of-experience ranges used for facet counts.
+ * Shared by the API (to bucket counts) and the UI (to turn a clicked bucket
+ * back into minYears/maxYears).
+ */
+export const EXPERIENCE_BUCKETS: { key: string; label: string; minYears: number; maxYears?: number }[] = [
+  { key: "0-2", label: "0–2 years", minYears: 0, maxYears: 2 },
+  { key: "3-5", label: "3–5 years", minYears: 3, maxYears: 5 },
+  { key: "6-10", label: "6–10 years", minYears: 6, maxYears: 10 },
+  { key: "11-15", label: "11–15 years", minYears: 11, maxYears: 15 },
+  { key: "16+", label: "16+ years", minYears: 16 },
+];
+
+export interface ValidationIssue {
+  field: string;
+  message: string;
+}
+
+export interface AdvocateQuery {
+  filters: AdvocateFilters;
+  sort: AdvocateSort;
+  page: number;
+  limit: number;
+  /** Present in keyset mode; `page` is ignored when set */
+  cursor?: AdvocateCursor;
+  /** Optional parts added to each advocate (and facets) */
+  include: AdvocateInclude[];
+  count: CountMode;
+}
+
+export type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; issues: ValidationIssue[] };
+
+/**
+ * Parses an optional integer query parameter.
+ * Returns undefined when the parameter is absent, or records an issue when it
+ * is present but not an integer within [min, max].
+ */
+export function parseInteger(
+  params: URLSearchParams,
+  field: string,
+  issues: ValidationIssue[],
+  { min, max }: { min: number; max?: number }
+): number | undefined {
+  const raw = params.get(field);
+  if (raw === null || raw.trim() === "") return undefined;
+
+  if (!/^\d+$/.test(raw.trim())) {
+    issues.push({ field, message: `${field} must be a whole number` });
+    return undefined;
+  }
+
+  const value = parseInt(raw, 10);
+  if (value < min || (max !== undefined && value > max)) {
+    const range = max !== undefined ? `between ${min} and ${max}` : `at least ${min}`;
+    issues.push({ field, message: `${field} must be ${range}` });
+    return undefined;
+  }
+
+  return value;
+}
+
+/**
+ * Resolves the query of GET /api/advocates, already checked against its
+ * schema in the API contract (types, ranges, allowed values), into the
+ * search to run. It applies what a schema cannot: known languages and plans,
+ * parameters that depend on each other, the default sort and the cursor.
+ *
+ * - search: free text (also understands "N years" as a minimum-experience query)
+ * - language and plan names ignore case but resolve to canonical names and slugs
+ * - proficiency needs language, radiusMiles needs near, maxYears ≥ minYears
+ * - sort defaults to relevance for free-text searches, then distance for
+ *   proximity searches, lastName otherwise; order defaults per sort field
+ * - cursor must have been issued for the same sort
+ *
+ * Use parseAdvocateQuery (lib/contractValidation) for a raw query string.
+ *
+ * @example
+ * const result = resolveAdvocateQuery(readQuery(advocatesApi.searchAdvocates, request));
+ * if (!result.success) return Response.json({ issues: result.issues }, { status: 400 });
+ */
+export function resolveAdvocateQuery(params: AdvocateSearchParams): ParseResult<AdvocateQuery> {
+  const issues: ValidationIssue[] = [];
+  const search = params.search ?? "";
+
+  // Language names ignore case but are echoed and matched in canonical form
+  const languageNames = (params.language ?? []).map(
+    (name) => languages.find((language) => language.toLowerCase() === name.toLowerCase()) ?? name
+  );
+  const unknownLanguages = languageNames.filter((name) => !languages.includes(name));
+  if (unknownLanguages.length > 0) {
+    issues.push({ field: "language", message: `Unknown languages: ${unknownLanguages.join(", ")}` });
+  }
+  if (params.proficiency !== undefined && languageNames.length === 0) {
+    issues.push({ field: "proficiency", message: "proficiency requires language" });
+  }
+
+  // Plans may be named by slug or name, ignoring case, but are echoed and matched by slug
+  const planSlugs = (params.plan ?? []).map(
+    (value) =>
+      plans.find(({ slug, name }) => slug === value.toLowerCase() || name.toLowerCase() === value.toLowerCase())
+        ?.slug ?? value
+  );
+  const unknownPlans = planSlugs.filter((slug) => !plans.some((plan) => plan.slug === slug));
+  if (unknownPlans.length > 0) {
+    issues.push({ field: "plan", message: `Unknown plans: ${unknownPlans.join(", ")}` });
+  }
+
+  const { minYears, maxYears } = params;
+  if (minYears !== undefined && maxYears !== undefined && minYears > maxYears) {
+    issues.push({ field: "maxYears", message: "maxYears must be greater than or equal to minYears" });
+  }
+
+  const center = params.near ? parseNear(params.near) : undefined;
+  if (center === null) {
+    issues.push({ field: "near", message: "near must be a known 5-digit ZIP code or \"lat,lng\"" });
+  }
+  if (params.radiusMiles !== undefined && !params.near) {
+    issues.push({ field: "radiusMiles", message: "radiusMiles requires near" });
+  }
+
+  // Only keywords and phrases rank; a search of just filters ("PhD in Chicago") does not
+  const rankable = interpretSearch(search).keywords.length > 0;
+  const sortField = params.sort ?? (rankable ? "relevance" : center ? "distance" : "lastName");
+  if (sortField === "relevance" && !rankable) {
+    issues.push({ field: "sort", message: "sort=relevance requires search keywords" });
+  } else if (sortField === "distance" && !center) {
+    issues.push({ field: "sort", message: "sort=distance requires near" });
+  }
+  const sort: AdvocateSort = { field: sortField, order: params.order ?? DEFAULT_ORDER[sortField] };
+
+  const cursor = params.cursor ? decodeCursor(params.cursor) : undefined;
+  if (cursor === null) {
+    issues.push({ field: "cursor", message: "cursor is malformed" });
+  } else if (cursor && (cursor.field !== sort.field || cursor.order !== sort.order)) {
+    issues.push({ field: "cursor", message: "cursor was issued for a different sort" });
+  } else if (cursor && !isValidCursorPosition(cursor)) {
+    issues.push({ field: "cursor", message: "cursor is malformed" });
+  }
+
+  const filters: AdvocateFilters = {
+    ...(search && { search }),
+    cities: params.city ?? [],
+    degrees: params.degree ?? [],
+    specialties: params.specialty ?? [],
+    specialtyMatch: params.specialtyMatch ?? "any",
+    ...(languageNames.length > 0 && { languages: languageNames }),
+    ...(params.proficiency && { proficiency: params.proficiency }),
+    ...(planSlugs.length > 0 && { plans: planSlugs }),
+    ...(minYears !== undefined && { minYears }),
+    ...(maxYears !== undefined && { maxYears }),
+    ...(center && { near: { ...center, radiusMiles: params.radiusMiles ?? DEFAULT_RADIUS_MILES } }),
+  };
+
+  if (issues.length > 0) {
+    return { success: false, issues };
+  }
+
+  return {
+    success: true,
+    data: {
+      filters,
+      sort,
+      page: params.page ?? 1,
+      limit: params.limit ?? DEFAULT_LIMIT,
+      ...(cursor && { cursor }),
+      include: params.include ?? [],
+      count: params.count ?? "exact",
+    },
+  };
+}
+
+export const DEFAULT_SUGGESTION_LIMIT = 5;
+export const MAX_SUGGESTION_LIMIT = 10;
+export const MAX_PREFIX_LENGTH = 100;
+
+/**
+ * Serializes filters back into query parameters understood by
+ * GET /api/advocates. Empty filters are omitted.
+ */
+export function filtersToSearchParams(filters: AdvocateFilters): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (filters.search) params.set("search", filters.search);
+  filters.cities.forEach((city) => params.append("city", city));
+  filters.degrees.forEach((degree) => params.append("degree", degree));
+  filters.specialties.forEach((specialty) => params.append("specialty", specialty));
+  if (filters.specialties.length > 1 && filters.specialtyMatch !== "any") {
+    params.set("specialtyMatch", filters.specialtyMatch);
+  }
+  filters.languages?.forEach((language) => params.append("language", language));
+  if (filters.proficiency) params.set("proficiency", filters.proficiency);
+  filters.plans?.forEach((plan) => params.append("plan", plan));
+  if (filters.minYears !== undefined) params.set("minYears", filters.minYears.toString());
+  if (filters.maxYears !== undefined) params.set("maxYears", filters.maxYears.toString());
+  if (filters.near) {
+    const { zip, latitude, longitude, radiusMiles } = filters.near;
+    params.set("near", zip ?? `${latitude},${longitude}`);
+    params.set("radiusMiles", radiusMiles.toString());
+  }
+
+  return params;
+}
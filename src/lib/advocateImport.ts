@@ -0,0 +1,141 @@
+import type { ParseResult, ValidationIssue } from "./advocateFilters";
+import { ADVOCATE_FIELDS, OPTIONAL_FIELDS } from "./advocateValidation";
+import { parseCsv } from "./csv";
+import type { AdvocateInput } from "../types/advocate";
+
+export const MAX_IMPORT_ROWS = 5000;
+
+/** One row of an import file, before it is validated against the advocate schema. */
+export interface ImportRecord {
+  /** Spreadsheet row number for CSV (the header is row 1); 1-based position for JSON */
+  row: number;
+  values: unknown;
+}
+
+export interface ImportFile {
+  records: ImportRecord[];
+  warnings: ValidationIssue[];
+}
+
+// Spreadsheet headers accepted besides the field names themselves
+const COLUMN_ALIASES: Record<string, keyof AdvocateInput> = {
+  first: "firstName",
+  last: "lastName",
+  phone: "phoneNumber",
+  ext: "phoneExtension",
+  extension: "phoneExtension",
+  experience: "yearsOfExperience",
+  years: "yearsOfExperience",
+  zipcode: "zip",
+  postalcode: "zip",
+  language: "languages",
+  spokenlanguages: "languages",
+};
+
+// "First Name", "first_name" and "firstName" all become "firstname"
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+function columnField(header: string): keyof AdvocateInput | undefined {
+  const key = normalizeHeader(header);
+  return ADVOCATE_FIELDS.find((field) => field.toLowerCase() === key) ?? COLUMN_ALIASES[key];
+}
+
+const splitList = (value: string) =>
+  value
+    .split(";")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+
+/**
+ * Converts a CSV cell to the type parseAdvocateInput expects. Specialties are
+ * separated by semicolons, as are languages, each with its proficiency in
+ * parentheses ("Spanish (native); English (fluent)"). Other empty cells are
+ * treated as absent.
+ */
+function convertCell(field: keyof AdvocateInput, cell: string): unknown {
+  const value = cell.trim();
+  if (field === "specialties") return splitList(value);
+  if (value === "") return undefined;
+  if (field === "languages") {
+    return splitList(value).map((item) => {
+      const [, language, proficiency] = item.match(/^(.*?)\s*\((.*)\)$/) ?? [item, item, undefined];
+      return { language, proficiency: proficiency?.trim().toLowerCase() };
+    });
+  }
+  if (field === "yearsOfExperience" && /^\d+$/.test(value)) return parseInt(value, 10);
+  return value;
+}
+
+/**
+ * Reads a CSV roster with a header row into import records.
+ * Headers are matched to advocate fields ignoring case, spaces and
+ * punctuation ("First Name" = firstName); unknown columns are ignored with a
+ * warning. A missing required column fails the whole file.
+ */
+export function parseCsvImport(text: string): ParseResult<ImportFile> {
+  const [header, ...lines] = parseCsv(text);
+  if (!header || header.every((cell) => cell.trim() === "")) {
+    return { success: false, issues: [{ field: "body", message: "CSV must start with a header row" }] };
+  }
+
+  const issues: ValidationIssue[] = [];
+  const warnings: ValidationIssue[] = [];
+  const columns = header.map((cell) => {
+    const field = columnField(cell);
+    if (!field) {
+      warnings.push({ field: cell, message: `Ignored unknown column "${cell}"` });
+    }
+    return field;
+  });
+
+  for (const field of ADVOCATE_FIELDS) {
+    const count = columns.filter((column) => column === field).length;
+    if (count > 1) {
+      issues.push({ field, message: `Column for ${field} appears ${count} times` });
+    } else if (count === 0 && !OPTIONAL_FIELDS.has(field)) {
+      issues.push({ field, message: `Missing required column ${field}` });
+    }
+  }
+
+  const records: ImportRecord[] = [];
+  lines.forEach((cells, index) => {
+    if (cells.every((cell) => cell.trim() === "")) return;
+    const values: Record<string, unknown> = {};
+    columns.forEach((field, column) => {
+      if (!field) return;
+      const value = convertCell(field, cells[column] ?? "");
+      if (value !== undefined) values[field] = value;
+    });
+    records.push({ row: index + 2, values });
+  });
+
+  if (records.length === 0) {
+    issues.push({ field: "body", message: "CSV has no data rows" });
+  } else if (records.length > MAX_IMPORT_ROWS) {
+    issues.push({ field: "body", message: `Imports are limited to ${MAX_IMPORT_ROWS} rows` });
+  }
+
+  return issues.length > 0 ? { success: false, issues } : { success: true, data: { records, warnings } };
+}
+
+/** Reads a JSON import body: an array of advocate objects. */
+export function parseJsonImport(body: unknown): ParseResult<ImportFile> {
+  if (!Array.isArray(body) || body.length === 0) {
+    return {
+      success: false,
+      issues: [{ field: "body", message: "Request body must be a non-empty array of advocates" }],
+    };
+  }
+  if (body.length > MAX_IMPORT_ROWS) {
+    return { success: false, issues: [{ field: "body", message: `Imports are limited to ${MAX_IMPORT_ROWS} rows` }] };
+  }
+
+  return {
+    success: true,
+    data: { records: body.map((values, index) => ({ row: index + 1, values })), warnings: [] },
+  };
+}
+
+/** Identity used to detect duplicates: name (case-insensitive) plus phone number. */
+export const naturalKey = ({ firstName, lastName, phoneNumber }: Pick<AdvocateInput, "firstName" | "lastName" | "phoneNumber">) =>
+  [firstName.toLowerCase(), lastName.toLowerCase(), phoneNumber].join("|");
@@ -0,0 +1,220 @@
+import { degrees, languageProficiencies, languages } from "../db/seed/taxonomy";
+import { MAX_YEARS_OF_EXPERIENCE, type ParseResult, type ValidationIssue } from "./advocateFilters";
+import { splitExtension, toE164 } from "./phone";
+import { anyOf, array, integer, nullable, object, oneOf, optional, string, type Infer, type Schema } from "./schema";
+import type { AdvocateBulkRequest, AdvocateInput, AdvocateLanguage } from "../types/advocate";
+
+const MAX_NAME_LENGTH = 100;
+export const MAX_BULK_IDS = 500;
+const BULK_ACTIONS: AdvocateBulkRequest["action"][] = ["deactivate", "addSpecialty", "setCity"];
+
+type FieldResult<T> = { value: T } | { message: string };
+
+export const languageSchema = object({ language: string(), proficiency: oneOf(languageProficiencies) });
+
+/**
+ * The shape of an advocate as sent to the API, documented by the contract as
+ * AdvocateInput. parseAdvocateInput checks each field against it before
+ * normalizing the value.
+ */
+export const advocateInputShape = {
+  firstName: string({ minLength: 1, maxLength: MAX_NAME_LENGTH }),
+  lastName: string({ minLength: 1, maxLength: MAX_NAME_LENGTH }),
+  city: string({ minLength: 1, maxLength: MAX_NAME_LENGTH }),
+  zip: optional(string({ description: "5-digit ZIP code" })),
+  degree: oneOf(degrees),
+  specialties: array(string({ minLength: 1 }), { description: "Specialty names or slugs" }),
+  languages: optional(array(languageSchema, { description: "Each language once" })),
+  yearsOfExperience: integer({ minimum: 0, maximum: MAX_YEARS_OF_EXPERIENCE }),
+  phoneNumber: anyOf(string(), integer(), {
+    description: 'A 10-digit US number, or + and a country code; "555-123-4567 x12" sets the extension',
+  }),
+  phoneExtension: optional(nullable(anyOf(string(), integer(), { description: "1 to 6 digits; null clears it" }))),
+};
+
+// Fields that may be omitted even on create
+export const OPTIONAL_FIELDS = new Set<string>(
+  Object.entries(advocateInputShape)
+    .filter(([, schema]) => "optional" in schema)
+    .map(([field]) => field)
+);
+
+/**
+ * Turns each field, once it fits advocateInputShape, into its stored form and
+ * checks what the shape cannot express. The mapped type ties it to the
+ * Advocate interface, so adding a field there fails to compile until it is
+ * validated here.
+ */
+const advocateSchema: {
+  [K in keyof AdvocateInput]-?: (
+    value: Exclude<Infer<(typeof advocateInputShape)[K]>, undefined>
+  ) => FieldResult<AdvocateInput[K]>;
+} = {
+  firstName: (value) => ({ value: value.trim() }),
+  lastName: (value) => ({ value: value.trim() }),
+  city: (value) => ({ value: value.trim() }),
+  zip: (value) => (/^\d{5}$/.test(value.trim()) ? { value: value.trim() } : { message: "zip must be a 5-digit ZIP code" }),
+  degree: (value) => ({ value }),
+  // Names are checked against the specialties table by the route (see
+  // resolveSpecialtyNames), since the taxonomy is managed in the database
+  specialties: (value) => ({ value: Array.from(new Set(value.map((item) => item.trim()))) }),
+  languages: parseLanguages,
+  yearsOfExperience: (value) => ({ value }),
+  phoneNumber: (value) => {
+    // Accept 5551234567, "(555) 123-4567", "+1 555 123 4567" or "+44 20 7946 0958"
+    const e164 = toE164(value);
+    return e164
+      ? { value: e164 }
+      : { message: "phoneNumber must be a 10-digit US number or start with + and a country code" };
+  },
+  phoneExtension: (value) => {
+    if (value === null || value === "") return { value: null };
+    const digits = String(value).trim();
+    return /^\d{1,6}$/.test(digits) ? { value: digits } : { message: "phoneExtension must be 1 to 6 digits" };
+  },
+};
+
+/** Every writable advocate field, in schema order. */
+export const ADVOCATE_FIELDS = Object.keys(advocateSchema) as (keyof AdvocateInput)[];
+
+/**
+ * Canonicalizes spoken languages: each language from the canonical list
+ * (ignoring case) and listed once.
+ */
+function parseLanguages(value: Infer<typeof languageSchema>[]): FieldResult<AdvocateLanguage[]> {
+  const parsed: AdvocateLanguage[] = [];
+  for (const { language, proficiency } of value) {
+    const name = languages.find((known) => known.toLowerCase() === language.trim().toLowerCase());
+    if (!name) return { message: `Unknown language ${language}; expected one of ${languages.join(", ")}` };
+    if (parsed.some((known) => known.language === name)) return { message: `${name} is listed more than once` };
+    parsed.push({ language: name, proficiency });
+  }
+  return { value: parsed };
+}
+
+function nonEmptyString(value: unknown, field: string): FieldResult<string> {
+  if (typeof value !== "string" || value.trim().length === 0) {
+    return { message: `${field} must be a non-empty string` };
+  }
+  if (value.trim().length > MAX_NAME_LENGTH) {
+    return { message: `${field} must be at most ${MAX_NAME_LENGTH} characters` };
+  }
+  return { value: value.trim() };
+}
+
+/**
+ * Validates a request body against the advocate schema.
+ *
+ * With `partial: true` (PATCH), absent fields are skipped, but at least one
+ * field must be present. Unknown fields are rejected so typos don't silently
+ * become no-ops.
+ *
+ * @example
+ * const result = parseAdvocateInput(await request.json());
+ * if (!result.success) return Response.json({ issues: result.issues }, { status: 400 });
+ */
+export function parseAdvocateInput(body: unknown, options: { partial: true }): ParseResult<Partial<AdvocateInput>>;
+export function parseAdvocateInput(body: unknown, options?: { partial?: false }): ParseResult<AdvocateInput>;
+export function parseAdvocateInput(
+  body: unknown,
+  { partial = false }: { partial?: boolean } = {}
+): ParseResult<Partial<AdvocateInput>> {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { success: false, issues: [{ field: "body", message: "Request body must be a JSON object" }] };
+  }
+
+  const input = { ...(body as Record<string, unknown>) };
+  const issues: ValidationIssue[] = [];
+
+  // "555-123-4567 x12" carries its extension along
+  if (typeof input.phoneNumber === "string" && input.phoneExtension === undefined) {
+    const { number, extension } = splitExtension(input.phoneNumber);
+    if (extension) {
+      input.phoneNumber = number;
+      input.phoneExtension = extension;
+    }
+  }
+  const data: Record<string, unknown> = {};
+
+  for (const field of Object.keys(input)) {
+    if (!(field in advocateSchema)) {
+      issues.push({ field, message: `Unknown field ${field}` });
+    }
+  }
+
+  for (const [field, validate] of Object.entries(advocateSchema)) {
+    if (input[field] === undefined) {
+      if (!partial && !OPTIONAL_FIELDS.has(field)) {
+        issues.push({ field, message: `${field} is required` });
+      }
+      continue;
+    }
+    const shape: Schema<unknown> = advocateInputShape[field as keyof AdvocateInput];
+    if (!shape.check(input[field], field, issues)) continue;
+    const result = (validate as (value: unknown) => FieldResult<unknown>)(input[field]);
+    if ("message" in result) {
+      issues.push({ field, message: result.message });
+    } else {
+      data[field] = result.value;
+    }
+  }
+
+  if (partial && issues.length === 0 && Object.keys(data).length === 0) {
+    issues.push({ field: "body", message: "At least one field must be provided" });
+  }
+
+  if (issues.length > 0) {
+    return { success: false, issues };
+  }
+
+  return { success: true, data: data as Partial<AdvocateInput> };
+}
+
+/**
+ * Validates a bulk change for POST /api/advocates/bulk: up to MAX_BULK_IDS
+ * advocate `ids` and an `action`, plus `specialty` (a name or slug) for
+ * "addSpecialty" or `city` for "setCity".
+ *
+ * @example
+ * parseBulkRequest({ ids: [3, 8], action: "setCity", city: "Austin" });
+ */
+export function parseBulkRequest(body: unknown): ParseResult<AdvocateBulkRequest> {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { success: false, issues: [{ field: "body", message: "Request body must be a JSON object" }] };
+  }
+
+  const { ids, action, specialty, city, ...rest } = body as Record<string, unknown>;
+  const issues: ValidationIssue[] = Object.keys(rest).map((field) => ({ field, message: `Unknown field ${field}` }));
+
+  if (
+    !Array.isArray(ids) ||
+    ids.length === 0 ||
+    ids.length > MAX_BULK_IDS ||
+    !ids.every((id) => typeof id === "number" && Number.isInteger(id) && id > 0)
+  ) {
+    issues.push({ field: "ids", message: `ids must be an array of 1 to ${MAX_BULK_IDS} advocate ids` });
+  }
+  if (!BULK_ACTIONS.includes(action as AdvocateBulkRequest["action"])) {
+    issues.push({ field: "action", message: `action must be one of ${BULK_ACTIONS.join(", ")}` });
+  }
+
+  // Each action takes exactly its own argument
+  const expected = action === "addSpecialty" ? "specialty" : action === "setCity" ? "city" : undefined;
+  for (const [field, value] of Object.entries({ specialty, city })) {
+    if (value !== undefined && field !== expected) {
+      issues.push({ field, message: `${field} is not used by action ${String(action)}` });
+    }
+  }
+  const argument = expected ? nonEmptyString(expected === "city" ? city : specialty, expected) : undefined;
+  if (argument && "message" in argument) {
+    issues.push({ field: expected as string, message: argument.message });
+  }
+
+  if (issues.length > 0) return { success: false, issues };
+
+  const uniqueIds = Array.from(new Set(ids as number[]));
+  const value = argument && "value" in argument ? argument.value : "";
+  if (action === "addSpecialty") return { success: true, data: { ids: uniqueIds, action, specialty: value } };
+  if (action === "setCity") return { success: true, data: { ids: uniqueIds, action, city: value } };
+  return { success: true, data: { ids: uniqueIds, action: "deactivate" } };
+}
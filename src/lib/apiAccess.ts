@@ -0,0 +1,252 @@
+import { findApiKeyBySecret } from "../db/queries/apiKeys";
+import { recordAudit } from "../db/queries/audit";
+import type { Endpoint } from "./apiContract";
+import { checkRequest, checkResponse } from "./contractValidation";
+import {
+  ANONYMOUS_RATE_LIMIT,
+  API_KEY_RATE_LIMIT,
+  KEY_CHECK_RATE_LIMIT,
+  createMemoryRateLimitStore,
+  rateLimitHeaders,
+  type RateLimitStore,
+} from "./rateLimit";
+import { parseId } from "./routeParams";
+import type { Shape } from "./schema";
+import type { ApiKey, ApiScope, AuditAction } from "../types/apiAccess";
+
+type RouteHandler<Context> = (request: Request, context: Context) => Promise<Response>;
+
+/** Who is calling, passed to handlers as a third argument. */
+export interface ApiCaller {
+  /** Null for anonymous callers */
+  apiKey: ApiKey | null;
+  /** "key:12" or "ip:203.0.113.7", as recorded in the audit log */
+  actor: string;
+}
+
+/** The calling key's id, for data owned by a key; only call it on routes with a `scope`. */
+export function callerKeyId({ apiKey }: ApiCaller): number {
+  if (!apiKey) throw new Error("callerKeyId needs a route with a scope, which guarantees an API key");
+  return apiKey.id;
+}
+
+type AccessHandler<Context> = (request: Request, context: Context, caller: ApiCaller) => Promise<Response>;
+
+export interface ApiAccessOptions {
+  /** The route's operation in the API contract; requests are checked against it before the handler runs */
+  endpoint?: Endpoint<Shape, unknown, unknown>;
+  /** Scope the caller's API key must have (default: the endpoint's); without one, anonymous callers are allowed too */
+  scope?: ApiScope;
+  /** Records successful (and 304 Not Modified) requests in the audit log as this action */
+  audit?: AuditAction;
+  /** Tokens a request takes from the caller's rate limit bucket (default 1) */
+  cost?: number;
+}
+
+// Staff sessions in the browser carry their key in this HttpOnly cookie (see /api/session)
+export const SESSION_COOKIE = "staff_session";
+// Change bodies larger than this are left out of the audit log
+const MAX_AUDITED_BODY_BYTES = 16 * 1024;
+
+let rateLimitStore: RateLimitStore = createMemoryRateLimitStore();
+
+/** Replaces the in-memory limiter, e.g. with a shared store when running several instances. */
+export function setRateLimitStore(store: RateLimitStore): void {
+  rateLimitStore = store;
+}
+
+/**
+ * Reads a key from `Authorization: Bearer <key>`, `X-API-Key: <key>` or the
+ * staff session cookie.
+ */
+function readApiKey(request: Request): string | null {
+  const authorization = request.headers.get("authorization");
+  const bearer = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  const session = request.headers
+    .get("cookie")
+    ?.split(";")
+    .map((cookie) => cookie.trim().split("="))
+    .find(([name]) => name === SESSION_COOKIE)?.[1];
+  return bearer ?? request.headers.get("x-api-key") ?? (session ? decodeURIComponent(session) : null);
+}
+
+// Proxies in front of the app, each appending one X-Forwarded-For hop; 1 when unset.
+// 0 means clients connect directly, so any forwarding header is theirs to forge.
+const proxyCount = Number(process.env.TRUSTED_PROXY_COUNT || 1);
+const TRUSTED_PROXY_COUNT = Number.isInteger(proxyCount) && proxyCount >= 0 ? proxyCount : 1;
+
+/**
+ * The caller's IP: the platform's own view of the connection when it has one
+ * (`request.ip` on Vercel), else the X-Forwarded-For hop appended by the
+ * outermost trusted proxy. Hops to its left come from the client and can be
+ * anything. With no trusted proxies, only the platform's IP counts.
+ */
+function clientIp(request: Request): string {
+  const platformIp = (request as Request & { ip?: string }).ip;
+  if (TRUSTED_PROXY_COUNT === 0) return platformIp || "unknown";
+  const hops =
+    request.headers
+      .get("x-forwarded-for")
+      ?.split(",")
+      .map((hop) => hop.trim())
+      .filter(Boolean) ?? [];
+  const forwarded = hops[Math.max(hops.length - TRUSTED_PROXY_COUNT, 0)];
+  return platformIp || forwarded || request.headers.get("x-real-ip") || "unknown";
+}
+
+/**
+ * Charges the caller's IP one key check, returning the 429 to send when its
+ * bucket is empty. For routes that look a key up outside withApiAccess.
+ */
+export async function limitKeyChecks(request: Request): Promise<Response | null> {
+  const limit = await rateLimitStore.take(`key-check:${clientIp(request)}`, KEY_CHECK_RATE_LIMIT, 1);
+  return limit.allowed ? null : Response.json({ error: "Too many requests" }, { status: 429, headers: rateLimitHeaders(limit) });
+}
+
+// Scopes held by implication: admin holds every scope, staff also reads and writes
+const IMPLIED_SCOPES: Record<ApiScope, ApiScope[]> = {
+  read: [],
+  write: [],
+  staff: ["read", "write"],
+  admin: ["read", "write", "staff"],
+};
+
+export const hasScope = (apiKey: ApiKey, scope: ApiScope) =>
+  apiKey.scopes.some((held) => held === scope || IMPLIED_SCOPES[held].includes(scope));
+
+const unauthorized = (message: string) =>
+  Response.json({ error: message }, { status: 401, headers: { "WWW-Authenticate": "Bearer" } });
+
+/**
+ * Advocates a successful response was about: the `[id]` of the route, the
+ * ids in a JSON body's `data` (one advocate, a list, or match results with
+ * an `advocate`) or import `rows`, or a bulk action's `ids`. Streamed
+ * exports name none.
+ */
+async function affectedAdvocateIds(response: Response, context: unknown): Promise<number[]> {
+  const routeId = (context as { params?: { id?: string } } | undefined)?.params?.id;
+  if (routeId !== undefined) {
+    const id = parseId(routeId);
+    return id === null ? [] : [id];
+  }
+  if (!response.headers.get("content-type")?.includes("application/json")) return [];
+
+  const body = await response.clone().json();
+  if (Array.isArray(body?.ids)) return body.ids.filter((id: unknown) => typeof id === "number");
+  const items: unknown[] = Array.isArray(body?.data) ? body.data : body?.data ? [body.data] : body?.rows ?? [];
+  return items.flatMap((item) => {
+    const record = item as { id?: unknown; advocate?: { id?: unknown } } | null;
+    const id = record?.id ?? record?.advocate?.id;
+    return typeof id === "number" ? [id] : [];
+  });
+}
+
+function isSmallJson(request: Request): boolean {
+  const length = Number(request.headers.get("content-length") ?? 0);
+  return request.headers.get("content-type")?.includes("application/json") === true && length <= MAX_AUDITED_BODY_BYTES;
+}
+
+async function readChanges(request: Request): Promise<Record<string, unknown> | undefined> {
+  const body = await request.json().catch(() => undefined);
+  return typeof body === "object" && body !== null && !Array.isArray(body) ? body : undefined;
+}
+
+/**
+ * Shared middleware for API route handlers: authenticates the caller,
+ * enforces the route's scope, applies token-bucket rate limiting and records
+ * successful and not-modified requests in the audit log.
+ *
+ * - Keys come from the Authorization or X-API-Key header, or the staff session
+ *   cookie. An invalid or revoked key is a 401, even on routes open to anonymous callers.
+ * - A route with a `scope` needs a key holding it (401 without a key, 403 with
+ *   the wrong one); "staff" keys also hold read and write, "admin" keys every scope.
+ * - Keys are limited per key, anonymous callers per IP; an empty bucket is a
+ *   429 with `Retry-After`. Requests with a key also draw on a per-IP bucket
+ *   for key checks before the key is looked up. Every response carries
+ *   `RateLimit-*` headers.
+ * - With an `endpoint`, the query string and JSON body must match its contract
+ *   (400 otherwise), and outside production a response that breaks it is logged.
+ * - The handler receives the caller as a third argument, for data owned by a key.
+ *
+ * @example
+ * export const POST = withApiAccess(createAdvocateHandler, { endpoint: advocatesApi.createAdvocate, audit: "create" });
+ */
+export function withApiAccess<Context>(handler: AccessHandler<Context>, options: ApiAccessOptions = {}): RouteHandler<Context> {
+  const { endpoint } = options;
+  const scope = options.scope ?? endpoint?.scope;
+
+  return async (request, context) => {
+    const ip = clientIp(request);
+    const secret = readApiKey(request);
+
+    // The IP's bucket is charged before any key lookup, so guessing keys is limited too
+    const ipLimit = await rateLimitStore.take(
+      secret ? `key-check:${ip}` : `ip:${ip}`,
+      secret ? KEY_CHECK_RATE_LIMIT : ANONYMOUS_RATE_LIMIT,
+      secret ? 1 : options.cost ?? 1
+    );
+    if (!ipLimit.allowed) {
+      return Response.json({ error: "Too many requests" }, { status: 429, headers: rateLimitHeaders(ipLimit) });
+    }
+
+    let apiKey: ApiKey | null = null;
+    if (secret) {
+      try {
+        apiKey = await findApiKeyBySecret(secret);
+      } catch (error) {
+        console.error("Error checking API key:", error);
+        return Response.json(
+          { error: "Failed to check API key" },
+          { status: 500 }
+        );
+      }
+      if (!apiKey) return unauthorized("Invalid or revoked API key");
+    }
+
+    if (scope && !apiKey) {
+      return unauthorized(`This endpoint requires an API key with the ${scope} scope`);
+    }
+    if (scope && apiKey && !hasScope(apiKey, scope)) {
+      return Response.json({ error: `This API key lacks the ${scope} scope` }, { status: 403 });
+    }
+
+    const actor = apiKey ? `key:${apiKey.id}` : `ip:${ip}`;
+    const limit = apiKey ? await rateLimitStore.take(actor, API_KEY_RATE_LIMIT, options.cost ?? 1) : ipLimit;
+    if (!limit.allowed) {
+      return Response.json({ error: "Too many requests" }, { status: 429, headers: rateLimitHeaders(limit) });
+    }
+
+    // Reads change nothing and import files can be thousands of rows; neither body is kept
+    const auditBody =
+      options.audit && options.audit !== "read" && options.audit !== "import" && isSmallJson(request)
+        ? request.clone()
+        : null;
+
+    const rejected = endpoint ? await checkRequest(endpoint, request) : null;
+    const response = rejected ?? (await handler(request, context, { apiKey, actor }));
+    if (endpoint && !rejected) await checkResponse(endpoint, response);
+    Object.entries(rateLimitHeaders(limit)).forEach(([name, value]) => response.headers.set(name, value));
+
+    // A 304 is a read like any other; the client just had the body already
+    if (options.audit && (response.ok || response.status === 304)) {
+      // The request already happened; a failed audit write is logged, not returned
+      try {
+        const url = new URL(request.url);
+        await recordAudit({
+          actor,
+          apiKeyId: apiKey?.id,
+          action: options.audit,
+          method: request.method,
+          path: url.pathname + url.search,
+          status: response.status,
+          advocateIds: await affectedAdvocateIds(response, context),
+          changes: auditBody ? await readChanges(auditBody) : undefined,
+        });
+      } catch (error) {
+        console.error("Error recording audit entry:", error);
+      }
+    }
+
+    return response;
+  };
+}
@@ -0,0 +1,61 @@
+import { DEFAULT_LIMIT, MAX_LIMIT, parseInteger, type ParseResult, type ValidationIssue } from "./advocateFilters";
+import type { ApiKeyInput, ApiScope, AuditAction, AuditQuery } from "../types/apiAccess";
+
+export const API_SCOPES: ApiScope[] = ["read", "write", "staff", "admin"];
+export const AUDIT_ACTIONS: AuditAction[] = ["read", "export", "create", "update", "delete", "bulk", "import", "seed"];
+const MAX_NAME_LENGTH = 100;
+
+const isObject = (body: unknown): body is Record<string, unknown> =>
+  typeof body === "object" && body !== null && !Array.isArray(body);
+
+/**
+ * Validates a new API key for POST /api/keys.
+ *
+ * @example
+ * parseApiKeyInput({ name: "Partner sync", scopes: ["read"] });
+ */
+export function parseApiKeyInput(body: unknown): ParseResult<ApiKeyInput> {
+  if (!isObject(body)) {
+    return { success: false, issues: [{ field: "body", message: "Request body must be a JSON object" }] };
+  }
+
+  const issues: ValidationIssue[] = [];
+  for (const field of Object.keys(body)) {
+    if (field !== "name" && field !== "scopes") issues.push({ field, message: `Unknown field ${field}` });
+  }
+
+  const { name, scopes } = body;
+  if (typeof name !== "string" || name.trim() === "" || name.length > MAX_NAME_LENGTH) {
+    issues.push({ field: "name", message: `name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters` });
+  }
+  if (
+    !Array.isArray(scopes) ||
+    scopes.length === 0 ||
+    !scopes.every((scope) => API_SCOPES.includes(scope))
+  ) {
+    issues.push({ field: "scopes", message: `scopes must be a non-empty array of ${API_SCOPES.join(", ")}` });
+  }
+
+  if (issues.length > 0) return { success: false, issues };
+  return {
+    success: true,
+    data: { name: (name as string).trim(), scopes: Array.from(new Set(scopes as ApiScope[])) },
+  };
+}
+
+/** Parses the filters of GET /api/audit: `advocateId`, `actor`, `action`, `before` and `limit`. */
+export function parseAuditQuery(params: URLSearchParams): ParseResult<AuditQuery> {
+  const issues: ValidationIssue[] = [];
+  const advocateId = parseInteger(params, "advocateId", issues, { min: 1 });
+  const before = parseInteger(params, "before", issues, { min: 1 });
+  const limit = parseInteger(params, "limit", issues, { min: 1, max: MAX_LIMIT }) ?? DEFAULT_LIMIT;
+
+  const actor = params.get("actor")?.trim() || undefined;
+  const action = params.get("action") || undefined;
+  if (action !== undefined && !AUDIT_ACTIONS.includes(action as AuditAction)) {
+    issues.push({ field: "action", message: `action must be one of ${AUDIT_ACTIONS.join(", ")}` });
+  }
+
+  if (issues.length > 0) return { success: false, issues };
+  return { success: true, data: { advocateId, actor, action: action as AuditAction | undefined, before, limit } };
+}
@@ -0,0 +1,164 @@
+import {
+  API_BASE_PATH,
+  advocatesApi,
+  errorSchema,
+  type AdvocateExportParams,
+  type AdvocateIncludeParams,
+  type AdvocateSearchParams,
+  type AdvocateSuggestParams,
+  type ApiAdvocateChanges,
+  type ApiAdvocateInput,
+  type ApiBookingRequest,
+  type ApiMatchRequest,
+  type ApiSavedSearchInput,
+  type Endpoint,
+  type SavedSearchResultsParams,
+} from "./apiContract";
+import { parseWith, type Infer, type Shape } from "./schema";
+import type { ValidationIssue } from "./advocateFilters";
+import type { BookingStatus } from "../types/booking";
+
+/**
+ * Outcome of an API call. A response that does not match the contract is a
+ * failure like any other, with `issues` saying where it differs. Network
+ * errors and aborts reject, as with fetch.
+ */
+export type ApiResult<T> =
+  | { success: true; data: T; headers: Headers }
+  | { success: false; status: number; error: string; issues: ValidationIssue[] };
+
+export interface AdvocatesClientOptions {
+  /** Origin of the API, e.g. "https://advocates.example.com"; same-origin when omitted */
+  baseUrl?: string;
+  /** Sent as `Authorization: Bearer <key>`; anonymous calls get the lower rate limit */
+  apiKey?: string;
+  fetch?: typeof fetch;
+}
+
+/** Adds the token that lets a patient see or cancel their own booking without an API key. */
+function withBookingToken(bookingToken: string | undefined, init: RequestInit = {}): RequestInit {
+  if (!bookingToken) return init;
+  const headers = new Headers(init.headers);
+  headers.set("X-Booking-Token", bookingToken);
+  return { ...init, headers };
+}
+
+function toQueryString(params: Record<string, unknown>): string {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([name, value]) => {
+    // Repeatable parameters are sent once per value
+    (Array.isArray(value) ? value : [value])
+      .filter((item) => item !== undefined && item !== null)
+      .forEach((item) => query.append(name, String(item)));
+  });
+  const serialized = query.toString();
+  return serialized ? `?${serialized}` : "";
+}
+
+/**
+ * A typed client for the advocates API, built on the contract that also
+ * generates /api/openapi.json. Shared by the site and external integrators.
+ *
+ * @example
+ * const api = createAdvocatesClient({ baseUrl: "https://advocates.example.com", apiKey });
+ * const result = await api.searchAdvocates({ city: ["Austin"], include: ["languages"] });
+ * if (result.success) console.log(result.data.total);
+ */
+export function createAdvocatesClient({ baseUrl = "", apiKey, fetch: send = fetch }: AdvocatesClientOptions = {}) {
+  async function call<S extends Shape, B, R>(
+    endpoint: Endpoint<S, B, R>,
+    // A string body is sent as the endpoint's other media type, e.g. an import's CSV
+    { id, query, body }: { id?: number; query: Infer<typeof endpoint.query>; body?: B | string },
+    init: RequestInit = {}
+  ): Promise<ApiResult<R>> {
+    const path = endpoint.path.replace("{id}", String(id));
+    const rawBody = typeof body === "string" && endpoint.bodyTypes !== undefined;
+    const headers = new Headers({
+      Accept: endpoint.fileTypes?.join(", ") ?? "application/json",
+      ...(body !== undefined && { "Content-Type": rawBody ? endpoint.bodyTypes![0] : "application/json" }),
+      ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+    });
+    new Headers(init.headers).forEach((value, name) => headers.set(name, value));
+
+    const response = await send(`${baseUrl}${API_BASE_PATH}${path}${toQueryString(query)}`, {
+      ...init,
+      method: endpoint.method,
+      headers,
+      body: body === undefined ? undefined : rawBody ? (body as string) : JSON.stringify(body),
+    });
+
+    // Files are returned as they are; there is no JSON to check
+    if (endpoint.fileTypes && response.ok) {
+      return { success: true, data: (await response.text()) as R, headers: response.headers };
+    }
+
+    const json: unknown = response.status === 204 ? undefined : await response.json().catch(() => null);
+    if (!response.ok) {
+      const parsed = parseWith(errorSchema, json);
+      return {
+        success: false,
+        status: response.status,
+        error: parsed.success ? parsed.data.error : `Request failed with status ${response.status}`,
+        issues: (parsed.success && parsed.data.issues) || [],
+      };
+    }
+
+    const parsed = parseWith(endpoint.response, json);
+    if (!parsed.success) {
+      return {
+        success: false,
+        status: response.status,
+        error: "Response does not match the API contract",
+        issues: parsed.issues,
+      };
+    }
+    return { success: true, data: parsed.data, headers: response.headers };
+  }
+
+  return {
+    /** GET /advocates; the search's id for recordSearchConnect is in the X-Search-Id header */
+    searchAdvocates: (params: AdvocateSearchParams = {}, init?: RequestInit) =>
+      call(advocatesApi.searchAdvocates, { query: params }, init),
+    getAdvocate: (id: number, params: AdvocateIncludeParams = {}, init?: RequestInit) =>
+      call(advocatesApi.getAdvocate, { id, query: params }, init),
+    suggestAdvocates: (params: AdvocateSuggestParams, init?: RequestInit) =>
+      call(advocatesApi.suggestAdvocates, { query: params }, init),
+    createAdvocate: (input: ApiAdvocateInput, init?: RequestInit) =>
+      call(advocatesApi.createAdvocate, { query: {}, body: input }, init),
+    updateAdvocate: (id: number, changes: ApiAdvocateChanges, init?: RequestInit) =>
+      call(advocatesApi.updateAdvocate, { id, query: {}, body: changes }, init),
+    deleteAdvocate: (id: number, init?: RequestInit) => call(advocatesApi.deleteAdvocate, { id, query: {} }, init),
+    matchAdvocates: (request: ApiMatchRequest, init?: RequestInit) =>
+      call(advocatesApi.matchAdvocates, { query: {}, body: request }, init),
+    /** GET /advocates/export; the file's text, in the format asked for (CSV by default) */
+    exportAdvocates: (params: AdvocateExportParams = {}, init?: RequestInit) =>
+      call(advocatesApi.exportAdvocates, { query: params }, init),
+    /** POST /advocates/import; a string roster is sent as CSV, an array as JSON */
+    importAdvocates: (roster: string | ApiAdvocateInput[], params: { dryRun?: boolean } = {}, init?: RequestInit) =>
+      call(advocatesApi.importAdvocates, { query: params, body: roster }, init),
+    recordSearchConnect: (searchId: number, advocateId: number, init?: RequestInit) =>
+      call(advocatesApi.recordSearchConnect, { id: searchId, query: {}, body: { advocateId } }, init),
+    /** POST /advocates/{id}/bookings; keep the returned `token` to view or cancel the booking later */
+    createBooking: (advocateId: number, request: ApiBookingRequest, init?: RequestInit) =>
+      call(advocatesApi.createBooking, { id: advocateId, query: {}, body: request }, init),
+    getBooking: (id: number, bookingToken?: string, init?: RequestInit) =>
+      call(advocatesApi.getBooking, { id, query: {} }, withBookingToken(bookingToken, init)),
+    updateBooking: (id: number, status: BookingStatus, bookingToken?: string, init?: RequestInit) =>
+      call(advocatesApi.updateBooking, { id, query: {}, body: { status } }, withBookingToken(bookingToken, init)),
+    listSavedSearches: (init?: RequestInit) => call(advocatesApi.listSavedSearches, { query: {} }, init),
+    createSavedSearch: (input: ApiSavedSearchInput, init?: RequestInit) =>
+      call(advocatesApi.createSavedSearch, { query: {}, body: input }, init),
+    getSavedSearch: (id: number, init?: RequestInit) => call(advocatesApi.getSavedSearch, { id, query: {} }, init),
+    updateSavedSearch: (id: number, changes: Partial<ApiSavedSearchInput>, init?: RequestInit) =>
+      call(advocatesApi.updateSavedSearch, { id, query: {}, body: changes }, init),
+    deleteSavedSearch: (id: number, init?: RequestInit) =>
+      call(advocatesApi.deleteSavedSearch, { id, query: {} }, init),
+    getSavedSearchResults: (id: number, params: SavedSearchResultsParams = {}, init?: RequestInit) =>
+      call(advocatesApi.getSavedSearchResults, { id, query: params }, init),
+  };
+}
+
+export type AdvocatesClient = ReturnType<typeof createAdvocatesClient>;
+
+/** Same-origin client used by the site's own pages. */
+export const advocatesClient = createAdvocatesClient();
@@ -0,0 +1,751 @@
+import { planTypes } from "../db/seed/plans";
+import { degrees, languageProficiencies } from "../db/seed/taxonomy";
+import { EXPORT_FORMATS, type ExportFormat } from "./advocateExport";
+import {
+  DEFAULT_LIMIT,
+  DEFAULT_RADIUS_MILES,
+  DEFAULT_SUGGESTION_LIMIT,
+  INCLUDES,
+  MAX_LIMIT,
+  MAX_PAGE,
+  MAX_PREFIX_LENGTH,
+  MAX_RADIUS_MILES,
+  MAX_SEARCH_LENGTH,
+  MAX_SUGGESTION_LIMIT,
+  MAX_VALUES_PER_FILTER,
+  MAX_YEARS_OF_EXPERIENCE,
+  SORT_FIELDS,
+} from "./advocateFilters";
+import { MAX_IMPORT_ROWS } from "./advocateImport";
+import { advocateInputShape, languageSchema } from "./advocateValidation";
+import { BOOKING_STATUSES } from "./availability";
+import { DEFAULT_MATCH_LIMIT, MAX_MATCH_LIMIT, MAX_MATCH_SPECIALTIES } from "./matchValidation";
+import {
+  anyOf,
+  array,
+  boolean,
+  dateTime,
+  extend,
+  integer,
+  literal,
+  named,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  partial,
+  string,
+  type Assert,
+  type Infer,
+  type Json,
+  type ObjectSchema,
+  type SameType,
+  type Schema,
+  type Shape,
+} from "./schema";
+import type { Advocate, AdvocateSearchResponse, AdvocateSuggestions } from "../types/advocate";
+import type { ApiScope } from "../types/apiAccess";
+import type { Booking, CreatedBooking } from "../types/booking";
+import type { ImportReport } from "../types/import";
+import type { AdvocateMatch, MatchWeights, PatientProfile, SpecialtyPriority } from "../types/match";
+import type { SavedSearch } from "../types/savedSearch";
+import type { SearchTokenKind } from "../types/searchQuery";
+
+/**
+ * Current version of the public API. Versioned paths are served by the
+ * unversioned handlers (see next.config.mjs); a breaking change ships under
+ * the next version while this one keeps working.
+ */
+export const API_VERSION = "v1";
+export const API_BASE_PATH = `/api/${API_VERSION}`;
+
+const SEARCH_TOKEN_KINDS: SearchTokenKind[] = [
+  "city",
+  "degree",
+  "specialty",
+  "language",
+  "experience",
+  "phrase",
+  "keyword",
+];
+
+const SPECIALTY_PRIORITIES: SpecialtyPriority[] = ["required", "high", "medium", "low"];
+
+const repeatable = <T extends string = string>(description: string, item: Schema<T> = string() as Schema<T>) =>
+  optional(array(item, { maxItems: MAX_VALUES_PER_FILTER, description }));
+
+// Response bodies
+
+const planSchema = named(
+  "Plan",
+  object({
+    id: integer(),
+    slug: string({ description: "Stable identifier used by the `plan` filter" }),
+    name: string(),
+    payer: string(),
+    type: oneOf(planTypes.map(({ type }) => type)),
+  })
+);
+
+const advocateSchema = named(
+  "Advocate",
+  object({
+    id: optional(integer()),
+    firstName: string(),
+    lastName: string(),
+    city: string(),
+    state: optional(string()),
+    zip: optional(string()),
+    latitude: optional(number()),
+    longitude: optional(number()),
+    degree: string(),
+    specialties: array(string()),
+    languages: optional(array(languageSchema, { description: "Only with `include=languages`" })),
+    plans: optional(array(planSchema, { description: "Only with `include=plans`" })),
+    yearsOfExperience: integer(),
+    phoneNumber: string({ description: 'E.164, e.g. "+15559873456"' }),
+    phoneExtension: optional(string()),
+    phoneDisplay: optional(string({ description: 'e.g. "(555) 987-3456 ext. 12"' })),
+    createdAt: optional(dateTime()),
+    updatedAt: optional(dateTime()),
+  })
+);
+
+const rankedAdvocateSchema = named(
+  "RankedAdvocate",
+  extend(advocateSchema, {
+    relevance: optional(number({ description: "Higher is more relevant; only for searches with keywords" })),
+    distanceMiles: optional(number({ description: "Only for proximity searches" })),
+  })
+);
+
+const facetCountSchema = object({ value: string(), count: integer() });
+
+const facetsSchema = object({
+  cities: array(facetCountSchema),
+  degrees: array(facetCountSchema),
+  specialties: array(facetCountSchema),
+  experience: array(
+    object({ key: string(), label: string(), minYears: integer(), maxYears: optional(integer()), count: integer() })
+  ),
+  languages: optional(array(facetCountSchema, { description: "Only with `include=languages`" })),
+});
+
+const nearSchema = object({ latitude: number(), longitude: number(), zip: optional(string()), radiusMiles: integer() });
+
+const filtersSchema = object({
+  search: optional(string()),
+  cities: array(string()),
+  degrees: array(string()),
+  specialties: array(string()),
+  specialtyMatch: oneOf(["any", "all"]),
+  languages: optional(array(string())),
+  proficiency: optional(oneOf(languageProficiencies)),
+  plans: optional(array(string(), { description: "Plan slugs" })),
+  minYears: optional(integer()),
+  maxYears: optional(integer()),
+  near: optional(nearSchema),
+});
+
+const interpretationSchema = object({
+  tokens: array(
+    object({
+      kind: oneOf(SEARCH_TOKEN_KINDS),
+      value: string(),
+      negated: boolean(),
+      text: string(),
+      minYears: optional(integer()),
+      maxYears: optional(integer()),
+    })
+  ),
+  keywords: string(),
+});
+
+const advocateSearchResponseSchema = named(
+  "AdvocateSearchResponse",
+  object({
+    data: array(rankedAdvocateSchema),
+    total: integer(),
+    totalIsApproximate: optional(literal(true)),
+    page: nullable(integer({ description: "Null in cursor mode" })),
+    limit: integer(),
+    totalPages: integer(),
+    nextCursor: nullable(string()),
+    filters: filtersSchema,
+    sort: object({ field: oneOf(SORT_FIELDS), order: oneOf(["asc", "desc"]) }),
+    facets: facetsSchema,
+    interpretation: nullable(interpretationSchema),
+  })
+);
+
+const advocateResponseSchema = named("AdvocateResponse", object({ data: advocateSchema }));
+
+const suggestionSchema = extend(facetCountSchema, {
+  advocateId: optional(integer({ description: "Set on a name held by exactly one advocate" })),
+});
+
+const advocateSuggestionsSchema = named(
+  "AdvocateSuggestions",
+  object({
+    query: string(),
+    names: array(suggestionSchema),
+    cities: array(suggestionSchema),
+    degrees: array(suggestionSchema),
+    specialties: array(suggestionSchema),
+  })
+);
+
+const issueSchema = object({ field: string(), message: string() });
+
+export const errorSchema = named(
+  "Error",
+  object({
+    error: string(),
+    issues: optional(array(issueSchema)),
+  })
+);
+
+const factorScoreSchema = object({
+  score: number({ description: "How well the advocate satisfies the factor, from 0 to 1" }),
+  weight: number({ description: "Normalized weight; 0 when the factor does not apply" }),
+  points: number({ description: "score × weight × 100" }),
+  reason: string(),
+});
+
+const advocateMatchSchema = named(
+  "AdvocateMatch",
+  object({
+    advocate: advocateSchema,
+    score: number({ description: "From 0 to 100" }),
+    breakdown: object({
+      specialties: factorScoreSchema,
+      location: factorScoreSchema,
+      experience: factorScoreSchema,
+      degree: factorScoreSchema,
+    }),
+    explanation: string(),
+  })
+);
+
+const matchWeightsSchema = object({
+  specialties: number(),
+  location: number(),
+  experience: number(),
+  degree: number(),
+});
+
+const matchResponseSchema = named(
+  "MatchResponse",
+  object({
+    data: array(advocateMatchSchema),
+    profile: object({
+      specialties: array(object({ name: string(), priority: oneOf(SPECIALTY_PRIORITIES) })),
+      location: optional(object({ city: optional(string()), near: optional(nearSchema) })),
+      minYears: optional(integer()),
+      degrees: array(string()),
+    }),
+    weights: matchWeightsSchema,
+  })
+);
+
+const importReportSchema = named(
+  "ImportReport",
+  object({
+    dryRun: boolean(),
+    summary: object({ total: integer(), inserted: integer(), updated: integer(), skipped: integer() }),
+    warnings: array(issueSchema, { description: "File-level warnings, e.g. ignored CSV columns" }),
+    rows: array(
+      object({
+        row: integer({ description: "Spreadsheet row for CSV (the header is row 1); position for JSON" }),
+        action: oneOf(["insert", "update", "skip"]),
+        id: optional(integer()),
+        errors: array(issueSchema),
+        warnings: array(issueSchema),
+      })
+    ),
+  })
+);
+
+const bookingSchema = named(
+  "Booking",
+  object({
+    id: integer(),
+    advocateId: integer(),
+    startsAt: dateTime(),
+    endsAt: dateTime(),
+    status: oneOf(BOOKING_STATUSES),
+    patientName: string(),
+    patientEmail: string(),
+    note: optional(string()),
+    createdAt: optional(dateTime()),
+    updatedAt: optional(dateTime()),
+  })
+);
+
+const bookingResponseSchema = named("BookingResponse", object({ data: bookingSchema }));
+
+const createdBookingSchema = named(
+  "CreatedBooking",
+  extend(bookingResponseSchema, {
+    token: string({ description: "Send as X-Booking-Token to view or cancel the booking; shown only once" }),
+  })
+);
+
+const savedSearchSchema = named(
+  "SavedSearch",
+  object({
+    id: integer(),
+    name: string(),
+    query: string({ description: 'Query string for GET /advocates, without paging, e.g. "search=trauma&city=Austin"' }),
+    createdAt: optional(dateTime()),
+    updatedAt: optional(dateTime()),
+    lastViewedAt: nullable(dateTime()),
+    newMatches: integer({ description: "Matching advocates added since the search was last viewed (or saved)" }),
+  })
+);
+
+const savedSearchListSchema = named("SavedSearchList", object({ data: array(savedSearchSchema) }));
+
+const savedSearchResponseSchema = named("SavedSearchResponse", object({ data: savedSearchSchema }));
+
+const savedSearchResultsSchema = named(
+  "SavedSearchResults",
+  extend(advocateSearchResponseSchema, {
+    savedSearch: savedSearchSchema,
+    newSince: dateTime({ description: "Advocates created after this are the new matches" }),
+  })
+);
+
+// A response type changed without its schema (or the reverse) fails type-checking here
+type PinnedToTypes = [
+  Assert<SameType<Infer<typeof advocateSearchResponseSchema>, Json<AdvocateSearchResponse>>>,
+  Assert<SameType<Infer<typeof advocateResponseSchema>, Json<{ data: Advocate }>>>,
+  Assert<SameType<Infer<typeof advocateSuggestionsSchema>, Json<AdvocateSuggestions>>>,
+  Assert<
+    SameType<
+      Infer<typeof matchResponseSchema>,
+      Json<{ data: AdvocateMatch[]; profile: PatientProfile; weights: MatchWeights }>
+    >
+  >,
+  Assert<SameType<Infer<typeof importReportSchema>, Json<ImportReport>>>,
+  Assert<SameType<Infer<typeof bookingResponseSchema>, Json<{ data: Booking }>>>,
+  Assert<SameType<Infer<typeof createdBookingSchema>, Json<CreatedBooking>>>,
+  Assert<SameType<Infer<typeof savedSearchListSchema>, Json<{ data: SavedSearch[] }>>>,
+  Assert<SameType<Infer<typeof savedSearchResponseSchema>, Json<{ data: SavedSearch }>>>,
+  Assert<
+    SameType<
+      Infer<typeof savedSearchResultsSchema>,
+      Json<AdvocateSearchResponse & { savedSearch: SavedSearch; newSince: Date }>
+    >
+  >,
+];
+
+// Request bodies. They describe the shape; routes also check what a schema
+// cannot, such as unknown specialty names or a slot that is still open.
+
+const advocateInputSchema = named("AdvocateInput", object(advocateInputShape));
+
+const advocateChangesSchema = named("AdvocateChanges", partial(advocateInputSchema));
+
+const matchRequestSchema = named(
+  "MatchRequest",
+  object({
+    specialties: optional(
+      array(
+        anyOf(string(), object({ name: string({ minLength: 1 }), priority: optional(oneOf(SPECIALTY_PRIORITIES)) }), {
+          description: 'A bare name is shorthand for priority "medium"; "required" excludes advocates without it',
+        }),
+        { maxItems: MAX_MATCH_SPECIALTIES }
+      )
+    ),
+    location: optional(
+      object({
+        city: optional(string({ minLength: 1 })),
+        near: optional(string({ description: '5-digit ZIP code or "lat,lng"' })),
+        radiusMiles: optional(integer({ minimum: 1, maximum: MAX_RADIUS_MILES, default: DEFAULT_RADIUS_MILES })),
+      })
+    ),
+    minYears: optional(integer({ minimum: 0 })),
+    degrees: optional(array(oneOf(degrees), { description: "Acceptable degrees, most preferred first" })),
+    weights: optional(partial(matchWeightsSchema, { description: "Relative importance of each factor" })),
+    limit: optional(integer({ minimum: 1, maximum: MAX_MATCH_LIMIT, default: DEFAULT_MATCH_LIMIT })),
+  })
+);
+
+const importRowsSchema = array(
+  object({}, { description: "An advocate with the fields of AdvocateInput; each row is validated on its own" }),
+  { minItems: 1, maxItems: MAX_IMPORT_ROWS }
+);
+
+const bookingRequestSchema = named(
+  "BookingRequest",
+  object({
+    startsAt: dateTime(),
+    patientName: string({ minLength: 1 }),
+    patientEmail: string({ format: "email" }),
+    note: optional(string()),
+  })
+);
+
+const savedSearchInputSchema = named(
+  "SavedSearchInput",
+  object({
+    name: string({ minLength: 1 }),
+    query: string({ description: 'Query string for GET /advocates, e.g. "search=trauma&city=Austin"' }),
+  })
+);
+
+// Query strings; repeatable parameters are arrays (`?city=Austin&city=Dallas`)
+
+const includeSchema = repeatable("Optional response parts", oneOf(INCLUDES));
+
+const advocateFilterParams = {
+  search: optional(
+    string({ maxLength: MAX_SEARCH_LENGTH, description: 'Free text; also understands filters such as "PhD in Chicago"' })
+  ),
+  city: repeatable("Exact city names"),
+  degree: repeatable("Exact degrees"),
+  specialty: repeatable("Exact specialty names"),
+  specialtyMatch: optional(oneOf(["any", "all"])),
+  language: repeatable("Speaks any of these languages (names ignore case)"),
+  proficiency: optional(oneOf(languageProficiencies)),
+  plan: repeatable("Accepts any of these plans (slug or name, ignoring case)"),
+  minYears: optional(integer({ minimum: 0, maximum: MAX_YEARS_OF_EXPERIENCE })),
+  maxYears: optional(integer({ minimum: 0, maximum: MAX_YEARS_OF_EXPERIENCE })),
+  near: optional(string({ description: '5-digit ZIP code or "lat,lng"' })),
+  radiusMiles: optional(integer({ minimum: 1, maximum: MAX_RADIUS_MILES, default: DEFAULT_RADIUS_MILES })),
+  sort: optional(oneOf(SORT_FIELDS)),
+  order: optional(oneOf(["asc", "desc"])),
+  include: includeSchema,
+};
+
+const pagingParams = {
+  page: optional(integer({ minimum: 1, maximum: MAX_PAGE, default: 1 })),
+  limit: optional(integer({ minimum: 1, maximum: MAX_LIMIT, default: DEFAULT_LIMIT })),
+  cursor: optional(string({ description: "`nextCursor` of a previous page" })),
+};
+
+const advocateSearchParamsSchema = object({
+  ...advocateFilterParams,
+  ...pagingParams,
+  count: optional(oneOf(["exact", "approximate"])),
+});
+
+const advocateSuggestParamsSchema = object({
+  q: string({ maxLength: MAX_PREFIX_LENGTH, description: "Text typed so far" }),
+  limit: optional(integer({ minimum: 1, maximum: MAX_SUGGESTION_LIMIT, default: DEFAULT_SUGGESTION_LIMIT })),
+});
+
+const advocateExportParamsSchema = object({
+  ...advocateFilterParams,
+  format: optional(oneOf(Object.keys(EXPORT_FORMATS) as ExportFormat[])),
+});
+
+const savedSearchResultsParamsSchema = object({
+  ...pagingParams,
+  markViewed: optional(boolean()),
+});
+
+export type AdvocateSearchParams = Infer<typeof advocateSearchParamsSchema>;
+export type AdvocateSuggestParams = Infer<typeof advocateSuggestParamsSchema>;
+export type AdvocateIncludeParams = { include?: Infer<typeof includeSchema> };
+export type AdvocateExportParams = Infer<typeof advocateExportParamsSchema>;
+export type SavedSearchResultsParams = Infer<typeof savedSearchResultsParamsSchema>;
+
+export type ApiAdvocate = Infer<typeof advocateSchema>;
+export type ApiAdvocateSearchResponse = Infer<typeof advocateSearchResponseSchema>;
+export type ApiAdvocateSuggestions = Infer<typeof advocateSuggestionsSchema>;
+
+export type ApiAdvocateInput = Infer<typeof advocateInputSchema>;
+export type ApiAdvocateChanges = Infer<typeof advocateChangesSchema>;
+export type ApiMatchRequest = Infer<typeof matchRequestSchema>;
+export type ApiBookingRequest = Infer<typeof bookingRequestSchema>;
+export type ApiSavedSearchInput = Infer<typeof savedSearchInputSchema>;
+
+/** The response of an operation that answers 204 No Content. */
+export const noContent: Schema<undefined> = {
+  json: {},
+  check: (value, path, issues): value is undefined => {
+    if (value === undefined) return true;
+    issues.push({ field: path, message: "expected no content" });
+    return false;
+  },
+};
+
+/** One operation of the API, as documented in the OpenAPI document and called by the client. */
+export interface Endpoint<S extends Shape, B, R> {
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  /** Below API_BASE_PATH, with `{id}` for the path parameter */
+  path: string;
+  summary: string;
+  /** Scope the caller's API key must hold; anonymous callers are allowed without one */
+  scope?: ApiScope;
+  query: ObjectSchema<S>;
+  body: Schema<B> | null;
+  /** Media types the body may be sent as besides JSON, which the route reads itself */
+  bodyTypes?: string[];
+  response: Schema<R>;
+  /** Media types of a response that is a file rather than JSON */
+  fileTypes?: string[];
+  /** Success status, when it is neither 200 nor the 204 of `noContent` */
+  status?: 201;
+  /** Error statuses beyond 400, 401, 429 and 500, which every operation can return */
+  errors: Record<number, string>;
+  /** Whether the response carries an ETag and honors If-None-Match */
+  conditional: boolean;
+  /** Request headers worth documenting, with their descriptions */
+  requestHeaders?: Record<string, string>;
+  /** Other response headers worth documenting, with their descriptions */
+  headers?: Record<string, string>;
+}
+
+const endpoint = <S extends Shape, B, R>(definition: Endpoint<S, B, R>) => definition;
+
+/** A file download, described by the endpoint's `fileTypes`. */
+const file = (description: string) => string({ description });
+
+const BOOKING_TOKEN = { "X-Booking-Token": "The token returned when the booking was made; not needed with a write key" };
+
+/** The advocates API: every operation the typed client and the OpenAPI document know about. */
+export const advocatesApi = {
+  searchAdvocates: endpoint({
+    method: "GET",
+    path: "/advocates",
+    summary: "Search advocates with filters, facets and pagination",
+    query: advocateSearchParamsSchema,
+    body: null,
+    response: advocateSearchResponseSchema,
+    errors: {},
+    conditional: true,
+    headers: { "X-Search-Id": "This search in the search log, for recordSearchConnect" },
+  }),
+  getAdvocate: endpoint({
+    method: "GET",
+    path: "/advocates/{id}",
+    summary: "Get one advocate",
+    query: object({ include: includeSchema }),
+    body: null,
+    response: advocateResponseSchema,
+    errors: { 404: "Advocate not found" },
+    conditional: true,
+  }),
+  suggestAdvocates: endpoint({
+    method: "GET",
+    path: "/advocates/suggest",
+    summary: "Typeahead completions for the search box",
+    query: advocateSuggestParamsSchema,
+    body: null,
+    response: advocateSuggestionsSchema,
+    errors: {},
+    conditional: false,
+  }),
+  createAdvocate: endpoint({
+    method: "POST",
+    path: "/advocates",
+    summary: "Add an advocate",
+    scope: "write",
+    query: object({}),
+    body: advocateInputSchema,
+    response: advocateResponseSchema,
+    status: 201,
+    errors: { 409: "An advocate with this name and phone number already exists" },
+    conditional: false,
+  }),
+  updateAdvocate: endpoint({
+    method: "PATCH",
+    path: "/advocates/{id}",
+    summary: "Change some of an advocate's fields",
+    scope: "write",
+    query: object({}),
+    body: advocateChangesSchema,
+    response: advocateResponseSchema,
+    errors: { 404: "Advocate not found", 409: "Another advocate has this name and phone number" },
+    conditional: false,
+  }),
+  deleteAdvocate: endpoint({
+    method: "DELETE",
+    path: "/advocates/{id}",
+    summary: "Deactivate an advocate; they disappear from every read",
+    scope: "write",
+    query: object({}),
+    body: null,
+    response: noContent,
+    errors: { 404: "Advocate not found" },
+    conditional: false,
+  }),
+  matchAdvocates: endpoint({
+    method: "POST",
+    path: "/advocates/match",
+    summary: "Recommend the advocates who best fit a patient's needs, with the reasons",
+    query: object({}),
+    body: matchRequestSchema,
+    response: matchResponseSchema,
+    errors: {},
+    conditional: false,
+  }),
+  exportAdvocates: endpoint({
+    method: "GET",
+    path: "/advocates/export",
+    summary: "Download every advocate matching a search as CSV, NDJSON or vCard",
+    scope: "read",
+    query: advocateExportParamsSchema,
+    body: null,
+    response: file("One advocate per row, line or card"),
+    fileTypes: Object.values(EXPORT_FORMATS).map(({ contentType }) => contentType.split(";")[0]),
+    errors: {},
+    conditional: false,
+  }),
+  importAdvocates: endpoint({
+    method: "POST",
+    path: "/advocates/import",
+    summary: "Add or update advocates from a CSV or JSON roster, reporting on every row",
+    scope: "write",
+    query: object({ dryRun: optional(boolean({ description: "Validate and report without writing" })) }),
+    body: importRowsSchema,
+    bodyTypes: ["text/csv"],
+    response: importReportSchema,
+    errors: { 415: "Content-Type must be text/csv or application/json" },
+    conditional: false,
+  }),
+  recordSearchConnect: endpoint({
+    method: "POST",
+    path: "/analytics/searches/{id}/connects",
+    summary: 'Record a click on "Connect" in a search\'s results (the id is the X-Search-Id of the search)',
+    query: object({}),
+    body: object({ advocateId: integer({ minimum: 1 }) }),
+    response: noContent,
+    errors: { 404: "Search or advocate not found" },
+    conditional: false,
+  }),
+  createBooking: endpoint({
+    method: "POST",
+    path: "/advocates/{id}/bookings",
+    summary: "Request one of an advocate's open slots",
+    query: object({}),
+    body: bookingRequestSchema,
+    response: createdBookingSchema,
+    status: 201,
+    errors: { 404: "Advocate not found", 409: "The slot has already been booked" },
+    conditional: false,
+  }),
+  getBooking: endpoint({
+    method: "GET",
+    path: "/bookings/{id}",
+    summary: "Get a booking, with a write key or the booking's token",
+    query: object({}),
+    body: null,
+    response: bookingResponseSchema,
+    errors: { 403: "The API key lacks the write scope", 404: "Booking not found" },
+    conditional: false,
+    requestHeaders: BOOKING_TOKEN,
+  }),
+  updateBooking: endpoint({
+    method: "PATCH",
+    path: "/bookings/{id}",
+    summary: "Confirm or cancel a booking; the booking's token can only cancel it",
+    query: object({}),
+    body: object({ status: oneOf(BOOKING_STATUSES) }),
+    response: bookingResponseSchema,
+    errors: {
+      403: "The API key lacks the write scope, or a booking token tried more than cancelling",
+      404: "Booking not found",
+      409: "The booking cannot change to this status, or changed meanwhile",
+    },
+    conditional: false,
+    requestHeaders: BOOKING_TOKEN,
+  }),
+  listSavedSearches: endpoint({
+    method: "GET",
+    path: "/saved-searches",
+    summary: "List the key's saved searches, each with its count of new matches",
+    scope: "read",
+    query: object({}),
+    body: null,
+    response: savedSearchListSchema,
+    errors: {},
+    conditional: false,
+  }),
+  createSavedSearch: endpoint({
+    method: "POST",
+    path: "/saved-searches",
+    summary: "Save a search under a name",
+    scope: "write",
+    query: object({}),
+    body: savedSearchInputSchema,
+    response: savedSearchResponseSchema,
+    status: 201,
+    errors: { 409: "The key already has a saved search with this name" },
+    conditional: false,
+  }),
+  getSavedSearch: endpoint({
+    method: "GET",
+    path: "/saved-searches/{id}",
+    summary: "Get one of the key's saved searches",
+    scope: "read",
+    query: object({}),
+    body: null,
+    response: savedSearchResponseSchema,
+    errors: { 404: "Saved search not found" },
+    conditional: false,
+  }),
+  updateSavedSearch: endpoint({
+    method: "PATCH",
+    path: "/saved-searches/{id}",
+    summary: "Rename a saved search or replace its query",
+    scope: "write",
+    query: object({}),
+    body: partial(savedSearchInputSchema),
+    response: savedSearchResponseSchema,
+    errors: { 404: "Saved search not found", 409: "The key already has a saved search with this name" },
+    conditional: false,
+  }),
+  deleteSavedSearch: endpoint({
+    method: "DELETE",
+    path: "/saved-searches/{id}",
+    summary: "Delete a saved search",
+    scope: "write",
+    query: object({}),
+    body: null,
+    response: noContent,
+    errors: { 404: "Saved search not found" },
+    conditional: false,
+  }),
+  getSavedSearchResults: endpoint({
+    method: "GET",
+    path: "/saved-searches/{id}/results",
+    summary: "Re-run a saved search; its first page marks it viewed unless markViewed says otherwise",
+    scope: "read",
+    query: savedSearchResultsParamsSchema,
+    body: null,
+    response: savedSearchResultsSchema,
+    errors: { 404: "Saved search not found" },
+    conditional: false,
+  }),
+};
+
+/** Schemas listed under `components.schemas`, referred to by name elsewhere. */
+export const namedSchemas = [
+  planSchema,
+  advocateSchema,
+  rankedAdvocateSchema,
+  advocateSearchResponseSchema,
+  advocateResponseSchema,
+  advocateSuggestionsSchema,
+  advocateInputSchema,
+  advocateChangesSchema,
+  matchRequestSchema,
+  advocateMatchSchema,
+  matchResponseSchema,
+  importReportSchema,
+  bookingRequestSchema,
+  bookingSchema,
+  bookingResponseSchema,
+  createdBookingSchema,
+  savedSearchInputSchema,
+  savedSearchSchema,
+  savedSearchListSchema,
+  savedSearchResponseSchema,
+  savedSearchResultsSchema,
+  errorSchema,
+];
@@ -0,0 +1,148 @@
+import type { AvailabilityWindow, BookingStatus, Slot } from "../types/booking";
+
+export const BOOKING_STATUSES: BookingStatus[] = ["requested", "confirmed", "cancelled"];
+
+// Status changes a booking may go through; cancelled is final
+const TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  requested: ["confirmed", "cancelled"],
+  confirmed: ["cancelled"],
+  cancelled: [],
+};
+
+export const canTransition = (from: BookingStatus, to: BookingStatus): boolean =>
+  TRANSITIONS[from].includes(to);
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** Returns true when `timezone` is an IANA zone the runtime knows. */
+export function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Converts "HH:MM" to minutes after midnight. */
+export const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map((part) => parseInt(part, 10));
+  return hours * 60 + minutes;
+};
+
+/**
+ * Reads the wall-clock date and time of an instant in a time zone.
+ * Intl is the only zone database available without extra dependencies.
+ */
+function wallClock(instant: Date, timezone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(instant);
+  const get = (type: string) => parseInt(parts.find((part) => part.type === type)?.value ?? "0", 10);
+
+  const year = get("year");
+  const month = get("month");
+  const day = get("day");
+  return {
+    year,
+    month,
+    day,
+    dayOfWeek: new Date(Date.UTC(year, month - 1, day)).getUTCDay(),
+    minutes: get("hour") * 60 + get("minute"),
+  };
+}
+
+/**
+ * Converts a wall-clock time on a calendar date in `timezone` to a UTC instant.
+ * The zone offset is measured at a first guess and re-measured at the result,
+ * which settles correctly on either side of a DST change.
+ */
+function zonedTimeToUtc(year: number, month: number, day: number, minutes: number, timezone: string): Date {
+  const asUtc = Date.UTC(year, month - 1, day, 0, minutes);
+  const offsetAt = (instant: number) => {
+    const local = wallClock(new Date(instant), timezone);
+    return Date.UTC(local.year, local.month - 1, local.day, 0, local.minutes) - instant;
+  };
+
+  const guess = asUtc - offsetAt(asUtc);
+  return new Date(asUtc - offsetAt(guess));
+}
+
+/**
+ * Expands weekly windows into concrete slots in [from, from + days), dropping
+ * slots that start before `now`. Slots are sorted by start time and
+ * de-duplicated when windows overlap.
+ *
+ * @example
+ * generateSlots(windows, { from: new Date("2024-05-06"), days: 7 });
+ */
+export function generateSlots(
+  windows: AvailabilityWindow[],
+  { from, days, now = new Date() }: { from: Date; days: number; now?: Date }
+): Slot[] {
+  const to = from.getTime() + days * DAY_MS;
+  const earliest = Math.max(from.getTime(), now.getTime());
+  const starts = new Map<number, number>();
+
+  for (const window of windows) {
+    const start = toMinutes(window.startTime);
+    const end = toMinutes(window.endTime);
+    // Walk local calendar days; one extra day covers zones ahead of UTC
+    const first = wallClock(from, window.timezone);
+    for (let offset = 0; offset <= days; offset++) {
+      const date = new Date(Date.UTC(first.year, first.month - 1, first.day + offset));
+      if (date.getUTCDay() !== window.dayOfWeek) continue;
+
+      for (let minutes = start; minutes + window.slotMinutes <= end; minutes += window.slotMinutes) {
+        const slotStart = zonedTimeToUtc(
+          date.getUTCFullYear(),
+          date.getUTCMonth() + 1,
+          date.getUTCDate(),
+          minutes,
+          window.timezone
+        ).getTime();
+        if (slotStart >= earliest && slotStart < to) {
+          starts.set(slotStart, slotStart + window.slotMinutes * MINUTE_MS);
+        }
+      }
+    }
+  }
+
+  return Array.from(starts.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([start, end]) => ({ startsAt: new Date(start).toISOString(), endsAt: new Date(end).toISOString() }));
+}
+
+/**
+ * Finds the slot that starts exactly at `startsAt` in one of the windows.
+ * Returns null when the time is not on a slot boundary of any window, so
+ * patients can only request times the advocate actually offers.
+ */
+export function findSlot(windows: AvailabilityWindow[], startsAt: Date): Slot | null {
+  for (const window of windows) {
+    const local = wallClock(startsAt, window.timezone);
+    const start = toMinutes(window.startTime);
+    const end = toMinutes(window.endTime);
+    if (
+      local.dayOfWeek === window.dayOfWeek &&
+      local.minutes >= start &&
+      local.minutes + window.slotMinutes <= end &&
+      (local.minutes - start) % window.slotMinutes === 0 &&
+      startsAt.getUTCSeconds() === 0 &&
+      startsAt.getUTCMilliseconds() === 0
+    ) {
+      return {
+        startsAt: startsAt.toISOString(),
+        endsAt: new Date(startsAt.getTime() + window.slotMinutes * MINUTE_MS).toISOString(),
+      };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,159 @@
+import { BOOKING_STATUSES, isValidTimeZone, toMinutes } from "./availability";
+import type { ParseResult, ValidationIssue } from "./advocateFilters";
+import type { AvailabilityInput, BookingRequest, BookingStatus } from "../types/booking";
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+// Deliberately loose: the advocate confirms by email, which is the real check
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_WINDOWS = 50;
+const MAX_NAME_LENGTH = 100;
+const MAX_NOTE_LENGTH = 1000;
+export const DEFAULT_SLOT_MINUTES = 30;
+
+const isObject = (body: unknown): body is Record<string, unknown> =>
+  typeof body === "object" && body !== null && !Array.isArray(body);
+
+const notAnObject = { success: false as const, issues: [{ field: "body", message: "Request body must be a JSON object" }] };
+
+/** Records an issue for every field not in `allowed`, so typos are not silently ignored. */
+function rejectUnknownFields(input: Record<string, unknown>, allowed: string[], issues: ValidationIssue[]) {
+  for (const field of Object.keys(input)) {
+    if (!allowed.includes(field)) issues.push({ field, message: `Unknown field ${field}` });
+  }
+}
+
+/**
+ * Validates a weekly schedule for PUT /api/advocates/[id]/availability.
+ * Windows on the same day must not overlap; an empty list clears the schedule.
+ *
+ * @example
+ * parseAvailabilityInput({
+ *   timezone: "America/Chicago",
+ *   windows: [{ dayOfWeek: 1, startTime: "09:00", endTime: "17:00" }],
+ * });
+ */
+export function parseAvailabilityInput(body: unknown): ParseResult<AvailabilityInput> {
+  if (!isObject(body)) return notAnObject;
+
+  const issues: ValidationIssue[] = [];
+  rejectUnknownFields(body, ["timezone", "slotMinutes", "windows"], issues);
+
+  const { timezone, slotMinutes = DEFAULT_SLOT_MINUTES, windows } = body;
+  if (typeof timezone !== "string" || !isValidTimeZone(timezone)) {
+    issues.push({ field: "timezone", message: 'timezone must be an IANA time zone such as "America/Chicago"' });
+  }
+  if (typeof slotMinutes !== "number" || !Number.isInteger(slotMinutes) || slotMinutes < 15 || slotMinutes > 240) {
+    issues.push({ field: "slotMinutes", message: "slotMinutes must be a whole number between 15 and 240" });
+  }
+  if (!Array.isArray(windows)) {
+    issues.push({ field: "windows", message: "windows must be an array" });
+  } else if (windows.length > MAX_WINDOWS) {
+    issues.push({ field: "windows", message: `At most ${MAX_WINDOWS} windows are allowed` });
+  }
+
+  const parsed: AvailabilityInput["windows"] = [];
+  if (Array.isArray(windows) && windows.length <= MAX_WINDOWS) {
+    windows.forEach((window: unknown, index) => {
+      const field = `windows[${index}]`;
+      if (
+        !isObject(window) ||
+        typeof window.dayOfWeek !== "number" ||
+        !Number.isInteger(window.dayOfWeek) ||
+        window.dayOfWeek < 0 ||
+        window.dayOfWeek > 6
+      ) {
+        issues.push({ field, message: "dayOfWeek must be a whole number from 0 (Sunday) to 6 (Saturday)" });
+        return;
+      }
+      const { dayOfWeek, startTime, endTime } = window;
+      if (typeof startTime !== "string" || !TIME_PATTERN.test(startTime) || typeof endTime !== "string" || !TIME_PATTERN.test(endTime)) {
+        issues.push({ field, message: 'startTime and endTime must be "HH:MM" (24-hour)' });
+        return;
+      }
+      if (toMinutes(endTime) <= toMinutes(startTime)) {
+        issues.push({ field, message: "endTime must be after startTime" });
+        return;
+      }
+      const overlapping = parsed.find(
+        (other) =>
+          other.dayOfWeek === dayOfWeek &&
+          toMinutes(other.startTime) < toMinutes(endTime) &&
+          toMinutes(startTime) < toMinutes(other.endTime)
+      );
+      if (overlapping) {
+        issues.push({ field, message: "windows on the same day must not overlap" });
+        return;
+      }
+      parsed.push({ dayOfWeek, startTime, endTime });
+    });
+  }
+
+  if (issues.length > 0) {
+    return { success: false, issues };
+  }
+
+  return {
+    success: true,
+    data: { timezone: timezone as string, slotMinutes: slotMinutes as number, windows: parsed },
+  };
+}
+
+/**
+ * Validates a patient's booking request. `startsAt` must be an ISO 8601
+ * timestamp with an explicit offset, so the instant is unambiguous; whether it
+ * is an open slot is checked against the advocate's schedule by the route.
+ */
+export function parseBookingRequest(body: unknown): ParseResult<BookingRequest> {
+  if (!isObject(body)) return notAnObject;
+
+  const issues: ValidationIssue[] = [];
+  rejectUnknownFields(body, ["startsAt", "patientName", "patientEmail", "note"], issues);
+
+  const { startsAt, patientName, patientEmail, note } = body;
+  const start =
+    typeof startsAt === "string" && /(Z|[+-]\d{2}:\d{2})$/.test(startsAt) ? new Date(startsAt) : null;
+  if (!start || Number.isNaN(start.getTime())) {
+    issues.push({ field: "startsAt", message: "startsAt must be an ISO 8601 timestamp with a time zone offset" });
+  }
+  if (typeof patientName !== "string" || patientName.trim().length === 0 || patientName.trim().length > MAX_NAME_LENGTH) {
+    issues.push({ field: "patientName", message: `patientName must be a non-empty string of at most ${MAX_NAME_LENGTH} characters` });
+  }
+  if (typeof patientEmail !== "string" || !EMAIL_PATTERN.test(patientEmail.trim())) {
+    issues.push({ field: "patientEmail", message: "patientEmail must be an email address" });
+  }
+  if (note !== undefined && (typeof note !== "string" || note.length > MAX_NOTE_LENGTH)) {
+    issues.push({ field: "note", message: `note must be a string of at most ${MAX_NOTE_LENGTH} characters` });
+  }
+
+  if (issues.length > 0) {
+    return { success: false, issues };
+  }
+
+  const trimmedNote = typeof note === "string" ? note.trim() : "";
+  return {
+    success: true,
+    data: {
+      startsAt: start as Date,
+      patientName: (patientName as string).trim(),
+      patientEmail: (patientEmail as string).trim().toLowerCase(),
+      ...(trimmedNote && { note: trimmedNote }),
+    },
+  };
+}
+
+/** Validates `{ status }` for PATCH /api/bookings/[id]. */
+export function parseBookingStatus(body: unknown): ParseResult<BookingStatus> {
+  if (!isObject(body)) return notAnObject;
+
+  const issues: ValidationIssue[] = [];
+  rejectUnknownFields(body, ["status"], issues);
+  if (!BOOKING_STATUSES.includes(body.status as BookingStatus)) {
+    issues.push({ field: "status", message: `status must be one of ${BOOKING_STATUSES.join(", ")}` });
+  }
+
+  if (issues.length > 0) {
+    return { success: false, issues };
+  }
+
+  return { success: true, data: body.status as BookingStatus };
+}
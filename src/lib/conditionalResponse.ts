@@ -0,0 +1,30 @@
+import { createHash } from "crypto";
+
+// Clients may keep responses but must revalidate them, which is cheap with the ETag
+const CACHE_CONTROL = "no-cache";
+
+/** Whether an If-None-Match header names this ETag (weak comparison, as RFC 9110 asks for GET). */
+function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  if (ifNoneMatch.trim() === "*") return true;
+  return ifNoneMatch.split(",").some((candidate) => candidate.trim().replace(/^W\//, "") === etag);
+}
+
+/**
+ * Responds with JSON that clients can revalidate: the ETag is a hash of the
+ * body, so it changes exactly when the response would. When the request's
+ * If-None-Match names it, the body is left out with 304 Not Modified.
+ *
+ * @example
+ * return conditionalJson(request, { data: advocate });
+ */
+export function conditionalJson(request: Request, data: unknown, headers: Record<string, string> = {}): Response {
+  const body = JSON.stringify(data);
+  const etag = `"${createHash("sha1").update(body).digest("base64url")}"`;
+  const cacheHeaders = { ...headers, ETag: etag, "Cache-Control": CACHE_CONTROL };
+
+  if (matchesETag(request.headers.get("if-none-match"), etag)) {
+    return new Response(null, { status: 304, headers: cacheHeaders });
+  }
+  return new Response(body, { headers: { ...cacheHeaders, "Content-Type": "application/json" } });
+}
@@ -0,0 +1,78 @@
+import { resolveAdvocateQuery, type AdvocateQuery, type ParseResult } from "./advocateFilters";
+import { advocatesApi, type Endpoint } from "./apiContract";
+import { parseQuery, parseWith, type Infer, type ObjectSchema, type Shape } from "./schema";
+
+type AnyEndpoint = Endpoint<Shape, unknown, unknown>;
+
+const isJson = (headers: Headers) => headers.get("content-type")?.includes("application/json") === true;
+
+/**
+ * Checks a request's query string and JSON body against the endpoint's
+ * contract, returning the 400 to send or null when the request fits. Routes
+ * still parse what they read, for the rules a schema cannot express (known
+ * specialties, open slots, ...).
+ */
+export async function checkRequest(endpoint: AnyEndpoint, request: Request): Promise<Response | null> {
+  const query = parseQuery(endpoint.query, new URL(request.url).searchParams);
+  if (!query.success) {
+    return Response.json({ error: "Invalid query parameters", issues: query.issues }, { status: 400 });
+  }
+
+  // Other media types (an import's CSV) are read and checked by the route
+  if (!endpoint.body || (endpoint.bodyTypes && !isJson(request.headers))) return null;
+
+  let body: unknown;
+  try {
+    body = await request.clone().json();
+  } catch {
+    return Response.json({ error: "Request body must be valid JSON" }, { status: 400 });
+  }
+
+  const parsed = parseWith(endpoint.body, body);
+  if (!parsed.success) {
+    const issues = parsed.issues.map((issue) => ({ ...issue, field: issue.field || "body" }));
+    return Response.json({ error: "Invalid request body", issues }, { status: 400 });
+  }
+  return null;
+}
+
+/**
+ * Logs a successful JSON response that breaks the endpoint's contract, so a
+ * route drifting from the documented shape shows up in development and tests
+ * rather than in a client. Skipped in production, where it would only cost time.
+ */
+export async function checkResponse(endpoint: AnyEndpoint, response: Response): Promise<void> {
+  if (process.env.NODE_ENV === "production" || !response.ok || !isJson(response.headers)) return;
+
+  const parsed = parseWith(endpoint.response, await response.clone().json());
+  if (!parsed.success) {
+    console.error(`Response of ${endpoint.method} ${endpoint.path} breaks the API contract:`, parsed.issues);
+  }
+}
+
+/**
+ * The request's query string, typed by the endpoint's schema. For handlers
+ * behind `withApiAccess` with this endpoint, which has already rejected any
+ * query that does not match.
+ */
+export function readQuery<S extends Shape>(
+  endpoint: { query: ObjectSchema<S> },
+  request: Request
+): Infer<ObjectSchema<S>> {
+  const parsed = parseQuery(endpoint.query, new URL(request.url).searchParams);
+  if (!parsed.success) throw new Error("readQuery needs a route whose withApiAccess checks this endpoint");
+  return parsed.data;
+}
+
+/**
+ * Parses a GET /api/advocates query string that did not come through the
+ * route: the search page's URL or a saved search. Checks it against the
+ * contract, then resolves it like the route does.
+ *
+ * @example
+ * const parsed = parseAdvocateQuery(new URLSearchParams("city=Austin&sort=city"));
+ */
+export function parseAdvocateQuery(params: URLSearchParams): ParseResult<AdvocateQuery> {
+  const query = parseQuery(advocatesApi.searchAdvocates.query, params);
+  return query.success ? resolveAdvocateQuery(query.data) : query;
+}
@@ -0,0 +1,56 @@
+/**
+ * Parses RFC 4180 CSV text into rows of cells. Handles quoted cells with
+ * commas, doubled quotes and line breaks, CRLF or LF line endings and a
+ * leading byte-order mark. Blank lines come back as `[""]` so row numbers
+ * keep matching the spreadsheet.
+ *
+ * @example
+ * parseCsv('name,note\n"Smith, Jo","said ""hi"""\n');
+ * // [["name", "note"], ["Smith, Jo", 'said "hi"']]
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  // The last line may not end with a newline
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
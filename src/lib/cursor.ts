@@ -0,0 +1,70 @@
+import type { AdvocateSortField, SortOrder } from "../types/advocate";
+
+/**
+ * Position of the last row on a keyset page.
+ * `value` is the sort key rendered as text by Postgres (so timestamps keep
+ * microsecond precision), or null when sorting by id alone.
+ */
+export interface AdvocateCursor {
+  field: AdvocateSortField;
+  order: SortOrder;
+  value: string | null;
+  id: number;
+}
+
+/**
+ * Encodes a cursor as an opaque base64url token.
+ * Clients must pass it back unchanged via `?cursor=`.
+ */
+export function encodeCursor(cursor: AdvocateCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+/**
+ * Decodes a cursor token, returning null if it is malformed.
+ */
+export function decodeCursor(token: string): AdvocateCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+    if (
+      typeof parsed !== "object" ||
+      parsed === null ||
+      typeof parsed.field !== "string" ||
+      (parsed.order !== "asc" && parsed.order !== "desc") ||
+      (parsed.value !== null && typeof parsed.value !== "string") ||
+      !Number.isInteger(parsed.id)
+    ) {
+      return null;
+    }
+    return parsed as AdvocateCursor;
+  } catch {
+    return null;
+  }
+}
+
+// Largest value of a Postgres integer, the type of every id and of years
+export const MAX_INTEGER = 2147483647;
+
+/**
+ * Checks that a decoded cursor's sort key and id can be cast back to the
+ * sort column's type, so a tampered token is a 400 rather than a failed query.
+ */
+export function isValidCursorPosition({ field, value, id }: AdvocateCursor): boolean {
+  if (id < 0 || id > MAX_INTEGER) return false;
+  if (value === null) return true;
+
+  switch (field) {
+    case "lastName":
+    case "city":
+      return true;
+    case "yearsOfExperience":
+      return /^-?\d{1,10}$/.test(value) && Math.abs(Number(value)) <= MAX_INTEGER;
+    case "createdAt":
+      return /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d{1,6})?$/.test(value) && !Number.isNaN(Date.parse(value.replace(" ", "T")));
+    case "relevance":
+    case "distance":
+      return value.trim() !== "" && Number.isFinite(Number(value));
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,101 @@
+import { gazetteer } from "../db/seed/gazetteer";
+
+export const EARTH_RADIUS_MILES = 3958.8;
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface AdvocateLocation {
+  state: string | null;
+  zip: string | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+const ZIP_PATTERN = /^\d{5}$/;
+const LAT_LNG_PATTERN = /^(-?\d{1,2}(?:\.\d+)?),\s*(-?\d{1,3}(?:\.\d+)?)$/;
+
+/** Looks up a city (case-insensitive) in the bundled gazetteer. */
+export const findCity = (city: string) =>
+  gazetteer.find((entry) => entry.city.toLowerCase() === city.trim().toLowerCase());
+
+/**
+ * Looks up a ZIP code in the bundled gazetteer.
+ */
+export function findZip(zip: string): (GeoPoint & { zip: string; city: string; state: string }) | undefined {
+  for (const entry of gazetteer) {
+    const match = entry.zips.find((candidate) => candidate.zip === zip);
+    if (match) return { ...match, city: entry.city, state: entry.state };
+  }
+  return undefined;
+}
+
+/**
+ * Derives an advocate's stored location from their city and optional ZIP.
+ * A known ZIP in the same city gives the most precise point; otherwise the
+ * city centroid is used. Cities outside the gazetteer get no coordinates and are simply
+ * excluded from proximity searches.
+ */
+export function resolveLocation(city: string, zip?: string | null): AdvocateLocation {
+  const zipMatch = zip ? findZip(zip) : undefined;
+  if (zipMatch && zipMatch.city.toLowerCase() === city.trim().toLowerCase()) {
+    return {
+      state: zipMatch.state,
+      zip: zipMatch.zip,
+      latitude: zipMatch.latitude,
+      longitude: zipMatch.longitude,
+    };
+  }
+
+  const cityMatch = findCity(city);
+  return {
+    state: cityMatch?.state ?? null,
+    zip: zip ?? null,
+    latitude: cityMatch?.latitude ?? null,
+    longitude: cityMatch?.longitude ?? null,
+  };
+}
+
+/**
+ * Parses a `near` value: a 5-digit ZIP from the gazetteer or "lat,lng".
+ * Returns null when the value is neither.
+ *
+ * @example
+ * parseNear("78701");          // { latitude: 30.2711, longitude: -97.7437, zip: "78701" }
+ * parseNear("30.27,-97.74");   // { latitude: 30.27, longitude: -97.74 }
+ */
+export function parseNear(value: string): (GeoPoint & { zip?: string }) | null {
+  const trimmed = value.trim();
+
+  if (ZIP_PATTERN.test(trimmed)) {
+    const match = findZip(trimmed);
+    return match ? { latitude: match.latitude, longitude: match.longitude, zip: match.zip } : null;
+  }
+
+  const coordinates = trimmed.match(LAT_LNG_PATTERN);
+  if (coordinates) {
+    const latitude = parseFloat(coordinates[1]);
+    const longitude = parseFloat(coordinates[2]);
+    if (Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180) {
+      return { latitude, longitude };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Great-circle (haversine) distance between two points in miles.
+ * Mirrors the SQL used for proximity search (see buildDistance).
+ */
+export function distanceMiles(from: GeoPoint, to: GeoPoint): number {
+  const radians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = radians(to.latitude - from.latitude);
+  const dLng = radians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(radians(from.latitude)) * Math.cos(radians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return EARTH_RADIUS_MILES * 2 * Math.asin(Math.sqrt(a));
+}
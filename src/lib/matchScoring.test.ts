@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_MATCH_WEIGHTS, rankAdvocates, scoreAdvocate } from "./matchScoring";
+import type { Advocate } from "../types/advocate";
+import type { PatientProfile } from "../types/match";
+
+// Downtown Austin; Dallas is about 180 miles away
+const AUSTIN = { latitude: 30.2672, longitude: -97.7431 };
+const DALLAS = { latitude: 32.7767, longitude: -96.797 };
+
+const advocate = (overrides: Partial<Advocate> = {}): Advocate => ({
+  id: 1,
+  firstName: "Ana",
+  lastName: "Ruiz",
+  city: "Austin",
+  state: "TX",
+  ...AUSTIN,
+  degree: "MD",
+  specialties: ["Bipolar", "LGBTQ"],
+  yearsOfExperience: 10,
+  phoneNumber: "+15125550100",
+  ...overrides,
+});
+
+const profile = (overrides: Partial<PatientProfile> = {}): PatientProfile => ({
+  specialties: [],
+  degrees: [],
+  ...overrides,
+});
+
+describe("scoreAdvocate", () => {
+  it("weighs specialties by priority", () => {
+    const match = scoreAdvocate(
+      advocate(),
+      profile({
+        specialties: [
+          { name: "bipolar", priority: "high" },
+          { name: "Chronic pain", priority: "low" },
+        ],
+      })
+    );
+
+    // 3 of 4 priority points, and specialties is the only factor that applies
+    expect(match.breakdown.specialties).toMatchObject({ score: 0.75, weight: 1, points: 75 });
+    expect(match.breakdown.specialties.reason).toBe(
+      "Covers 1 of 2 needed specialties (bipolar); missing Chronic pain"
+    );
+    expect(match.score).toBe(75);
+  });
+
+  it("renormalizes the weights over the factors that apply", () => {
+    const match = scoreAdvocate(
+      advocate({ yearsOfExperience: 5 }),
+      profile({ specialties: [{ name: "LGBTQ", priority: "medium" }], minYears: 10 })
+    );
+
+    // Specialties 0.5 and experience 0.15 of the default weights, out of 0.65
+    expect(match.breakdown.specialties.weight).toBeCloseTo(0.769, 3);
+    expect(match.breakdown.experience).toMatchObject({ score: 0.5, weight: 0.231 });
+    expect(match.breakdown.location.weight).toBe(0);
+    expect(match.breakdown.degree.weight).toBe(0);
+    // The sum of each factor's rounded points: 76.9 + 11.5
+    expect(match.score).toBe(88.4);
+  });
+
+  it("uses custom weights", () => {
+    const needs = profile({ specialties: [{ name: "LGBTQ", priority: "low" }], degrees: ["PhD"] });
+
+    const byDefault = scoreAdvocate(advocate(), needs);
+    const degreeFirst = scoreAdvocate(advocate(), needs, { ...DEFAULT_MATCH_WEIGHTS, degree: 1.5 });
+
+    expect(byDefault.score).toBe(83.3);
+    expect(degreeFirst.score).toBe(25);
+    expect(degreeFirst.explanation).toBe("MD (not a preferred degree). Covers 1 of 1 needed specialty (LGBTQ).");
+  });
+
+  it("scores preferred degrees by rank", () => {
+    const degrees = ["PhD", "MSW", "MD"];
+
+    expect(scoreAdvocate(advocate({ degree: "PhD" }), profile({ degrees })).breakdown.degree.score).toBe(1);
+    expect(scoreAdvocate(advocate({ degree: "MSW" }), profile({ degrees })).breakdown.degree.score).toBe(0.75);
+    expect(scoreAdvocate(advocate({ degree: "MD" }), profile({ degrees })).breakdown.degree.score).toBe(0.5);
+  });
+
+  it("fades the location score beyond the radius", () => {
+    const near = { ...AUSTIN, radiusMiles: 100 };
+
+    expect(scoreAdvocate(advocate(), profile({ location: { near } })).breakdown.location.score).toBe(1);
+    const dallas = scoreAdvocate(advocate({ city: "Dallas", ...DALLAS }), profile({ location: { near } }));
+    expect(dallas.breakdown.location.score).toBeGreaterThan(0);
+    expect(dallas.breakdown.location.score).toBeLessThan(1);
+    expect(dallas.breakdown.location.reason).toMatch(/^\d+(\.\d)? miles away$/);
+  });
+
+  it("gives same-state advocates half the location score of a city match", () => {
+    const location = { city: "Austin" };
+
+    expect(scoreAdvocate(advocate(), profile({ location })).breakdown.location.score).toBe(1);
+    expect(scoreAdvocate(advocate({ city: "Dallas" }), profile({ location })).breakdown.location.score).toBe(0.5);
+    expect(
+      scoreAdvocate(advocate({ city: "Chicago", state: "IL" }), profile({ location })).breakdown.location.score
+    ).toBe(0);
+  });
+
+  it("scores an advocate without coordinates zero on distance", () => {
+    const match = scoreAdvocate(
+      advocate({ latitude: undefined, longitude: undefined }),
+      profile({ location: { near: { ...AUSTIN, radiusMiles: 25 } } })
+    );
+
+    expect(match.breakdown.location).toMatchObject({ score: 0, weight: 1, reason: "Location unknown" });
+    expect(match.score).toBe(0);
+  });
+
+  it("scores an empty profile zero with no explanation", () => {
+    const match = scoreAdvocate(advocate(), profile());
+
+    expect(match.score).toBe(0);
+    expect(match.explanation).toBe("");
+    expect(Object.values(match.breakdown).every((factor) => factor.weight === 0)).toBe(true);
+  });
+});
+
+describe("rankAdvocates", () => {
+  const needs = profile({ specialties: [{ name: "Bipolar", priority: "high" }] });
+
+  it("orders by score, highest first, and keeps the top limit", () => {
+    const ranked = rankAdvocates(
+      [advocate({ id: 1, specialties: [] }), advocate({ id: 2 }), advocate({ id: 3, specialties: ["LGBTQ"] })],
+      needs,
+      DEFAULT_MATCH_WEIGHTS,
+      2
+    );
+
+    expect(ranked.map((match) => [match.advocate.id, match.score])).toEqual([
+      [2, 100],
+      [1, 0],
+    ]);
+  });
+
+  it("breaks ties by experience, then by lower id", () => {
+    const ranked = rankAdvocates(
+      [
+        advocate({ id: 4, yearsOfExperience: 3 }),
+        advocate({ id: 3, yearsOfExperience: 12 }),
+        advocate({ id: 2, yearsOfExperience: 3 }),
+      ],
+      needs
+    );
+
+    expect(ranked.map((match) => match.advocate.id)).toEqual([3, 2, 4]);
+  });
+});
@@ -0,0 +1,183 @@
+import { distanceMiles, findCity } from "./geo";
+import type { Advocate } from "../types/advocate";
+import type {
+  AdvocateMatch,
+  FactorScore,
+  MatchFactor,
+  MatchWeights,
+  PatientProfile,
+  SpecialtyPriority,
+} from "../types/match";
+
+export const MATCH_FACTORS: MatchFactor[] = ["specialties", "location", "experience", "degree"];
+
+/** Default factor weights; callers may override any of them per request. */
+export const DEFAULT_MATCH_WEIGHTS: MatchWeights = {
+  specialties: 0.5,
+  location: 0.25,
+  experience: 0.15,
+  degree: 0.1,
+};
+
+// Share of the specialty score each priority carries
+export const PRIORITY_WEIGHTS: Record<SpecialtyPriority, number> = {
+  required: 3,
+  high: 3,
+  medium: 2,
+  low: 1,
+};
+
+// Same-state advocates are a partial location match when the city differs
+const SAME_STATE_SCORE = 0.5;
+
+/** A factor's raw result before weighting; null score means "not applicable". */
+interface RawFactor {
+  score: number | null;
+  reason: string;
+}
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+function scoreSpecialties(advocate: Advocate, profile: PatientProfile): RawFactor {
+  if (profile.specialties.length === 0) return { score: null, reason: "No specialty needs given" };
+
+  const offered = new Set(advocate.specialties.map((name) => name.toLowerCase()));
+  const matched = profile.specialties.filter((needed) => offered.has(needed.name.toLowerCase()));
+  const missing = profile.specialties.filter((needed) => !offered.has(needed.name.toLowerCase()));
+  const total = profile.specialties.reduce((sum, needed) => sum + PRIORITY_WEIGHTS[needed.priority], 0);
+  const earned = matched.reduce((sum, needed) => sum + PRIORITY_WEIGHTS[needed.priority], 0);
+
+  const reason =
+    `Covers ${matched.length} of ${profile.specialties.length} needed ` +
+    (profile.specialties.length === 1 ? "specialty" : "specialties") +
+    (matched.length > 0 ? ` (${matched.map((needed) => needed.name).join(", ")})` : "") +
+    (missing.length > 0 ? `; missing ${missing.map((needed) => needed.name).join(", ")}` : "");
+  return { score: earned / total, reason };
+}
+
+function scoreLocation(advocate: Advocate, profile: PatientProfile): RawFactor {
+  const location = profile.location;
+  if (!location?.near && !location?.city) return { score: null, reason: "No location preference given" };
+
+  if (location.near) {
+    if (advocate.latitude === undefined || advocate.longitude === undefined) {
+      return { score: 0, reason: "Location unknown" };
+    }
+    // Full marks inside the radius, fading to zero at twice the radius
+    const miles = distanceMiles(location.near, { latitude: advocate.latitude, longitude: advocate.longitude });
+    const radius = location.near.radiusMiles;
+    const score = miles <= radius ? 1 : Math.max(0, 1 - (miles - radius) / radius);
+    return { score, reason: miles < 1 ? "Less than a mile away" : `${round(miles, 1)} miles away` };
+  }
+
+  const city = location.city as string;
+  if (advocate.city.toLowerCase() === city.toLowerCase()) {
+    return { score: 1, reason: `Based in ${advocate.city}` };
+  }
+  const state = findCity(city)?.state;
+  if (state && advocate.state === state) {
+    return { score: SAME_STATE_SCORE, reason: `Based in ${advocate.city}, same state as ${city}` };
+  }
+  return { score: 0, reason: `Based in ${advocate.city}, outside ${city}` };
+}
+
+function scoreExperience(advocate: Advocate, profile: PatientProfile): RawFactor {
+  const years = advocate.yearsOfExperience;
+  if (profile.minYears === undefined || profile.minYears === 0) {
+    return { score: null, reason: `${years} years of experience` };
+  }
+  return years >= profile.minYears
+    ? { score: 1, reason: `${years} years of experience (meets ${profile.minYears}+)` }
+    : { score: years / profile.minYears, reason: `${years} years of experience (below ${profile.minYears})` };
+}
+
+function scoreDegree(advocate: Advocate, profile: PatientProfile): RawFactor {
+  if (profile.degrees.length === 0) return { score: null, reason: advocate.degree };
+
+  // Earlier preferences score higher: 1, then 0.75, 0.5 ... down to 0.25
+  const rank = profile.degrees.findIndex((degree) => degree === advocate.degree);
+  if (rank === -1) return { score: 0, reason: `${advocate.degree} (not a preferred degree)` };
+  return {
+    score: Math.max(0.25, 1 - rank * 0.25),
+    reason: rank === 0 ? `${advocate.degree} (preferred degree)` : `${advocate.degree} (acceptable degree)`,
+  };
+}
+
+const SCORERS: Record<MatchFactor, (advocate: Advocate, profile: PatientProfile) => RawFactor> = {
+  specialties: scoreSpecialties,
+  location: scoreLocation,
+  experience: scoreExperience,
+  degree: scoreDegree,
+};
+
+/**
+ * Scores one advocate against a patient profile.
+ *
+ * Each factor yields a 0–1 score; factors the profile says nothing about are
+ * skipped and the remaining weights are renormalized, so a profile with only
+ * specialties is scored purely on specialties. The overall score is 0–100.
+ * Pure and deterministic, so weights can be tuned and tested without a database.
+ *
+ * @example
+ * scoreAdvocate(advocate, profile, { ...DEFAULT_MATCH_WEIGHTS, location: 0.5 });
+ */
+export function scoreAdvocate(
+  advocate: Advocate,
+  profile: PatientProfile,
+  weights: MatchWeights = DEFAULT_MATCH_WEIGHTS
+): AdvocateMatch {
+  const raw = Object.fromEntries(
+    MATCH_FACTORS.map((factor) => [factor, SCORERS[factor](advocate, profile)])
+  ) as Record<MatchFactor, RawFactor>;
+
+  const applicableWeight = MATCH_FACTORS.reduce(
+    (sum, factor) => sum + (raw[factor].score === null ? 0 : weights[factor]),
+    0
+  );
+
+  const breakdown = Object.fromEntries(
+    MATCH_FACTORS.map((factor): [MatchFactor, FactorScore] => {
+      const { score, reason } = raw[factor];
+      const weight = score === null || applicableWeight === 0 ? 0 : weights[factor] / applicableWeight;
+      return [
+        factor,
+        { score: round(score ?? 0, 3), weight: round(weight, 3), points: round((score ?? 0) * weight * 100, 1), reason },
+      ];
+    })
+  ) as Record<MatchFactor, FactorScore>;
+
+  const score = round(
+    MATCH_FACTORS.reduce((sum, factor) => sum + breakdown[factor].points, 0),
+    1
+  );
+
+  // Most influential factors first, so the explanation leads with what mattered
+  const explanation = MATCH_FACTORS.filter((factor) => breakdown[factor].weight > 0)
+    .sort((a, b) => breakdown[b].weight - breakdown[a].weight)
+    .map((factor) => breakdown[factor].reason)
+    .join(". ");
+
+  return { advocate, score, breakdown, explanation: explanation ? `${explanation}.` : "" };
+}
+
+/**
+ * Scores candidates and returns the best `limit`, highest score first.
+ * Ties go to the more experienced advocate, then the lower id, so results
+ * are stable across requests.
+ */
+export function rankAdvocates(
+  candidates: Advocate[],
+  profile: PatientProfile,
+  weights: MatchWeights = DEFAULT_MATCH_WEIGHTS,
+  limit = 5
+): AdvocateMatch[] {
+  return candidates
+    .map((advocate) => scoreAdvocate(advocate, profile, weights))
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        b.advocate.yearsOfExperience - a.advocate.yearsOfExperience ||
+        (a.advocate.id ?? 0) - (b.advocate.id ?? 0)
+    )
+    .slice(0, limit);
+}
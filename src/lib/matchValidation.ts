@@ -0,0 +1,163 @@
+import { DEFAULT_RADIUS_MILES, MAX_RADIUS_MILES } from "./advocateFilters";
+import type { ParseResult, ValidationIssue } from "./advocateFilters";
+import { parseNear } from "./geo";
+import { DEFAULT_MATCH_WEIGHTS, MATCH_FACTORS, PRIORITY_WEIGHTS } from "./matchScoring";
+import { degrees as knownDegrees } from "../db/seed/taxonomy";
+import type { LocationPreference, MatchWeights, NeededSpecialty, PatientProfile, SpecialtyPriority } from "../types/match";
+
+export const DEFAULT_MATCH_LIMIT = 5;
+export const MAX_MATCH_LIMIT = 25;
+export const MAX_MATCH_SPECIALTIES = 25;
+const PRIORITIES = Object.keys(PRIORITY_WEIGHTS) as SpecialtyPriority[];
+
+export interface MatchRequest {
+  profile: PatientProfile;
+  weights: MatchWeights;
+  limit: number;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isWholeNumber = (value: unknown, min: number, max = Infinity): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= min && value <= max;
+
+function parseSpecialties(value: unknown, issues: ValidationIssue[]): NeededSpecialty[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > MAX_MATCH_SPECIALTIES) {
+    issues.push({ field: "specialties", message: `specialties must be an array of at most ${MAX_MATCH_SPECIALTIES} entries` });
+    return [];
+  }
+
+  const parsed: NeededSpecialty[] = [];
+  value.forEach((entry: unknown, index) => {
+    // A bare name is shorthand for { name, priority: "medium" }
+    const item = typeof entry === "string" ? { name: entry } : entry;
+    if (!isObject(item) || typeof item.name !== "string" || item.name.trim().length === 0) {
+      issues.push({ field: `specialties[${index}]`, message: "name must be a non-empty string" });
+      return;
+    }
+    const priority = item.priority ?? "medium";
+    if (!PRIORITIES.includes(priority as SpecialtyPriority)) {
+      issues.push({ field: `specialties[${index}]`, message: `priority must be one of ${PRIORITIES.join(", ")}` });
+      return;
+    }
+    parsed.push({ name: item.name.trim(), priority: priority as SpecialtyPriority });
+  });
+  return parsed;
+}
+
+function parseLocation(value: unknown, issues: ValidationIssue[]): LocationPreference | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    issues.push({ field: "location", message: "location must be an object with city and/or near" });
+    return undefined;
+  }
+
+  const { city, near, radiusMiles } = value;
+  const location: LocationPreference = {};
+  if (city !== undefined) {
+    if (typeof city !== "string" || city.trim().length === 0) {
+      issues.push({ field: "location.city", message: "city must be a non-empty string" });
+    } else {
+      location.city = city.trim();
+    }
+  }
+  if (radiusMiles !== undefined && !isWholeNumber(radiusMiles, 1, MAX_RADIUS_MILES)) {
+    issues.push({ field: "location.radiusMiles", message: `radiusMiles must be between 1 and ${MAX_RADIUS_MILES}` });
+  }
+  if (near !== undefined) {
+    const center = typeof near === "string" ? parseNear(near) : null;
+    if (!center) {
+      issues.push({ field: "location.near", message: 'near must be a known 5-digit ZIP code or "lat,lng"' });
+    } else {
+      location.near = { ...center, radiusMiles: typeof radiusMiles === "number" ? radiusMiles : DEFAULT_RADIUS_MILES };
+    }
+  }
+  return location.city || location.near ? location : undefined;
+}
+
+function parseWeights(value: unknown, issues: ValidationIssue[]): MatchWeights {
+  if (value === undefined) return DEFAULT_MATCH_WEIGHTS;
+  if (!isObject(value)) {
+    issues.push({ field: "weights", message: "weights must be an object" });
+    return DEFAULT_MATCH_WEIGHTS;
+  }
+
+  const weights: MatchWeights = { ...DEFAULT_MATCH_WEIGHTS };
+  for (const [factor, weight] of Object.entries(value)) {
+    if (!MATCH_FACTORS.includes(factor as keyof MatchWeights)) {
+      issues.push({ field: `weights.${factor}`, message: `Unknown factor ${factor}` });
+    } else if (typeof weight !== "number" || !Number.isFinite(weight) || weight < 0) {
+      issues.push({ field: `weights.${factor}`, message: "weights must be non-negative numbers" });
+    } else {
+      weights[factor as keyof MatchWeights] = weight;
+    }
+  }
+  if (MATCH_FACTORS.every((factor) => weights[factor] === 0)) {
+    issues.push({ field: "weights", message: "At least one weight must be greater than 0" });
+  }
+  return weights;
+}
+
+/**
+ * Validates the body of POST /api/advocates/match.
+ * Specialty names are checked against the taxonomy by the route.
+ *
+ * @example
+ * parseMatchRequest({
+ *   specialties: [{ name: "Diabetic care", priority: "required" }, "Chronic pain"],
+ *   location: { near: "78701", radiusMiles: 10 },
+ *   minYears: 5,
+ *   degrees: ["MD", "PhD"],
+ *   weights: { location: 0.4 },
+ * });
+ */
+export function parseMatchRequest(body: unknown): ParseResult<MatchRequest> {
+  if (!isObject(body)) {
+    return { success: false, issues: [{ field: "body", message: "Request body must be a JSON object" }] };
+  }
+
+  const issues: ValidationIssue[] = [];
+  const allowed = ["specialties", "location", "minYears", "degrees", "weights", "limit"];
+  for (const field of Object.keys(body)) {
+    if (!allowed.includes(field)) issues.push({ field, message: `Unknown field ${field}` });
+  }
+
+  const specialties = parseSpecialties(body.specialties, issues);
+  const location = parseLocation(body.location, issues);
+
+  if (body.minYears !== undefined && !isWholeNumber(body.minYears, 0)) {
+    issues.push({ field: "minYears", message: "minYears must be a non-negative whole number" });
+  }
+
+  const degrees = body.degrees ?? [];
+  if (!Array.isArray(degrees) || !degrees.every((degree) => knownDegrees.includes(degree))) {
+    issues.push({ field: "degrees", message: `degrees must be an array of ${knownDegrees.join(", ")}` });
+  }
+
+  const limit = body.limit ?? DEFAULT_MATCH_LIMIT;
+  if (!isWholeNumber(limit, 1, MAX_MATCH_LIMIT)) {
+    issues.push({ field: "limit", message: `limit must be between 1 and ${MAX_MATCH_LIMIT}` });
+  }
+
+  const weights = parseWeights(body.weights, issues);
+
+  if (issues.length > 0) {
+    return { success: false, issues };
+  }
+
+  return {
+    success: true,
+    data: {
+      profile: {
+        specialties,
+        ...(location && { location }),
+        ...(body.minYears !== undefined && { minYears: body.minYears as number }),
+        degrees: Array.from(new Set(degrees as string[])),
+      },
+      weights,
+      limit: limit as number,
+    },
+  };
+}
@@ -0,0 +1,128 @@
+import {
+  API_BASE_PATH,
+  API_VERSION,
+  advocatesApi,
+  errorSchema,
+  namedSchemas,
+  noContent,
+  type Endpoint,
+} from "./apiContract";
+import type { JsonSchema, Shape } from "./schema";
+
+const errorContent = { "application/json": { schema: errorSchema.json } };
+
+const STANDARD_ERRORS: Record<number, string> = {
+  400: "Invalid query parameters or body; `issues` lists each problem",
+  401: "Unknown or revoked API key, or none on an operation that needs one",
+  429: "Rate limit exceeded; retry after the Retry-After header",
+  500: "Server error",
+};
+
+function toOperation(operationId: string, endpoint: Endpoint<Shape, unknown, unknown>): JsonSchema {
+  const pathParameters = Array.from(endpoint.path.matchAll(/\{(\w+)\}/g), ([, name]) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: { type: "integer", minimum: 1 },
+  }));
+  // Repeatable parameters are arrays, sent as `?city=Austin&city=Dallas`
+  const queryParameters = Object.entries(endpoint.query.shape).map(([name, schema]) => ({
+    name,
+    in: "query",
+    required: !("optional" in schema),
+    ...(schema.json.type === "array" && { style: "form", explode: true }),
+    schema: schema.json,
+  }));
+
+  const headerParameters = Object.entries(endpoint.requestHeaders ?? {}).map(([name, description]) => ({
+    name,
+    in: "header",
+    required: false,
+    description,
+    schema: { type: "string" },
+  }));
+
+  const headers = {
+    ...(endpoint.conditional && { ETag: "Hash of the body; send it back in If-None-Match" }),
+    ...endpoint.headers,
+  };
+  const success =
+    endpoint.response === noContent
+      ? { 204: { description: "Done" } }
+      : {
+          [endpoint.status ?? 200]: {
+            description: endpoint.status === 201 ? "Created" : "OK",
+            content: Object.fromEntries(
+              (endpoint.fileTypes ?? ["application/json"]).map((type) => [type, { schema: endpoint.response.json }])
+            ),
+            ...(Object.keys(headers).length > 0 && {
+              headers: Object.fromEntries(
+                Object.entries(headers).map(([name, description]) => [name, { description, schema: { type: "string" } }])
+              ),
+            }),
+          },
+        };
+  const errors = {
+    ...STANDARD_ERRORS,
+    ...(endpoint.scope && { 403: `The API key lacks the ${endpoint.scope} scope` }),
+    ...endpoint.errors,
+  };
+  // Other media types are read by the route as they are, e.g. a CSV roster
+  const bodyContent = endpoint.body && {
+    "application/json": { schema: endpoint.body.json },
+    ...Object.fromEntries((endpoint.bodyTypes ?? []).map((type) => [type, { schema: { type: "string" } }])),
+  };
+
+  return {
+    operationId,
+    summary: endpoint.summary,
+    ...(endpoint.scope && {
+      description: `Requires an API key with the ${endpoint.scope} scope.`,
+      security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    }),
+    parameters: [...pathParameters, ...queryParameters, ...headerParameters],
+    ...(bodyContent && { requestBody: { required: true, content: bodyContent } }),
+    responses: {
+      ...success,
+      ...(endpoint.conditional && { 304: { description: "Not modified since the ETag in If-None-Match" } }),
+      ...Object.fromEntries(
+        Object.entries(errors).map(([status, description]) => [status, { description, content: errorContent }])
+      ),
+    },
+  };
+}
+
+/**
+ * Builds the OpenAPI 3.0 document for the advocates API from the same
+ * contract the typed client is built on, so the two cannot disagree.
+ */
+export function buildOpenApiDocument(): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  Object.entries(advocatesApi).forEach(([operationId, endpoint]) => {
+    paths[endpoint.path] = {
+      ...paths[endpoint.path],
+      [endpoint.method.toLowerCase()]: toOperation(operationId, endpoint as Endpoint<Shape, unknown, unknown>),
+    };
+  });
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "Solace Advocates API",
+      version: API_VERSION,
+      description:
+        "Search, match and book advocates, and manage the directory. Operations without a scope allow anonymous calls at a lower rate limit.",
+    },
+    servers: [{ url: API_BASE_PATH }],
+    // An empty requirement keeps the key optional
+    security: [{}, { bearerAuth: [] }, { apiKeyHeader: [] }],
+    paths,
+    components: {
+      schemas: Object.fromEntries(namedSchemas.map((schema) => [schema.name, schema.definition])),
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer" },
+        apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+    },
+  };
+}
@@ -0,0 +1,70 @@
+// "x12", "ext. 12", "extension 12" or "#12" at the end of a number
+const EXTENSION_PATTERN = /\s*(?:ext\.?|extension|x|#)\s*(\d{1,6})\s*$/i;
+// Digits plus the separators people type: spaces, dots, dashes, slashes, parentheses
+const PHONE_CHARACTERS = /^\+?[\d\s().\-/]+$/;
+// Phone-like search terms need this many digits, so "10" still means years
+const MIN_SEARCH_DIGITS = 3;
+
+/**
+ * Splits a trailing extension off a typed phone number.
+ *
+ * @example
+ * splitExtension("(555) 123-4567 ext. 12"); // { number: "(555) 123-4567", extension: "12" }
+ */
+export function splitExtension(value: string): { number: string; extension?: string } {
+  const match = value.match(EXTENSION_PATTERN);
+  if (!match || match.index === undefined) return { number: value };
+  return { number: value.slice(0, match.index), extension: match[1] };
+}
+
+/**
+ * Normalizes a phone number to E.164 ("+15551234567"), or returns null when
+ * it is not one. Numbers without a country code must be 10-digit US numbers
+ * (optionally with a leading 1); others must start with "+" and the country code.
+ *
+ * @example
+ * toE164("(555) 123-4567");    // "+15551234567"
+ * toE164(5551234567);          // "+15551234567"
+ * toE164("+44 20 7946 0958");  // "+442079460958"
+ * toE164("123-4567");          // null
+ */
+export function toE164(value: string | number): string | null {
+  const text = typeof value === "number" ? String(value) : value.trim();
+  if (!PHONE_CHARACTERS.test(text)) return null;
+
+  const digits = text.replace(/\D/g, "");
+  if (text.startsWith("+")) {
+    // E.164 allows up to 15 digits; country codes never start with 0
+    if (digits.startsWith("1")) return digits.length === 11 ? `+${digits}` : null;
+    return /^[2-9]\d{7,14}$/.test(digits) ? `+${digits}` : null;
+  }
+  if (digits.length === 10) return `+1${digits}`;
+  if (digits.length === 11 && digits.startsWith("1")) return `+${digits}`;
+  return null;
+}
+
+/**
+ * Formats an E.164 number for display: US numbers as "(555) 123-4567",
+ * others unchanged. An extension is appended as " ext. 12".
+ */
+export function formatPhoneNumber(e164: string, extension?: string | null): string {
+  const us = e164.match(/^\+1(\d{3})(\d{3})(\d{4})$/);
+  const number = us ? `(${us[1]}) ${us[2]}-${us[3]}` : e164;
+  return extension ? `${number} ext. ${extension}` : number;
+}
+
+/** Builds an RFC 3966 `tel:` link, e.g. "tel:+15551234567;ext=12". */
+export function phoneUri(e164: string, extension?: string | null): string {
+  return extension ? `tel:${e164};ext=${extension}` : `tel:${e164}`;
+}
+
+/**
+ * Returns the digits of a search term that looks like (part of) a phone
+ * number, however it is formatted ("555-987", "(555) 987", "+1 555"), or
+ * null when the term is not phone-like.
+ */
+export function phoneSearchDigits(search: string): string | null {
+  if (!PHONE_CHARACTERS.test(search)) return null;
+  const digits = search.replace(/\D/g, "");
+  return digits.length >= MIN_SEARCH_DIGITS ? digits : null;
+}
@@ -0,0 +1,33 @@
+import type { ParseResult, ValidationIssue } from "./advocateFilters";
+
+const MAX_PLANS = 50;
+
+/**
+ * Validates the body of PUT /api/advocates/[id]/plans: the full list of plans
+ * the advocate accepts, by catalog slug or name. An empty list means the
+ * advocate accepts none. Whether each plan exists is checked against the
+ * catalog by the route.
+ *
+ * @example
+ * parsePlanSelection({ plans: ["original-medicare", "Medigap Plan G"] });
+ */
+export function parsePlanSelection(body: unknown): ParseResult<string[]> {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { success: false, issues: [{ field: "body", message: "Request body must be a JSON object" }] };
+  }
+
+  const { plans, ...rest } = body as Record<string, unknown>;
+  const issues: ValidationIssue[] = Object.keys(rest).map((field) => ({ field, message: `Unknown field ${field}` }));
+
+  if (
+    !Array.isArray(plans) ||
+    plans.length > MAX_PLANS ||
+    plans.some((plan) => typeof plan !== "string" || plan.trim() === "")
+  ) {
+    issues.push({ field: "plans", message: `plans must be an array of at most ${MAX_PLANS} plan slugs or names` });
+  }
+
+  return issues.length > 0
+    ? { success: false, issues }
+    : { success: true, data: (plans as string[]).map((plan) => plan.trim()) };
+}
@@ -0,0 +1,18 @@
+import { planTypes } from "../db/seed/plans";
+import type { PlanType } from "../types/plan";
+
+/**
+ * Groups plans under their plan type, in catalog display order. Types with
+ * no plans are left out.
+ *
+ * @example
+ * groupPlansByType(advocate.plans ?? []).map((group) => group.label); // ["Original Medicare", "Medigap"]
+ */
+export function groupPlansByType<T extends { type: PlanType }>(
+  plans: T[]
+): { type: PlanType; label: string; plans: T[] }[] {
+  return planTypes.flatMap(({ type, label }) => {
+    const ofType = plans.filter((plan) => plan.type === type);
+    return ofType.length > 0 ? [{ type, label, plans: ofType }] : [];
+  });
+}
@@ -0,0 +1,100 @@
+/** A token bucket: holds up to `capacity` tokens, refilled continuously. */
+export interface RateLimitRule {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  /** Whole tokens left after this request */
+  remaining: number;
+  /** Seconds until the request could succeed; 0 when allowed */
+  retryAfter: number;
+  /** Seconds until the bucket is full again */
+  reset: number;
+}
+
+/**
+ * Where buckets live. The in-memory store suits a single process and local
+ * testing; several instances need a shared store (e.g. Redis) behind the same
+ * interface so a client's requests draw from one bucket.
+ */
+export interface RateLimitStore {
+  /** Refills the bucket for `key`, then takes `cost` tokens if it has them. */
+  take(key: string, rule: RateLimitRule, cost: number): Promise<RateLimitResult>;
+}
+
+// Anonymous callers, per IP: bursts of 60, then one request a second
+export const ANONYMOUS_RATE_LIMIT: RateLimitRule = { capacity: 60, refillPerSecond: 1 };
+// API keys, per key: bursts of 600, then ten requests a second
+export const API_KEY_RATE_LIMIT: RateLimitRule = { capacity: 600, refillPerSecond: 10 };
+// Key lookups, per IP, before the key is known: as generous as one key, so only guessing runs dry
+export const KEY_CHECK_RATE_LIMIT: RateLimitRule = { capacity: 600, refillPerSecond: 10 };
+
+// Buckets kept before full ones are pruned from the in-memory store
+const MAX_MEMORY_BUCKETS = 10000;
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Applies one request to a bucket: refills it for the time elapsed since it
+ * was last updated, then takes `cost` tokens if there are enough.
+ */
+export function takeTokens(
+  bucket: Bucket | undefined,
+  rule: RateLimitRule,
+  cost: number,
+  now: number
+): { bucket: Bucket; result: RateLimitResult } {
+  const elapsedSeconds = bucket ? Math.max(now - bucket.updatedAt, 0) / 1000 : 0;
+  const available = bucket ? Math.min(rule.capacity, bucket.tokens + elapsedSeconds * rule.refillPerSecond) : rule.capacity;
+  const allowed = available >= cost;
+  const tokens = allowed ? available - cost : available;
+
+  return {
+    bucket: { tokens, updatedAt: now },
+    result: {
+      allowed,
+      limit: rule.capacity,
+      remaining: Math.floor(tokens),
+      retryAfter: allowed ? 0 : Math.ceil((cost - tokens) / rule.refillPerSecond),
+      reset: Math.ceil((rule.capacity - tokens) / rule.refillPerSecond),
+    },
+  };
+}
+
+/** Keeps buckets in a Map in this process. */
+export function createMemoryRateLimitStore(now: () => number = Date.now): RateLimitStore {
+  const buckets = new Map<string, { bucket: Bucket; rule: RateLimitRule }>();
+
+  return {
+    async take(key, rule, cost) {
+      const time = now();
+      const { bucket, result } = takeTokens(buckets.get(key)?.bucket, rule, cost, time);
+      buckets.set(key, { bucket, rule });
+
+      // A bucket left alone long enough to refill is the same as no bucket
+      if (buckets.size > MAX_MEMORY_BUCKETS) {
+        buckets.forEach((stored, storedKey) => {
+          if (takeTokens(stored.bucket, stored.rule, 0, time).result.reset === 0) buckets.delete(storedKey);
+        });
+      }
+      return result;
+    },
+  };
+}
+
+/** Standard rate limit response headers (IETF draft RateLimit fields plus Retry-After on 429). */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": String(result.limit),
+    "RateLimit-Remaining": String(result.remaining),
+    "RateLimit-Reset": String(result.reset),
+  };
+  if (!result.allowed) headers["Retry-After"] = String(result.retryAfter);
+  return headers;
+}
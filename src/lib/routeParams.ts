@@ -0,0 +1,24 @@
+import { MAX_INTEGER } from "./cursor";
+
+// Route ids must be positive integers that fit the id column; anything else is a client error
+export const parseId = (raw: string): number | null => {
+  const id = /^[1-9]\d{0,9}$/.test(raw) ? parseInt(raw, 10) : NaN;
+  return id <= MAX_INTEGER ? id : null;
+};
+
+export const invalidId = (resource: string) =>
+  Response.json(
+    { error: `Invalid ${resource} id`, issues: [{ field: "id", message: "id must be a positive integer" }] },
+    { status: 400 }
+  );
+
+/** Rebuilds URLSearchParams from a page's `searchParams` prop, keeping repeated keys. */
+export function toSearchParams(searchParams: Record<string, string | string[] | undefined>): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(searchParams)) {
+    for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+      params.append(key, item);
+    }
+  }
+  return params;
+}
@@ -0,0 +1,72 @@
+import { filtersToSearchParams, type ParseResult, type ValidationIssue } from "./advocateFilters";
+import { parseAdvocateQuery } from "./contractValidation";
+import type { SavedSearchInput } from "../types/savedSearch";
+
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Validates a query string for GET /api/advocates and returns it in a
+ * canonical form: filters in a fixed order, the sort only when one was given,
+ * and no paging. Issues are reported under `query.<parameter>`.
+ */
+function parseSavedQuery(raw: string): ParseResult<string> {
+  const params = new URLSearchParams(raw.trim().replace(/^\?/, ""));
+  const parsed = parseAdvocateQuery(params);
+  if (!parsed.success) {
+    return {
+      success: false,
+      issues: parsed.issues.map((issue) => ({ field: `query.${issue.field}`, message: issue.message })),
+    };
+  }
+
+  const canonical = filtersToSearchParams(parsed.data.filters);
+  if (params.has("sort")) {
+    canonical.set("sort", parsed.data.sort.field);
+    canonical.set("order", parsed.data.sort.order);
+  }
+  return { success: true, data: canonical.toString() };
+}
+
+/**
+ * Validates a saved search for POST /api/saved-searches, or with
+ * `partial: true` a change for PATCH /api/saved-searches/[id]. `query` is a
+ * GET /api/advocates query string such as "search=trauma&city=Fort+Worth".
+ *
+ * @example
+ * parseSavedSearchInput({ name: "Trauma in Fort Worth", query: "specialty=Trauma+%26+PTSD&city=Fort+Worth" });
+ */
+export function parseSavedSearchInput(
+  body: unknown,
+  { partial = false }: { partial?: boolean } = {}
+): ParseResult<Partial<SavedSearchInput>> {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { success: false, issues: [{ field: "body", message: "Request body must be a JSON object" }] };
+  }
+
+  const { name, query, ...rest } = body as Record<string, unknown>;
+  const issues: ValidationIssue[] = Object.keys(rest).map((field) => ({ field, message: `Unknown field ${field}` }));
+  const data: Partial<SavedSearchInput> = {};
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== "string" || name.trim() === "" || name.trim().length > MAX_NAME_LENGTH) {
+      issues.push({ field: "name", message: `name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters` });
+    } else {
+      data.name = name.trim();
+    }
+  }
+  if (query !== undefined || !partial) {
+    if (typeof query !== "string") {
+      issues.push({ field: "query", message: "query must be a query string such as \"search=trauma&city=Austin\"" });
+    } else {
+      const parsed = parseSavedQuery(query);
+      if (parsed.success) data.query = parsed.data;
+      else issues.push(...parsed.issues);
+    }
+  }
+
+  if (partial && issues.length === 0 && Object.keys(data).length === 0) {
+    issues.push({ field: "body", message: "At least one field must be provided" });
+  }
+
+  return issues.length > 0 ? { success: false, issues } : { success: true, data };
+}
@@ -0,0 +1,288 @@
+import type { ParseResult, ValidationIssue } from "./advocateFilters";
+
+/** An OpenAPI 3.0 schema object. */
+export type JsonSchema = { [keyword: string]: unknown };
+
+/**
+ * A runtime description of a JSON value of type T: `check` validates a
+ * decoded value, `json` documents it in the OpenAPI document. The same
+ * definition gives the TypeScript type through `Infer`, so the three cannot
+ * drift apart.
+ */
+export interface Schema<T> {
+  readonly json: JsonSchema;
+  /** Records an issue under `path` for each way the value breaks the schema */
+  check(value: unknown, path: string, issues: ValidationIssue[]): value is T;
+}
+
+/** A property that may be left out of an object. */
+export interface OptionalSchema<T> extends Schema<T | undefined> {
+  readonly optional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export type Shape = Record<string, Schema<unknown>>;
+
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never }[keyof S];
+
+type ObjectType<S extends Shape> = { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+export interface ObjectSchema<S extends Shape> extends Schema<ObjectType<S>> {
+  readonly shape: S;
+}
+
+/** The form a value takes once sent as JSON: dates become ISO strings. */
+export type Json<T> = T extends Date
+  ? string
+  : T extends (infer U)[]
+    ? Json<U>[]
+    : T extends object
+      ? { [K in keyof T]: Json<T[K]> }
+      : T;
+
+/** Resolves to true only when A and B describe the same values; used to pin schemas to the domain types. */
+export type SameType<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+
+/** Fails type-checking unless T is true, e.g. `Assert<SameType<A, B>>`. */
+export type Assert<T extends true> = T;
+
+const at = (path: string, key: string | number) =>
+  typeof key === "number" ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+/**
+ * The problem with a size outside the bounds a schema documents (minimum,
+ * maxLength, maxItems, ...), or null. Bounds are enforced, not just
+ * documented, so the OpenAPI document never promises more than is checked.
+ */
+function outOfBounds(json: JsonSchema, size: number, unit: string): string | null {
+  const min = (json.minimum ?? json.minLength ?? json.minItems) as number | undefined;
+  const max = (json.maximum ?? json.maxLength ?? json.maxItems) as number | undefined;
+  if ((min === undefined || size >= min) && (max === undefined || size <= max)) return null;
+
+  const range =
+    min !== undefined && max !== undefined
+      ? `between ${min} and ${max}`
+      : min !== undefined
+        ? `at least ${min}`
+        : `at most ${max}`;
+  // "at least 1 character", not "1 characters"
+  const units = range.endsWith(" 1") ? unit.replace(/s$/, "") : unit;
+  return unit ? `must have ${range} ${units}` : `must be ${range}`;
+}
+
+function scalar<T>(
+  json: JsonSchema,
+  matches: (value: unknown) => boolean,
+  expected: string,
+  size?: (value: T) => [number, string]
+): Schema<T> {
+  return {
+    json,
+    check(value, path, issues): value is T {
+      if (!matches(value)) {
+        issues.push({ field: path, message: `${path || "value"} must be ${expected}` });
+        return false;
+      }
+      const problem = size ? outOfBounds(json, ...size(value as T)) : null;
+      if (problem) issues.push({ field: path, message: `${path || "value"} ${problem}` });
+      return problem === null;
+    },
+  };
+}
+
+export function string(json: JsonSchema = {}): Schema<string> {
+  return scalar({ type: "string", ...json }, (value) => typeof value === "string", "a string", (value) => [
+    value.trim().length,
+    "characters",
+  ]);
+}
+
+/** An ISO 8601 timestamp, as dates are sent in JSON. */
+export function dateTime(json: JsonSchema = {}): Schema<string> {
+  return scalar(
+    { type: "string", format: "date-time", ...json },
+    (value) => typeof value === "string" && !Number.isNaN(Date.parse(value)),
+    "an ISO 8601 date-time"
+  );
+}
+
+export function number(json: JsonSchema = {}): Schema<number> {
+  return scalar(
+    { type: "number", ...json },
+    (value) => typeof value === "number" && Number.isFinite(value),
+    "a number",
+    (value) => [value, ""]
+  );
+}
+
+export function integer(json: JsonSchema = {}): Schema<number> {
+  return scalar({ type: "integer", ...json }, (value) => Number.isInteger(value), "a whole number", (value) => [
+    value,
+    "",
+  ]);
+}
+
+export function boolean(json: JsonSchema = {}): Schema<boolean> {
+  return scalar({ type: "boolean", ...json }, (value) => typeof value === "boolean", "true or false");
+}
+
+export function literal<const V extends string | number | boolean>(expected: V): Schema<V> {
+  return scalar({ type: typeof expected, enum: [expected] }, (value) => value === expected, JSON.stringify(expected));
+}
+
+export function oneOf<const V extends string>(values: readonly V[]): Schema<V> {
+  return scalar(
+    { type: "string", enum: [...values] },
+    (value) => values.includes(value as V),
+    `one of ${values.join(", ")}`
+  );
+}
+
+export function array<T>(item: Schema<T>, json: JsonSchema = {}): Schema<T[]> {
+  return {
+    json: { type: "array", items: item.json, ...json },
+    check(value, path, issues): value is T[] {
+      if (!Array.isArray(value)) {
+        issues.push({ field: path, message: `${path || "value"} must be an array` });
+        return false;
+      }
+      const problem = outOfBounds(json, value.length, "items");
+      if (problem) {
+        issues.push({ field: path, message: `${path || "value"} ${problem}` });
+        return false;
+      }
+      // Every element is checked so all issues are reported at once
+      return value.map((element, index) => item.check(element, at(path, index), issues)).every(Boolean);
+    },
+  };
+}
+
+export function object<S extends Shape>(shape: S, json: JsonSchema = {}): ObjectSchema<S> {
+  const entries = Object.entries(shape);
+  const required = entries.filter(([, schema]) => !("optional" in schema)).map(([key]) => key);
+
+  return {
+    shape,
+    json: {
+      type: "object",
+      properties: Object.fromEntries(entries.map(([key, schema]) => [key, schema.json])),
+      ...(required.length > 0 && { required }),
+      ...json,
+    },
+    check(value, path, issues): value is ObjectType<S> {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        issues.push({ field: path, message: `${path || "value"} must be an object` });
+        return false;
+      }
+      // Unknown properties are allowed, so the server can add fields without breaking clients
+      const record = value as Record<string, unknown>;
+      return entries
+        .map(([key, schema]) => {
+          if (record[key] !== undefined || "optional" in schema) return schema.check(record[key], at(path, key), issues);
+          issues.push({ field: at(path, key), message: `${at(path, key)} is required` });
+          return false;
+        })
+        .every(Boolean);
+    },
+  };
+}
+
+/** An object with the base's properties plus more, like an interface that extends another. */
+export function extend<S extends Shape, E extends Shape>(base: ObjectSchema<S>, shape: E, json: JsonSchema = {}) {
+  return object({ ...base.shape, ...shape } as S & E, json);
+}
+
+/** The base's properties, each made optional, as for a PATCH body. */
+export function partial<S extends Shape>(
+  base: ObjectSchema<S>,
+  json: JsonSchema = {}
+): ObjectSchema<{ [K in keyof S]: OptionalSchema<Infer<S[K]>> }> {
+  const shape = Object.fromEntries(Object.entries(base.shape).map(([key, schema]) => [key, optional(schema)]));
+  return object(shape as { [K in keyof S]: OptionalSchema<Infer<S[K]>> }, json);
+}
+
+/** A value matching either schema, e.g. a phone number sent as a string or a number. */
+export function anyOf<A, B>(first: Schema<A>, second: Schema<B>, json: JsonSchema = {}): Schema<A | B> {
+  return {
+    json: { anyOf: [first.json, second.json], ...json },
+    check(value, path, issues): value is A | B {
+      const attempts: ValidationIssue[] = [];
+      if (first.check(value, path, attempts) || second.check(value, path, attempts)) return true;
+      issues.push({ field: path, message: attempts.map((issue) => issue.message).join(", or ") });
+      return false;
+    },
+  };
+}
+
+export function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+  return {
+    optional: true,
+    json: schema.json,
+    check: (value, path, issues): value is T | undefined => value === undefined || schema.check(value, path, issues),
+  };
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    // OpenAPI 3.0 ignores keywords beside a $ref, so a nullable reference is wrapped
+    json: "$ref" in schema.json ? { allOf: [schema.json], nullable: true } : { ...schema.json, nullable: true },
+    check: (value, path, issues): value is T | null => value === null || schema.check(value, path, issues),
+  };
+}
+
+/** A schema documented once under `#/components/schemas/<name>` and referred to by reference elsewhere. */
+export type NamedSchema<S extends Schema<unknown>> = S & { readonly name: string; readonly definition: JsonSchema };
+
+export function named<S extends Schema<unknown>>(name: string, schema: S): NamedSchema<S> {
+  return { ...schema, name, definition: schema.json, json: { $ref: `#/components/schemas/${name}` } };
+}
+
+/** Validates a decoded JSON value against a schema. */
+export function parseWith<T>(schema: Schema<T>, value: unknown): ParseResult<T> {
+  const issues: ValidationIssue[] = [];
+  return schema.check(value, "", issues) ? { success: true, data: value } : { success: false, issues };
+}
+
+/**
+ * Reads a query string value as the JSON value its schema expects. Blank
+ * values count as absent, except in free text; anything unreadable stays text
+ * for the check to reject.
+ */
+function decodeParam(json: JsonSchema, text: string): unknown {
+  if (json.type === "string" && !json.enum) return text;
+  if (text === "") return undefined;
+  if ((json.type === "integer" || json.type === "number") && /^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+  if (json.type === "boolean" && (text === "true" || text === "false")) return text === "true";
+  return text;
+}
+
+/**
+ * Validates a query string against a query schema. Repeatable (array)
+ * parameters collect every value, once each; numbers and booleans are read
+ * from their text. Values are trimmed and unknown parameters ignored.
+ *
+ * @example
+ * const query = parseQuery(advocatesApi.searchAdvocates.query, new URL(request.url).searchParams);
+ */
+export function parseQuery<S extends Shape>(schema: ObjectSchema<S>, params: URLSearchParams): ParseResult<ObjectType<S>> {
+  const decoded = Object.fromEntries(
+    Object.entries(schema.shape).map(([name, property]) => {
+      const values = params.getAll(name).map((value) => value.trim());
+      if (property.json.type !== "array") {
+        return [name, values.length > 0 ? decodeParam(property.json, values[0]) : undefined];
+      }
+      const items = Array.from(new Set(values.filter((value) => value !== "")));
+      const itemJson = property.json.items as JsonSchema;
+      return [name, items.length > 0 ? items.map((item) => decodeParam(itemJson, item)) : undefined];
+    })
+  );
+  return parseWith(schema, decoded);
+}
+
+/** Serializes a value the way Response.json does, typed as what the client receives. */
+export function toJson<T>(value: T): Json<T> {
+  return JSON.parse(JSON.stringify(value));
+}
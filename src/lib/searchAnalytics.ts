@@ -0,0 +1,64 @@
+import { recordSearchEvent } from "../db/queries/searchAnalytics";
+import type { AdvocateQuery } from "./advocateFilters";
+import type { LoggedSearchFilters, SearchEvent, SearchSource } from "../types/searchAnalytics";
+
+// Runs of 7 or more digits, however they are separated, read as phone numbers
+const PHONE_PATTERN = /\+?\d[\d\s().-]{5,}\d/g;
+const EMAIL_PATTERN = /\S+@\S+/g;
+
+/**
+ * Normalizes free text for the search log: lowercased, whitespace collapsed,
+ * and anything that could identify a person (emails, phone numbers) masked.
+ *
+ * @example
+ * normalizeSearchQuery("  Call  555-987-3456 "); // "call <phone>"
+ */
+export function normalizeSearchQuery(search: string | undefined): string {
+  return (search ?? "")
+    .replace(EMAIL_PATTERN, "<email>")
+    .replace(PHONE_PATTERN, (match) => (match.replace(/\D/g, "").length >= 7 ? "<phone>" : match))
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// One decimal place of latitude or longitude is about 10 km
+const coarsen = (degrees: number) => Math.round(degrees * 10) / 10;
+
+/** Filters as logged: the free text is dropped (see normalizeSearchQuery) and the proximity center coarsened. */
+export function toLoggedFilters({ search: _search, ...filters }: AdvocateQuery["filters"]): LoggedSearchFilters {
+  return {
+    ...filters,
+    ...(filters.near && {
+      near: { ...filters.near, latitude: coarsen(filters.near.latitude), longitude: coarsen(filters.near.longitude) },
+    }),
+  };
+}
+
+/**
+ * Records a search for analytics and returns its id, which clicks on
+ * "Connect" refer back to. Logging never fails a search: errors are logged
+ * and give null.
+ */
+export async function logSearch(
+  source: SearchSource,
+  { filters, page, cursor }: Pick<AdvocateQuery, "filters" | "page" | "cursor">,
+  resultCount: number,
+  latencyMs: number
+): Promise<number | null> {
+  const event: SearchEvent = {
+    source,
+    query: normalizeSearchQuery(filters.search),
+    filters: toLoggedFilters(filters),
+    resultCount,
+    latencyMs: Math.round(latencyMs),
+    ...(!cursor && { page }),
+  };
+
+  try {
+    return await recordSearchEvent(event);
+  } catch (error) {
+    console.error("Error recording search:", error);
+    return null;
+  }
+}
@@ -0,0 +1,43 @@
+import { parseInteger, type ParseResult, type ValidationIssue } from "./advocateFilters";
+import type { SearchReportQuery, SearchSource } from "../types/searchAnalytics";
+
+export const SEARCH_SOURCES: SearchSource[] = ["web", "api"];
+const DEFAULT_REPORT_DAYS = 30;
+const MAX_REPORT_DAYS = 365;
+const DEFAULT_REPORT_LIMIT = 20;
+const MAX_REPORT_LIMIT = 100;
+
+/** Parses GET /api/analytics/searches: `days` (default 30), `source` (web or api) and `limit` (default 20). */
+export function parseSearchReportQuery(params: URLSearchParams): ParseResult<SearchReportQuery> {
+  const issues: ValidationIssue[] = [];
+  const days = parseInteger(params, "days", issues, { min: 1, max: MAX_REPORT_DAYS }) ?? DEFAULT_REPORT_DAYS;
+  const limit = parseInteger(params, "limit", issues, { min: 1, max: MAX_REPORT_LIMIT }) ?? DEFAULT_REPORT_LIMIT;
+
+  const source = params.get("source") || undefined;
+  if (source !== undefined && !SEARCH_SOURCES.includes(source as SearchSource)) {
+    issues.push({ field: "source", message: `source must be one of ${SEARCH_SOURCES.join(", ")}` });
+  }
+
+  if (issues.length > 0) return { success: false, issues };
+  return { success: true, data: { days, limit, source: source as SearchSource | undefined } };
+}
+
+/**
+ * Validates a click on "Connect" for POST /api/analytics/searches/[id]/connects.
+ *
+ * @example
+ * parseSearchConnect({ advocateId: 42 });
+ */
+export function parseSearchConnect(body: unknown): ParseResult<{ advocateId: number }> {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { success: false, issues: [{ field: "body", message: "Request body must be a JSON object" }] };
+  }
+
+  const { advocateId, ...rest } = body as Record<string, unknown>;
+  const issues: ValidationIssue[] = Object.keys(rest).map((field) => ({ field, message: `Unknown field ${field}` }));
+  if (typeof advocateId !== "number" || !Number.isInteger(advocateId) || advocateId < 1) {
+    issues.push({ field: "advocateId", message: "advocateId must be a positive integer" });
+  }
+
+  return issues.length > 0 ? { success: false, issues } : { success: true, data: { advocateId: advocateId as number } };
+}
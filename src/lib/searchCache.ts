@@ -0,0 +1,100 @@
+import { createTtlCache } from "./ttlCache";
+
+/**
+ * Where cached search results live: a string key-value store with expiry,
+ * shaped after the Redis commands it needs (GET, SET with EX, INCR) so a
+ * Redis client can back it directly. The in-memory store suits a single
+ * process; several instances need a shared store so a write on one
+ * invalidates results cached by all of them.
+ */
+export interface CacheStore {
+  get(key: string): Promise<string | null>;
+  /** Stores `value` for `ttlSeconds` */
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+  /** Adds one to the counter at `key` (missing counts as 0) and returns the new value; counters never expire */
+  incr(key: string): Promise<number>;
+}
+
+// Cached results may lag writes made elsewhere (another instance with its own
+// memory store, or the seed script) by at most this long
+export const SEARCH_CACHE_SECONDS = 60;
+
+// Entries kept before the oldest are dropped from the in-memory store
+const MAX_MEMORY_ENTRIES = 5000;
+
+/**
+ * Keeps entries in a TtlCache in this process; counters are kept apart and
+ * never dropped.
+ */
+export function createMemoryCacheStore(
+  { maxEntries = MAX_MEMORY_ENTRIES }: { maxEntries?: number } = {},
+  now: () => number = Date.now
+): CacheStore {
+  const entries = createTtlCache<string>({ ttlMs: SEARCH_CACHE_SECONDS * 1000, maxEntries }, now);
+  const counters = new Map<string, number>();
+
+  return {
+    async get(key) {
+      return counters.get(key)?.toString() ?? entries.get(key) ?? null;
+    },
+    async set(key, value, ttlSeconds) {
+      entries.set(key, value, ttlSeconds * 1000);
+    },
+    async incr(key) {
+      const value = (counters.get(key) ?? 0) + 1;
+      counters.set(key, value);
+      return value;
+    },
+  };
+}
+
+// Bumped by every advocate write; cache keys embed it, so a write orphans all
+// earlier entries at once and they simply expire
+const GENERATION_KEY = "advocates:generation";
+
+let cacheStore: CacheStore = createMemoryCacheStore();
+
+/** Replaces the in-memory cache, e.g. with a shared store when running several instances. */
+export function setCacheStore(store: CacheStore): void {
+  cacheStore = store;
+}
+
+/**
+ * Returns the cached value for `key`, or loads, caches and returns it.
+ * Values round-trip through JSON, so Dates come back as ISO strings. The
+ * cache never fails a search: when the store is unreachable, errors are
+ * logged and the value is loaded directly.
+ *
+ * @example
+ * const total = await cachedSearch(`count:${filterKey}`, () => countAdvocates(conditions));
+ */
+export async function cachedSearch<T>(key: string, load: () => Promise<T>): Promise<T> {
+  let fullKey: string | null = null;
+  try {
+    const generation = (await cacheStore.get(GENERATION_KEY)) ?? "0";
+    fullKey = `advocates:${generation}:${key}`;
+    const hit = await cacheStore.get(fullKey);
+    if (hit !== null) return JSON.parse(hit) as T;
+  } catch (error) {
+    console.error("Error reading search cache:", error);
+  }
+
+  const value = await load();
+  if (fullKey !== null) {
+    try {
+      await cacheStore.set(fullKey, JSON.stringify(value), SEARCH_CACHE_SECONDS);
+    } catch (error) {
+      console.error("Error writing search cache:", error);
+    }
+  }
+  return value;
+}
+
+/** Drops every cached search result; called after each advocate write. */
+export async function invalidateSearchCache(): Promise<void> {
+  try {
+    await cacheStore.incr(GENERATION_KEY);
+  } catch (error) {
+    console.error("Error invalidating search cache:", error);
+  }
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { interpretSearch, removeSearchToken } from "./searchQuery";
+
+const GENERAL_MENTAL_HEALTH = "General Mental Health (anxiety, depression, stress, grief, life transitions)";
+
+// Kind, value and negation of each token, which is what the filters are built from
+const summarize = (query: string) =>
+  interpretSearch(query).tokens.map(({ kind, value, negated }) => ({ kind, value, negated }));
+
+describe("interpretSearch", () => {
+  it("reads degree, city, specialty and experience from a sentence", () => {
+    const { tokens, keywords } = interpretSearch("PhD in Chicago with trauma experience 10+ years");
+
+    expect(tokens.map(({ kind, value }) => [kind, value])).toEqual([
+      ["degree", "PhD"],
+      ["city", "Chicago"],
+      ["specialty", "Trauma & PTSD"],
+      ["experience", "10+ years"],
+    ]);
+    expect(tokens[3].minYears).toBe(10);
+    expect(tokens[3].maxYears).toBeUndefined();
+    expect(keywords).toBe("");
+  });
+
+  it("negates the term after not", () => {
+    expect(summarize("anxiety LGBTQ not MD")).toEqual([
+      { kind: "specialty", value: GENERAL_MENTAL_HEALTH, negated: false },
+      { kind: "specialty", value: "LGBTQ", negated: false },
+      { kind: "degree", value: "MD", negated: true },
+    ]);
+  });
+
+  it("negates a term prefixed with a dash", () => {
+    expect(summarize("-MD Chicago")).toEqual([
+      { kind: "degree", value: "MD", negated: true },
+      { kind: "city", value: "Chicago", negated: false },
+    ]);
+  });
+
+  it("ignores a dash standing alone", () => {
+    expect(summarize("anxiety - Chicago")).toEqual([
+      { kind: "specialty", value: GENERAL_MENTAL_HEALTH, negated: false },
+      { kind: "city", value: "Chicago", negated: false },
+    ]);
+    expect(interpretSearch("-").tokens).toEqual([]);
+  });
+
+  it("keeps quoted phrases as written", () => {
+    const { tokens, keywords } = interpretSearch('"life transitions" -"chronic pain"');
+
+    expect(tokens).toEqual([
+      { kind: "phrase", value: "life transitions", negated: false, text: '"life transitions"' },
+      { kind: "phrase", value: "chronic pain", negated: true, text: '-"chronic pain"' },
+    ]);
+    expect(keywords).toBe("life transitions");
+  });
+
+  it.each([
+    ["5-10 years", { minYears: 5, maxYears: 10 }],
+    ["10 to 5 yrs", { minYears: 5, maxYears: 10 }],
+    ["under 3 years", { maxYears: 2 }],
+    ["no more than 5 years", { maxYears: 5 }],
+    ["at least 4 years of experience", { minYears: 4 }],
+    ["more than 4 years", { minYears: 5 }],
+    ["10 years", { minYears: 10 }],
+  ])("reads %s as experience bounds", (query, bounds) => {
+    const [token] = interpretSearch(query).tokens;
+
+    expect(token.kind).toBe("experience");
+    expect({ minYears: token.minYears, maxYears: token.maxYears }).toEqual({
+      minYears: undefined,
+      maxYears: undefined,
+      ...bounds,
+    });
+  });
+
+  it("falls back to keywords for unknown words, merging neighbors", () => {
+    const { tokens, keywords } = interpretSearch("john smith in Chicago");
+
+    expect(tokens.map(({ kind, value }) => [kind, value])).toEqual([
+      ["keyword", "john smith"],
+      ["city", "Chicago"],
+    ]);
+    expect(keywords).toBe("john smith");
+  });
+
+  it("recognizes aliases and language names", () => {
+    expect(summarize("OCD Spanish-speaking")).toEqual([
+      { kind: "specialty", value: "Obsessive-compulsive disorders", negated: false },
+      { kind: "language", value: "Spanish", negated: false },
+    ]);
+  });
+
+  it("returns nothing for a blank query", () => {
+    expect(interpretSearch("   ")).toEqual({ tokens: [], keywords: "" });
+  });
+});
+
+describe("removeSearchToken", () => {
+  it("removes the token's text and tidies the spaces", () => {
+    const query = "PhD in Chicago not MD";
+    const negated = interpretSearch(query).tokens.find((token) => token.negated);
+
+    expect(negated).toBeDefined();
+    expect(removeSearchToken(query, negated!)).toBe("PhD in Chicago");
+    expect(removeSearchToken(query, { text: "Chicago" })).toBe("PhD in not MD");
+  });
+});
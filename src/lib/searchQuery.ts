@@ -0,0 +1,295 @@
+import { gazetteer } from "../db/seed/gazetteer";
+import { degrees, languages, specialties } from "../db/seed/taxonomy";
+import type { SearchInterpretation, SearchToken } from "../types/searchQuery";
+
+// Longest run of words looked up as one name ("Schizophrenia and psychotic disorders")
+const MAX_NAME_WORDS = 6;
+
+// Words that negate the term after them; a leading "-" does the same
+const NEGATIONS = new Set(["not", "no", "without", "excluding", "except"]);
+
+// Connecting words dropped between recognized terms ("PhD in Chicago with trauma experience")
+const STOPWORDS = new Set([
+  "a", "an", "and", "or", "the", "in", "at", "from", "with", "who", "for", "of", "on",
+  "experience", "experienced", "specializing", "specialist", "advocate", "advocates",
+  "speaks", "speaking", "speaker", "fluent",
+  "not", "no", "without", "excluding", "except",
+]);
+
+// Everyday words for specialties that their names do not contain
+const SPECIALTY_ALIASES: Record<string, string> = {
+  ocd: "Obsessive-compulsive disorders",
+  addiction: "Substance use/abuse",
+  "substance abuse": "Substance use/abuse",
+  suicide: "Suicide History/Attempts",
+  diabetes: "Diabetic Diet and nutrition",
+  diabetic: "Diabetic Diet and nutrition",
+  psychosis: "Schizophrenia and psychotic disorders",
+  schizophrenia: "Schizophrenia and psychotic disorders",
+  couples: "Relationship Issues (family, friends, couple, etc)",
+  children: "Pediatrics",
+  kids: "Pediatrics",
+};
+
+// Other names patients use for languages
+const LANGUAGE_ALIASES: Record<string, string> = {
+  asl: "American Sign Language",
+  "sign language": "American Sign Language",
+  creole: "Haitian Creole",
+  filipino: "Tagalog",
+};
+
+// Fragments of specialty names too generic to stand for one specialty on their
+// own ("nutrition" is also in "Diabetic Diet and nutrition")
+const GENERIC_FRAGMENTS = new Set(["etc", "abuse", "attempt", "testing", "nutrition"]);
+
+const UNIT = String.raw`(?:years?|yrs?)\b(?:\s+of\s+experience)?`;
+
+/**
+ * Years-of-experience phrases, tried in order; each match is removed before
+ * the next pattern runs, so "no more than 5 years" never reads as "more than 5".
+ * A bare "10 years" means at least 10, as it always has.
+ */
+const EXPERIENCE_PATTERNS: { pattern: RegExp; bounds: (match: RegExpExecArray) => Pick<SearchToken, "minYears" | "maxYears"> }[] = [
+  {
+    pattern: new RegExp(String.raw`\b(\d+)\s*(?:-|–|to)\s*(\d+)\s*${UNIT}`, "gi"),
+    bounds: (match) => {
+      const [a, b] = [parseInt(match[1], 10), parseInt(match[2], 10)];
+      return { minYears: Math.min(a, b), maxYears: Math.max(a, b) };
+    },
+  },
+  {
+    pattern: new RegExp(String.raw`\b(under|less than|fewer than|at most|up to|no more than|max(?:imum)?(?: of)?)\s+(\d+)\s*${UNIT}`, "gi"),
+    bounds: (match) => {
+      const years = parseInt(match[2], 10);
+      return { maxYears: /^(under|less|fewer)/i.test(match[1]) ? Math.max(years - 1, 0) : years };
+    },
+  },
+  {
+    pattern: new RegExp(String.raw`\b(at least|over|more than|min(?:imum)?(?: of)?)\s+(\d+)\+?\s*${UNIT}`, "gi"),
+    bounds: (match) => {
+      const years = parseInt(match[2], 10);
+      return { minYears: /^(over|more)/i.test(match[1]) ? years + 1 : years };
+    },
+  },
+  {
+    pattern: new RegExp(String.raw`\b(\d+)\s*\+(?:\s*${UNIT})?`, "gi"),
+    bounds: (match) => ({ minYears: parseInt(match[1], 10) }),
+  },
+  {
+    pattern: new RegExp(String.raw`\b(\d+)\s*${UNIT}`, "gi"),
+    bounds: (match) => ({ minYears: parseInt(match[1], 10) }),
+  },
+];
+
+type VocabularyEntry = Pick<SearchToken, "kind" | "value">;
+
+/**
+ * Lowercases, drops punctuation and trailing plural "s", so "Eating Disorders,"
+ * and "eating disorder" compare equal and "Ph.D." matches "PhD".
+ */
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[.'’]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 0)
+    .map((word) => (word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word))
+    .join(" ");
+}
+
+/**
+ * Builds the lookup of known names: degrees, gazetteer cities, languages
+ * (also as "Spanish-speaking"), and for each specialty its full name, its
+ * name without the parenthetical, the parts of names joined by "&" or "/"
+ * ("Trauma", "PTSD") and the items in parentheses ("anxiety", "ADHD"). A fragment shared by two specialties is
+ * ambiguous and left to keyword search.
+ */
+function buildVocabulary(): Map<string, VocabularyEntry> {
+  const names = new Map<string, VocabularyEntry>();
+  const fragments = new Map<string, VocabularyEntry | null>();
+
+  degrees.forEach((degree) => names.set(normalize(degree), { kind: "degree", value: degree }));
+  for (const language of languages) {
+    const entry: VocabularyEntry = { kind: "language", value: language };
+    [language, `${language} speaking`, `${language} speaker`].forEach((name) => names.set(normalize(name), entry));
+  }
+  gazetteer.forEach(({ city }) => names.set(normalize(city), { kind: "city", value: city }));
+
+  for (const name of specialties) {
+    const entry: VocabularyEntry = { kind: "specialty", value: name };
+    const base = name.replace(/\s*\(.*\)\s*/, " ").trim();
+    names.set(normalize(name), entry);
+    names.set(normalize(base), entry);
+
+    const parts = base.split(/\s*[&/]\s*/);
+    const listed = name.match(/\((.*)\)/)?.[1].split(",") ?? [];
+    for (const fragment of [...(parts.length > 1 ? parts : []), ...listed]) {
+      const key = normalize(fragment);
+      if (!key || GENERIC_FRAGMENTS.has(key)) continue;
+      const existing = fragments.get(key);
+      fragments.set(key, existing === undefined || existing?.value === name ? entry : null);
+    }
+  }
+
+  for (const [alias, name] of Object.entries(SPECIALTY_ALIASES)) {
+    names.set(normalize(alias), { kind: "specialty", value: name });
+  }
+  for (const [alias, language] of Object.entries(LANGUAGE_ALIASES)) {
+    names.set(normalize(alias), { kind: "language", value: language });
+  }
+  fragments.forEach((entry, key) => {
+    if (entry && !names.has(key)) names.set(key, entry);
+  });
+  return names;
+}
+
+let vocabulary: Map<string, VocabularyEntry> | undefined;
+
+interface Piece {
+  text: string;
+  start: number;
+  end: number;
+  /** Text inside quotes, for quoted phrases */
+  phrase?: string;
+  /** Prefixed with "-" */
+  minus: boolean;
+}
+
+interface PositionedToken extends SearchToken {
+  start: number;
+  end: number;
+}
+
+function experienceLabel({ minYears, maxYears }: Pick<SearchToken, "minYears" | "maxYears">): string {
+  if (minYears !== undefined && maxYears !== undefined) return `${minYears}–${maxYears} years`;
+  if (maxYears !== undefined) return `Up to ${maxYears} years`;
+  return `${minYears}+ years`;
+}
+
+/**
+ * Interprets a search box query as structured filters.
+ *
+ * Recognizes cities, degrees, specialties and spoken languages (by name,
+ * part of a name or a common alias), years-of-experience bounds
+ * ("10+ years", "5-10 yrs", "under 3 years"), quoted phrases, and negation
+ * with "not", "no", "without" or a leading "-". Connecting words are dropped
+ * and everything else is kept as keywords for fuzzy keyword search.
+ * Pure and shared by the API and the UI, so both read a query the same way.
+ *
+ * @example
+ * interpretSearch("PhD in Chicago with trauma experience 10+ years");
+ * // tokens: degree PhD, city Chicago, specialty "Trauma & PTSD", experience minYears 10
+ * interpretSearch('anxiety LGBTQ not MD "life transitions"');
+ * // tokens: specialty General Mental Health..., specialty LGBTQ, negated degree MD, phrase
+ */
+export function interpretSearch(query: string): SearchInterpretation {
+  vocabulary ??= buildVocabulary();
+  const tokens: PositionedToken[] = [];
+
+  // Pull out experience phrases first, blanking them so word scanning skips them
+  let remaining = query;
+  for (const { pattern, bounds } of EXPERIENCE_PATTERNS) {
+    pattern.lastIndex = 0;
+    for (let match = pattern.exec(remaining); match; match = pattern.exec(remaining)) {
+      const range = bounds(match);
+      const text = match[0].trim();
+      tokens.push({
+        kind: "experience",
+        value: experienceLabel(range),
+        negated: false,
+        text,
+        ...range,
+        start: match.index,
+        end: match.index + text.length,
+      });
+      remaining = remaining.slice(0, match.index) + " ".repeat(match[0].length) + remaining.slice(match.index + match[0].length);
+    }
+  }
+
+  const pieces: Piece[] = [];
+  for (const match of Array.from(remaining.matchAll(/(-?)"([^"]*)"?|\S+/g))) {
+    const start = match.index ?? 0;
+    const text = match[0];
+    // A dash standing alone negates nothing and is not a keyword
+    if (/^[-–—]+$/.test(text)) continue;
+    pieces.push(
+      match[2] !== undefined
+        ? { text, start, end: start + text.length, phrase: match[2].trim(), minus: match[1] === "-" }
+        : { text, start, end: start + text.length, minus: text.length > 1 && text.startsWith("-") }
+    );
+  }
+
+  for (let i = 0; i < pieces.length; ) {
+    const first = pieces[i];
+    let negated = first.minus;
+    if (!first.phrase && !first.minus && NEGATIONS.has(first.text.toLowerCase()) && i + 1 < pieces.length) {
+      negated = true;
+      i++;
+    }
+    const piece = pieces[i];
+    negated ||= piece.minus;
+
+    if (piece.phrase !== undefined) {
+      if (piece.phrase) {
+        tokens.push({ kind: "phrase", value: piece.phrase, negated, text: query.slice(first.start, piece.end), start: first.start, end: piece.end });
+      }
+      i++;
+      continue;
+    }
+
+    // Longest run of words that names something known
+    let matched = false;
+    for (let n = Math.min(MAX_NAME_WORDS, pieces.length - i); n >= 1 && !matched; n--) {
+      const run = pieces.slice(i, i + n);
+      if (run.some((word, index) => word.phrase !== undefined || (index > 0 && word.minus))) continue;
+      const entry = vocabulary.get(normalize(run.map((word) => word.text).join(" ")));
+      if (entry) {
+        const end = run[run.length - 1].end;
+        tokens.push({ ...entry, negated, text: query.slice(first.start, end), start: first.start, end });
+        i += n;
+        matched = true;
+      }
+    }
+    if (matched) continue;
+
+    const word = piece.minus ? piece.text.slice(1) : piece.text;
+    if (negated || !STOPWORDS.has(normalize(word))) {
+      tokens.push({ kind: "keyword", value: word, negated, text: query.slice(first.start, piece.end), start: first.start, end: piece.end });
+    }
+    i++;
+  }
+
+  tokens.sort((a, b) => a.start - b.start);
+
+  // Adjacent keywords read as one ("john smith", "(555) 987")
+  const merged: PositionedToken[] = [];
+  for (const token of tokens) {
+    const previous = merged[merged.length - 1];
+    if (previous && token.kind === "keyword" && previous.kind === "keyword" && !token.negated && !previous.negated) {
+      previous.end = token.end;
+      previous.text = query.slice(previous.start, previous.end);
+      previous.value = previous.text;
+    } else {
+      merged.push({ ...token });
+    }
+  }
+
+  const keywords = merged
+    .filter((token) => !token.negated && (token.kind === "keyword" || token.kind === "phrase"))
+    .map((token) => token.value)
+    .join(" ");
+
+  return { tokens: merged.map(({ start: _start, end: _end, ...token }) => token), keywords };
+}
+
+/**
+ * Removes one interpreted term from a query, e.g. when its chip is dismissed.
+ *
+ * @example
+ * removeSearchToken("PhD in Chicago", { text: "Chicago", ... }); // "PhD in"
+ */
+export function removeSearchToken(query: string, token: Pick<SearchToken, "text">): string {
+  return query.replace(token.text, " ").replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,107 @@
+import type { ParseResult, ValidationIssue } from "./advocateFilters";
+import type { ShortlistAdditions, ShortlistInput } from "../types/shortlist";
+
+const MAX_NAME_LENGTH = 100;
+const MAX_NOTE_LENGTH = 1000;
+export const MAX_SHORTLIST_ADVOCATES = 200;
+
+const isObject = (body: unknown): body is Record<string, unknown> =>
+  typeof body === "object" && body !== null && !Array.isArray(body);
+
+const notAnObject = { success: false as const, issues: [{ field: "body", message: "Request body must be a JSON object" }] };
+
+/** Records an issue for every field not in `allowed`, so typos are not silently ignored. */
+function rejectUnknownFields(input: Record<string, unknown>, allowed: string[], issues: ValidationIssue[]) {
+  for (const field of Object.keys(input)) {
+    if (!allowed.includes(field)) issues.push({ field, message: `Unknown field ${field}` });
+  }
+}
+
+function parseName(name: unknown, issues: ValidationIssue[]): string | undefined {
+  if (typeof name !== "string" || name.trim() === "" || name.trim().length > MAX_NAME_LENGTH) {
+    issues.push({ field: "name", message: `name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters` });
+    return undefined;
+  }
+  return name.trim();
+}
+
+// Duplicates are dropped so adding the same advocate twice is not an error
+function parseAdvocateIds(value: unknown, issues: ValidationIssue[], { allowEmpty }: { allowEmpty: boolean }): number[] {
+  if (
+    !Array.isArray(value) ||
+    (!allowEmpty && value.length === 0) ||
+    value.length > MAX_SHORTLIST_ADVOCATES ||
+    !value.every((id) => Number.isInteger(id) && id > 0)
+  ) {
+    const range = allowEmpty ? `at most ${MAX_SHORTLIST_ADVOCATES}` : `1 to ${MAX_SHORTLIST_ADVOCATES}`;
+    issues.push({ field: "advocateIds", message: `advocateIds must be an array of ${range} advocate ids` });
+    return [];
+  }
+  return Array.from(new Set(value as number[]));
+}
+
+/**
+ * Parses a note: a string of at most 1000 characters, or null to clear it.
+ * Blank notes are stored as null.
+ */
+function parseNote(note: unknown, issues: ValidationIssue[]): string | null {
+  if (note !== null && (typeof note !== "string" || note.length > MAX_NOTE_LENGTH)) {
+    issues.push({ field: "note", message: `note must be a string of at most ${MAX_NOTE_LENGTH} characters or null` });
+    return null;
+  }
+  return note?.trim() || null;
+}
+
+/**
+ * Validates a new shortlist for POST /api/shortlists, or with `partial: true`
+ * a rename for PATCH /api/shortlists/[id] (which takes only `name`).
+ *
+ * @example
+ * parseShortlistInput({ name: "Patient 4471", advocateIds: [12, 87] });
+ */
+export function parseShortlistInput(
+  body: unknown,
+  { partial = false }: { partial?: boolean } = {}
+): ParseResult<ShortlistInput> {
+  if (!isObject(body)) return notAnObject;
+
+  const issues: ValidationIssue[] = [];
+  rejectUnknownFields(body, partial ? ["name"] : ["name", "advocateIds"], issues);
+
+  const name = parseName(body.name, issues);
+  const advocateIds =
+    body.advocateIds === undefined ? undefined : parseAdvocateIds(body.advocateIds, issues, { allowEmpty: true });
+
+  if (issues.length > 0 || name === undefined) return { success: false, issues };
+  return { success: true, data: { name, ...(advocateIds && { advocateIds }) } };
+}
+
+/**
+ * Validates POST /api/shortlists/[id]/advocates: `{ advocateIds, note? }`.
+ * Without `note`, advocates already on the list keep theirs.
+ */
+export function parseShortlistAdditions(body: unknown): ParseResult<ShortlistAdditions> {
+  if (!isObject(body)) return notAnObject;
+
+  const issues: ValidationIssue[] = [];
+  rejectUnknownFields(body, ["advocateIds", "note"], issues);
+
+  const advocateIds = parseAdvocateIds(body.advocateIds, issues, { allowEmpty: false });
+  const note = body.note === undefined ? undefined : parseNote(body.note, issues);
+
+  if (issues.length > 0) return { success: false, issues };
+  return { success: true, data: { advocateIds, ...(note !== undefined && { note }) } };
+}
+
+/** Validates PATCH /api/shortlists/[id]/advocates/[advocateId]: `{ note }`. */
+export function parseShortlistNote(body: unknown): ParseResult<{ note: string | null }> {
+  if (!isObject(body)) return notAnObject;
+
+  const issues: ValidationIssue[] = [];
+  rejectUnknownFields(body, ["note"], issues);
+  if (!("note" in body)) issues.push({ field: "note", message: "note is required (null clears it)" });
+  const note = parseNote(body.note ?? null, issues);
+
+  if (issues.length > 0) return { success: false, issues };
+  return { success: true, data: { note } };
+}
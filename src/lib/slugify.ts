@@ -0,0 +1,12 @@
+/**
+ * Turns a display name into a stable URL-safe identifier.
+ *
+ * @example
+ * slugify("Trauma & PTSD"); // "trauma-ptsd"
+ */
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
@@ -0,0 +1,46 @@
+import type { ParseResult, ValidationIssue } from "./advocateFilters";
+import type { SpecialtyInput } from "../types/specialty";
+
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Validates a specialty for POST /api/specialties, or with `partial: true`
+ * a change for PATCH /api/specialties/[id]. `category` may be null to
+ * leave the specialty uncategorized.
+ *
+ * @example
+ * parseSpecialtyInput({ name: "Grief counseling", category: "Mental health" });
+ */
+export function parseSpecialtyInput(
+  body: unknown,
+  { partial = false }: { partial?: boolean } = {}
+): ParseResult<Partial<SpecialtyInput>> {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return { success: false, issues: [{ field: "body", message: "Request body must be a JSON object" }] };
+  }
+
+  const { name, category, ...rest } = body as Record<string, unknown>;
+  const issues: ValidationIssue[] = Object.keys(rest).map((field) => ({ field, message: `Unknown field ${field}` }));
+  const data: Partial<SpecialtyInput> = {};
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== "string" || name.trim() === "" || name.trim().length > MAX_NAME_LENGTH) {
+      issues.push({ field: "name", message: `name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters` });
+    } else {
+      data.name = name.trim();
+    }
+  }
+  if (category !== undefined) {
+    if (category !== null && (typeof category !== "string" || category.trim().length > MAX_NAME_LENGTH)) {
+      issues.push({ field: "category", message: `category must be a string of at most ${MAX_NAME_LENGTH} characters or null` });
+    } else {
+      data.category = category?.trim() || null;
+    }
+  }
+
+  if (partial && issues.length === 0 && Object.keys(data).length === 0) {
+    issues.push({ field: "body", message: "At least one field must be provided" });
+  }
+
+  return issues.length > 0 ? { success: false, issues } : { success: true, data };
+}
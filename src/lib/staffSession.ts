@@ -0,0 +1,16 @@
+import { cookies } from "next/headers";
+import { findApiKeyBySecret } from "../db/queries/apiKeys";
+import { hasScope, SESSION_COOKIE } from "./apiAccess";
+import type { ApiKey } from "../types/apiAccess";
+
+/**
+ * Returns the signed-in staff member's key for a server component, or null
+ * when there is no session or its key was revoked or lacks the staff scope.
+ */
+export async function getStaffSession(): Promise<ApiKey | null> {
+  const secret = cookies().get(SESSION_COOKIE)?.value;
+  if (!secret) return null;
+
+  const apiKey = await findApiKeyBySecret(secret);
+  return apiKey && hasScope(apiKey, "staff") ? apiKey : null;
+}
@@ -0,0 +1,37 @@
+/** A bounded cache whose entries expire `ttlMs` after they are set. */
+export interface TtlCache<T> {
+  get(key: string): T | undefined;
+  /** Stores `value` for `ttlMs`, or the cache's own TTL when omitted */
+  set(key: string, value: T, ttlMs?: number): void;
+}
+
+/**
+ * Keeps entries in a Map in this process. Past `maxEntries`, the oldest
+ * entry is dropped first (Maps iterate in insertion order).
+ */
+export function createTtlCache<T>(
+  { ttlMs, maxEntries }: { ttlMs: number; maxEntries: number },
+  now: () => number = Date.now
+): TtlCache<T> {
+  const entries = new Map<string, { value: T; expiresAt: number }>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.value;
+    },
+    set(key, value, entryTtlMs = ttlMs) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: now() + entryTtlMs });
+      if (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest !== undefined) entries.delete(oldest);
+      }
+    },
+  };
+}
@@ -1,15 +1,203 @@
+import type { Plan } from "./plan";
+import type { SearchInterpretation } from "./searchQuery";
+
 export interface Advocate {
   id?: number;
   firstName: string;
   lastName: string;
   city: string;
+  state?: string;
+  zip?: string;
+  latitude?: number;
+  longitude?: number;
   degree: string;
   specialties: string[];
+  /** Spoken languages; only returned to clients that ask for them (`include=languages`) */
+  languages?: AdvocateLanguage[];
+  /** Plans the advocate accepts; only returned to clients that ask for them (`include=plans`) */
+  plans?: Plan[];
   yearsOfExperience: number;
-  phoneNumber: number;
+  /** E.164, e.g. "+15559873456" */
+  phoneNumber: string;
+  phoneExtension?: string;
+  /** Display form, e.g. "(555) 987-3456 ext. 12"; derived on read */
+  phoneDisplay?: string;
   createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * How well an advocate speaks a language, strongest first:
+ * - "native": first language
+ * - "fluent": can hold any appointment in it
+ * - "conversational": everyday conversation, may need help with clinical terms
+ */
+export type LanguageProficiency = "native" | "fluent" | "conversational";
+
+export interface AdvocateLanguage {
+  /** Canonical name from the language list, e.g. "Spanish" */
+  language: string;
+  proficiency: LanguageProficiency;
+}
+
+/** Optional parts of an advocate that clients request with `include=`. */
+export type AdvocateInclude = "languages" | "plans";
+
+/**
+ * Writable advocate fields, as accepted by POST and PATCH.
+ * State and coordinates are derived from city and ZIP, the display phone
+ * from the phone number. A null extension clears it. Accepted plans are set
+ * separately, through /api/advocates/:id/plans.
+ */
+export type AdvocateInput = Omit<
+  Advocate,
+  "id" | "createdAt" | "updatedAt" | "state" | "latitude" | "longitude" | "phoneDisplay" | "phoneExtension" | "plans"
+> & { phoneExtension?: string | null };
+
+/**
+ * One change applied to many advocates by POST /api/advocates/bulk:
+ * - "deactivate": soft-delete them
+ * - "addSpecialty": add a specialty to those who lack it
+ * - "setCity": move them to another city (their ZIPs are cleared)
+ */
+export type AdvocateBulkChange =
+  | { action: "deactivate" }
+  | { action: "addSpecialty"; specialty: string }
+  | { action: "setCity"; city: string };
+
+export type AdvocateBulkRequest = AdvocateBulkChange & { ids: number[] };
+
+/**
+ * An advocate returned from a search, with its relevance score (higher is
+ * more relevant; omitted when the search has no text to rank by).
+ */
+export interface RankedAdvocate extends Advocate {
+  relevance?: number;
+  /** Miles from the `near` point; present only for proximity searches */
+  distanceMiles?: number;
+}
+
+/**
+ * How GET /api/advocates counts matches:
+ * - "exact": always count (the default)
+ * - "approximate": use the table's row estimate for large unfiltered searches
+ */
+export type CountMode = "exact" | "approximate";
+
+/** Response of GET /api/advocates (and the server-rendered home page). */
+export interface AdvocateSearchResponse {
+  data: RankedAdvocate[];
+  total: number;
+  /** Set when `total` (and so `totalPages`) is an estimate; only with count=approximate */
+  totalIsApproximate?: true;
+  /** Null in cursor mode, where pages are not numbered */
+  page: number | null;
+  limit: number;
+  totalPages: number;
+  nextCursor: string | null;
+  filters: AdvocateFilters;
+  sort: AdvocateSort;
+  facets: AdvocateFacets;
+  /** How the search box text was read; null without a search */
+  interpretation: SearchInterpretation | null;
 }
 
 export interface AdvocatesResponse {
   data: Advocate[];
 }
+
+/**
+ * How a multi-value specialty filter is applied:
+ * - "any": advocate has at least one of the requested specialties
+ * - "all": advocate has every requested specialty
+ */
+export type SpecialtyMatch = "any" | "all";
+
+/**
+ * Structured filters accepted by GET /api/advocates.
+ * Every populated field narrows the result set (filters combine with AND).
+ */
+export interface AdvocateFilters {
+  search?: string;
+  cities: string[];
+  degrees: string[];
+  specialties: string[];
+  specialtyMatch: SpecialtyMatch;
+  /** Speaks any of these languages */
+  languages?: string[];
+  /** Minimum proficiency in the requested languages; any level when omitted */
+  proficiency?: LanguageProficiency;
+  /** Accepts any of these plans (catalog slugs) */
+  plans?: string[];
+  minYears?: number;
+  maxYears?: number;
+  near?: ProximityFilter;
+}
+
+/** Center point and radius for "within N miles of" searches. */
+export interface ProximityFilter {
+  latitude: number;
+  longitude: number;
+  /** Set when the center was given as a ZIP code */
+  zip?: string;
+  radiusMiles: number;
+}
+
+/** A single facet option with the number of matching advocates. */
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+/** A years-of-experience range with the number of matching advocates. */
+export interface ExperienceFacet {
+  key: string;
+  label: string;
+  minYears: number;
+  maxYears?: number;
+  count: number;
+}
+
+/**
+ * Facet aggregations returned alongside search results.
+ * Counts are computed over the same conditions as the result set.
+ */
+export interface AdvocateFacets {
+  cities: FacetCount[];
+  degrees: FacetCount[];
+  specialties: FacetCount[];
+  experience: ExperienceFacet[];
+  /** Advocates per spoken language at any level; only with `include=languages` */
+  languages?: FacetCount[];
+}
+
+/** A typeahead completion; `count` is the number of active advocates it matches. */
+export interface Suggestion extends FacetCount {
+  /** Set on a name suggestion that matches exactly one advocate */
+  advocateId?: number;
+}
+
+/** GET /api/advocates/suggest: completions for `query`, grouped by what they filter on. */
+export interface AdvocateSuggestions {
+  query: string;
+  names: Suggestion[];
+  cities: Suggestion[];
+  degrees: Suggestion[];
+  specialties: Suggestion[];
+}
+
+export type AdvocateSortField =
+  | "lastName"
+  | "city"
+  | "yearsOfExperience"
+  | "createdAt"
+  | "relevance"
+  | "distance";
+
+export type SortOrder = "asc" | "desc";
+
+/** Result ordering; ties are always broken on id in the same direction. */
+export interface AdvocateSort {
+  field: AdvocateSortField;
+  order: SortOrder;
+}
@@ -0,0 +1,64 @@
+/**
+ * What an API key may do:
+ * - "read": search, export and read advocates, and read the key's saved
+ *   searches and shortlists
+ * - "write": create, update, delete and import advocates, manage their
+ *   availability and bookings, and change saved searches and shortlists
+ * - "staff": read and write, plus the /admin dashboard, the specialty taxonomy
+ *   and search analytics
+ * - "admin": everything, plus seeding, API keys and the audit log
+ */
+export type ApiScope = "read" | "write" | "staff" | "admin";
+
+/** An API key as listed by GET /api/keys; the key itself is never stored. */
+export interface ApiKey {
+  id: number;
+  name: string;
+  /** First characters of the key, to tell keys apart ("sk_3f9a1c2b") */
+  prefix: string;
+  scopes: ApiScope[];
+  createdAt?: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+}
+
+/** Returned once by POST /api/keys: the new key and its secret. */
+export interface CreatedApiKey {
+  data: ApiKey;
+  key: string;
+}
+
+export interface ApiKeyInput {
+  name: string;
+  scopes: ApiScope[];
+}
+
+export type AuditAction = "read" | "export" | "create" | "update" | "delete" | "bulk" | "import" | "seed";
+
+/** One row of the append-only audit log. */
+export interface AuditEntry {
+  id: number;
+  occurredAt: Date;
+  /** "key:12" for API keys, "ip:203.0.113.7" for anonymous callers */
+  actor: string;
+  apiKeyId?: number;
+  action: AuditAction;
+  method: string;
+  /** Path and query string, e.g. "/api/advocates?search=trauma" */
+  path: string;
+  status: number;
+  /** Advocates read or changed; empty when the request did not name them (exports, seeding) */
+  advocateIds: number[];
+  /** JSON body of a change (the fields set by a PATCH, a bulk action); absent for reads and imports */
+  changes?: Record<string, unknown>;
+}
+
+/** Filters accepted by GET /api/audit. */
+export interface AuditQuery {
+  advocateId?: number;
+  actor?: string;
+  action?: AuditAction;
+  /** Only entries older than this id (the previous page's `nextBefore`) */
+  before?: number;
+  limit: number;
+}
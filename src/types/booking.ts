@@ -0,0 +1,65 @@
+/**
+ * A recurring weekly window in which an advocate takes appointments.
+ * Times are wall-clock "HH:MM" in `timezone`, so a 09:00 window stays at
+ * 09:00 local time across daylight saving changes.
+ */
+export interface AvailabilityWindow {
+  id?: number;
+  /** 0 = Sunday ... 6 = Saturday */
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  /** IANA time zone, e.g. "America/Chicago" */
+  timezone: string;
+  /** Length of each bookable slot within the window */
+  slotMinutes: number;
+}
+
+/** An advocate's full weekly schedule, as accepted by PUT .../availability. */
+export interface AvailabilityInput {
+  timezone: string;
+  slotMinutes: number;
+  windows: Pick<AvailabilityWindow, "dayOfWeek" | "startTime" | "endTime">[];
+}
+
+/** A bookable slot; times are ISO 8601 instants in UTC. */
+export interface Slot {
+  startsAt: string;
+  endsAt: string;
+}
+
+/**
+ * Booking lifecycle:
+ * - "requested": the patient asked for the slot; it is held for them
+ * - "confirmed": the advocate accepted
+ * - "cancelled": released by either side; the slot opens up again
+ */
+export type BookingStatus = "requested" | "confirmed" | "cancelled";
+
+export interface Booking {
+  id: number;
+  advocateId: number;
+  startsAt: Date;
+  endsAt: Date;
+  status: BookingStatus;
+  patientName: string;
+  patientEmail: string;
+  note?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/** Returned once by POST .../bookings: the booking and the patient's token for it. */
+export interface CreatedBooking {
+  data: Booking;
+  /** Send as X-Booking-Token to view or cancel the booking; only its hash is stored */
+  token: string;
+}
+
+/** Fields a patient supplies when requesting a slot. */
+export interface BookingRequest {
+  startsAt: Date;
+  patientName: string;
+  patientEmail: string;
+  note?: string;
+}
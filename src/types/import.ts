@@ -0,0 +1,35 @@
+import type { ValidationIssue } from "../lib/advocateFilters";
+
+/**
+ * What an import does with one row:
+ * - "insert": a new advocate
+ * - "update": replaces the details of the active advocate with the same name and phone number
+ * - "skip": the row has errors and is not written
+ */
+export type ImportAction = "insert" | "update" | "skip";
+
+export interface ImportRowResult {
+  /** Spreadsheet row number for CSV (the header is row 1); 1-based position for JSON */
+  row: number;
+  action: ImportAction;
+  /** Id of the inserted or updated advocate; in a dry run, only known for updates */
+  id?: number;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+export interface ImportSummary {
+  total: number;
+  inserted: number;
+  updated: number;
+  skipped: number;
+}
+
+/** Response of POST /api/advocates/import. */
+export interface ImportReport {
+  dryRun: boolean;
+  summary: ImportSummary;
+  /** File-level warnings, e.g. ignored CSV columns */
+  warnings: ValidationIssue[];
+  rows: ImportRowResult[];
+}
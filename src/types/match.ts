@@ -0,0 +1,53 @@
+import type { Advocate } from "./advocate";
+
+/**
+ * How much a needed specialty matters:
+ * - "required": advocates without it are not considered
+ * - "high" / "medium" / "low": weighs into the specialty score
+ */
+export type SpecialtyPriority = "required" | "high" | "medium" | "low";
+
+export interface NeededSpecialty {
+  name: string;
+  priority: SpecialtyPriority;
+}
+
+/** Where the patient would like their advocate to be. */
+export interface LocationPreference {
+  city?: string;
+  /** Center point resolved from a ZIP or "lat,lng" */
+  near?: { latitude: number; longitude: number; zip?: string; radiusMiles: number };
+}
+
+/** A patient's needs, as accepted by POST /api/advocates/match. */
+export interface PatientProfile {
+  specialties: NeededSpecialty[];
+  location?: LocationPreference;
+  minYears?: number;
+  /** Acceptable degrees, most preferred first */
+  degrees: string[];
+}
+
+export type MatchFactor = "specialties" | "location" | "experience" | "degree";
+
+/** Relative importance of each factor; normalized over the factors that apply. */
+export type MatchWeights = Record<MatchFactor, number>;
+
+export interface FactorScore {
+  /** How well the advocate satisfies this factor, from 0 to 1 */
+  score: number;
+  /** Normalized weight of the factor in this match (0 when it does not apply) */
+  weight: number;
+  /** Points contributed to the overall score (score × weight × 100) */
+  points: number;
+  /** Plain-language reason, e.g. "3.2 miles away" */
+  reason: string;
+}
+
+export interface AdvocateMatch {
+  advocate: Advocate;
+  /** Overall score from 0 to 100 */
+  score: number;
+  breakdown: Record<MatchFactor, FactorScore>;
+  explanation: string;
+}
@@ -0,0 +1,24 @@
+/**
+ * Kinds of coverage an advocate can accept:
+ * - "original_medicare": Parts A and B, billed to Medicare directly
+ * - "medicare_advantage": private Part C plans (HMO, PPO)
+ * - "medigap": Medicare Supplement plans, which pay after Original Medicare
+ * - "medicaid": state Medicaid programs
+ * - "dual_eligible": Special Needs Plans for people with Medicare and Medicaid
+ */
+export type PlanType = "original_medicare" | "medicare_advantage" | "medigap" | "medicaid" | "dual_eligible";
+
+/** An insurance plan in the payer catalog. */
+export interface Plan {
+  id: number;
+  /** Stable identifier used by the `plan` search filter */
+  slug: string;
+  name: string;
+  payer: string;
+  type: PlanType;
+}
+
+/** A plan with the number of active advocates who accept it. */
+export interface PlanWithCount extends Plan {
+  advocateCount: number;
+}
@@ -0,0 +1,22 @@
+/** A named search a coordinator re-runs, owned by one API key. */
+export interface SavedSearch {
+  id: number;
+  name: string;
+  /**
+   * Query string for GET /api/advocates, without paging
+   * ("search=trauma&city=Fort+Worth")
+   */
+  query: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+  /** When the search was last run through its results endpoint; null if never */
+  lastViewedAt: Date | null;
+  /** Matching advocates added since the search was last viewed (or saved) */
+  newMatches: number;
+}
+
+/** Accepted by POST /api/saved-searches; PATCH takes any subset. */
+export interface SavedSearchInput {
+  name: string;
+  query: string;
+}
@@ -0,0 +1,77 @@
+import type { AdvocateFilters } from "./advocate";
+
+/** Where a search came from: the home page ("web") or GET /api/advocates ("api"). */
+export type SearchSource = "web" | "api";
+
+/**
+ * Filters of a logged search, without the free text (logged separately as
+ * `query`) and with proximity coarsened to the ZIP code or to about 10 km.
+ */
+export type LoggedSearchFilters = Omit<AdvocateFilters, "search">;
+
+/** One search as recorded for analytics; nothing in it identifies the searcher. */
+export interface SearchEvent {
+  source: SearchSource;
+  /** Lowercased free text with emails and phone numbers masked; "" for a search without text */
+  query: string;
+  filters: LoggedSearchFilters;
+  resultCount: number;
+  latencyMs: number;
+  /** Page number for offset pagination; absent when paging by cursor */
+  page?: number;
+}
+
+/** Parameters of GET /api/analytics/searches. */
+export interface SearchReportQuery {
+  /** Report on the last this many days */
+  days: number;
+  /** Only searches from this source; both by default */
+  source?: SearchSource;
+  /** Rows per list */
+  limit: number;
+}
+
+export interface SearchQueryStats {
+  query: string;
+  searches: number;
+  averageResults: number;
+  /** Deepest page reached for this query */
+  maxPage: number | null;
+  /** Share of these searches followed by a click on "Connect" (0 to 1) */
+  connectRate: number;
+}
+
+export interface ZeroResultSearch {
+  query: string;
+  filters: LoggedSearchFilters;
+  searches: number;
+  lastSearchedAt: Date;
+}
+
+export interface SlowSearch {
+  query: string;
+  filters: LoggedSearchFilters;
+  searches: number;
+  averageLatencyMs: number;
+  maxLatencyMs: number;
+}
+
+/** Returned by GET /api/analytics/searches. */
+export interface SearchReport {
+  from: Date;
+  to: Date;
+  summary: {
+    searches: number;
+    zeroResultSearches: number;
+    p50LatencyMs: number | null;
+    p95LatencyMs: number | null;
+    /** Share of searches followed by at least one click on "Connect" (0 to 1) */
+    connectRate: number;
+  };
+  /** Most frequent free-text queries */
+  topQueries: SearchQueryStats[];
+  /** Most frequent query and filter combinations that found nobody */
+  zeroResultQueries: ZeroResultSearch[];
+  /** Query and filter combinations with the highest average latency */
+  slowQueries: SlowSearch[];
+}
@@ -0,0 +1,28 @@
+/**
+ * What part of a search box query was understood as:
+ * - "city", "degree", "specialty", "language": a known value from the directory's vocabulary
+ * - "experience": a years-of-experience bound such as "10+ years"
+ * - "phrase": a quoted phrase that must appear as written
+ * - "keyword": anything else, matched by the fuzzy keyword search
+ */
+export type SearchTokenKind = "city" | "degree" | "specialty" | "language" | "experience" | "phrase" | "keyword";
+
+export interface SearchToken {
+  kind: SearchTokenKind;
+  /** Canonical value, e.g. "Trauma & PTSD" for "trauma"; the words themselves for keywords */
+  value: string;
+  /** "not MD", "-anxiety", "without trauma" */
+  negated: boolean;
+  /** The text as typed, including any negation word, so a chip can remove it from the query */
+  text: string;
+  /** Experience bounds; only set on "experience" tokens */
+  minYears?: number;
+  maxYears?: number;
+}
+
+/** A search box query broken into structured filters and leftover keywords. */
+export interface SearchInterpretation {
+  tokens: SearchToken[];
+  /** Non-negated keywords and phrases joined with spaces, for relevance ranking ("" when none) */
+  keywords: string;
+}
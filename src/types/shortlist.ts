@@ -0,0 +1,35 @@
+import type { Advocate } from "./advocate";
+
+/** A named list of advocates a coordinator is considering, owned by one API key. */
+export interface Shortlist {
+  id: number;
+  name: string;
+  advocateCount: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface ShortlistEntry {
+  advocateId: number;
+  note: string | null;
+  addedAt?: Date;
+  /** Null once the advocate is deactivated; the entry stays so the note is not lost */
+  advocate: Advocate | null;
+}
+
+/** GET /api/shortlists/[id]: a shortlist and its entries, oldest first. */
+export interface ShortlistWithEntries extends Shortlist {
+  entries: ShortlistEntry[];
+}
+
+/** Accepted by POST /api/shortlists; `advocateIds` optionally fills it at once. */
+export interface ShortlistInput {
+  name: string;
+  advocateIds?: number[];
+}
+
+/** Accepted by POST /api/shortlists/[id]/advocates. */
+export interface ShortlistAdditions {
+  advocateIds: number[];
+  note?: string | null;
+}
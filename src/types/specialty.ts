@@ -0,0 +1,17 @@
+export interface Specialty {
+  id: number;
+  slug: string;
+  name: string;
+  category: string | null;
+}
+
+/** A specialty with the number of active advocates who offer it. */
+export interface SpecialtyWithCount extends Specialty {
+  advocateCount: number;
+}
+
+/** Accepted by POST /api/specialties; PATCH takes any subset. */
+export interface SpecialtyInput {
+  name: string;
+  category?: string | null;
+}